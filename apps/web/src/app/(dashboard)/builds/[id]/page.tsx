@@ -14,6 +14,10 @@ interface Build {
   artifactKey?: string;
   sandboxId?: string;
   outputUrl?: string;
+  reportFiles?: string[];
+  pauseReason?: string | null;
+  budgetUsd?: number | null;
+  budgetTokens?: number | null;
   progress: {
     completed: number;
     total: number;
@@ -106,6 +110,10 @@ export default function BuildDetailPage() {
     artifactKey: build.artifactKey,
     sandboxId: build.sandboxId,
     outputUrl: build.outputUrl,
+    reportFiles: build.reportFiles,
+    pauseReason: build.pauseReason,
+    budgetUsd: build.budgetUsd,
+    budgetTokens: build.budgetTokens,
     progress: {
       completed: build.progress.completed,
       total: build.progress.total,
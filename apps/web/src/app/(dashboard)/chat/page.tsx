@@ -93,6 +93,7 @@ export default function ChatPage() {
   
   // Review gates state
   const [reviewGatesEnabled, setReviewGatesEnabled] = useState(false);
+  const [harnessId, setHarnessId] = useState('coding');
 
   // Track if we've initialized from URL
   const initializedRef = useRef(false);
@@ -532,12 +533,16 @@ export default function ChatPage() {
         body: JSON.stringify({
           appSpec,
           projectId,
-          harnessId: 'coding',
-          sandboxProvider: 'e2b',
+          harnessId,
+          // Files attached in the chat become the build's sources
+          sources: messages
+            .flatMap((message) => message.attachments ?? [])
+            .filter((attachment) => attachment.storageKey)
+            .map(({ name, storageKey, type, size }) => ({ name, storageKey, type, size })),
           complexityTier,
           targetFeatureCount,
           complexityInferred,
-          reviewGatesEnabled: useReviewGates ?? reviewGatesEnabled,
+          reviewGatesEnabled: harnessId === 'coding' && (useReviewGates ?? reviewGatesEnabled),
         }),
       });
 
@@ -783,6 +788,8 @@ export default function ChatPage() {
                 isBuilding={isBuilding}
                 reviewGatesEnabled={reviewGatesEnabled}
                 onReviewGatesChange={setReviewGatesEnabled}
+                harnessId={harnessId}
+                onHarnessChange={setHarnessId}
               />
             ) : (
               <>
@@ -11,7 +11,14 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { ensureUser } from '@/lib/auth';
 import { extractAppName } from '@/lib/utils/extract-spec';
-import { listBuilds, countBuilds, listAppSpecs } from '@repo/database';
+import { formatCost } from '@/lib/utils';
+import {
+  listBuilds,
+  countBuilds,
+  listAppSpecs,
+  getBuildCosts,
+  getUserUsageReport,
+} from '@repo/database';
 
 function getStatusBadge(status: string) {
   switch (status) {
@@ -63,14 +70,20 @@ export default async function DashboardPage() {
   // Get user and their builds
   const { userId } = await ensureUser();
   
-  // Fetch build data and recent specs
-  const [recentBuilds, totalCount, completedCount, runningCount, recentSpecs] = await Promise.all([
-    listBuilds({ userId, limit: 5 }),
-    countBuilds({ userId }),
-    countBuilds({ userId, status: 'COMPLETED' }),
-    countBuilds({ userId, status: 'RUNNING' }),
-    listAppSpecs({ userId, limit: 3 }),
-  ]);
+  const thirtyDaysAgo = new Date();
+  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+  // Fetch build data, recent specs and model spend
+  const [recentBuilds, totalCount, completedCount, runningCount, recentSpecs, usage] =
+    await Promise.all([
+      listBuilds({ userId, limit: 5 }),
+      countBuilds({ userId }),
+      countBuilds({ userId, status: 'COMPLETED' }),
+      countBuilds({ userId, status: 'RUNNING' }),
+      listAppSpecs({ userId, limit: 3 }),
+      getUserUsageReport(userId, { since: thirtyDaysAgo }),
+    ]);
+  const buildCosts = await getBuildCosts(recentBuilds.map((b) => b.id));
 
   // Calculate "this week" count
   const oneWeekAgo = new Date();
@@ -84,6 +97,7 @@ export default async function DashboardPage() {
     { label: 'Completed', value: completedCount },
     { label: 'Running', value: runningCount },
     { label: 'This Week', value: thisWeekBuilds },
+    { label: 'Spend (30 Days)', value: formatCost(usage.totals.costUsd) },
   ];
 
   // Transform builds for display
@@ -93,6 +107,7 @@ export default async function DashboardPage() {
     status: build.status,
     createdAt: new Date(build.createdAt),
     progress: (build.progress as { completed: number; total: number }) || { completed: 0, total: 0 },
+    cost: buildCosts[build.id] as number | undefined,
   }));
 
   // Get most recent spec for quick action
@@ -117,7 +132,7 @@ export default async function DashboardPage() {
       </div>
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-5">
         {stats.map((stat) => (
           <Card key={stat.label}>
             <CardHeader className="pb-2">
@@ -179,6 +194,7 @@ export default async function DashboardPage() {
                       <p className="text-sm text-muted-foreground">
                         {build.progress.completed} / {build.progress.total} features
                         • {formatRelativeTime(build.createdAt)}
+                        {build.cost !== undefined && ` • ${formatCost(build.cost)}`}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface SecurityAuditReport {
+  days: number;
+  allowed: number;
+  blocked: number;
+  builds: number;
+  harnesses: Array<{ harnessId: string; allowed: number; blocked: number }>;
+  topRules: Array<{ rule: string; count: number }>;
+  topBlockedCommands: Array<{ command: string; count: number }>;
+}
+
+const WINDOWS = [7, 30, 90];
+
+function formatPercent(part: number, total: number) {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '-';
+}
+
+export default function SecurityPage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<SecurityAuditReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/security-audit?days=${days}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load the security report');
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setReport(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load the security report');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const selectWindow = (window: number) => {
+    if (window === days) return;
+    setIsLoading(true);
+    setDays(window);
+  };
+
+  const total = report ? report.allowed + report.blocked : 0;
+  const stats = report
+    ? [
+        { label: 'Tool Calls Checked', value: total },
+        { label: 'Blocked', value: report.blocked },
+        { label: 'Block Rate', value: formatPercent(report.blocked, total) },
+        { label: 'Builds', value: report.builds },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <ShieldCheck className="h-7 w-7" />
+            Security
+          </h1>
+          <p className="text-muted-foreground">
+            How the harness security policies treated your agents&apos; commands
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading && report && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+          <div className="flex rounded-lg bg-muted p-1">
+            {WINDOWS.map((window) => (
+              <button
+                key={window}
+                onClick={() => selectWindow(window)}
+                className={`rounded px-3 py-1 text-sm transition-colors ${
+                  days === window
+                    ? 'bg-background text-foreground shadow'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {window}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {!report ? (
+        <div className="grid gap-4 md:grid-cols-4">
+          {[0, 1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-28" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Stats */}
+          <div className="grid gap-4 md:grid-cols-4">
+            {stats.map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{stat.label}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-3xl font-bold">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Rules */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Blocking Rules</CardTitle>
+                <CardDescription>
+                  An <code>allowlist:</code> rule that fires often may be a command the harness
+                  should allow
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.topRules.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing was blocked.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {report.topRules.map(({ rule, count }) => (
+                      <div key={rule} className="flex items-center justify-between gap-4 text-sm">
+                        <code className="truncate rounded bg-muted px-1.5 py-0.5">{rule}</code>
+                        <span className="font-medium">{count}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Commands */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Most Blocked Commands</CardTitle>
+                <CardDescription>Commands agents were refused most often</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.topBlockedCommands.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing was blocked.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {report.topBlockedCommands.map(({ command, count }) => (
+                      <div
+                        key={command}
+                        className="flex items-center justify-between gap-4 text-sm"
+                      >
+                        <code className="truncate font-mono text-xs" title={command}>
+                          {command}
+                        </code>
+                        <span className="font-medium">{count}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Harnesses */}
+          <Card>
+            <CardHeader>
+              <CardTitle>By Harness</CardTitle>
+              <CardDescription>Decisions for each harness&apos;s security policy</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.harnesses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No tool calls were checked in the last {report.days} days.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {report.harnesses.map((harness) => (
+                    <div
+                      key={harness.harnessId}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="font-medium">{harness.harnessId}</span>
+                      <span className="text-muted-foreground">
+                        {harness.allowed} allowed · {harness.blocked} blocked (
+                        {formatPercent(harness.blocked, harness.allowed + harness.blocked)})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { Settings, Bell, User, Shield, Palette, Key } from 'lucide-react';
+import { SandboxProviderSettings } from '@/components/settings/sandbox-provider-settings';
+import { BuildBudgetSettings } from '@/components/settings/build-budget-settings';
 
 export default function SettingsPage() {
   const settingsSections = [
@@ -23,6 +25,9 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      <SandboxProviderSettings />
+      <BuildBudgetSettings />
+
       <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 p-4">
         <div className="flex items-start gap-3">
           <div className="rounded-full bg-amber-500/20 p-2">
@@ -31,7 +36,7 @@ export default function SettingsPage() {
           <div>
             <h3 className="font-medium text-amber-400">Coming Soon</h3>
             <p className="text-sm text-zinc-400">
-              Settings functionality is currently under development. Check back soon for profile management, 
+              More settings are currently under development. Check back soon for profile management, 
               API key configuration, and customization options.
             </p>
           </div>
@@ -80,7 +80,6 @@ export default function WizardPage() {
         body: JSON.stringify({
           appSpec: generatedSpec,
           harnessId: 'coding',
-          sandboxProvider: 'e2b',
         }),
       });
 
@@ -13,7 +13,7 @@
 import { NextResponse } from 'next/server';
 import { ensureUser } from '@/lib/auth';
 import { getBuildById, updateBuild } from '@repo/database';
-import { e2bProvider } from '@repo/sandbox-providers';
+import { getBuildSandbox } from '@/lib/sandbox/providers';
 import { BuildStatus } from '@prisma/client';
 
 interface RouteParams {
@@ -61,7 +61,7 @@ export async function POST(request: Request, { params }: RouteParams) {
 
     // If edited content was provided, update the file in the sandbox
     if (editedContent && build.sandboxId) {
-      const sandbox = await e2bProvider.get(build.sandboxId);
+      const sandbox = await getBuildSandbox(build);
       
       if (sandbox) {
         const isRunning = await sandbox.isRunning();
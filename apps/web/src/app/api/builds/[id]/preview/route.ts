@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
 import { ensureUser } from '@/lib/auth';
 import { getBuildById, updateBuild } from '@repo/database';
-import { E2BProvider } from '@repo/sandbox-providers';
 import {
   startPreview,
   stopPreview,
@@ -10,14 +9,17 @@ import {
   isSandboxAlive,
 } from '@/lib/sandbox/preview-manager';
 import { restoreArtifactsToSandbox } from '@/lib/sandbox/artifact-storage';
+import {
+  getBuildSandbox,
+  resolveSandboxProvider,
+  usesHostRuntime,
+} from '@/lib/sandbox/providers';
+import { acquireSandbox, releaseUnusedSandbox } from '@/lib/sandbox/sandbox-pool';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// E2B Provider instance
-const e2bProvider = new E2BProvider();
-
 /**
  * GET /api/builds/[id]/preview
  * Get the current preview status for a build
@@ -145,30 +147,45 @@ export async function POST(request: Request, { params }: RouteParams) {
       MAX_SANDBOX_TIMEOUT_SECONDS
     );
 
-    // Create a new sandbox for preview
-    const sandbox = await e2bProvider.create({
-      template: 'base',
-      timeout: timeoutSeconds,
-      env: {},
-    });
+    // Previews run on the same provider as the build
+    const resolved = resolveSandboxProvider(build.sandboxProvider);
+    if (!('provider' in resolved)) {
+      return NextResponse.json(
+        { error: 'Sandbox provider unavailable', message: resolved.reason },
+        { status: 503 }
+      );
+    }
+    const upgradeNode = !usesHostRuntime(build.sandboxProvider);
+
+    // Get a new sandbox for preview (from the warm pool when enabled)
+    const { sandbox } = await acquireSandbox(
+      resolved.provider,
+      {
+        template: 'base',
+        timeout: timeoutSeconds,
+        env: {},
+      },
+      'preview'
+    );
 
     try {
       // Try to reconnect to existing sandbox if it's still alive
       if (build.sandboxId) {
         console.log(`[preview] Attempting to reconnect to existing sandbox ${build.sandboxId}`);
         try {
-          const existingSandbox = await e2bProvider.get(build.sandboxId);
+          const existingSandbox = await getBuildSandbox(build);
           if (existingSandbox) {
             // Verify sandbox is actually responsive
             const alive = await isSandboxAlive(existingSandbox);
             if (alive) {
-              // Use existing sandbox, destroy the new one we created
+              // Use existing sandbox, hand back the new one we didn't need
               console.log(`[preview] Reconnected to existing sandbox ${build.sandboxId}`);
-              await sandbox.destroy();
+              await releaseUnusedSandbox(resolved.provider, sandbox);
               
               const preview = await startPreview(id, existingSandbox, {
                 port,
                 ttlMs,
+                upgradeNode,
               });
 
               return NextResponse.json(
@@ -203,6 +220,7 @@ export async function POST(request: Request, { params }: RouteParams) {
         const preview = await startPreview(id, sandbox, {
           port,
           ttlMs,
+          upgradeNode,
         });
 
         return NextResponse.json(
@@ -297,7 +315,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
-    const sandbox = await e2bProvider.get(build.sandboxId);
+    const sandbox = await getBuildSandbox(build);
     if (!sandbox) {
       // Mark as expired
       await updateBuild(id, {
@@ -360,7 +378,7 @@ export async function DELETE(request: Request, { params }: RouteParams) {
 
     // Get sandbox and stop preview
     if (build.sandboxId) {
-      const sandbox = await e2bProvider.get(build.sandboxId);
+      const sandbox = await getBuildSandbox(build);
       if (sandbox) {
         await stopPreview(id, sandbox);
       } else {
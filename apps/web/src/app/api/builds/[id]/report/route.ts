@@ -0,0 +1,116 @@
+/**
+ * Build Report API
+ *
+ * GET /api/builds/[id]/report
+ * Returns the report written by the build's harness: markdown inline, PDFs as links
+ *
+ * GET /api/builds/[id]/report?file=report.pdf
+ * Returns one report file as-is
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { getBuildById } from '@repo/database';
+import { getHarness, hasHarness } from '@repo/agent-core';
+import type { Sandbox } from '@repo/sandbox-providers';
+import { downloadBuildReportFile } from '@/lib/sandbox/artifact-storage';
+import { getBuildSandbox } from '@/lib/sandbox/providers';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  md: 'text/markdown; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+function getExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+/**
+ * GET /api/builds/[id]/report
+ *
+ * Query parameters:
+ * - file?: string - Return this report file instead of the listing
+ *
+ * Files saved when the build finished are read from storage; while the build
+ * is running they are read from its sandbox.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { userId } = await ensureUser();
+    const { id } = await params;
+
+    const build = await getBuildById(id);
+
+    if (!build) {
+      return NextResponse.json({ error: 'Build not found' }, { status: 404 });
+    }
+
+    if (build.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const reportFiles = hasHarness(build.harnessId)
+      ? (getHarness(build.harnessId).reportFiles ?? [])
+      : [];
+
+    // Connect to the sandbox at most once, and only for files missing from storage
+    let sandbox: Promise<Sandbox | null> | undefined;
+    const readReportFile = async (fileName: string): Promise<Buffer | null> => {
+      const saved = await downloadBuildReportFile(build.id, fileName);
+      if (saved) {
+        return saved;
+      }
+
+      sandbox ??= getBuildSandbox(build).then(async (s) => (s && (await s.isRunning()) ? s : null));
+      const live = await sandbox;
+      const path = `/home/user/${fileName}`;
+      return live && (await live.exists(path)) ? live.readFileBytes(path) : null;
+    };
+
+    const url = new URL(request.url);
+    const requested = url.searchParams.get('file');
+    if (requested !== null) {
+      if (!reportFiles.includes(requested)) {
+        return NextResponse.json({ error: 'Not a report file of this build' }, { status: 400 });
+      }
+      const data = await readReportFile(requested);
+      if (!data) {
+        return NextResponse.json({ error: 'Report file not found' }, { status: 404 });
+      }
+      return new NextResponse(new Uint8Array(data), {
+        headers: {
+          'Content-Type': CONTENT_TYPES[getExtension(requested)] || 'application/octet-stream',
+          'Content-Disposition': `inline; filename="${requested}"`,
+        },
+      });
+    }
+
+    const files = [];
+    for (const fileName of reportFiles) {
+      const data = await readReportFile(fileName);
+      if (!data) continue;
+
+      const extension = getExtension(fileName);
+      files.push({
+        name: fileName,
+        format: extension === 'md' ? 'markdown' : extension,
+        size: data.length,
+        ...(extension === 'md'
+          ? { content: data.toString('utf-8') }
+          : { url: `/api/builds/${build.id}/report?file=${encodeURIComponent(fileName)}` }),
+      });
+    }
+
+    return NextResponse.json({ files });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error fetching build report:', error);
+    return NextResponse.json({ error: 'Failed to fetch report' }, { status: 500 });
+  }
+}
@@ -87,6 +87,9 @@ export async function POST(_request: Request, { params }: RouteParams) {
       complexityTier: existing.complexityTier as ComplexityTier,
       targetFeatureCount: featureCount,
       complexityInferred: existing.complexityInferred,
+      models: (existing.models as Record<string, string> | null) ?? undefined,
+      budgetUsd: existing.budgetUsd,
+      budgetTokens: existing.budgetTokens,
     });
 
     // Mark running and initialize progress
@@ -6,8 +6,16 @@ import {
   rateLimitExceededResponse,
   createRateLimitHeaders,
 } from '@/lib/rate-limit';
-import { getBuildById, resumeBuild, countBuilds } from '@repo/database';
-import { resumeBuildFromCheckpoint } from '@/lib/sandbox/build-runner';
+import {
+  getBuildById,
+  resumeBuild,
+  countBuilds,
+  getTokenUsageTotals,
+  updateBuild,
+} from '@repo/database';
+import { getBudgetOverrun } from '@repo/agent-core';
+import { isBuildActive, resumeBuildFromCheckpoint } from '@/lib/sandbox/build-runner';
+import { validateBudget } from '@/lib/usage';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -19,6 +27,10 @@ const MAX_CONCURRENT_BUILDS = 5;
 /**
  * POST /api/builds/[id]/resume
  * Resume a paused or failed build from its last checkpoint.
+ *
+ * Request body (optional), to raise the budget of a build paused at it:
+ * - budgetUsd?: number | null - New spend budget in USD (null removes it)
+ * - budgetTokens?: number | null - New token budget (null removes it)
  */
 export async function POST(request: Request, { params }: RouteParams) {
   try {
@@ -60,8 +72,19 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
-    // We only need artifacts to resume - the feature_list.json inside tells us progress
-    if (!build.artifactKey) {
+    // The runner may still be saving or snapshotting the sandbox of a just-paused build
+    if (isBuildActive(id)) {
+      return NextResponse.json(
+        {
+          error: 'Build is still pausing',
+          message: 'The previous run is still saving its sandbox. Try again in a few seconds.',
+        },
+        { status: 400 }
+      );
+    }
+
+    // We only need artifacts (or a sandbox snapshot) to resume - the feature_list.json inside tells us progress
+    if (!build.artifactKey && !build.snapshotId) {
       return NextResponse.json(
         { 
           error: 'No artifacts available',
@@ -71,6 +94,39 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
+    // Parse optional budget changes from request body
+    let budgetUsd: number | null | undefined;
+    let budgetTokens: number | null | undefined;
+    try {
+      const body = await request.json();
+      budgetUsd = body.budgetUsd;
+      budgetTokens = body.budgetTokens;
+    } catch {
+      // No body or invalid JSON, that's fine
+    }
+
+    const budgetError = validateBudget(budgetUsd, budgetTokens);
+    if (budgetError) {
+      return NextResponse.json({ error: 'invalid_budget', message: budgetError }, { status: 400 });
+    }
+
+    // A build at its budget would pause again on its first model call
+    const budget = {
+      usd: budgetUsd !== undefined ? budgetUsd : build.budgetUsd,
+      tokens: budgetTokens !== undefined ? budgetTokens : build.budgetTokens,
+    };
+    const budgetOverrun = getBudgetOverrun(await getTokenUsageTotals({ buildId: id }), budget);
+    if (budgetOverrun) {
+      return NextResponse.json(
+        {
+          error: 'budget_reached',
+          message: budgetOverrun,
+          hint: 'Raise or remove the budget to resume this build',
+        },
+        { status: 400 }
+      );
+    }
+
     // Check concurrent builds limit
     const runningBuilds = await countBuilds({ userId, status: 'RUNNING' });
     if (runningBuilds >= MAX_CONCURRENT_BUILDS) {
@@ -83,6 +139,10 @@ export async function POST(request: Request, { params }: RouteParams) {
       );
     }
 
+    if (budgetUsd !== undefined || budgetTokens !== undefined) {
+      await updateBuild(id, { budgetUsd: budget.usd, budgetTokens: budget.tokens });
+    }
+
     // Update build status to running
     const updatedBuild = await resumeBuild(id);
 
@@ -97,6 +157,7 @@ export async function POST(request: Request, { params }: RouteParams) {
         checkpointData: build.checkpointData as Record<string, unknown> | null,
         conversationHistory: build.conversationHistory as Array<unknown> | null,
         artifactKey: build.artifactKey,
+        snapshotId: build.snapshotId,
       }
     ).catch((error) => {
       console.error('Resume build background process error:', error);
@@ -108,6 +169,8 @@ export async function POST(request: Request, { params }: RouteParams) {
           id: updatedBuild.id,
           status: updatedBuild.status,
           progress: updatedBuild.progress,
+          budgetUsd: updatedBuild.budgetUsd,
+          budgetTokens: updatedBuild.budgetTokens,
           resumedFrom: {
             previousStatus: build.status,
             pausedAt: build.pausedAt?.toISOString(),
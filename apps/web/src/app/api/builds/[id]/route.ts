@@ -7,6 +7,7 @@ import {
   deleteBuild,
 } from '@repo/database';
 import type { BuildStatus } from '@prisma/client';
+import { getHarness, hasHarness } from '@repo/agent-core';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -52,6 +53,7 @@ export async function GET(request: Request, { params }: RouteParams) {
         ...build,
         name: extractAppName(build.appSpec),
         progress: build.progress || { completed: 0, total: 0 },
+        reportFiles: hasHarness(build.harnessId) ? (getHarness(build.harnessId).reportFiles ?? []) : [],
       },
     });
   } catch (error) {
@@ -11,7 +11,7 @@
 import { NextResponse } from 'next/server';
 import { ensureUser } from '@/lib/auth';
 import { getBuildById } from '@repo/database';
-import { e2bProvider } from '@repo/sandbox-providers';
+import { getBuildSandbox } from '@/lib/sandbox/providers';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -58,7 +58,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Try to connect to the sandbox
-    const sandbox = await e2bProvider.get(build.sandboxId);
+    const sandbox = await getBuildSandbox(build);
     
     if (!sandbox) {
       return NextResponse.json({
@@ -0,0 +1,67 @@
+/**
+ * Build Security Audit API
+ *
+ * GET /api/builds/[id]/security-audit?decision=block&limit=100
+ * Returns the security hook's decisions on the build's tool calls, newest first
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { countSecurityAuditEntries, getBuildById, listSecurityAuditEntries } from '@repo/database';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** Most entries returned in one request */
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/builds/[id]/security-audit
+ *
+ * Query parameters:
+ * - decision?: 'allow' | 'block' - Only return entries with this decision
+ * - limit?: number - Entries to return (default 100, max 500)
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { userId } = await ensureUser();
+    const { id } = await params;
+
+    const url = new URL(request.url);
+    const decision = url.searchParams.get('decision');
+    if (decision !== null && decision !== 'allow' && decision !== 'block') {
+      return NextResponse.json({ error: 'decision must be "allow" or "block"' }, { status: 400 });
+    }
+    const limit = parseInt(url.searchParams.get('limit') ?? '100', 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
+
+    const build = await getBuildById(id);
+
+    if (!build) {
+      return NextResponse.json({ error: 'Build not found' }, { status: 404 });
+    }
+
+    if (build.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [entries, counts] = await Promise.all([
+      listSecurityAuditEntries(id, {
+        decision: decision ?? undefined,
+        limit: Math.min(limit, MAX_LIMIT),
+      }),
+      countSecurityAuditEntries(id),
+    ]);
+
+    return NextResponse.json({ entries, counts });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error listing security audit entries:', error);
+    return NextResponse.json({ error: 'Failed to list security audit entries' }, { status: 500 });
+  }
+}
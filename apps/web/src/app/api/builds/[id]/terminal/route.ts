@@ -0,0 +1,229 @@
+/**
+ * Build Terminal API
+ *
+ * GET /api/builds/[id]/terminal?cols=80&rows=24
+ * Opens an interactive shell in the build's sandbox and streams its output (SSE)
+ *
+ * POST /api/builds/[id]/terminal
+ * Sends input to or resizes an open terminal session
+ *
+ * DELETE /api/builds/[id]/terminal?sessionId=<id>
+ * Closes a terminal session
+ *
+ * Only the build's owner can open a terminal, and every command typed is recorded
+ * in the terminal audit log.
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { getBuildById } from '@repo/database';
+import {
+  closeTerminalSession,
+  getTerminalSession,
+  openTerminalSession,
+  writeTerminalInput,
+} from '@/lib/sandbox/terminal-sessions';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** Largest input accepted in one POST (a generous paste) */
+const MAX_INPUT_CHARS = 64 * 1024;
+
+/**
+ * Parse an optional terminal dimension from the query string.
+ */
+function parseSize(value: string | null): number | undefined {
+  const size = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(size) && size > 0 && size <= 1000 ? size : undefined;
+}
+
+/**
+ * Authenticate the request and check the user owns the build.
+ */
+async function authorize(id: string) {
+  let userId: string;
+  try {
+    ({ userId } = await ensureUser());
+  } catch {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const build = await getBuildById(id);
+  if (!build) {
+    return { error: NextResponse.json({ error: 'Build not found' }, { status: 404 }) };
+  }
+  if (build.userId !== userId) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { userId, build };
+}
+
+/**
+ * GET /api/builds/[id]/terminal
+ * Open a terminal session. The stream starts with a `session` event carrying the
+ * session ID, then `output` events, and ends with `exit` when the shell exits.
+ * Closing the stream closes the session.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const auth = await authorize(id);
+  if (auth.error) {
+    return auth.error;
+  }
+  const { userId, build } = auth;
+
+  if (!build.sandboxId) {
+    return NextResponse.json(
+      { error: 'No sandbox associated with this build', status: 'no_sandbox' },
+      { status: 404 }
+    );
+  }
+
+  const url = new URL(request.url);
+  let session;
+  try {
+    session = await openTerminalSession(build, userId, {
+      cols: parseSize(url.searchParams.get('cols')),
+      rows: parseSize(url.searchParams.get('rows')),
+    });
+  } catch (error) {
+    console.error('Error opening terminal:', error);
+    return NextResponse.json(
+      { error: 'Failed to open terminal', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Sandbox is not running - it may have timed out', status: 'stopped' },
+      { status: 503 }
+    );
+  }
+  const { terminal } = session;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let isClosed = false;
+
+      const sendEvent = (data: unknown) => {
+        if (isClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          isClosed = true;
+        }
+      };
+
+      request.signal.addEventListener('abort', () => {
+        isClosed = true;
+        void closeTerminalSession(session.id);
+      });
+
+      sendEvent({ type: 'session', sessionId: session.id });
+
+      try {
+        for await (const data of terminal.output()) {
+          if (isClosed) break;
+          sendEvent({ type: 'output', data });
+        }
+        sendEvent({ type: 'exit', exitCode: await terminal.wait() });
+      } catch (error) {
+        sendEvent({ type: 'error', message: error instanceof Error ? error.message : 'Terminal failed' });
+      }
+
+      await closeTerminalSession(session.id);
+      if (!isClosed) {
+        isClosed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      void closeTerminalSession(session.id);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * POST /api/builds/[id]/terminal
+ *
+ * Request body:
+ * - sessionId: string - Session from the GET stream
+ * - input?: string - Keystrokes or pasted text to send to the shell
+ * - resize?: { cols: number; rows: number } - New terminal size
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.sessionId !== 'string') {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+
+    const session = getTerminalSession(body.sessionId, id, auth.userId);
+    if (!session) {
+      return NextResponse.json({ error: 'Terminal session not found' }, { status: 404 });
+    }
+
+    if (body.resize !== undefined) {
+      const cols = parseSize(String(body.resize?.cols));
+      const rows = parseSize(String(body.resize?.rows));
+      if (!cols || !rows) {
+        return NextResponse.json({ error: 'Invalid terminal size' }, { status: 400 });
+      }
+      await session.terminal.resize(cols, rows);
+    }
+
+    if (body.input !== undefined) {
+      if (typeof body.input !== 'string' || body.input.length > MAX_INPUT_CHARS) {
+        return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+      }
+      await writeTerminalInput(session, body.input);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error writing to terminal:', error);
+    return NextResponse.json(
+      { error: 'Failed to write to terminal', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/builds/[id]/terminal?sessionId=<id>
+ * Close a terminal session
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const auth = await authorize(id);
+  if (auth.error) {
+    return auth.error;
+  }
+
+  const sessionId = new URL(request.url).searchParams.get('sessionId');
+  const session = sessionId ? getTerminalSession(sessionId, id, auth.userId) : null;
+  if (!session) {
+    return NextResponse.json({ error: 'Terminal session not found' }, { status: 404 });
+  }
+
+  await closeTerminalSession(session.id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,42 @@
+/**
+ * Build Usage API
+ *
+ * GET /api/builds/[id]/usage
+ * Returns the build's token usage and cost, in total and by phase, feature and model
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { getBuildById, getBuildUsage } from '@repo/database';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/builds/[id]/usage
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { userId } = await ensureUser();
+    const { id } = await params;
+
+    const build = await getBuildById(id);
+
+    if (!build) {
+      return NextResponse.json({ error: 'Build not found' }, { status: 404 });
+    }
+
+    if (build.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json(await getBuildUsage(id));
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error getting build usage:', error);
+    return NextResponse.json({ error: 'Failed to get build usage' }, { status: 500 });
+  }
+}
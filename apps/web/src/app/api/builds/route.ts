@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { startBuildInBackground } from '@/lib/sandbox/build-runner';
 import { ensureUser } from '@/lib/auth';
+import { isKnownProvider, resolveDefaultSandboxProvider } from '@/lib/sandbox/providers';
+import { resolveDefaultBuildBudget, validateBudget } from '@/lib/usage';
+import { hasHarness, parseBuildModelRouting, type BuildModelRouting } from '@repo/agent-core';
 import {
   checkRateLimit,
   rateLimits,
@@ -13,6 +16,7 @@ import {
   updateBuild,
   countBuilds,
   getDefaultFeatureCount,
+  type BuildSource,
   type ComplexityTier,
 } from '@repo/database';
 import type { Build, BuildStatus } from '@prisma/client';
@@ -23,6 +27,9 @@ const MAX_CONCURRENT_BUILDS = 5;
 // Max spec size (100KB)
 const MAX_SPEC_SIZE = 100 * 1024;
 
+// Max source attachments per build
+const MAX_SOURCES = 50;
+
 // Extract app name from spec (supports both XML and Markdown formats)
 function extractAppName(spec: string): string {
   // Try XML format first: <project_name>...</project_name>
@@ -70,7 +77,7 @@ export async function GET() {
  */
 export async function POST(request: Request) {
   try {
-    const { userId } = await ensureUser();
+    const { userId, clerkId } = await ensureUser();
 
     // Rate limiting: 10 builds per hour
     const rateLimit = checkRateLimit(`builds:${userId}`, rateLimits.builds);
@@ -83,22 +90,30 @@ export async function POST(request: Request) {
       appSpec, 
       projectId, 
       appSpecId, 
-      sandboxProvider = 'e2b', 
+      sandboxProvider: requestedProvider, 
       harnessId = 'coding',
+      sources = [],
       complexityTier = 'standard',
       targetFeatureCount,
       complexityInferred = true,
       reviewGatesEnabled = false,
+      models: requestedModels,
+      budgetUsd,
+      budgetTokens,
     } = body as {
       appSpec: string;
       projectId?: string;
       appSpecId?: string;
       sandboxProvider?: string;
       harnessId?: string;
+      sources?: BuildSource[];
       complexityTier?: ComplexityTier;
       targetFeatureCount?: number;
       complexityInferred?: boolean;
       reviewGatesEnabled?: boolean;
+      models?: Partial<BuildModelRouting>;
+      budgetUsd?: number | null;
+      budgetTokens?: number | null;
     };
 
     if (!appSpec) {
@@ -119,6 +134,73 @@ export async function POST(request: Request) {
       );
     }
 
+    if (!hasHarness(harnessId)) {
+      return NextResponse.json(
+        {
+          error: 'invalid_harness',
+          message: `Unknown harness '${harnessId}'.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Sources must be the user's own uploads
+    const uploadPrefix = `attachments/${clerkId}/`;
+    if (
+      !Array.isArray(sources) ||
+      sources.length > MAX_SOURCES ||
+      sources.some(
+        (source) =>
+          typeof source?.name !== 'string' ||
+          typeof source.storageKey !== 'string' ||
+          !source.storageKey.startsWith(uploadPrefix) ||
+          source.storageKey.includes('..')
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error: 'invalid_sources',
+          message: `sources must be at most ${MAX_SOURCES} of your uploaded attachments.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Explicit provider wins, otherwise fall back to project/user defaults
+    const sandboxProvider =
+      requestedProvider ?? (await resolveDefaultSandboxProvider({ userId, projectId }));
+    if (!isKnownProvider(sandboxProvider)) {
+      return NextResponse.json(
+        {
+          error: 'invalid_sandbox_provider',
+          message: `Unknown sandbox provider '${sandboxProvider}'.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Roles without a requested model use the defaults
+    let models: BuildModelRouting;
+    try {
+      models = parseBuildModelRouting(requestedModels);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'invalid_models',
+          message: error instanceof Error ? error.message : 'Invalid model routing',
+        },
+        { status: 400 }
+      );
+    }
+
+    const budgetError = validateBudget(budgetUsd, budgetTokens);
+    if (budgetError) {
+      return NextResponse.json({ error: 'invalid_budget', message: budgetError }, { status: 400 });
+    }
+
+    // Explicit budget limits win, otherwise fall back to project/user defaults
+    const defaultBudget = await resolveDefaultBuildBudget({ userId, projectId });
+
     // Check concurrent builds limit
     const runningBuilds = await countBuilds({ userId, status: 'RUNNING' });
     if (runningBuilds >= MAX_CONCURRENT_BUILDS) {
@@ -142,9 +224,13 @@ export async function POST(request: Request) {
       appSpec,
       harnessId,
       sandboxProvider,
+      sources: sources.map(({ name, storageKey, type, size }) => ({ name, storageKey, type, size })),
       complexityTier,
       targetFeatureCount: featureCount,
       complexityInferred,
+      models,
+      budgetUsd: budgetUsd !== undefined ? budgetUsd : defaultBudget.usd,
+      budgetTokens: budgetTokens !== undefined ? budgetTokens : defaultBudget.tokens,
       reviewGatesEnabled,
     });
 
@@ -1,6 +1,8 @@
 import { auth } from '@clerk/nextjs/server';
 import Anthropic from '@anthropic-ai/sdk';
-import { DISCOVERY_SYSTEM_PROMPT } from '@repo/agent-core';
+import { getDbUserId } from '@/lib/auth';
+import { recordUserUsage } from '@/lib/usage';
+import { DEFAULT_MODEL_ROUTING, DISCOVERY_SYSTEM_PROMPT } from '@repo/agent-core';
 
 /**
  * Chat API Route - Stage 1: Discovery
@@ -209,6 +211,9 @@ export async function POST(request: Request) {
       authToken: authToken || undefined,
     });
 
+    // Resolved now: the request's auth context isn't available once streaming
+    const dbUserId = await getDbUserId();
+
     // Convert messages to Anthropic format (with attachment handling)
     const anthropicMessages = await Promise.all(
       (messages as ClientMessage[]).map((msg) => convertToAnthropicMessage(msg))
@@ -217,7 +222,7 @@ export async function POST(request: Request) {
     // Create streaming response
     // Using 16384 tokens for discovery stage (App Description is much shorter than full spec)
     const stream = await anthropic.messages.stream({
-      model: 'claude-opus-4-5', // Opus 4.5 for highest quality discovery
+      model: DEFAULT_MODEL_ROUTING.chat,
       max_tokens: 32768, // Increased for comprehensive discovery conversations
       system: DISCOVERY_SYSTEM_PROMPT,
       messages: anthropicMessages,
@@ -245,6 +250,7 @@ export async function POST(request: Request) {
               controller.enqueue(encoder.encode(`data: ${data}\n\n`));
             }
           }
+          await recordUserUsage(dbUserId, 'chat', await stream.finalMessage());
           controller.close();
         } catch (error) {
           const errorData = JSON.stringify({
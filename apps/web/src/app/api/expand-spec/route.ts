@@ -1,6 +1,8 @@
 import { auth } from '@clerk/nextjs/server';
 import Anthropic from '@anthropic-ai/sdk';
-import { EXPANSION_SYSTEM_PROMPT } from '@repo/agent-core';
+import { getDbUserId } from '@/lib/auth';
+import { recordUserUsage } from '@/lib/usage';
+import { DEFAULT_MODEL_ROUTING, EXPANSION_SYSTEM_PROMPT } from '@repo/agent-core';
 import { extractAppSpecWithMetadata, type ComplexityTier } from '@/lib/utils/extract-spec';
 
 /**
@@ -45,6 +47,9 @@ export async function POST(request: Request) {
       authToken: authToken || undefined,
     });
 
+    // Owner of the usage recorded when the expansion finishes
+    const dbUserId = await getDbUserId();
+
     // Build the user message with optional complexity override
     let userMessage = `Expand this App Description into a full XML specification:\n\n${appDescription}`;
     
@@ -60,7 +65,7 @@ export async function POST(request: Request) {
 
     // Create streaming response for the expansion
     const stream = await anthropic.messages.stream({
-      model: 'claude-opus-4-5', // Opus 4.5 for highest quality spec generation
+      model: DEFAULT_MODEL_ROUTING.expand_spec,
       max_tokens: 64000, // Maximum tokens for Opus 4.5 (supports 400+ features)
       system: EXPANSION_SYSTEM_PROMPT,
       messages: [
@@ -104,6 +109,7 @@ export async function POST(request: Request) {
               controller.enqueue(encoder.encode(`data: ${data}\n\n`));
             }
           }
+          await recordUserUsage(dbUserId, 'expand_spec', await stream.finalMessage());
           controller.close();
         } catch (error) {
           const errorData = JSON.stringify({
@@ -0,0 +1,38 @@
+/**
+ * Harnesses API
+ *
+ * GET /api/harnesses
+ * Lists the agent harnesses a build can run with
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { codingHarness, listHarnesses } from '@repo/agent-core';
+
+/**
+ * GET /api/harnesses
+ * List registered harnesses, with the default for new builds
+ */
+export async function GET() {
+  try {
+    await ensureUser();
+
+    return NextResponse.json({
+      harnesses: listHarnesses().map((harness) => ({
+        id: harness.id,
+        name: harness.name,
+        description: harness.description,
+        allowedCommands: harness.securityPolicy
+          ? Object.keys(harness.securityPolicy.commands)
+          : harness.allowedCommands,
+      })),
+      defaultHarnessId: codingHarness.id,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error listing harnesses:', error);
+    return NextResponse.json({ error: 'Failed to list harnesses' }, { status: 500 });
+  }
+}
@@ -5,6 +5,8 @@ import {
   updateProject,
   deleteProject,
 } from '@repo/database';
+import { isKnownProvider } from '@/lib/sandbox/providers';
+import { validateBudget } from '@/lib/usage';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -48,7 +50,19 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     const { userId } = await ensureUser();
     const { id } = await params;
     const body = await request.json();
-    const { name, description } = body;
+    const { name, description, defaultSandboxProvider, buildBudgetUsd, buildBudgetTokens } = body;
+
+    if (defaultSandboxProvider && !isKnownProvider(defaultSandboxProvider)) {
+      return NextResponse.json(
+        { error: `Unknown sandbox provider '${defaultSandboxProvider}'` },
+        { status: 400 }
+      );
+    }
+
+    const budgetError = validateBudget(buildBudgetUsd, buildBudgetTokens);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError }, { status: 400 });
+    }
 
     let project = await getProjectById(id);
 
@@ -63,6 +77,11 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     project = await updateProject(id, {
       ...(name && { name: name.trim() }),
       ...(description !== undefined && { description: description?.trim() || null }),
+      ...(defaultSandboxProvider !== undefined && {
+        defaultSandboxProvider: defaultSandboxProvider || null,
+      }),
+      ...(buildBudgetUsd !== undefined && { buildBudgetUsd }),
+      ...(buildBudgetTokens !== undefined && { buildBudgetTokens }),
     });
 
     return NextResponse.json({ project });
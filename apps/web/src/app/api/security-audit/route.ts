@@ -0,0 +1,49 @@
+/**
+ * Security Audit Report API
+ *
+ * GET /api/security-audit?days=30&harnessId=coding
+ * Aggregates the security hook's decisions across the current user's builds
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { getSecurityAuditReport } from '@repo/database';
+
+/** Longest reporting window, in days */
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/security-audit
+ *
+ * Query parameters:
+ * - days?: number - Only include the last N days (default 30, max 365)
+ * - harnessId?: string - Only include builds run with this harness
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await ensureUser();
+
+    const url = new URL(request.url);
+    const days = parseInt(url.searchParams.get('days') ?? '30', 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be an integer between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await getSecurityAuditReport({
+      userId,
+      harnessId: url.searchParams.get('harnessId') ?? undefined,
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+    });
+
+    return NextResponse.json({ days, ...report });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error building security audit report:', error);
+    return NextResponse.json({ error: 'Failed to build security audit report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * User Settings API
+ *
+ * GET /api/settings
+ * Returns the current user's preferences and the sandbox providers they can pick from
+ *
+ * PATCH /api/settings
+ * Updates the current user's preferences
+ */
+
+import { NextResponse } from 'next/server';
+import { ensureUser } from '@/lib/auth';
+import { getUserById, updateUser } from '@repo/database';
+import {
+  DEFAULT_SANDBOX_PROVIDER,
+  isKnownProvider,
+  listSandboxProviders,
+} from '@/lib/sandbox/providers';
+import { validateBudget } from '@/lib/usage';
+
+/**
+ * GET /api/settings
+ * Get the current user's settings
+ */
+export async function GET() {
+  try {
+    const { userId } = await ensureUser();
+    const user = await getUserById(userId);
+
+    return NextResponse.json({
+      settings: {
+        defaultSandboxProvider: user?.defaultSandboxProvider ?? null,
+        buildBudgetUsd: user?.buildBudgetUsd ?? null,
+        buildBudgetTokens: user?.buildBudgetTokens ?? null,
+      },
+      sandboxProviders: listSandboxProviders(),
+      deploymentDefaultSandboxProvider: DEFAULT_SANDBOX_PROVIDER,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error fetching settings:', error);
+    return NextResponse.json({ error: 'Failed to fetch settings' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/settings
+ * Update the current user's settings
+ *
+ * Request body:
+ * - defaultSandboxProvider?: string | null - Provider for new builds (null resets to the deployment default)
+ * - buildBudgetUsd?: number | null - Spend budget for new builds in USD (null removes it)
+ * - buildBudgetTokens?: number | null - Token budget for new builds (null removes it)
+ */
+export async function PATCH(request: Request) {
+  try {
+    const { userId } = await ensureUser();
+    const body = await request.json();
+    const { defaultSandboxProvider, buildBudgetUsd, buildBudgetTokens } = body as {
+      defaultSandboxProvider?: string | null;
+      buildBudgetUsd?: number | null;
+      buildBudgetTokens?: number | null;
+    };
+
+    if (defaultSandboxProvider && !isKnownProvider(defaultSandboxProvider)) {
+      return NextResponse.json(
+        { error: `Unknown sandbox provider '${defaultSandboxProvider}'` },
+        { status: 400 }
+      );
+    }
+
+    const budgetError = validateBudget(buildBudgetUsd, buildBudgetTokens);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError }, { status: 400 });
+    }
+
+    const user = await updateUser(userId, {
+      ...(defaultSandboxProvider !== undefined && {
+        defaultSandboxProvider: defaultSandboxProvider || null,
+      }),
+      ...(buildBudgetUsd !== undefined && { buildBudgetUsd }),
+      ...(buildBudgetTokens !== undefined && { buildBudgetTokens }),
+    });
+
+    return NextResponse.json({
+      settings: {
+        defaultSandboxProvider: user.defaultSandboxProvider,
+        buildBudgetUsd: user.buildBudgetUsd,
+        buildBudgetTokens: user.buildBudgetTokens,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Error updating settings:', error);
+    return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 });
+  }
+}
@@ -10,6 +10,7 @@ import {
   PhaseMarker,
   ErrorCard,
   CommandCard,
+  SecurityBlockCard,
 } from './events';
 import type { AgentEvent } from '@/hooks/use-event-stream';
 import { cn } from '@/lib/utils';
@@ -53,6 +54,10 @@ function isCommandEvent(event: AgentEvent): boolean {
   return event.type === 'command';
 }
 
+function isSecurityBlockEvent(event: AgentEvent): boolean {
+  return event.type === 'security_block';
+}
+
 function isLogEvent(event: AgentEvent): boolean {
   return event.type === 'log';
 }
@@ -65,7 +70,8 @@ function hasStructuredEvents(events: AgentEvent[]): boolean {
     isThinkingEvent(e) || 
     isPhaseEvent(e) || 
     isCommandEvent(e) ||
-    isErrorEvent(e)
+    isErrorEvent(e) ||
+    isSecurityBlockEvent(e)
   );
 }
 
@@ -238,6 +244,8 @@ export function ActivityFeed({
         return `[${timestamp}] [COMMAND] ${(event.command as string) || ''}`;
       } else if (event.type === 'error') {
         return `[${timestamp}] [ERROR] ${message}`;
+      } else if (event.type === 'security_block') {
+        return `[${timestamp}] [BLOCKED] ${(event.command as string) || ''} - ${(event.reason as string) || ''}`;
       } else {
         return `[${timestamp}] [${type}] ${message || content}`;
       }
@@ -421,6 +429,16 @@ export function ActivityFeed({
             );
           }
 
+          // Commands refused by the security policy
+          if (isSecurityBlockEvent(event)) {
+            return (
+              <SecurityBlockCard
+                key={event.id}
+                event={event as unknown as Parameters<typeof SecurityBlockCard>[0]['event']}
+              />
+            );
+          }
+
           // Default: skip unknown event types
           return null;
         })}
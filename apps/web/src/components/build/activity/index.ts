@@ -4,3 +4,4 @@ export { FeatureProgress, FeatureProgressCompact } from './feature-progress';
 export { TimeEstimate, TimeEstimateCompact } from './time-estimate';
 export { BuildStatusHeader } from './build-status-header';
 export { FeatureListModal, FeatureListPreview, type FeatureListItem } from './feature-list-modal';
+export { ResourceUsage } from './resource-usage';
@@ -0,0 +1,154 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { AgentEvent } from '@/hooks/use-event-stream';
+
+interface ResourceUsageProps {
+  /** resource_usage events, oldest first */
+  samples: AgentEvent[];
+  className?: string;
+}
+
+interface ResourceSeries {
+  label: string;
+  /** Value per sample as a percentage (0-100) */
+  points: number[];
+  /** Latest reading, formatted for display */
+  current: string;
+  /** Stroke color class for the sparkline */
+  color: string;
+}
+
+/** Share of the limit at which a series is highlighted */
+const WARNING_PERCENT = 90;
+
+/**
+ * Format bytes to a short human-readable size
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${Math.round(bytes / (1024 * 1024))} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/**
+ * Percentage of a limit, or null when there's no limit to compare against
+ */
+function percentOf(used: number, limit: unknown): number | null {
+  return typeof limit === 'number' && limit > 0 ? Math.min(100, (used / limit) * 100) : null;
+}
+
+/**
+ * Chart points for a usage series. Without a limit a percentage is meaningless,
+ * so the series is left uncharted and only the latest reading is shown.
+ */
+function limitPoints(samples: AgentEvent[], usedKey: string, limitKey: string): number[] {
+  const points = samples.map((s) => percentOf(Number(s[usedKey]) || 0, s[limitKey]));
+  return points.some((p) => p !== null) ? points.map((p) => p ?? 0) : [];
+}
+
+/**
+ * Latest reading, as "used / limit" when there's a limit
+ */
+function formatReading(used: unknown, limit: unknown): string {
+  const reading = formatBytes(Number(used) || 0);
+  return typeof limit === 'number' ? `${reading} / ${formatBytes(limit)}` : reading;
+}
+
+/**
+ * Build the chart series from the samples
+ */
+function buildSeries(samples: AgentEvent[]): ResourceSeries[] {
+  const latest = samples[samples.length - 1];
+  return [
+    {
+      label: 'CPU',
+      // cpuPercent can exceed 100 with more than one core
+      points: samples.map((s) => Math.min(100, Number(s.cpuPercent) || 0)),
+      current: `${Math.round(Number(latest.cpuPercent) || 0)}%`,
+      color: 'stroke-blue-500',
+    },
+    {
+      label: 'Memory',
+      points: limitPoints(samples, 'memoryUsedBytes', 'memoryLimitBytes'),
+      current: formatReading(latest.memoryUsedBytes, latest.memoryLimitBytes),
+      color: 'stroke-purple-500',
+    },
+    {
+      label: 'Disk',
+      points: limitPoints(samples, 'diskUsedBytes', 'diskTotalBytes'),
+      current: formatReading(latest.diskUsedBytes, latest.diskTotalBytes),
+      color: 'stroke-amber-500',
+    },
+  ];
+}
+
+/**
+ * Sparkline - Inline SVG line of percentages over time
+ */
+function Sparkline({ points, color }: { points: number[]; color: string }) {
+  if (points.length < 2) {
+    return <div className="h-8" />;
+  }
+
+  const width = 100;
+  const height = 32;
+  const path = points
+    .map((p, i) => {
+      const x = (i / (points.length - 1)) * width;
+      const y = height - (p / 100) * height;
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="h-8 w-full"
+      aria-hidden="true"
+    >
+      <path
+        d={path}
+        fill="none"
+        strokeWidth={1.5}
+        className={color}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+/**
+ * ResourceUsage - CPU, memory and disk usage of the build sandbox over time
+ */
+export function ResourceUsage({ samples, className }: ResourceUsageProps) {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('space-y-3 text-sm', className)}>
+      {buildSeries(samples).map((series) => {
+        const latest = series.points[series.points.length - 1];
+        const nearLimit = latest !== undefined && latest >= WARNING_PERCENT;
+        return (
+          <div key={series.label} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">{series.label}</span>
+              <span className={cn('font-medium', nearLimit && 'text-red-500')}>
+                {series.current}
+              </span>
+            </div>
+            {series.points.length > 0 && (
+              <Sparkline
+                points={series.points}
+                color={nearLimit ? 'stroke-red-500' : series.color}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Coins, Loader2, Play } from 'lucide-react';
+
+export interface BuildBudget {
+  budgetUsd: number | null;
+  budgetTokens: number | null;
+}
+
+interface BudgetReachedProps {
+  /** Pause reason, e.g. "Spend budget reached: $10.02 of $10.00" */
+  reason: string;
+  budget: BuildBudget;
+  isResuming: boolean;
+  /** Resume with the new budget; rejects with a message to show */
+  onResume: (budget: BuildBudget) => Promise<void>;
+}
+
+/**
+ * Whether a pause reason is the build runner's for a reached budget
+ */
+export function isBudgetPause(reason: string | null | undefined): reason is string {
+  return !!reason && /budget reached/i.test(reason);
+}
+
+/** An empty field removes the limit */
+function parseLimit(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+/**
+ * BudgetReached - Shown for a build paused at its budget, to raise the budget
+ * and resume
+ */
+export function BudgetReached({ reason, budget, isResuming, onResume }: BudgetReachedProps) {
+  const [usd, setUsd] = useState(budget.budgetUsd?.toString() ?? '');
+  const [tokens, setTokens] = useState(budget.budgetTokens?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResume = async () => {
+    setError(null);
+    try {
+      await onResume({ budgetUsd: parseLimit(usd), budgetTokens: parseLimit(tokens) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume build');
+    }
+  };
+
+  return (
+    <Card className="border-amber-500/50 bg-amber-500/5">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Coins className="h-4 w-4 text-amber-500" />
+          Budget reached
+        </CardTitle>
+        <CardDescription>
+          {reason}. Raise the budget, or clear a field to remove that limit, to resume the build.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="budget-usd">Spend budget (USD)</Label>
+            <Input
+              id="budget-usd"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No limit"
+              value={usd}
+              onChange={(e) => setUsd(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="budget-tokens">Token budget</Label>
+            <Input
+              id="budget-tokens"
+              type="number"
+              min="0"
+              step="1000"
+              placeholder="No limit"
+              value={tokens}
+              onChange={(e) => setTokens(e.target.value)}
+            />
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <Button size="sm" onClick={handleResume} disabled={isResuming}>
+          {isResuming ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Raise budget and resume
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
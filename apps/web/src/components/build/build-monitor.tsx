@@ -14,12 +14,19 @@ import {
   FeatureProgress,
   FeatureProgressCompact,
   TimeEstimate,
+  ResourceUsage,
   FeatureListModal,
   FeatureListPreview,
 } from './activity';
 import { ActivityFeed } from './activity-feed';
 import { PreviewPanel } from './preview-panel';
 import { ReviewGate, ReviewGateBadge } from './review-gate';
+import { TerminalPanel } from './terminal-panel';
+import { SecurityAuditPanel } from './security-audit-panel';
+import { ReportPanel } from './report-panel';
+import { UsagePanel } from './usage-panel';
+import { BudgetReached, isBudgetPause, type BuildBudget } from './budget-reached';
+import { formatCost } from '@/lib/utils';
 import {
   Square,
   Download,
@@ -37,6 +44,11 @@ import {
   Play,
   Copy,
   Check,
+  Gauge,
+  SquareTerminal,
+  ShieldAlert,
+  BookOpen,
+  Coins,
 } from 'lucide-react';
 
 interface BuildProgress {
@@ -59,13 +71,18 @@ interface Build {
   artifactKey?: string;
   sandboxId?: string;
   outputUrl?: string;
+  /** Report files the build's harness writes; such builds show a report instead of an app preview */
+  reportFiles?: string[];
+  pauseReason?: string | null;
+  budgetUsd?: number | null;
+  budgetTokens?: number | null;
 }
 
 interface BuildMonitorProps {
   build: Build;
 }
 
-type ViewMode = 'activity' | 'logs' | 'files';
+type ViewMode = 'activity' | 'logs' | 'files' | 'shell' | 'security' | 'usage' | 'report';
 
 const statusConfig = {
   PENDING: { label: 'Pending', color: 'bg-zinc-500', icon: Clock },
@@ -82,13 +99,21 @@ const statusConfig = {
 export function BuildMonitor({ build }: BuildMonitorProps) {
   const router = useRouter();
   const [currentStatus, setCurrentStatus] = useState(build.status);
-  const [viewMode, setViewMode] = useState<ViewMode>('activity');
+  const hasReport = (build.reportFiles?.length ?? 0) > 0;
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    hasReport && build.status === 'COMPLETED' ? 'report' : 'activity'
+  );
   const [isStopping, setIsStopping] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isRestarting, setIsRestarting] = useState(false);
   const [isPausing, setIsPausing] = useState(false);
   const [isPausePending, setIsPausePending] = useState(false);
   const [isResuming, setIsResuming] = useState(false);
+  const [pauseReason, setPauseReason] = useState(build.pauseReason ?? null);
+  const [budget, setBudget] = useState<BuildBudget>({
+    budgetUsd: build.budgetUsd ?? null,
+    budgetTokens: build.budgetTokens ?? null,
+  });
   const [isApproving, setIsApproving] = useState(false);
   const [artifactInfo, setArtifactInfo] = useState<{
     size: number;
@@ -151,6 +176,13 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
         setCurrentStatus('FAILED');
       } else if (message.includes('Build stopped by user')) {
         setCurrentStatus('CANCELLED');
+      } else {
+        // The runner pausing a build itself, e.g. at its budget
+        const paused = message.match(/^Build paused: (.+?)(?: - checkpoint saved)?$/);
+        if (paused) {
+          setCurrentStatus('PAUSED');
+          setPauseReason(paused[1]);
+        }
       }
       
       // Check for review gate events (emitted when build pauses for approval)
@@ -304,17 +336,31 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
     }
   };
 
-  const handleResume = async () => {
+  // Resuming with a budget raises it first; its errors are rethrown for the budget card
+  const handleResume = async (newBudget?: BuildBudget) => {
     setIsResuming(true);
     try {
-      const res = await fetch(`/api/builds/${build.id}/resume`, { method: 'POST' });
+      const res = await fetch(`/api/builds/${build.id}/resume`, {
+        method: 'POST',
+        ...(newBudget && {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(newBudget),
+        }),
+      });
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || data.message || 'Failed to resume build');
+        throw new Error(data.message || data.error || 'Failed to resume build');
       }
       setCurrentStatus('RUNNING');
+      setPauseReason(null);
+      if (newBudget) {
+        setBudget(newBudget);
+      }
     } catch (error) {
       console.error('Failed to resume build:', error);
+      if (newBudget) {
+        throw error;
+      }
     } finally {
       setIsResuming(false);
     }
@@ -345,6 +391,13 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
   const isAwaitingReview = currentStatus === 'AWAITING_DESIGN_REVIEW' || currentStatus === 'AWAITING_FEATURE_REVIEW';
   const StatusIcon = statusInfo.icon;
   const isRunning = ['RUNNING', 'INITIALIZING'].includes(currentStatus);
+  // Each usage event carries the build's running totals
+  const lastUsageEvent = structuredEvents.usage.at(-1);
+  const usageTotals = lastUsageEvent?.totals as
+    | { costUsd: number; calls: number }
+    | undefined;
+  // Events from before prompt caching was reported don't carry a hit rate
+  const cacheHitRate = lastUsageEvent?.totalCacheHitRate as number | undefined;
 
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -445,6 +498,12 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
             )}
           </Badge>
           <ReviewGateBadge status={currentStatus} />
+          {usageTotals && (
+            <Badge variant="outline" className="gap-1" title={`${usageTotals.calls} model calls${cacheHitRate !== undefined ? ` • ${Math.round(cacheHitRate * 100)}% of input from prompt cache` : ''}`}>
+              <Coins className="h-3 w-3" />
+              {formatCost(usageTotals.costUsd)}
+            </Badge>
+          )}
           
           {isRunning && (
             <>
@@ -485,7 +544,7 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
             <Button
               variant="default"
               size="sm"
-              onClick={handleResume}
+              onClick={() => handleResume()}
               disabled={isResuming}
               title="Resume build from last checkpoint"
             >
@@ -529,6 +588,16 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
         </div>
       </div>
 
+      {/* Budget reached (build paused by the runner) */}
+      {currentStatus === 'PAUSED' && isBudgetPause(pauseReason) && (
+        <BudgetReached
+          reason={pauseReason}
+          budget={budget}
+          isResuming={isResuming}
+          onResume={handleResume}
+        />
+      )}
+
       {/* Activity Status (when running) */}
       {isRunning && (
         <Card className="border-primary/50 bg-primary/5">
@@ -611,6 +680,17 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
               <div className="flex items-center gap-2">
                 {/* View mode tabs */}
                 <div className="flex rounded-lg bg-muted p-1">
+                  {hasReport && (
+                    <button
+                      onClick={() => setViewMode('report')}
+                      className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded transition-colors ${
+                        viewMode === 'report' ? 'bg-background shadow text-foreground' : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      <BookOpen className="h-3.5 w-3.5" />
+                      Report
+                    </button>
+                  )}
                   <button
                     onClick={() => setViewMode('activity')}
                     className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded transition-colors ${
@@ -638,6 +718,35 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
                     <FolderTree className="h-3.5 w-3.5" />
                     Files ({structuredEvents.files.length > 0 ? structuredEvents.files.length : filesCreated.length})
                   </button>
+                  {currentSandboxId && (
+                    <button
+                      onClick={() => setViewMode('shell')}
+                      className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded transition-colors ${
+                        viewMode === 'shell' ? 'bg-background shadow text-foreground' : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      <SquareTerminal className="h-3.5 w-3.5" />
+                      Shell
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setViewMode('security')}
+                    className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded transition-colors ${
+                      viewMode === 'security' ? 'bg-background shadow text-foreground' : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    <ShieldAlert className="h-3.5 w-3.5" />
+                    Security
+                  </button>
+                  <button
+                    onClick={() => setViewMode('usage')}
+                    className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded transition-colors ${
+                      viewMode === 'usage' ? 'bg-background shadow text-foreground' : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    <Coins className="h-3.5 w-3.5" />
+                    Cost
+                  </button>
                 </div>
                 
                 {/* Connection status badge based on connectionState */}
@@ -743,6 +852,22 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
                   logFiles={filesCreated}
                 />
               )}
+
+              {viewMode === 'shell' && currentSandboxId && (
+                <TerminalPanel buildId={build.id} />
+              )}
+
+              {viewMode === 'security' && (
+                <SecurityAuditPanel buildId={build.id} />
+              )}
+
+              {viewMode === 'usage' && (
+                <UsagePanel buildId={build.id} calls={usageTotals?.calls} />
+              )}
+
+              {viewMode === 'report' && (
+                <ReportPanel buildId={build.id} buildStatus={currentStatus} />
+              )}
             </CardContent>
           </Card>
         </div>
@@ -820,6 +945,21 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
             </Card>
           )}
 
+          {/* Sandbox resource usage (sampled while the agent runs) */}
+          {structuredEvents.resources.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Gauge className="h-4 w-4" />
+                  Resources
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResourceUsage samples={structuredEvents.resources} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Files Created */}
           {filesCreated.length > 0 && (
             <Card>
@@ -843,8 +983,8 @@ export function BuildMonitor({ build }: BuildMonitorProps) {
             </Card>
           )}
 
-          {/* Live Preview Panel */}
-          {currentStatus === 'COMPLETED' && (
+          {/* Live Preview Panel - builds with a report have no app to preview */}
+          {currentStatus === 'COMPLETED' && !hasReport && (
             <PreviewPanel
               buildId={build.id}
               buildStatus={currentStatus}
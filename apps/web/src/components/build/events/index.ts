@@ -4,3 +4,4 @@ export { ThinkingBubble } from './thinking-bubble';
 export { PhaseMarker } from './phase-marker';
 export { ErrorCard } from './error-card';
 export { CommandCard } from './command-card';
+export { SecurityBlockCard } from './security-block-card';
@@ -0,0 +1,61 @@
+'use client';
+
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+interface SecurityBlockEvent {
+  id: string;
+  type: 'security_block';
+  timestamp: string;
+  toolName: string;
+  toolUseId: string;
+  command: string;
+  reason: string;
+}
+
+interface SecurityBlockCardProps {
+  event: SecurityBlockEvent;
+  className?: string;
+}
+
+/**
+ * SecurityBlockCard - A command the agent tried to run that the harness's
+ * security policy refused
+ */
+export function SecurityBlockCard({ event, className }: SecurityBlockCardProps) {
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  return (
+    <Card
+      className={cn('border-l-4 border-l-orange-500 bg-orange-50 dark:bg-orange-900/20', className)}
+    >
+      <CardContent className="p-3">
+        <div className="flex items-start gap-3">
+          <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg bg-orange-100 dark:bg-orange-900/30">
+            <ShieldAlert className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+          </div>
+
+          <div className="min-w-0 flex-1">
+            <div className="mb-1 text-sm font-semibold text-orange-700 dark:text-orange-300">
+              Command blocked
+            </div>
+            <p className="text-sm text-orange-700 dark:text-orange-300">{event.reason}</p>
+            <div className="mt-2 rounded bg-zinc-950/50 p-2 font-mono text-xs">
+              <pre className="overflow-x-auto whitespace-pre-wrap text-zinc-400">
+                {event.command}
+              </pre>
+            </div>
+            <div className="mt-2 text-xs text-muted-foreground">{formatTime(event.timestamp)}</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
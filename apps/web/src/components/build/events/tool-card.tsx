@@ -1,6 +1,6 @@
 'use client';
 
-import { Terminal, CheckCircle, XCircle, Loader2, FileEdit, FileText, ChevronDown } from 'lucide-react';
+import { Terminal, CheckCircle, XCircle, Loader2, FileEdit, FileText, FileX, FolderOpen, Search, ChevronDown } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
@@ -10,7 +10,7 @@ interface ToolStartEvent {
   id: string;
   type: 'tool_start';
   timestamp: string;
-  toolName: 'bash' | 'write_file' | 'read_file' | 'str_replace_editor';
+  toolName: string;
   toolUseId: string;
   input: Record<string, unknown>;
   displayInput?: string;
@@ -34,18 +34,26 @@ interface ToolCardProps {
   className?: string;
 }
 
-const toolIcons = {
+const toolIcons: Record<string, typeof Terminal> = {
   bash: Terminal,
   write_file: FileEdit,
   read_file: FileText,
   str_replace_editor: FileEdit,
+  delete_file: FileX,
+  list_dir: FolderOpen,
+  glob: Search,
+  grep: Search,
 };
 
-const toolLabels = {
+const toolLabels: Record<string, string> = {
   bash: 'Command',
   write_file: 'Write File',
   read_file: 'Read File',
   str_replace_editor: 'Edit File',
+  delete_file: 'Delete File',
+  list_dir: 'List Directory',
+  glob: 'Find Files',
+  grep: 'Search Files',
 };
 
 export function ToolCard({ startEvent, endEvent, className }: ToolCardProps) {
@@ -77,8 +85,11 @@ export function ToolCard({ startEvent, endEvent, className }: ToolCardProps) {
       const cmd = startEvent.input.command as string;
       return cmd?.slice(0, 60) + (cmd?.length > 60 ? '...' : '');
     }
-    if (startEvent.toolName === 'write_file' || startEvent.toolName === 'read_file') {
-      return startEvent.input.path as string;
+    if (typeof startEvent.input.pattern === 'string') {
+      return startEvent.input.pattern;
+    }
+    if (typeof startEvent.input.path === 'string') {
+      return startEvent.input.path;
     }
     return startEvent.displayInput?.slice(0, 60) || 'Tool execution';
   };
@@ -119,7 +130,9 @@ export function ToolCard({ startEvent, endEvent, className }: ToolCardProps) {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
                   <Icon className={cn('h-4 w-4', getIconColor())} />
-                  <span className="font-medium">{toolLabels[startEvent.toolName]}</span>
+                  <span className="font-medium">
+                    {toolLabels[startEvent.toolName] ?? startEvent.toolName}
+                  </span>
                 </div>
                 <p className="text-xs text-muted-foreground truncate font-mono">
                   {getDisplayText()}
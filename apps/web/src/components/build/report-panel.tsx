@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, FileText, Loader2, RefreshCw } from 'lucide-react';
+
+interface ReportFile {
+  name: string;
+  format: string;
+  size: number;
+  content?: string;
+  url?: string;
+}
+
+interface ReportPanelProps {
+  buildId: string;
+  buildStatus: string;
+  /** Panel height (CSS value) */
+  height?: string;
+}
+
+/**
+ * ReportPanel - The report a research-style harness wrote, rendered from
+ * markdown, with links to its other formats
+ */
+export function ReportPanel({ buildId, buildStatus, height = '500px' }: ReportPanelProps) {
+  const [files, setFiles] = useState<ReportFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/builds/${buildId}/report`);
+      if (!response.ok) {
+        throw new Error('Failed to load the report');
+      }
+      const data = await response.json();
+      setFiles(data.files);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildId]);
+
+  // Refetch when the build finishes, as that's when the report is saved
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, buildStatus]);
+
+  const markdown = files.find((file) => file.format === 'markdown');
+  const downloads = files.filter((file) => file.url);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {downloads.map((file) => (
+            <Button key={file.name} variant="outline" size="sm" asChild>
+              <a href={file.url} target="_blank" rel="noopener noreferrer">
+                <Download className="mr-1 h-3 w-3" />
+                {file.name}
+              </a>
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchReport} disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <ScrollArea className="rounded-md border" style={{ height }}>
+        {markdown?.content ? (
+          <div className="prose prose-sm dark:prose-invert max-w-none break-words p-6 prose-headings:font-semibold prose-pre:overflow-x-auto prose-code:before:content-none prose-code:after:content-none">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown.content}</ReactMarkdown>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+            <FileText className="h-4 w-4" />
+            {isLoading
+              ? 'Loading...'
+              : downloads.length > 0
+                ? 'The report is only available as a download.'
+                : 'No report has been written yet.'}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
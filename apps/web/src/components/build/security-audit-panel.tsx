@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface SecurityAuditEntry {
+  id: string;
+  createdAt: string;
+  toolName: string;
+  command: string | null;
+  input: Record<string, unknown>;
+  decision: 'allow' | 'block';
+  rule: string | null;
+  reason: string | null;
+}
+
+interface SecurityAuditPanelProps {
+  buildId: string;
+  /** Panel height (CSS value) */
+  height?: string;
+}
+
+type DecisionFilter = 'all' | 'block';
+
+/**
+ * SecurityAuditPanel - The security policy's decision on each of the agent's
+ * tool calls in a build
+ */
+export function SecurityAuditPanel({ buildId, height = '500px' }: SecurityAuditPanelProps) {
+  const [entries, setEntries] = useState<SecurityAuditEntry[]>([]);
+  const [counts, setCounts] = useState({ allowed: 0, blocked: 0 });
+  const [filter, setFilter] = useState<DecisionFilter>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = filter === 'block' ? '?decision=block' : '';
+      const response = await fetch(`/api/builds/${buildId}/security-audit${query}`);
+      if (!response.ok) {
+        throw new Error('Failed to load the security audit log');
+      }
+      const data = await response.json();
+      setEntries(data.entries);
+      setCounts(data.counts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the security audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildId, filter]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="success" className="gap-1">
+            <ShieldCheck className="h-3 w-3" />
+            {counts.allowed} allowed
+          </Badge>
+          <Badge variant="warning" className="gap-1">
+            <ShieldAlert className="h-3 w-3" />
+            {counts.blocked} blocked
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg bg-muted p-1">
+            {(['all', 'block'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`rounded px-3 py-1 text-xs transition-colors ${
+                  filter === value
+                    ? 'bg-background text-foreground shadow'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {value === 'all' ? 'All' : 'Blocked'}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchEntries} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <ScrollArea className="rounded-md border" style={{ height }}>
+        {entries.length === 0 ? (
+          <div className="p-4 text-sm text-muted-foreground">
+            {isLoading
+              ? 'Loading...'
+              : filter === 'block'
+                ? 'No tool calls have been blocked.'
+                : 'No tool calls have been checked yet.'}
+          </div>
+        ) : (
+          <div className="divide-y">
+            {entries.map((entry) => (
+              <div key={entry.id} className="space-y-1 p-3">
+                <div className="flex items-center gap-2 text-xs">
+                  {entry.decision === 'block' ? (
+                    <Badge variant="warning">Blocked</Badge>
+                  ) : (
+                    <Badge variant="success">Allowed</Badge>
+                  )}
+                  <span className="font-medium">{entry.toolName}</span>
+                  {entry.rule && (
+                    <code className="rounded bg-muted px-1.5 py-0.5">{entry.rule}</code>
+                  )}
+                  <span className="ml-auto text-muted-foreground">
+                    {formatTime(entry.createdAt)}
+                  </span>
+                </div>
+                <pre className="overflow-x-auto whitespace-pre-wrap rounded bg-zinc-950 p-2 font-mono text-xs text-zinc-300">
+                  {entry.command ?? JSON.stringify(entry.input)}
+                </pre>
+                {entry.reason && (
+                  <p className="text-xs text-orange-700 dark:text-orange-300">{entry.reason}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Terminal } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw, ShieldAlert } from 'lucide-react';
+
+interface TerminalPanelProps {
+  buildId: string;
+  /** Panel height (CSS value) */
+  height?: string;
+}
+
+type TerminalState = 'connecting' | 'open' | 'exited' | 'error';
+
+/**
+ * TerminalPanel - Interactive shell into the build sandbox
+ *
+ * Output arrives over the terminal SSE stream; keystrokes and resizes are POSTed
+ * one request at a time so they reach the shell in order. The session closes when
+ * the panel unmounts.
+ */
+export function TerminalPanel({ buildId, height = '500px' }: TerminalPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [state, setState] = useState<TerminalState>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let disposed = false;
+    let terminal: Terminal | null = null;
+    let source: EventSource | null = null;
+    let resizeObserver: ResizeObserver | null = null;
+    let sessionId: string | null = null;
+
+    // Requests are chained so input never overtakes earlier input
+    let queue: Promise<void> = Promise.resolve();
+    const post = async (body: Record<string, unknown>) => {
+      if (!sessionId || disposed) return;
+      const response = await fetch(`/api/builds/${buildId}/terminal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, ...body }),
+      }).catch(() => null);
+      if (!response?.ok) {
+        terminal?.write('\r\n\x1b[31m[input was not delivered]\x1b[0m\r\n');
+      }
+    };
+    // Keystrokes typed while a request is in flight go out together in the next one
+    let pendingInput = '';
+    const sendInput = (data: string) => {
+      if (pendingInput === '') {
+        queue = queue.then(() => {
+          const input = pendingInput;
+          pendingInput = '';
+          return post({ input });
+        });
+      }
+      pendingInput += data;
+    };
+    const sendResize = (cols: number, rows: number) => {
+      queue = queue.then(() => post({ resize: { cols, rows } }));
+    };
+
+    const start = async () => {
+      // xterm touches the DOM on import, so load it client-side only
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import('@xterm/xterm'),
+        import('@xterm/addon-fit'),
+      ]);
+      if (disposed) return;
+
+      terminal = new Terminal({
+        cursorBlink: true,
+        fontSize: 13,
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+        theme: { background: '#09090b' },
+      });
+      const fit = new FitAddon();
+      terminal.loadAddon(fit);
+      terminal.open(container);
+      fit.fit();
+
+      source = new EventSource(
+        `/api/builds/${buildId}/terminal?cols=${terminal.cols}&rows=${terminal.rows}`
+      );
+      source.onmessage = (message) => {
+        const event = JSON.parse(message.data);
+        if (event.type === 'session') {
+          sessionId = event.sessionId;
+          setState('open');
+          terminal?.focus();
+        } else if (event.type === 'output') {
+          terminal?.write(event.data);
+        } else if (event.type === 'exit') {
+          terminal?.write(`\r\n[shell exited with code ${event.exitCode}]\r\n`);
+          setState('exited');
+          source?.close();
+        } else if (event.type === 'error') {
+          setError(event.message);
+          setState('error');
+          source?.close();
+        }
+      };
+      source.onerror = () => {
+        // The route answers errors with JSON, which EventSource can't read
+        if (!sessionId) {
+          setError('Could not open a terminal. The sandbox may have stopped.');
+        }
+        setState((current) => (current === 'exited' ? current : 'error'));
+        source?.close();
+      };
+
+      terminal.onData(sendInput);
+      terminal.onResize(({ cols, rows }) => sendResize(cols, rows));
+      resizeObserver = new ResizeObserver(() => fit.fit());
+      resizeObserver.observe(container);
+    };
+
+    setState('connecting');
+    setError(null);
+    start().catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to start terminal');
+      setState('error');
+    });
+
+    return () => {
+      disposed = true;
+      resizeObserver?.disconnect();
+      source?.close();
+      terminal?.dispose();
+      if (sessionId) {
+        void fetch(`/api/builds/${buildId}/terminal?sessionId=${sessionId}`, {
+          method: 'DELETE',
+        }).catch(() => {});
+      }
+    };
+  }, [buildId, attempt]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <ShieldAlert className="h-3.5 w-3.5" />
+          Commands typed here are recorded in the build&apos;s audit log.
+        </span>
+        {state === 'connecting' && (
+          <span className="flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Connecting...
+          </span>
+        )}
+        {(state === 'exited' || state === 'error') && (
+          <Button variant="outline" size="sm" onClick={() => setAttempt((n) => n + 1)}>
+            <RefreshCw className="mr-1 h-3 w-3" />
+            New session
+          </Button>
+        )}
+      </div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <div
+        ref={containerRef}
+        className="overflow-hidden rounded-md border bg-zinc-950 p-2"
+        style={{ height }}
+      />
+    </div>
+  );
+}
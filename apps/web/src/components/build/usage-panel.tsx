@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Coins, Loader2, RefreshCw } from 'lucide-react';
+import { formatCost } from '@/lib/utils';
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+interface BuildUsage {
+  totals: UsageTotals;
+  phases: Array<UsageTotals & { phase: string }>;
+  features: Array<UsageTotals & { featureIndex: number; feature: string | null }>;
+  models: Array<UsageTotals & { model: string }>;
+}
+
+interface UsagePanelProps {
+  buildId: string;
+  /** Calls recorded so far; the panel reloads when it changes */
+  calls?: number;
+  /** Panel height (CSS value) */
+  height?: string;
+}
+
+const PHASE_LABELS: Record<string, string> = {
+  design_research: 'Design research',
+  planning: 'Planning',
+  implementing: 'Implementation',
+  summarization: 'Context summarization',
+};
+
+/**
+ * Format a token count, e.g. 1.2M or 45.3K
+ */
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+/**
+ * Input tokens including those written to and read from the prompt cache
+ */
+function totalInput(usage: UsageTotals): number {
+  return usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+}
+
+/**
+ * Share of input read from the prompt cache, e.g. 82%
+ */
+function formatHitRate(usage: UsageTotals): string {
+  const input = totalInput(usage);
+  return `${input > 0 ? Math.round((usage.cacheReadInputTokens / input) * 100) : 0}%`;
+}
+
+function UsageRow({ label, usage }: { label: string; usage: UsageTotals }) {
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 text-sm">
+      <span className="min-w-0 flex-1 truncate" title={label}>
+        {label}
+      </span>
+      <span className="w-20 text-right text-xs text-muted-foreground">
+        {formatTokens(totalInput(usage))} in
+      </span>
+      <span className="w-20 text-right text-xs text-muted-foreground">
+        {formatTokens(usage.outputTokens)} out
+      </span>
+      <span className="w-16 text-right font-medium">{formatCost(usage.costUsd)}</span>
+    </div>
+  );
+}
+
+function UsageSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <div className="bg-muted/50 px-3 py-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        {title}
+      </div>
+      <div className="divide-y">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * UsagePanel - Tokens and cost of a build's model calls, by phase, feature and
+ * model
+ */
+export function UsagePanel({ buildId, calls, height = '500px' }: UsagePanelProps) {
+  const [usage, setUsage] = useState<BuildUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/builds/${buildId}/usage`);
+      if (!response.ok) {
+        throw new Error('Failed to load build usage');
+      }
+      setUsage(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load build usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildId]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage, calls]);
+
+  const totals = usage?.totals;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="secondary" className="gap-1">
+            <Coins className="h-3 w-3" />
+            {formatCost(totals?.costUsd ?? 0)}
+          </Badge>
+          {totals && (
+            <span className="text-xs text-muted-foreground">
+              {totals.calls} calls • {formatTokens(totalInput(totals))} input (
+              {formatTokens(totals.cacheReadInputTokens)} cached, {formatHitRate(totals)} hit rate)
+              • {formatTokens(totals.outputTokens)} output
+            </span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchUsage} disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <ScrollArea className="rounded-md border" style={{ height }}>
+        {!usage || usage.totals.calls === 0 ? (
+          <div className="p-4 text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : 'No model calls have been recorded yet.'}
+          </div>
+        ) : (
+          <div>
+            <UsageSection title="By phase">
+              {usage.phases.map((row) => (
+                <UsageRow
+                  key={row.phase}
+                  label={PHASE_LABELS[row.phase] ?? row.phase}
+                  usage={row}
+                />
+              ))}
+            </UsageSection>
+            {usage.features.length > 0 && (
+              <UsageSection title="By feature">
+                {usage.features.map((row) => (
+                  <UsageRow
+                    key={`${row.featureIndex}-${row.feature}`}
+                    label={`${row.featureIndex + 1}. ${row.feature ?? 'Unknown feature'}`}
+                    usage={row}
+                  />
+                ))}
+              </UsageSection>
+            )}
+            <UsageSection title="By model">
+              {usage.models.map((row) => (
+                <UsageRow key={row.model} label={row.model} usage={row} />
+              ))}
+            </UsageSection>
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
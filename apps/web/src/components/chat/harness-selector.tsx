@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bot, Info } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface HarnessInfo {
+  id: string;
+  name: string;
+  description: string;
+  allowedCommands: string[];
+}
+
+interface HarnessSelectorProps {
+  value: string;
+  onChange: (harnessId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * HarnessSelector - Picks the agent harness a build runs with
+ */
+export function HarnessSelector({ value, onChange, disabled }: HarnessSelectorProps) {
+  const [harnesses, setHarnesses] = useState<HarnessInfo[]>([]);
+
+  useEffect(() => {
+    async function fetchHarnesses() {
+      try {
+        const response = await fetch('/api/harnesses');
+        if (response.ok) {
+          const json = await response.json();
+          setHarnesses(json.harnesses);
+        }
+      } catch (err) {
+        console.error('Failed to fetch harnesses:', err);
+      }
+    }
+    fetchHarnesses();
+  }, []);
+
+  const selected = harnesses.find((harness) => harness.id === value);
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Bot className="h-4 w-4 text-muted-foreground" />
+        <Label htmlFor="harness" className="text-sm font-medium">
+          Harness
+        </Label>
+        {selected && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-3.5 w-3.5 cursor-help text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs">
+              <p>{selected.description}</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+      <select
+        id="harness"
+        value={value}
+        disabled={disabled || harnesses.length === 0}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-md border bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        {harnesses.length === 0 && <option value={value}>{value}</option>}
+        {harnesses.map((harness) => (
+          <option key={harness.id} value={harness.id}>
+            {harness.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
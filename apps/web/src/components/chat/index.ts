@@ -5,3 +5,4 @@ export { ChatInput } from './chat-input';
 export { ChatWindow } from './chat-window';
 export { ComplexityAdjuster, getTierInfo, type ComplexityTier } from './complexity-adjuster';
 export { SpecReviewPanel } from './spec-review-panel';
+export { HarnessSelector } from './harness-selector';
@@ -40,6 +40,7 @@ import {
 } from '@/components/ui/tooltip';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ComplexityAdjuster, getTierInfo, type ComplexityTier } from './complexity-adjuster';
+import { HarnessSelector } from './harness-selector';
 import { cn } from '@/lib/utils';
 
 interface SpecReviewPanelProps {
@@ -59,6 +60,8 @@ interface SpecReviewPanelProps {
   isBuilding: boolean;
   reviewGatesEnabled?: boolean;
   onReviewGatesChange?: (enabled: boolean) => void;
+  harnessId?: string;
+  onHarnessChange?: (harnessId: string) => void;
 }
 
 export function SpecReviewPanel({
@@ -74,6 +77,8 @@ export function SpecReviewPanel({
   isBuilding,
   reviewGatesEnabled = false,
   onReviewGatesChange,
+  harnessId = 'coding',
+  onHarnessChange,
 }: SpecReviewPanelProps) {
   const [showComplexityAdjuster, setShowComplexityAdjuster] = useState(false);
   const [showSpecModal, setShowSpecModal] = useState(false);
@@ -210,28 +215,35 @@ export function SpecReviewPanel({
             onToggle={() => setShowComplexityAdjuster(!showComplexityAdjuster)}
           />
 
-          {/* Review Gates Toggle */}
-          <div className="flex items-center justify-between rounded-lg border p-3">
-            <div className="flex items-center gap-2">
-              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
-              <Label htmlFor="review-gates" className="text-sm font-medium cursor-pointer">
-                Review checkpoints
-              </Label>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
-                </TooltipTrigger>
-                <TooltipContent side="top" className="max-w-xs">
-                  <p>Pause the build after generating DESIGN.md and feature list to review and edit before continuing.</p>
-                </TooltipContent>
-              </Tooltip>
+          {/* Harness */}
+          {onHarnessChange && (
+            <HarnessSelector value={harnessId} onChange={onHarnessChange} disabled={isBuilding} />
+          )}
+
+          {/* Review Gates Toggle - DESIGN.md and the feature list come from the coding harness */}
+          {harnessId === 'coding' && (
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                <Label htmlFor="review-gates" className="text-sm font-medium cursor-pointer">
+                  Review checkpoints
+                </Label>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent side="top" className="max-w-xs">
+                    <p>Pause the build after generating DESIGN.md and feature list to review and edit before continuing.</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Switch
+                id="review-gates"
+                checked={localReviewGates}
+                onCheckedChange={handleReviewGatesToggle}
+              />
             </div>
-            <Switch
-              id="review-gates"
-              checked={localReviewGates}
-              onCheckedChange={handleReviewGatesToggle}
-            />
-          </div>
+          )}
 
           {/* Actions */}
           <div className="space-y-2">
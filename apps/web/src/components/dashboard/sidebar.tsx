@@ -12,6 +12,7 @@ import {
   Wand2,
   Settings,
   Plus,
+  ShieldCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -38,6 +39,11 @@ const navigation = [
     href: '/projects',
     icon: FolderKanban,
   },
+  {
+    name: 'Security',
+    href: '/security',
+    icon: ShieldCheck,
+  },
 ];
 
 const createOptions = [
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Coins, Loader2, Check } from 'lucide-react';
+
+interface SettingsResponse {
+  settings: { buildBudgetUsd: number | null; buildBudgetTokens: number | null };
+}
+
+/** An empty field removes the limit */
+function parseLimit(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+/**
+ * Lets the user set the token and spend budgets new builds get by default.
+ * Projects can still override these via their own defaults.
+ */
+export function BuildBudgetSettings() {
+  const [loaded, setLoaded] = useState(false);
+  const [usd, setUsd] = useState('');
+  const [tokens, setTokens] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch('/api/settings');
+        if (response.ok) {
+          const json: SettingsResponse = await response.json();
+          setUsd(json.settings.buildBudgetUsd?.toString() ?? '');
+          setTokens(json.settings.buildBudgetTokens?.toString() ?? '');
+          setLoaded(true);
+        }
+      } catch (err) {
+        console.error('Failed to fetch settings:', err);
+      }
+    }
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          buildBudgetUsd: parseLimit(usd),
+          buildBudgetTokens: parseLimit(tokens),
+        }),
+      });
+      if (!response.ok) {
+        const json = await response.json().catch(() => ({}));
+        throw new Error(json.error || 'Failed to save');
+      }
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'w-40 rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-zinc-600';
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5">
+      <div className="flex items-start gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-zinc-800">
+          <Coins className="h-5 w-5 text-zinc-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-medium text-zinc-200">Build Budget</h3>
+          <p className="mt-1 text-sm text-zinc-500">
+            New builds pause when their model calls reach either limit, and can be resumed with a
+            higher budget. Leave a limit empty for none. Projects with their own budget override
+            this.
+          </p>
+
+          <div className="mt-4 flex flex-wrap items-end gap-3">
+            <label className="space-y-1.5 text-xs text-zinc-400">
+              <span className="block">Spend (USD)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={usd}
+                disabled={!loaded || saving}
+                onChange={(e) => setUsd(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1.5 text-xs text-zinc-400">
+              <span className="block">Tokens</span>
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                placeholder="No limit"
+                value={tokens}
+                disabled={!loaded || saving}
+                onChange={(e) => setTokens(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={!loaded || saving}
+              className="rounded-md bg-zinc-800 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            {saving && <Loader2 className="mb-2.5 h-4 w-4 animate-spin text-zinc-400" />}
+            {saved && !saving && <Check className="mb-2.5 h-4 w-4 text-emerald-400" />}
+          </div>
+          {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
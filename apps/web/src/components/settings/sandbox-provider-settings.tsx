@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Server, Loader2, Check } from 'lucide-react';
+
+interface SandboxProviderInfo {
+  name: string;
+  available: boolean;
+  reason?: string;
+}
+
+interface SettingsResponse {
+  settings: { defaultSandboxProvider: string | null };
+  sandboxProviders: SandboxProviderInfo[];
+  deploymentDefaultSandboxProvider: string;
+}
+
+/**
+ * Lets the user pick which sandbox provider new builds use by default.
+ * Projects can still override this via their own default.
+ */
+export function SandboxProviderSettings() {
+  const [data, setData] = useState<SettingsResponse | null>(null);
+  const [selected, setSelected] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch('/api/settings');
+        if (response.ok) {
+          const json: SettingsResponse = await response.json();
+          setData(json);
+          setSelected(json.settings.defaultSandboxProvider ?? '');
+        }
+      } catch (err) {
+        console.error('Failed to fetch settings:', err);
+      }
+    }
+    fetchSettings();
+  }, []);
+
+  const handleChange = async (value: string) => {
+    setSelected(value);
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ defaultSandboxProvider: value || null }),
+      });
+      if (!response.ok) {
+        const json = await response.json().catch(() => ({}));
+        throw new Error(json.error || 'Failed to save');
+      }
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5">
+      <div className="flex items-start gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-zinc-800">
+          <Server className="h-5 w-5 text-zinc-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-medium text-zinc-200">Sandbox Provider</h3>
+          <p className="mt-1 text-sm text-zinc-500">
+            Where new builds run. Projects with their own default override this.
+          </p>
+
+          <div className="mt-4 flex items-center gap-3">
+            <select
+              value={selected}
+              disabled={!data || saving}
+              onChange={(e) => handleChange(e.target.value)}
+              className="rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-zinc-600"
+            >
+              <option value="">
+                Deployment default{data ? ` (${data.deploymentDefaultSandboxProvider})` : ''}
+              </option>
+              {data?.sandboxProviders.map((provider) => (
+                <option key={provider.name} value={provider.name} disabled={!provider.available}>
+                  {provider.name}
+                  {!provider.available && provider.reason ? ` — ${provider.reason}` : ''}
+                </option>
+              ))}
+            </select>
+            {saving && <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />}
+            {saved && !saving && <Check className="h-4 w-4 text-emerald-400" />}
+          </div>
+          {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
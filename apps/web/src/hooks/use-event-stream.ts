@@ -101,6 +101,8 @@ export interface UseEventStreamReturn {
     errors: AgentEvent[];
     commands: AgentEvent[];
     progress: AgentEvent[];
+    resources: AgentEvent[];
+    usage: AgentEvent[];
   };
   
   // Derived state
@@ -166,6 +168,9 @@ const STRUCTURED_EVENT_TYPES = new Set([
   'error',
   'progress',
   'review_gate', // Emitted when build pauses for design/feature review
+  'resource_usage', // Periodic sandbox CPU/memory/disk samples
+  'security_block', // Bash command refused by the harness security policy
+  'usage', // Tokens and cost of a model call, with the build's running totals
 ]);
 
 function isStructuredEventType(type: string): boolean {
@@ -448,6 +453,8 @@ export function useEventStream({
     const errorEvents = events.filter((e) => e.type === 'error');
     const commandEvents = events.filter((e) => e.type === 'command');
     const progressEvents = events.filter((e) => e.type === 'progress');
+    const resourceEvents = events.filter((e) => e.type === 'resource_usage');
+    const usageEvents = events.filter((e) => e.type === 'usage');
 
     return {
       files: fileEvents,
@@ -457,6 +464,8 @@ export function useEventStream({
       errors: errorEvents,
       commands: commandEvents,
       progress: progressEvents,
+      resources: resourceEvents,
+      usage: usageEvents,
     };
   }, [events]);
 
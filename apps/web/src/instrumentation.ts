@@ -0,0 +1,14 @@
+/**
+ * Server Instrumentation
+ *
+ * Next.js calls register() once when a server instance starts. Background jobs
+ * that must outlive individual requests are started here.
+ */
+
+export async function register() {
+  // Sandbox providers need Node.js APIs, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSandboxReaper } = await import('./lib/sandbox/sandbox-reaper');
+    startSandboxReaper();
+  }
+}
@@ -9,6 +9,7 @@
 
 import { getStorage, isStorageConfigured, getStorageInfo } from '@repo/storage';
 import type { Sandbox } from '@repo/sandbox-providers';
+import type { BuildSource } from '@repo/database';
 import * as tar from 'tar-stream';
 import archiver from 'archiver';
 import { Readable, PassThrough } from 'stream';
@@ -21,6 +22,21 @@ export function getArtifactKey(buildId: string): string {
   return `builds/${buildId}/artifacts.zip`;
 }
 
+/**
+ * Storage key format for a file of a build's report
+ */
+export function getReportKey(buildId: string, fileName: string): string {
+  return `builds/${buildId}/report/${fileName}`;
+}
+
+/**
+ * Content types of the report formats harnesses produce
+ */
+const REPORT_CONTENT_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+};
+
 /**
  * Check if a buffer is gzipped by looking at the magic bytes
  */
@@ -293,34 +309,13 @@ export async function restoreArtifactsToSandbox(
   const zipBuffer = await downloadArtifacts(buildId);
   console.log(`[artifact-storage] Downloaded artifact: ${zipBuffer.length} bytes`);
   
-  // Write ZIP to sandbox using base64 encoding (writeFile is for text, not binary)
+  // Write the ZIP straight to the sandbox as bytes
   const tempZipPath = '/tmp/artifacts.zip';
-  const base64Content = zipBuffer.toString('base64');
-  
-  // Write base64 content to a temp file, then decode it
-  const tempBase64Path = '/tmp/artifacts.b64';
-  await sandbox.writeFile(tempBase64Path, base64Content);
-  
-  // Decode base64 to binary ZIP using Python (more reliable than base64 command)
-  const decodeResult = await sandbox.exec(`python3 -c "
-import base64
-with open('${tempBase64Path}', 'r') as f:
-    b64_data = f.read()
-with open('${tempZipPath}', 'wb') as f:
-    f.write(base64.b64decode(b64_data))
-print('Decoded successfully')
-"`);
-  
-  if (decodeResult.exitCode !== 0) {
-    throw new Error(`Failed to decode ZIP file: ${decodeResult.stderr}`);
-  }
-  
-  // Clean up base64 file
-  await sandbox.exec(`rm -f ${tempBase64Path}`);
+  await sandbox.writeFileBytes(tempZipPath, zipBuffer);
   console.log(`[artifact-storage] Wrote ZIP to sandbox: ${tempZipPath}`);
   
   // Ensure target directory exists
-  await sandbox.exec(`mkdir -p ${targetPath}`);
+  await sandbox.mkdir(targetPath);
   
   // Extract the ZIP file
   // Use -o to overwrite existing files without prompting
@@ -354,7 +349,7 @@ except Exception as e:
   }
   
   // Clean up temp file
-  await sandbox.exec(`rm -f ${tempZipPath}`);
+  await sandbox.remove(tempZipPath);
   
   // Verify extraction by listing files
   const lsResult = await sandbox.exec(`ls -la ${targetPath} | head -20`);
@@ -362,3 +357,108 @@ except Exception as e:
   
   return true;
 }
+
+/**
+ * Save the report files a harness produced, next to the artifacts, so the
+ * report can be shown after the sandbox is gone. Files the agent didn't
+ * write are skipped.
+ *
+ * @param buildId - The build ID
+ * @param sandbox - The sandbox to read the report from
+ * @param reportFiles - Report file names, relative to the workspace
+ * @param workspacePath - The path to the workspace directory (default: /home/user)
+ * @returns The report files that were saved
+ */
+export async function saveBuildReport(
+  buildId: string,
+  sandbox: Sandbox,
+  reportFiles: string[],
+  workspacePath: string = '/home/user'
+): Promise<string[]> {
+  if (!isStorageConfigured()) {
+    throw new Error('Storage is not configured. Set S3_* environment variables.');
+  }
+
+  const storage = getStorage();
+  const saved: string[] = [];
+
+  for (const fileName of reportFiles) {
+    const path = `${workspacePath}/${fileName}`;
+    if (!(await sandbox.exists(path))) {
+      continue;
+    }
+
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    await storage.upload(getReportKey(buildId, fileName), await sandbox.readFileBytes(path), {
+      contentType: REPORT_CONTENT_TYPES[extension] || 'application/octet-stream',
+      metadata: { buildId },
+    });
+    saved.push(fileName);
+  }
+
+  return saved;
+}
+
+/**
+ * Download a saved report file
+ *
+ * @param buildId - The build ID
+ * @param fileName - Report file name
+ * @returns The file content, or null if it wasn't saved
+ */
+export async function downloadBuildReportFile(
+  buildId: string,
+  fileName: string
+): Promise<Buffer | null> {
+  if (!isStorageConfigured()) {
+    return null;
+  }
+
+  const storage = getStorage();
+  const key = getReportKey(buildId, fileName);
+  if (!(await storage.exists(key))) {
+    return null;
+  }
+  const result = await storage.download(key);
+  return result.data;
+}
+
+/**
+ * Copy a build's source attachments from storage into the sandbox.
+ * File names are reduced to safe characters, and a clash gets a numeric prefix.
+ *
+ * @param sandbox - The sandbox to copy to
+ * @param sources - The attachments to copy
+ * @param targetPath - Where to put them (default: /home/user/sources)
+ * @returns The paths the sources were written to
+ */
+export async function copySourcesToSandbox(
+  sandbox: Sandbox,
+  sources: BuildSource[],
+  targetPath: string = '/home/user/sources'
+): Promise<string[]> {
+  if (!isStorageConfigured()) {
+    throw new Error('Storage is not configured. Set S3_* environment variables.');
+  }
+
+  const storage = getStorage();
+  const used = new Set<string>();
+  const written: string[] = [];
+
+  await sandbox.mkdir(targetPath);
+
+  for (const [index, source] of sources.entries()) {
+    let fileName = source.name.split('/').pop()?.replace(/[^\w.-]/g, '_') || 'source';
+    if (fileName.startsWith('.') || used.has(fileName)) {
+      fileName = `${index + 1}-${fileName}`;
+    }
+    used.add(fileName);
+
+    const { data } = await storage.download(source.storageKey);
+    const path = `${targetPath}/${fileName}`;
+    await sandbox.writeFileBytes(path, data);
+    written.push(path);
+  }
+
+  return written;
+}
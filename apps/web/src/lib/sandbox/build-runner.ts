@@ -5,8 +5,7 @@
  * It coordinates between the sandbox provider and the agent core.
  */
 
-import { E2BProvider } from '@repo/sandbox-providers';
-import type { Sandbox } from '@repo/sandbox-providers';
+import type { Sandbox, SandboxProvider } from '@repo/sandbox-providers';
 import { 
   updateBuild, 
   completeBuild, 
@@ -14,19 +13,40 @@ import {
   getBuildLogs as getDbBuildLogs,
   createBuildEventsBatch,
   getBuildEvents as getDbBuildEvents,
+  getBuildById,
+  pauseBuild,
+  recordSecurityAuditEntry,
+  recordTokenUsage,
+  getTokenUsageTotals,
 } from '@repo/database';
+import type { BuildSource } from '@repo/database';
 import { runSandboxAgent } from './sandbox-agent';
+import { resolveSandboxProvider, usesHostRuntime } from './providers';
+import { acquireSandbox } from './sandbox-pool';
+import { describeSandboxNetwork, getBuildNetworkPolicy } from './network-policy';
+import { getBuildResourceLimits, startResourceMonitor } from './resource-monitor';
 import {
   saveBuildArtifacts,
+  saveBuildReport,
+  copySourcesToSandbox,
   isArtifactStorageAvailable,
   getArtifactStorageInfo,
 } from './artifact-storage';
-import type { AgentEvent } from '@repo/agent-core';
+import {
+  createHarnessSecurityHook,
+  getDefaultBuildModelRouting,
+  getHarness,
+  hasHarness,
+} from '@repo/agent-core';
+import type {
+  AgentEvent,
+  AgentHarness,
+  BuildModelRouting,
+  SecurityHook,
+  UsageRecord,
+} from '@repo/agent-core';
 import type { BuildStatus } from '@prisma/client';
 
-// Configuration
-const USE_REAL_SANDBOX = process.env.E2B_API_KEY && process.env.E2B_API_KEY !== 'your_e2b_api_key_here';
-
 // Anthropic authentication - OAuth token preferred, API key as fallback
 // Supports both ANTHROPIC_AUTH_TOKEN and CLAUDE_CODE_OAUTH_TOKEN for flexibility
 const ANTHROPIC_AUTH_TOKEN = process.env.ANTHROPIC_AUTH_TOKEN || process.env.CLAUDE_CODE_OAUTH_TOKEN;
@@ -47,6 +67,8 @@ const activeBuildEvents = new Map<string, AgentEvent[]>();
 const cancelledBuilds = new Set<string>();
 // Track pause requests
 const pausedBuilds = new Set<string>();
+// Why the runner paused a build itself, e.g. on reaching its budget
+const pauseReasons = new Map<string, string>();
 // Store checkpoint data for paused builds
 interface CheckpointInfo {
   checkpointData: {
@@ -74,8 +96,210 @@ interface BuildUpdate {
 const buildSubscribers = new Map<string, Set<(update: BuildUpdate) => void>>();
 const activeSandboxes = new Map<string, Sandbox>();
 
-// E2B Provider instance
-const e2bProvider = new E2BProvider();
+/**
+ * Prepare a freshly created sandbox for the agent.
+ * Local sandboxes share the host's Node.js install, which we must not replace.
+ */
+async function prepareSandbox(
+  sandbox: Sandbox,
+  provider: SandboxProvider,
+  addLog: (level: string, message: string) => void
+): Promise<void> {
+  if (usesHostRuntime(provider.name)) {
+    addLog('warn', 'Local sandbox has no isolation - commands run directly on the host');
+    return;
+  }
+
+  // Ensure Node.js 22 for compatibility with modern frameworks like Vite 6.x
+  addLog('info', 'Upgrading Node.js to v22 for modern framework compatibility...');
+  const { ensureNodeVersion } = await import('./sandbox-utils');
+  const nodeUpgraded = await ensureNodeVersion(sandbox, '22');
+  if (nodeUpgraded) {
+    addLog('info', 'Node.js v22 is now available');
+  } else {
+    addLog('warn', 'Node.js upgrade may have failed, continuing anyway...');
+  }
+}
+
+/**
+ * Security hook enforcing the bash security policy of the build's harness.
+ *
+ * Every decision is recorded in the build's security audit log. A failure to
+ * record is logged but doesn't fail the tool call.
+ */
+function getBuildSecurityHook(buildId: string, harness: AgentHarness): SecurityHook {
+  const hook = createHarnessSecurityHook(harness);
+
+  return async (input, toolUseId, context) => {
+    const result = await hook(input, toolUseId, context);
+    const { command } = input.tool_input;
+    try {
+      await recordSecurityAuditEntry({
+        buildId,
+        harnessId: harness.id,
+        toolName: input.tool_name,
+        toolUseId,
+        input: input.tool_input,
+        command: typeof command === 'string' ? command : undefined,
+        decision: result.decision === 'block' ? 'block' : 'allow',
+        rule: result.rule,
+        reason: result.reason,
+      });
+    } catch (error) {
+      console.error('Failed to record security audit entry:', error);
+    }
+    return result;
+  };
+}
+
+/**
+ * The usage the build has already recorded, and a callback recording the
+ * agent's model calls against the build and its owner. A failure to record is
+ * logged but doesn't fail the build. Builds with a budget are paused when
+ * their usage reaches it.
+ */
+async function getBuildUsageTracking(buildId: string) {
+  const [build, initialUsage] = await Promise.all([
+    getBuildById(buildId),
+    getTokenUsageTotals({ buildId }),
+  ]);
+
+  return {
+    initialUsage,
+    onUsage: (record: UsageRecord) => {
+      recordTokenUsage({ buildId, userId: build?.userId, ...record }).catch((error) => {
+        console.error('Failed to record token usage:', error);
+      });
+    },
+    budget: { usd: build?.budgetUsd, tokens: build?.budgetTokens },
+    onBudgetReached: (reason: string) => {
+      void pauseBuildForBudget(buildId, reason);
+    },
+  };
+}
+
+/**
+ * The models the build was created with. Roles it has no model for, as on
+ * builds from before models were chosen per build, use the defaults.
+ */
+async function getBuildModels(buildId: string): Promise<BuildModelRouting> {
+  const build = await getBuildById(buildId);
+  return {
+    ...getDefaultBuildModelRouting(),
+    ...(build?.models as Partial<BuildModelRouting> | null),
+  };
+}
+
+/**
+ * Copy the build's attachments into the sandbox's sources/ directory, where
+ * harnesses such as the research harness read them.
+ */
+async function copyBuildSources(
+  buildId: string,
+  sandbox: Sandbox,
+  addLog: (level: string, message: string) => void
+): Promise<void> {
+  const build = await getBuildById(buildId);
+  const sources = (build?.sources ?? []) as unknown as BuildSource[];
+  if (sources.length === 0) {
+    return;
+  }
+
+  if (!isArtifactStorageAvailable()) {
+    addLog('warn', `Storage not available - the build's ${sources.length} source files were not copied`);
+    return;
+  }
+
+  const paths = await copySourcesToSandbox(sandbox, sources);
+  addLog('info', `Copied ${paths.length} source files to sources/`);
+}
+
+/**
+ * Save the report of a harness that produces one, so it can be shown after
+ * the sandbox is destroyed. A failure is logged but doesn't fail the build.
+ */
+async function saveHarnessReport(
+  buildId: string,
+  harnessId: string,
+  sandbox: Sandbox,
+  addLog: (level: string, message: string) => void
+): Promise<void> {
+  const reportFiles = hasHarness(harnessId) ? getHarness(harnessId).reportFiles : undefined;
+  if (!reportFiles?.length) {
+    return;
+  }
+
+  try {
+    const saved = await saveBuildReport(buildId, sandbox, reportFiles);
+    addLog(
+      saved.length > 0 ? 'info' : 'warn',
+      saved.length > 0 ? `Report saved: ${saved.join(', ')}` : 'No report was written'
+    );
+  } catch (e) {
+    addLog('error', `Failed to save report: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Log the network policy a build's sandbox runs under, warning about any part the
+ * provider couldn't enforce.
+ *
+ * @returns The policy to record on the build, if the sandbox has one
+ */
+function reportSandboxNetwork(
+  sandbox: Sandbox,
+  provider: SandboxProvider,
+  addLog: (level: string, message: string) => void
+): Record<string, unknown> | undefined {
+  if (!sandbox.network) {
+    return undefined;
+  }
+
+  addLog('info', describeSandboxNetwork(sandbox.network));
+  if (sandbox.network.unenforced.length > 0) {
+    addLog(
+      'warn',
+      `The ${provider.name} provider cannot enforce the network policy's ${sandbox.network.unenforced.join(' and ')}`
+    );
+  }
+  return { ...sandbox.network };
+}
+
+/**
+ * Release the sandbox of a paused build.
+ * Providers that support snapshots keep it as a snapshot (recorded on the build) so
+ * resume skips reinstalling everything; otherwise, or if snapshotting fails, the
+ * sandbox is destroyed and resume falls back to the saved artifacts.
+ * The caller must already have removed the sandbox from activeSandboxes.
+ *
+ * @returns The snapshot id, if one was taken
+ */
+async function releasePausedSandbox(
+  buildId: string,
+  sandbox: Sandbox,
+  provider: SandboxProvider | undefined,
+  addLog: (level: string, message: string) => void
+): Promise<string | undefined> {
+  if (provider?.snapshot) {
+    try {
+      addLog('info', `Snapshotting ${provider.name} sandbox for fast resume...`);
+      const snapshot = await provider.snapshot(sandbox.id);
+      await updateBuild(buildId, { snapshotId: snapshot.id });
+      addLog('info', `Sandbox snapshot saved: ${snapshot.id}`);
+      return snapshot.id;
+    } catch (e) {
+      addLog('warn', `Failed to snapshot sandbox, resume will use artifacts: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  try {
+    await sandbox.destroy();
+    addLog('info', 'Sandbox destroyed');
+  } catch (e) {
+    addLog('error', `Failed to destroy sandbox: ${e}`);
+  }
+  return undefined;
+}
 
 /**
  * Flush buffered logs to database
@@ -223,6 +447,7 @@ export async function startBuildInBackground(
 
   let artifactKey: string | undefined;
   let buildSucceeded = false;
+  let provider: SandboxProvider | undefined;
 
   try {
     addLog('info', `Starting build with ${sandboxProvider} provider...`);
@@ -236,25 +461,26 @@ export async function startBuildInBackground(
       addLog('warn', 'Artifact storage not configured - artifacts will not be saved');
     }
 
-    if (USE_REAL_SANDBOX && sandboxProvider === 'e2b') {
+    const resolved = resolveSandboxProvider(sandboxProvider);
+    if ('provider' in resolved) {
       // Real sandbox execution
-      addLog('info', 'Using REAL E2B sandbox for build execution');
+      provider = resolved.provider;
+      addLog('info', `Using REAL ${resolved.provider.name} sandbox for build execution`);
       if (reviewGatesEnabled) {
         addLog('info', '🔒 Review gates enabled - will pause for design and feature review');
       }
-      await runRealBuild(buildId, appSpec, harnessId, targetFeatureCount, addLog, emitEvent, reviewGatesEnabled);
+      await runRealBuild(buildId, appSpec, harnessId, targetFeatureCount, addLog, emitEvent, reviewGatesEnabled, resolved.provider);
     } else {
-      // Fallback to simulation if no API key
-      const reason = !USE_REAL_SANDBOX 
-        ? 'E2B API key not configured or invalid' 
-        : `sandboxProvider=${sandboxProvider} (expected e2b)`;
-      addLog('warn', `Running in SIMULATION mode - ${reason}`);
+      // Fallback to simulation if the provider can't be used
+      addLog('warn', `Running in SIMULATION mode - ${resolved.reason}`);
       addLog('warn', 'Simulation mode does not create real sandboxes or artifacts');
       await simulateBuildProcess(buildId, appSpec, targetFeatureCount, addLog);
     }
 
-    // If a cancellation was requested during execution, treat as cancelled
-    if (!cancelledBuilds.has(buildId)) {
+    // If a cancellation or pause was requested during execution, don't treat it as success
+    if (pausedBuilds.has(buildId)) {
+      addLog('info', describePause(buildId));
+    } else if (!cancelledBuilds.has(buildId)) {
       buildSucceeded = true;
       addLog('info', 'Build completed successfully!');
     } else {
@@ -283,8 +509,10 @@ export async function startBuildInBackground(
     // Don't throw yet - we want to try saving artifacts first
   }
 
-  // Save artifacts before destroying sandbox
+  // Save artifacts before destroying sandbox. Dropping it from activeSandboxes tells a
+  // waiting pauseBuildExecution that the runner has stopped and owns the cleanup.
   const sandbox = activeSandboxes.get(buildId);
+  activeSandboxes.delete(buildId);
   const storageAvailable = isArtifactStorageAvailable();
   
   addLog('info', `Artifact save check: sandbox=${sandbox ? 'yes' : 'no'}, storage=${storageAvailable ? 'yes' : 'no'}`);
@@ -301,17 +529,19 @@ export async function startBuildInBackground(
     } catch (e) {
       addLog('error', `Failed to save artifacts: ${e instanceof Error ? e.message : String(e)}`);
     }
+    await saveHarnessReport(buildId, harnessId, sandbox, addLog);
   } else if (!sandbox) {
     addLog('warn', 'No active sandbox found - cannot save artifacts. This may indicate the build ran in simulation mode or the sandbox was already destroyed.');
   } else if (!storageAvailable) {
     addLog('warn', 'Artifact storage not available - configure S3_* environment variables to enable artifact storage.');
   }
 
-  // Clean up sandbox
-  if (sandbox) {
+  // Clean up sandbox - paused builds keep it as a snapshot when the provider supports it
+  if (sandbox && pausedBuilds.has(buildId)) {
+    await releasePausedSandbox(buildId, sandbox, provider, addLog);
+  } else if (sandbox) {
     try {
       await sandbox.destroy();
-      activeSandboxes.delete(buildId);
       addLog('info', 'Sandbox destroyed');
     } catch (e) {
       addLog('error', `Failed to destroy sandbox: ${e}`);
@@ -321,6 +551,22 @@ export async function startBuildInBackground(
   // Stop log flushing and do final flush
   stopFlusher();
 
+  // Don't complete build if paused - leave in PAUSED state with the latest artifacts
+  if (pausedBuilds.has(buildId)) {
+    if (artifactKey) {
+      await updateBuild(buildId, { artifactKey }).catch((e) => {
+        console.error('Failed to record artifacts for paused build:', e);
+      });
+    }
+    buildSubscribers.delete(buildId);
+    activeBuildLogs.delete(buildId);
+    activeBuildEvents.delete(buildId);
+    pausedBuilds.delete(buildId);
+    pauseReasons.delete(buildId);
+    cancelledBuilds.delete(buildId);
+    return;
+  }
+
   // Update build status with artifact info
   let finalStatus: 'COMPLETED' | 'FAILED' | 'CANCELLED' = 'FAILED';
   try {
@@ -364,45 +610,59 @@ export async function startBuildInBackground(
 }
 
 /**
- * Run a real build in E2B sandbox using the sandbox agent.
- * The agent runs on the server and executes tools in the E2B sandbox.
+ * Run a real build in a sandbox using the sandbox agent.
+ * The agent runs on the server and executes tools in the sandbox.
  */
 async function runRealBuild(
   buildId: string,
   appSpec: string,
-  _harnessId: string,
+  harnessId: string,
   targetFeatureCount: number,
   addLog: (level: string, message: string) => void,
   emitEvent: (event: { id: string; type: string; timestamp: string; [key: string]: unknown }) => void,
-  reviewGatesEnabled: boolean = false
+  reviewGatesEnabled: boolean,
+  provider: SandboxProvider
 ): Promise<void> {
-  addLog('info', 'Creating E2B sandbox...');
+  // Throws for an unknown harness before a sandbox is created
+  const harness = getHarness(harnessId);
+
+  addLog('info', `Creating ${provider.name} sandbox...`);
 
   // Create sandbox with authentication credentials
-  const sandbox = await e2bProvider.create({
-    template: 'base',
-    timeout: 3600, // 1 hour
-    env: {
-      // Pass OAuth token (preferred) or API key to sandbox
-      ...(ANTHROPIC_AUTH_TOKEN && { ANTHROPIC_AUTH_TOKEN }),
-      ...(ANTHROPIC_AUTH_TOKEN && { CLAUDE_CODE_OAUTH_TOKEN: ANTHROPIC_AUTH_TOKEN }),
-      ...(ANTHROPIC_API_KEY && { ANTHROPIC_API_KEY }),
+  const { sandbox, prepared } = await acquireSandbox(
+    provider,
+    {
+      template: 'base',
+      timeout: 3600, // 1 hour
+      env: {
+        // Pass OAuth token (preferred) or API key to sandbox
+        ...(ANTHROPIC_AUTH_TOKEN && { ANTHROPIC_AUTH_TOKEN }),
+        ...(ANTHROPIC_AUTH_TOKEN && { CLAUDE_CODE_OAUTH_TOKEN: ANTHROPIC_AUTH_TOKEN }),
+        ...(ANTHROPIC_API_KEY && { ANTHROPIC_API_KEY }),
+      },
+      network: getBuildNetworkPolicy(),
+      resources: getBuildResourceLimits(),
     },
-  });
+    'build'
+  );
 
   activeSandboxes.set(buildId, sandbox);
-  addLog('info', `Sandbox created: ${sandbox.id}`);
+  // Record the sandbox so the orphan reaper can find it if this server goes away,
+  // and the network policy it runs under for auditing
+  await updateBuild(buildId, {
+    sandboxId: sandbox.id,
+    networkPolicy: reportSandboxNetwork(sandbox, provider, addLog),
+  });
 
-  // Ensure Node.js 22 for compatibility with modern frameworks like Vite 6.x
-  addLog('info', 'Upgrading Node.js to v22 for modern framework compatibility...');
-  const { ensureNodeVersion } = await import('./sandbox-utils');
-  const nodeUpgraded = await ensureNodeVersion(sandbox, '22');
-  if (nodeUpgraded) {
-    addLog('info', 'Node.js v22 is now available');
+  if (prepared) {
+    addLog('info', `Using pre-provisioned sandbox from warm pool: ${sandbox.id}`);
   } else {
-    addLog('warn', 'Node.js upgrade may have failed, continuing anyway...');
+    addLog('info', `Sandbox created: ${sandbox.id}`);
+    await prepareSandbox(sandbox, provider, addLog);
   }
 
+  await copyBuildSources(buildId, sandbox, addLog);
+
   // Extend sandbox timeout periodically to prevent timeout during long builds
   // E2B hobby tier has 1 hour max, so we extend every 50 minutes
   const TIMEOUT_EXTENSION_INTERVAL_MS = 50 * 60 * 1000; // 50 minutes
@@ -416,15 +676,18 @@ async function runRealBuild(
     }
   }, TIMEOUT_EXTENSION_INTERVAL_MS);
 
+  const stopResourceMonitor = startResourceMonitor(sandbox, emitEvent, addLog);
+
   try {
     // Run the sandbox agent - this executes Claude on the server
-    // and redirects tool calls to the E2B sandbox
+    // and redirects tool calls to the sandbox
     // The agent runs autonomously until all features are complete
     // See: https://www.anthropic.com/engineering/effective-harnesses-for-long-running-agents
     await runSandboxAgent({
       buildId,
       sandbox,
       appSpec,
+      harness,
       targetFeatureCount,
       onLog: (level, message) => {
         addLog(level, message);
@@ -447,7 +710,10 @@ async function runRealBuild(
       onEvent: (event) => {
         emitEvent(event);
       },
-      shouldStop: () => cancelledBuilds.has(buildId),
+      securityHook: getBuildSecurityHook(buildId, harness),
+      models: await getBuildModels(buildId),
+      ...(await getBuildUsageTracking(buildId)),
+      shouldStop: () => cancelledBuilds.has(buildId) || pausedBuilds.has(buildId),
       reviewGatesEnabled,
       onReviewGate: reviewGatesEnabled ? async (gate) => {
         // Update build status to awaiting review
@@ -497,13 +763,14 @@ async function runRealBuild(
     addLog('error', `Agent execution error: ${error instanceof Error ? error.message : String(error)}`);
     throw error;
   } finally {
-    // Always clear the timeout extension interval
+    // Always clear the timeout extension interval and stop sampling
     clearInterval(timeoutExtensionInterval);
+    stopResourceMonitor();
   }
 }
 
 /**
- * Simulate a build process for demo purposes (fallback when no E2B key)
+ * Simulate a build process for demo purposes (fallback when no sandbox provider is usable)
  */
 async function simulateBuildProcess(
   buildId: string,
@@ -837,9 +1104,10 @@ function delay(ms: number): Promise<void> {
 
 /**
  * Pause a running build execution
- * Signals the build to stop at the next checkpoint and save state
+ * Signals the build to stop at the next checkpoint and save state.
+ * The build runner snapshots the sandbox once the agent stops (see releasePausedSandbox).
  */
-export async function pauseBuildExecution(buildId: string): Promise<{
+export async function pauseBuildExecution(buildId: string, reason?: string): Promise<{
   success: boolean;
   error?: string;
   artifactKey?: string;
@@ -858,6 +1126,11 @@ export async function pauseBuildExecution(buildId: string): Promise<{
 
   // Signal pause request
   pausedBuilds.add(buildId);
+  if (reason) {
+    pauseReasons.set(buildId, reason);
+  }
+  // Described now, since the runner may clear the reason while we wait below
+  const pauseMessage = describePause(buildId);
   console.log(`[pause] Pause signal sent, pausedBuilds now has: ${pausedBuilds.size} items`);
 
   // Immediately emit a "pause requested" log so UI shows feedback
@@ -926,7 +1199,7 @@ export async function pauseBuildExecution(buildId: string): Promise<{
   const log: LogEntry = {
     id: `log_${Date.now()}_${Math.random().toString(36).slice(2)}`,
     level: 'info',
-    message: 'Build paused by user - checkpoint saved',
+    message: `${pauseMessage} - checkpoint saved`,
     timestamp: new Date().toISOString(),
   };
   const logs = activeBuildLogs.get(buildId) || [];
@@ -941,6 +1214,39 @@ export async function pauseBuildExecution(buildId: string): Promise<{
   return { success: true, artifactKey };
 }
 
+/**
+ * Log line for a paused build, with the reason when the runner paused it
+ */
+function describePause(buildId: string): string {
+  const reason = pauseReasons.get(buildId);
+  return reason ? `Build paused: ${reason}` : 'Build paused by user';
+}
+
+/**
+ * Pause a build whose usage reached its budget, the way the pause route does,
+ * so it can be resumed once the budget is raised. Runs alongside the agent,
+ * which stops as soon as the pause is signalled.
+ */
+async function pauseBuildForBudget(buildId: string, reason: string): Promise<void> {
+  try {
+    const pauseResult = await pauseBuildExecution(buildId, reason);
+    if (!pauseResult.success) {
+      console.error(`[pause] Could not pause build ${buildId} at its budget:`, pauseResult.error);
+      return;
+    }
+
+    const checkpoint = getCheckpointData(buildId);
+    await pauseBuild(buildId, {
+      reason,
+      checkpointData: checkpoint?.checkpointData,
+      conversationHistory: checkpoint?.conversationHistory ?? undefined,
+      artifactKey: pauseResult.artifactKey,
+    });
+  } catch (error) {
+    console.error('Failed to pause build at its budget:', error);
+  }
+}
+
 /**
  * Get checkpoint data for a build
  */
@@ -994,10 +1300,12 @@ export async function resumeBuildFromCheckpoint(
     checkpointData: Record<string, unknown> | null;
     conversationHistory: unknown[] | null;
     artifactKey: string | null;
+    snapshotId: string | null;
   }
 ): Promise<void> {
   // Clear pause state
   pausedBuilds.delete(buildId);
+  pauseReasons.delete(buildId);
   cancelledBuilds.delete(buildId);
 
   // Initialize log and event storage for this build
@@ -1073,10 +1381,11 @@ export async function resumeBuildFromCheckpoint(
   let buildSucceeded = false;
 
   try {
-    if (USE_REAL_SANDBOX && sandboxProvider === 'e2b') {
-      addLog('info', 'Creating new E2B sandbox for resumed build...');
-
-      const sandbox = await e2bProvider.create({
+    const harness = getHarness(harnessId);
+    const resolved = resolveSandboxProvider(sandboxProvider);
+    if ('provider' in resolved) {
+      const { provider } = resolved;
+      const sandboxConfig = {
         template: 'base',
         timeout: 3600,
         env: {
@@ -1085,23 +1394,49 @@ export async function resumeBuildFromCheckpoint(
           ...(ANTHROPIC_AUTH_TOKEN && { CLAUDE_CODE_OAUTH_TOKEN: ANTHROPIC_AUTH_TOKEN }),
           ...(ANTHROPIC_API_KEY && { ANTHROPIC_API_KEY }),
         },
-      });
+        network: getBuildNetworkPolicy(),
+        resources: getBuildResourceLimits(),
+      };
 
-      activeSandboxes.set(buildId, sandbox);
-      addLog('info', `Sandbox created: ${sandbox.id}`);
+      // Fast path: pick up the paused sandbox itself, dependencies and all
+      let restoredSandbox: Sandbox | null = null;
+      if (checkpoint.snapshotId && provider.restoreFromSnapshot) {
+        addLog('info', `Restoring ${provider.name} sandbox from snapshot...`);
+        try {
+          restoredSandbox = await provider.restoreFromSnapshot(checkpoint.snapshotId, sandboxConfig);
+          addLog('info', `Sandbox restored: ${restoredSandbox.id}`);
+        } catch (e) {
+          addLog('warn', `Failed to restore snapshot, falling back to artifacts: ${e instanceof Error ? e.message : String(e)}`);
+          await provider.deleteSnapshot?.(checkpoint.snapshotId).catch(() => {
+            // Already gone
+          });
+        }
+        // A snapshot can only be restored once
+        await updateBuild(buildId, { snapshotId: null });
+      }
 
-      // Ensure Node.js 22 for compatibility with modern frameworks like Vite 6.x
-      addLog('info', 'Upgrading Node.js to v22 for modern framework compatibility...');
-      const { ensureNodeVersion } = await import('./sandbox-utils');
-      const nodeUpgraded = await ensureNodeVersion(sandbox, '22');
-      if (nodeUpgraded) {
-        addLog('info', 'Node.js v22 is now available');
+      let sandbox: Sandbox;
+      if (restoredSandbox) {
+        sandbox = restoredSandbox;
+        activeSandboxes.set(buildId, sandbox);
       } else {
-        addLog('warn', 'Node.js upgrade may have failed, continuing anyway...');
+        addLog('info', `Creating new ${provider.name} sandbox for resumed build...`);
+        const acquired = await acquireSandbox(provider, sandboxConfig, 'build');
+        sandbox = acquired.sandbox;
+        activeSandboxes.set(buildId, sandbox);
+        addLog('info', `Sandbox created: ${sandbox.id}`);
+
+        if (!acquired.prepared) {
+          await prepareSandbox(sandbox, provider, addLog);
+        }
       }
+      await updateBuild(buildId, {
+        sandboxId: sandbox.id,
+        networkPolicy: reportSandboxNetwork(sandbox, provider, addLog),
+      });
 
       // Restore artifacts
-      if (checkpoint.artifactKey) {
+      if (!restoredSandbox && checkpoint.artifactKey) {
         addLog('info', 'Restoring previous work from artifacts...');
         try {
           const { restoreArtifactsToSandbox } = await import('./artifact-storage');
@@ -1154,11 +1489,13 @@ export async function resumeBuildFromCheckpoint(
       }
 
       // Run the agent with resume context
+      const stopResourceMonitor = startResourceMonitor(sandbox, emitEvent, addLog);
       try {
         await runSandboxAgent({
           buildId,
           sandbox,
           appSpec,
+          harness,
           targetFeatureCount,
           onLog: (level, message) => addLog(level, message),
           onProgress: async (completed, total, currentFeature) => {
@@ -1172,6 +1509,9 @@ export async function resumeBuildFromCheckpoint(
             }
           },
           onEvent: (event) => emitEvent(event),
+          securityHook: getBuildSecurityHook(buildId, harness),
+          models: await getBuildModels(buildId),
+          ...(await getBuildUsageTracking(buildId)),
           shouldStop: () => cancelledBuilds.has(buildId) || pausedBuilds.has(buildId),
           resumeContext: {
             startingFeatureIndex,
@@ -1181,6 +1521,8 @@ export async function resumeBuildFromCheckpoint(
       } catch (error) {
         addLog('error', `Agent execution error: ${error instanceof Error ? error.message : String(error)}`);
         throw error;
+      } finally {
+        stopResourceMonitor();
       }
     } else {
       // Simulation mode resume
@@ -1193,7 +1535,7 @@ export async function resumeBuildFromCheckpoint(
       buildSucceeded = true;
       addLog('info', 'Build completed successfully!');
     } else if (pausedBuilds.has(buildId)) {
-      addLog('info', 'Build paused by user');
+      addLog('info', describePause(buildId));
     } else {
       addLog('info', 'Build cancelled by user');
     }
@@ -1203,6 +1545,7 @@ export async function resumeBuildFromCheckpoint(
 
   // Save final artifacts
   const sandbox = activeSandboxes.get(buildId);
+  activeSandboxes.delete(buildId);
   if (sandbox && isArtifactStorageAvailable()) {
     try {
       addLog('info', 'Saving build artifacts...');
@@ -1211,13 +1554,16 @@ export async function resumeBuildFromCheckpoint(
     } catch (e) {
       addLog('error', `Failed to save artifacts: ${e instanceof Error ? e.message : String(e)}`);
     }
+    await saveHarnessReport(buildId, harnessId, sandbox, addLog);
   }
 
-  // Clean up sandbox
-  if (sandbox) {
+  // Clean up sandbox - paused builds keep it as a snapshot when the provider supports it
+  if (sandbox && pausedBuilds.has(buildId)) {
+    const resolved = resolveSandboxProvider(sandboxProvider);
+    await releasePausedSandbox(buildId, sandbox, 'provider' in resolved ? resolved.provider : undefined, addLog);
+  } else if (sandbox) {
     try {
       await sandbox.destroy();
-      activeSandboxes.delete(buildId);
       addLog('info', 'Sandbox destroyed');
     } catch (e) {
       addLog('error', `Failed to destroy sandbox: ${e}`);
@@ -1230,8 +1576,12 @@ export async function resumeBuildFromCheckpoint(
   const wasPaused = pausedBuilds.has(buildId);
   const wasCancelled = cancelledBuilds.has(buildId);
   
-  // Don't complete build if paused - leave in PAUSED state
-  if (!wasPaused) {
+  // Don't complete build if paused - leave in PAUSED state with the latest artifacts
+  if (wasPaused && artifactKey) {
+    await updateBuild(buildId, { artifactKey }).catch((e) => {
+      console.error('Failed to record artifacts for paused build:', e);
+    });
+  } else if (!wasPaused) {
     const finalStatus = wasCancelled ? 'CANCELLED' : buildSucceeded ? 'COMPLETED' : 'FAILED';
     try {
       await completeBuild(buildId, finalStatus, artifactKey ? { artifactKey } : undefined);
@@ -1254,6 +1604,7 @@ export async function resumeBuildFromCheckpoint(
   activeBuildLogs.delete(buildId);
   activeBuildEvents.delete(buildId);
   pausedBuilds.delete(buildId);
+  pauseReasons.delete(buildId);
   cancelledBuilds.delete(buildId);
   buildCheckpoints.delete(buildId);
 }
@@ -0,0 +1,55 @@
+/**
+ * Build Sandbox Network Policy
+ *
+ * Reads the deployment's egress policy for build sandboxes from the environment.
+ * Builds run with it on every provider, but how strictly it holds depends on the
+ * provider (see SandboxNetwork.enforcement); the result is recorded on the build.
+ * Preview sandboxes only serve finished artifacts and stay unrestricted.
+ */
+
+import type { NetworkPolicy, SandboxNetwork } from '@repo/sandbox-providers';
+
+/**
+ * Parse a comma-separated host list env var. Unset means "no list".
+ */
+function parseHostList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((host) => host.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the network policy for build sandboxes, or undefined for unrestricted egress.
+ *
+ * - SANDBOX_NETWORK_ALLOW_HOSTS: only these hosts are reachable (empty blocks all egress)
+ * - SANDBOX_NETWORK_DENY_HOSTS: these hosts are never reachable
+ * - SANDBOX_NETWORK_NPM_REGISTRY_ONLY=true: only the npm registry (plus allowed hosts)
+ */
+export function getBuildNetworkPolicy(): NetworkPolicy | undefined {
+  const allowHosts = parseHostList(process.env.SANDBOX_NETWORK_ALLOW_HOSTS);
+  const denyHosts = parseHostList(process.env.SANDBOX_NETWORK_DENY_HOSTS);
+  const npmRegistryOnly = process.env.SANDBOX_NETWORK_NPM_REGISTRY_ONLY === 'true';
+
+  if (!allowHosts && !denyHosts?.length && !npmRegistryOnly) {
+    return undefined;
+  }
+  return { allowHosts, denyHosts, npmRegistryOnly };
+}
+
+/**
+ * Describe an enforced network policy for the build log.
+ */
+export function describeSandboxNetwork(network: SandboxNetwork): string {
+  const allowed =
+    network.allowHosts === null
+      ? 'all hosts'
+      : network.allowHosts.length === 0
+        ? 'no hosts'
+        : network.allowHosts.join(', ');
+  const denied = network.denyHosts.length > 0 ? ` except ${network.denyHosts.join(', ')}` : '';
+  return `Network egress allowed to ${allowed}${denied} (enforcement: ${network.enforcement})`;
+}
@@ -5,22 +5,37 @@
  * Detects framework type and runs appropriate dev/start commands.
  */
 
-import type { Sandbox } from '@repo/sandbox-providers';
-import { E2BProvider } from '@repo/sandbox-providers';
+import type { BackgroundProcess, ExecResult, Sandbox } from '@repo/sandbox-providers';
 import { updateBuild, getBuildById } from '@repo/database';
 import { ensureNodeVersion } from './sandbox-utils';
-
-// Shared E2B provider instance for sandbox verification
-const e2bProvider = new E2BProvider();
+import { getBuildSandbox } from './providers';
 
 // Default preview configuration
 const DEFAULT_PREVIEW_PORT = 3000;
 const DEFAULT_PREVIEW_TTL_MS = 60 * 60 * 1000; // 1 hour
 const MAX_PREVIEW_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours (E2B Pro limit)
 
+// Server output kept for error messages when a preview fails to start
+const MAX_SERVER_LOG_CHARS = 64 * 1024;
+
+// Dependency installs and builds that take longer than this are treated as hung
+const SETUP_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Preview servers started by this process, so they can be stopped directly
+const previewServers = new Map<string, BackgroundProcess>();
+
 // Common subdirectories created by scaffolding tools (e.g., npm create vite@latest portfolio)
 const COMMON_PROJECT_DIRS = ['portfolio', 'app', 'project', 'frontend', 'client', 'web', 'site'];
 
+/**
+ * Build the preview URL for a sandbox host.
+ * Cloud providers serve previews over TLS; local providers (e.g. Docker) publish plain HTTP ports.
+ */
+function toPreviewUrl(host: string): string {
+  const isLocal = /^(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\])(:\d+)?$/.test(host);
+  return `${isLocal ? 'http' : 'https'}://${host}`;
+}
+
 /**
  * Check if a sandbox is still alive and responsive.
  * Returns true if sandbox responds to a simple command, false if dead/expired.
@@ -29,7 +44,7 @@ export async function isSandboxAlive(sandbox: Sandbox): Promise<boolean> {
   try {
     // Try a simple operation to verify sandbox is responsive
     // Use a short timeout to fail fast if sandbox is dead
-    const result = await sandbox.exec('echo alive');
+    const result = await sandbox.exec('echo alive', { timeoutMs: 10_000 });
     return result.exitCode === 0 && result.stdout.includes('alive');
   } catch (error) {
     console.log(`[preview-manager] Sandbox liveness check failed: ${error}`);
@@ -287,12 +302,14 @@ export async function startPreview(
     port?: number;
     ttlMs?: number;
     workspacePath?: string;
+    upgradeNode?: boolean;
   } = {}
 ): Promise<PreviewSession> {
   const {
     port: requestedPort,
     ttlMs = DEFAULT_PREVIEW_TTL_MS,
     workspacePath: providedPath = '/home/user',
+    upgradeNode = true,
   } = options;
 
   // Auto-detect the actual project directory
@@ -312,16 +329,21 @@ export async function startPreview(
 
   try {
     // Ensure Node.js 22 is available for modern frameworks like Vite 6.x
-    console.log(`[preview-manager] Ensuring Node.js 22 is available...`);
-    const nodeUpgraded = await ensureNodeVersion(sandbox, '22');
-    if (!nodeUpgraded) {
-      console.warn(`[preview-manager] Node.js upgrade may have failed, continuing anyway...`);
+    if (upgradeNode) {
+      console.log(`[preview-manager] Ensuring Node.js 22 is available...`);
+      const nodeUpgraded = await ensureNodeVersion(sandbox, '22');
+      if (!nodeUpgraded) {
+        console.warn(`[preview-manager] Node.js upgrade may have failed, continuing anyway...`);
+      }
     }
 
     // Install dependencies if needed
     if (framework.installCommand) {
       console.log(`[preview-manager] Installing dependencies: ${framework.installCommand}`);
-      const installResult = await sandbox.exec(`cd ${workspacePath} && ${framework.installCommand}`);
+      const installResult = await sandbox.exec(framework.installCommand, {
+        cwd: workspacePath,
+        timeoutMs: SETUP_COMMAND_TIMEOUT_MS,
+      });
       if (installResult.exitCode !== 0) {
         console.error(`[preview-manager] Install failed (exit ${installResult.exitCode}): ${installResult.stderr}`);
         // Try to continue anyway - maybe deps are already there
@@ -333,7 +355,10 @@ export async function startPreview(
     // Build if needed
     if (framework.buildCommand) {
       console.log(`[preview-manager] Building: ${framework.buildCommand}`);
-      const buildResult = await sandbox.exec(`cd ${workspacePath} && ${framework.buildCommand}`);
+      const buildResult = await sandbox.exec(framework.buildCommand, {
+        cwd: workspacePath,
+        timeoutMs: SETUP_COMMAND_TIMEOUT_MS,
+      });
       if (buildResult.exitCode !== 0) {
         throw new Error(`Build failed: ${buildResult.stderr}`);
       }
@@ -415,18 +440,23 @@ export default mergeConfig(baseConfig, defineConfig({
       }
     }
 
-    // Start the server in background
+    // Start the server as a background process so its output and exit are observable
     console.log(`[preview-manager] Starting server: ${framework.startCommand}`);
-    // Use nohup and & to run in background, redirect output to files
-    // Also ensure we're using the correct shell and PATH
-    const startCmd = `cd ${workspacePath} && nohup sh -c '${framework.startCommand}' > /tmp/preview.log 2>&1 &`;
-    const startResult = await sandbox.exec(startCmd);
-    console.log(`[preview-manager] Start command launched (exit ${startResult.exitCode})`);
-    
-    // Wait for process to actually start - Vite needs time to compile
-    const INITIAL_WAIT_MS = 3000;
-    console.log(`[preview-manager] Waiting ${INITIAL_WAIT_MS}ms for server to initialize...`);
-    await new Promise(resolve => setTimeout(resolve, INITIAL_WAIT_MS));
+    const server = await sandbox.spawnBackground(framework.startCommand, { cwd: workspacePath });
+    previewServers.get(buildId)?.kill().catch(() => {});
+    previewServers.set(buildId, server);
+    console.log(`[preview-manager] Server started (pid ${server.pid})`);
+
+    let serverLogs = '';
+    let serverExit = null as ExecResult | null;
+    void (async () => {
+      for await (const chunk of server.logs()) {
+        serverLogs = (serverLogs + chunk).slice(-MAX_SERVER_LOG_CHARS);
+      }
+    })();
+    void server.wait().then((result) => {
+      serverExit = result;
+    });
 
     // Wait for server to start with retry logic
     // Vite and other dev servers can take 5-15 seconds to start on first run
@@ -437,9 +467,16 @@ export default mergeConfig(baseConfig, defineConfig({
     let actualPort = port;
 
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      console.log(`[preview-manager] Checking server status (attempt ${attempt}/${MAX_RETRIES})...`);
       await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
 
+      // Server process died - no point in waiting for it
+      if (serverExit) {
+        console.error(`[preview-manager] Server exited with code ${serverExit.exitCode}. Logs:\n${serverLogs}`);
+        throw new Error(`Server process exited unexpectedly (exit ${serverExit.exitCode}). Logs: ${serverLogs.slice(-500)}`);
+      }
+
+      console.log(`[preview-manager] Checking server status (attempt ${attempt}/${MAX_RETRIES})...`);
+
       // Verify server is running by checking the port
       // Use a more robust command that captures only the HTTP code
       const checkResult = await sandbox.exec(
@@ -470,35 +507,23 @@ export default mergeConfig(baseConfig, defineConfig({
           actualPort = parseInt(foundPort, 10);
         }
       }
-
-      // Check if process is still running
-      const psCheck = await sandbox.exec(`pgrep -f "(npm|node|vite)" || echo "none"`);
-      const processInfo = psCheck.stdout.trim();
-      console.log(`[preview-manager] Process check: ${processInfo}`);
-      if (processInfo === 'none') {
-        // Server process died, check logs immediately
-        const logs = await sandbox.exec('cat /tmp/preview.log 2>/dev/null || echo "No logs"');
-        console.error(`[preview-manager] Server died. Logs:\n${logs.stdout}`);
-        throw new Error(`Server process exited unexpectedly. Logs: ${logs.stdout.slice(0, 500)}`);
-      }
     }
 
     if (!serverReady) {
-      // Server didn't respond after all retries, check logs
-      const logs = await sandbox.exec('cat /tmp/preview.log 2>/dev/null || echo "No logs"');
+      // Server didn't respond after all retries
       const portCheck = await sandbox.exec(
         `ss -tlnp 2>/dev/null | grep -E ":(517[0-9]|300[0-9])" || netstat -tlnp 2>/dev/null | grep -E ":(517[0-9]|300[0-9])" || echo "no listeners"`
       );
       console.error(`[preview-manager] Server didn't respond. Port check: ${portCheck.stdout}`);
-      console.error(`[preview-manager] Preview logs:\n${logs.stdout}`);
-      throw new Error(`Server failed to start after ${MAX_RETRIES * RETRY_DELAY_MS / 1000}s. HTTP code: ${lastHttpCode}. Port check: ${portCheck.stdout.trim()}. Logs: ${logs.stdout.slice(0, 500)}`);
+      console.error(`[preview-manager] Preview logs:\n${serverLogs || 'No logs'}`);
+      throw new Error(`Server failed to start after ${MAX_RETRIES * RETRY_DELAY_MS / 1000}s. HTTP code: ${lastHttpCode}. Port check: ${portCheck.stdout.trim()}. Logs: ${serverLogs.slice(-500)}`);
     }
 
     // Use the actual port where the server is running
     const finalPort = actualPort;
 
     // Get the public URL using the actual port where server is running
-    const outputUrl = `https://${sandbox.getHost(finalPort)}`;
+    const outputUrl = toPreviewUrl(sandbox.getHost(finalPort));
 
     // Calculate expiry time
     const expiresAt = new Date(Date.now() + Math.min(ttlMs, MAX_PREVIEW_TTL_MS));
@@ -516,6 +541,7 @@ export default mergeConfig(baseConfig, defineConfig({
     // Update build with preview info (use final port in case it changed)
     await updateBuild(buildId, {
       sandboxId: sandbox.id,
+      previewSandboxId: sandbox.id,
       outputUrl,
       previewStatus: 'running',
       previewPort: finalPort,
@@ -536,6 +562,10 @@ export default mergeConfig(baseConfig, defineConfig({
       startedAt,
     };
   } catch (error) {
+    // Don't leave a half-started server running
+    await previewServers.get(buildId)?.kill().catch(() => {});
+    previewServers.delete(buildId);
+
     // Update status on failure
     await updateBuild(buildId, {
       previewStatus: 'stopped',
@@ -559,8 +589,14 @@ export async function stopPreview(
   });
 
   try {
-    // Kill any running server processes
-    await sandbox.exec('pkill -f "npm\\|node\\|python\\|serve" || true');
+    // Kill the server we started, or any server processes if it was started elsewhere
+    const server = previewServers.get(buildId);
+    previewServers.delete(buildId);
+    if (server) {
+      await server.kill();
+    } else {
+      await sandbox.exec('pkill -f "npm\\|node\\|python\\|serve" || true');
+    }
     
     // Destroy the sandbox
     await sandbox.destroy();
@@ -622,7 +658,7 @@ export async function getPreviewStatus(
   if (options?.verifySandbox && build.sandboxId) {
     console.log(`[preview-manager] Verifying sandbox ${build.sandboxId} is alive...`);
     try {
-      const sandbox = await e2bProvider.get(build.sandboxId);
+      const sandbox = await getBuildSandbox(build);
       if (!sandbox) {
         console.log(`[preview-manager] Sandbox ${build.sandboxId} not found via provider`);
         // Sandbox doesn't exist anymore, mark as expired
@@ -0,0 +1,130 @@
+/**
+ * Sandbox Provider Selection
+ *
+ * Resolves sandbox providers by name through the @repo/sandbox-providers registry,
+ * so builds, previews and API routes never reference a concrete provider.
+ * Adding a provider means registering it in the package and, if it needs
+ * credentials, teaching getProviderUnavailableReason about them.
+ */
+
+import { getProvider, getSandbox, listProviders } from '@repo/sandbox-providers';
+import type { Sandbox, SandboxProvider } from '@repo/sandbox-providers';
+import { getProjectById, getUserById } from '@repo/database';
+
+/** Provider used when neither the project nor the user has configured one */
+export const DEFAULT_SANDBOX_PROVIDER = process.env.DEFAULT_SANDBOX_PROVIDER || 'e2b';
+
+// The local provider runs commands directly on this machine, so it's opt-in for production
+const ALLOW_LOCAL_SANDBOX =
+  process.env.NODE_ENV !== 'production' || process.env.ALLOW_LOCAL_SANDBOX === 'true';
+
+export interface SandboxProviderInfo {
+  name: string;
+  available: boolean;
+  reason?: string;
+}
+
+/**
+ * Check whether a provider is registered.
+ */
+export function isKnownProvider(name: string): boolean {
+  return listProviders().includes(name);
+}
+
+/**
+ * Explain why a registered provider can't be used in this deployment.
+ * Returns null when the provider is ready to use.
+ */
+export function getProviderUnavailableReason(name: string): string | null {
+  if (!isKnownProvider(name)) {
+    return `unknown sandbox provider '${name}'`;
+  }
+
+  switch (name) {
+    case 'e2b':
+      return process.env.E2B_API_KEY && process.env.E2B_API_KEY !== 'your_e2b_api_key_here'
+        ? null
+        : 'E2B API key not configured or invalid';
+    case 'daytona':
+      return process.env.DAYTONA_API_KEY ? null : 'Daytona API key not configured';
+    case 'local':
+      return ALLOW_LOCAL_SANDBOX
+        ? null
+        : 'local sandboxes are disabled in production (set ALLOW_LOCAL_SANDBOX=true)';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a provider runs commands on this machine's own toolchain.
+ * Such sandboxes must never have their Node.js install replaced.
+ */
+export function usesHostRuntime(name: string): boolean {
+  return name === 'local';
+}
+
+/**
+ * List registered providers with their availability.
+ */
+export function listSandboxProviders(): SandboxProviderInfo[] {
+  return listProviders().map((name) => {
+    const reason = getProviderUnavailableReason(name);
+    return reason ? { name, available: false, reason } : { name, available: true };
+  });
+}
+
+/**
+ * Pick the provider that runs a build for real.
+ * Returns a reason instead when the provider isn't usable in this deployment.
+ */
+export function resolveSandboxProvider(
+  name: string
+): { provider: SandboxProvider } | { reason: string } {
+  const reason = getProviderUnavailableReason(name);
+  if (reason) {
+    return { reason };
+  }
+  return { provider: getProvider(name) };
+}
+
+/**
+ * Reconnect to a build's sandbox using the provider recorded on the build.
+ * Returns null if the sandbox is gone or the provider can't reach it.
+ *
+ * @param build - Build row (only sandboxId and sandboxProvider are used)
+ * @param sandboxId - Sandbox to look up (defaults to build.sandboxId)
+ */
+export async function getBuildSandbox(
+  build: { sandboxId: string | null; sandboxProvider: string },
+  sandboxId: string | null = build.sandboxId
+): Promise<Sandbox | null> {
+  if (!sandboxId) {
+    return null;
+  }
+  try {
+    return await getSandbox(`${build.sandboxProvider}:${sandboxId}`);
+  } catch (error) {
+    console.log(`[providers] Could not get sandbox ${build.sandboxProvider}:${sandboxId}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Resolve the provider for a new build: project default, then user default,
+ * then the deployment default.
+ */
+export async function resolveDefaultSandboxProvider(options: {
+  userId: string;
+  projectId?: string | null;
+}): Promise<string> {
+  if (options.projectId) {
+    const project = await getProjectById(options.projectId);
+    if (project?.defaultSandboxProvider) {
+      return project.defaultSandboxProvider;
+    }
+  }
+
+  const user = await getUserById(options.userId);
+  return user?.defaultSandboxProvider || DEFAULT_SANDBOX_PROVIDER;
+}
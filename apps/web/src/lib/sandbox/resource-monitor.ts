@@ -0,0 +1,148 @@
+/**
+ * Sandbox Resource Monitor
+ *
+ * Resource limits for build sandboxes, and periodic sampling of what a build actually
+ * consumes. Samples are emitted as resource_usage events (stored as BuildEvents and
+ * charted in the build monitor). A nearly full disk is reported as an error event
+ * up front, because the agent otherwise only sees npm failing with ENOSPC.
+ */
+
+import type { Sandbox, SandboxConfig } from '@repo/sandbox-providers';
+import type { ErrorEvent, ResourceUsageEvent } from '@repo/agent-core';
+import { generateEventId } from '@repo/agent-core';
+
+/** How often usage is sampled during a build (SANDBOX_RESOURCE_SAMPLE_INTERVAL_MS=0 disables it) */
+const SAMPLE_INTERVAL_MS = parseInt(process.env.SANDBOX_RESOURCE_SAMPLE_INTERVAL_MS || '60000', 10);
+
+/** Disk usage ratio that triggers the disk-full error */
+const DISK_FULL_RATIO = 0.95;
+
+/** Usage ratio the disk must drop below before another disk-full error is raised */
+const DISK_RECOVERED_RATIO = 0.9;
+
+/** Output patterns of commands that failed for lack of disk space */
+const DISK_FULL_OUTPUT = /ENOSPC|No space left on device/;
+
+type MonitorEvent = Omit<ResourceUsageEvent, 'buildId'> | Omit<ErrorEvent, 'buildId'>;
+
+/**
+ * Resource limits for build sandboxes, from SANDBOX_CPU_LIMIT (cores),
+ * SANDBOX_MEMORY_LIMIT and SANDBOX_DISK_LIMIT (e.g. "4GB").
+ * Returns undefined when no limit is configured.
+ */
+export function getBuildResourceLimits(): SandboxConfig['resources'] {
+  const cpu = process.env.SANDBOX_CPU_LIMIT ? Number(process.env.SANDBOX_CPU_LIMIT) : undefined;
+  const memory = process.env.SANDBOX_MEMORY_LIMIT || undefined;
+  const disk = process.env.SANDBOX_DISK_LIMIT || undefined;
+
+  if (!cpu && !memory && !disk) {
+    return undefined;
+  }
+  return { ...(cpu && { cpu }), ...(memory && { memory }), ...(disk && { disk }) };
+}
+
+/**
+ * Format a byte count for messages (e.g. "1.5 GB").
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Error event telling the user the sandbox ran out of disk space.
+ */
+export function createDiskFullEvent(details: string): Omit<ErrorEvent, 'buildId'> {
+  return {
+    id: generateEventId(),
+    type: 'error',
+    timestamp: new Date().toISOString(),
+    severity: 'error',
+    message: 'Sandbox disk is full',
+    details,
+    recoverable: true,
+  };
+}
+
+/**
+ * Check whether command output shows a failure caused by a full disk.
+ */
+export function isDiskFullOutput(output: string): boolean {
+  return DISK_FULL_OUTPUT.test(output);
+}
+
+/**
+ * Sample a build sandbox's resource usage until the returned stop function is called.
+ * Failed samples are skipped; the sandbox may be busy or briefly unreachable.
+ *
+ * @param sandbox - Build sandbox to sample
+ * @param emitEvent - Receives resource_usage and disk-full error events
+ * @param addLog - Build log
+ */
+export function startResourceMonitor(
+  sandbox: Sandbox,
+  emitEvent: (event: MonitorEvent) => void,
+  addLog: (level: string, message: string) => void
+): () => void {
+  if (SAMPLE_INTERVAL_MS <= 0) {
+    return () => {};
+  }
+
+  let stopped = false;
+  let sampling = false;
+  let diskFullReported = false;
+
+  const sample = async () => {
+    if (sampling) {
+      return;
+    }
+    sampling = true;
+    try {
+      const usage = await sandbox.getResourceUsage();
+      if (stopped) {
+        return;
+      }
+
+      emitEvent({
+        id: generateEventId(),
+        type: 'resource_usage',
+        timestamp: new Date().toISOString(),
+        ...usage,
+      });
+
+      if (!usage.diskTotalBytes) {
+        return;
+      }
+      const diskRatio = usage.diskUsedBytes / usage.diskTotalBytes;
+      if (diskRatio >= DISK_FULL_RATIO && !diskFullReported) {
+        diskFullReported = true;
+        const message =
+          `Sandbox disk is ${Math.round(diskRatio * 100)}% full ` +
+          `(${formatBytes(usage.diskUsedBytes)} of ${formatBytes(usage.diskTotalBytes)}); ` +
+          'installs and builds will fail with ENOSPC until space is freed';
+        addLog('error', message);
+        emitEvent(createDiskFullEvent(message));
+      } else if (diskRatio < DISK_RECOVERED_RATIO) {
+        diskFullReported = false;
+      }
+    } catch (error) {
+      console.warn(`[resource-monitor] Failed to sample sandbox ${sandbox.id}:`, error);
+    } finally {
+      sampling = false;
+    }
+  };
+
+  void sample();
+  const interval = setInterval(() => void sample(), SAMPLE_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+}
@@ -4,9 +4,14 @@
  * Runs the Claude Agent SDK on the server and redirects tool executions
  * to the E2B sandbox. This provides real-time progress streaming to the UI.
  * 
- * Architecture: Two-model approach for cost/quality optimization
- * - PLANNING MODEL (Sonnet 4.5): High-quality feature list + design planning
- * - BUILDING MODEL (Haiku 4.5): Fast, cheap implementation of individual features
+ * Architecture: each part of the build runs on the model its build routes it
+ * to (see BuildModelRouting in @repo/agent-core), so planning can use a
+ * stronger model than the features it plans
+ * 
+ * Prompt Caching: the planning phase, the building loop and subagents resend
+ * the same tools, system prompt and conversation on every iteration, so each
+ * request carries cache breakpoints (see prompt-cache in @repo/agent-core)
+ * and usage events report the share of input read from the cache.
  * 
  * Design System: For projects with UI components, the planning phase also
  * generates a DESIGN.md file with domain-appropriate design decisions.
@@ -18,10 +23,6 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 
-// Model configuration - separate models for planning vs building
-const PLANNING_MODEL = 'claude-opus-4-5'; // Opus 4.5 for highest quality planning
-const BUILDING_MODEL = 'claude-opus-4-5'; // Opus 4.5 for highest quality implementation
-
 // =============================================================================
 // AUTHENTICATION HELPER
 // =============================================================================
@@ -100,6 +101,8 @@ function detectDomain(appSpec: string): string {
  */
 async function runDesignResearch(
   anthropic: Anthropic,
+  usage: UsageTracker,
+  model: string,
   appSpec: string,
   domain: string,
   onLog: (level: string, message: string) => void
@@ -118,7 +121,7 @@ async function runDesignResearch(
     // Use streaming to avoid SDK timeout errors
     onLog('info', '🔍 Calling Anthropic API with web search...');
     const stream = anthropic.messages.stream({
-      model: PLANNING_MODEL,
+      model,
       max_tokens: 4096,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       tools: [webSearchTool as any],
@@ -160,6 +163,7 @@ Format your response as:
       }]
     });
     const response = await stream.finalMessage();
+    usage.record(model, response.usage, { phase: 'design_research' });
     onLog('info', '🔍 Received response from web search');
 
     // Parse the response
@@ -423,19 +427,40 @@ import { updateBuild } from '@repo/database';
 import type { BuildStatus } from '@prisma/client';
 import type { 
   AgentEvent, 
-  ToolStartEvent, 
-  ToolEndEvent, 
-  FileEvent, 
-  CommandEvent, 
   ThinkingEvent, 
-  ErrorEvent, 
   ActivityEvent,
   PhaseEvent,
   ProgressEvent,
   FeatureListEvent,
   EventFeatureListItem,
+  SecurityHook,
+  AgentHarness,
+  BuildModelRouting,
+  ContextCompactor,
+  SandboxTool,
+  ToolResult,
+  UsageAttribution,
+  UsageBudget,
+  UsageRecord,
+  UsageTotals,
+  UsageTracker,
+} from '@repo/agent-core';
+import {
+  cacheConversation,
+  cacheSystemPrompt,
+  cacheTools,
+  createContextCompactor,
+  createHarnessSecurityHook,
+  createUsageTracker,
+  executeTool,
+  generateEventId,
+  getBudgetOverrun,
+  getCacheHitRate,
+  getDefaultBuildModelRouting,
+  getHarnessTools,
+  toToolDefinition,
 } from '@repo/agent-core';
-import { generateEventId, inferLanguage, parseFeatureList } from '@repo/agent-core';
+import { createDiskFullEvent, isDiskFullOutput } from './resource-monitor';
 
 // Types for Claude messages
 interface TextBlock {
@@ -459,56 +484,6 @@ interface ToolResultBlock {
   is_error?: boolean;
 }
 
-// Tool definitions for the agent
-const TOOLS: Anthropic.Tool[] = [
-  {
-    name: 'bash',
-    description: 'Execute a bash command in the sandbox. Use this for running shell commands, installing packages, running scripts, etc.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        command: {
-          type: 'string',
-          description: 'The bash command to execute',
-        },
-      },
-      required: ['command'],
-    },
-  },
-  {
-    name: 'write_file',
-    description: 'Write content to a file in the sandbox. Creates the file if it does not exist, overwrites if it does.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        path: {
-          type: 'string',
-          description: 'The file path to write to',
-        },
-        content: {
-          type: 'string',
-          description: 'The content to write to the file',
-        },
-      },
-      required: ['path', 'content'],
-    },
-  },
-  {
-    name: 'read_file',
-    description: 'Read the contents of a file in the sandbox.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        path: {
-          type: 'string',
-          description: 'The file path to read',
-        },
-      },
-      required: ['path'],
-    },
-  },
-];
-
 interface AgentLogCallback {
   (level: string, message: string, metadata?: Record<string, unknown>): void;
 }
@@ -536,6 +511,12 @@ export interface SandboxAgentConfig {
   buildId: string;
   sandbox: Sandbox;
   appSpec: string;
+  /**
+   * Harness the build runs with. The coding harness runs the planning and
+   * feature pipeline below; any other harness runs its own prompts in
+   * sessions until its completion check passes.
+   */
+  harness: AgentHarness;
   targetFeatureCount?: number;  // Dynamic feature count based on complexity tier
   onLog: AgentLogCallback;
   onProgress: AgentProgressCallback;
@@ -551,253 +532,265 @@ export interface SandboxAgentConfig {
   reviewGatesEnabled?: boolean;
   /** Callback to pause for review gate - should update build status and throw to stop */
   onReviewGate?: ReviewGateCallback;
+  /**
+   * Checks every bash command before it runs; blocked commands fail the tool call.
+   * Defaults to the harness's security policy or allowed commands.
+   */
+  securityHook?: SecurityHook;
+  /** Usage the build recorded before this run, e.g. before it was paused */
+  initialUsage?: UsageTotals;
+  /** Receives the token usage and cost of each model call */
+  onUsage?: (record: UsageRecord) => void;
+  /** Model for each part of the build; defaults to DEFAULT_MODEL_ROUTING */
+  models?: BuildModelRouting;
+  /** Token and spend limits for the build, counting initialUsage */
+  budget?: UsageBudget;
+  /**
+   * Called once when usage reaches the budget, with the reason to show. It
+   * should pause the build so that shouldStop ends the run.
+   */
+  onBudgetReached?: (reason: string) => void;
+}
+
+/**
+ * Count the build's model calls, reporting each as a usage event with the
+ * build's running totals and prompt cache hit rates, and report when the
+ * totals reach the budget.
+ */
+function createBuildUsageTracker(config: SandboxAgentConfig): UsageTracker {
+  let budgetReached = false;
+
+  return createUsageTracker((record, totals) => {
+    config.onUsage?.(record);
+    config.onEvent?.({
+      id: generateEventId(),
+      type: 'usage',
+      timestamp: new Date().toISOString(),
+      ...record,
+      cacheHitRate: getCacheHitRate(record),
+      totals,
+      totalCacheHitRate: getCacheHitRate(totals),
+    });
+
+    const overrun = config.budget ? getBudgetOverrun(totals, config.budget) : null;
+    if (overrun && !budgetReached) {
+      budgetReached = true;
+      config.onLog('warn', `💸 ${overrun} - pausing build`);
+      config.onBudgetReached?.(overrun);
+    }
+  }, config.initialUsage);
+}
+
+/**
+ * The tools an agent is given for its harness, and the hook that checks them
+ * before they run.
+ */
+interface AgentToolbox {
+  tools: SandboxTool[];
+  /** Tool definitions sent with each request */
+  definitions: Anthropic.Tool[];
+  securityHook?: SecurityHook;
+}
+
+function createToolbox(harness: AgentHarness, securityHook?: SecurityHook): AgentToolbox {
+  const tools = getHarnessTools(harness);
+  return {
+    tools,
+    definitions: tools.map(toToolDefinition),
+    securityHook,
+  };
+}
+
+/**
+ * List the agent's tools for a system prompt, one line each.
+ */
+function describeTools(toolbox: AgentToolbox): string {
+  return toolbox.tools
+    .map((tool) => `- ${tool.name}: ${tool.description.split('. ')[0].replace(/\.$/, '')}`)
+    .join('\n');
 }
 
 /**
- * Execute a tool in the sandbox and return the result.
- * Emits structured events for tool execution and file operations.
+ * Execute a tool call in the sandbox and return the result.
+ * The tool's events are forwarded to onEvent; failures caused by a full disk
+ * are also reported as their own error.
  */
 async function executeToolInSandbox(
   sandbox: Sandbox,
-  toolName: string,
-  toolInput: Record<string, unknown>,
-  toolUseId: string,
+  toolbox: AgentToolbox,
+  block: { id: string; name: string; input: unknown },
   onLog: AgentLogCallback,
   onEvent?: AgentEventCallback
-): Promise<{ output: string; isError: boolean }> {
-  const startTime = Date.now();
-  const timestamp = new Date().toISOString();
+): Promise<ToolResult> {
+  const input = (block.input ?? {}) as Record<string, unknown>;
+  const result = await executeTool(
+    toolbox.tools,
+    { id: block.id, name: block.name, input },
+    { sandbox, onLog, onEvent, securityHook: toolbox.securityHook }
+  );
+
+  if (result.isError && isDiskFullOutput(result.output)) {
+    // npm and git bury ENOSPC in their output; surface it as its own error
+    const target = typeof input.command === 'string' ? input.command : block.name;
+    onEvent?.(createDiskFullEvent(`Command ran out of disk space: ${target.slice(0, 200)}`));
+  }
+  return result;
+}
 
-  // Emit tool start event
-  onEvent?.({
-    id: generateEventId(),
-    type: 'tool_start',
-    timestamp,
-    toolName: toolName as 'bash' | 'write_file' | 'read_file' | 'str_replace_editor',
-    toolUseId,
-    input: toolInput,
-    displayInput: JSON.stringify(toolInput).slice(0, 200),
-  } as Omit<ToolStartEvent, 'buildId'>);
-
-  const failTool = (errorMsg: string) => {
-    const durationMs = Date.now() - startTime;
-
-    // Emit error event
-    onEvent?.({
-      id: generateEventId(),
-      type: 'error',
-      timestamp: new Date().toISOString(),
-      severity: 'error',
-      message: `Tool error: ${errorMsg}`,
-      details: `Tool: ${toolName}`,
-      recoverable: true,
-    } as Omit<ErrorEvent, 'buildId'>);
+// =============================================================================
+// AGENT TURNS
+// =============================================================================
 
-    // Emit tool end event
-    onEvent?.({
-      id: generateEventId(),
-      type: 'tool_end',
-      timestamp: new Date().toISOString(),
-      toolUseId,
-      success: false,
-      error: errorMsg,
-      durationMs,
-    } as Omit<ToolEndEvent, 'buildId'>);
-
-    onLog('error', `Tool error: ${errorMsg}`);
-    return { output: errorMsg, isError: true };
-  };
+/** How long to wait before retrying a rate-limited request */
+const RATE_LIMIT_RETRY_MS = 60000;
+
+interface AgentTurnOptions {
+  anthropic: Anthropic;
+  usage: UsageTracker;
+  model: string;
+  /** What the call's usage is attributed to */
+  attribution: UsageAttribution;
+  systemPrompt: string;
+  toolbox: AgentToolbox;
+  /** The conversation so far; the turn doesn't add to it */
+  messages: Anthropic.MessageParam[];
+  sandbox: Sandbox;
+  onLog: AgentLogCallback;
+  onEvent?: AgentEventCallback;
+  shouldStop?: () => boolean;
+}
 
-  try {
-    switch (toolName) {
-      case 'bash': {
-        const command = typeof toolInput.command === 'string' ? toolInput.command : '';
-        if (!command) {
-          return failTool('Invalid tool input: bash requires { command: string }');
-        }
-        onLog('tool', `bash: ${command.slice(0, 200)}${command.length > 200 ? '...' : ''}`);
-        
-        const result = await sandbox.exec(command);
-        const output = result.stdout + (result.stderr ? `\nSTDERR: ${result.stderr}` : '');
-        const durationMs = Date.now() - startTime;
-        const isError = result.exitCode !== 0;
-        
-        // Emit command event with details
-        onEvent?.({
-          id: generateEventId(),
-          type: 'command',
-          timestamp: new Date().toISOString(),
-          command,
-          exitCode: result.exitCode,
-          stdout: result.stdout?.slice(0, 500),
-          stderr: result.stderr?.slice(0, 500),
-          durationMs,
-        } as Omit<CommandEvent, 'buildId'>);
-        
-        // Emit tool end event
-        onEvent?.({
-          id: generateEventId(),
-          type: 'tool_end',
-          timestamp: new Date().toISOString(),
-          toolUseId,
-          success: !isError,
-          output: output.slice(0, 500),
-          displayOutput: output.length > 500 ? output.slice(0, 500) + '...' : output,
-          durationMs,
-          error: isError ? `Exit code: ${result.exitCode}` : undefined,
-        } as Omit<ToolEndEvent, 'buildId'>);
-        
-        if (isError) {
-          onLog('error', `Command exited with code ${result.exitCode}`);
-          return { output: output || `Exit code: ${result.exitCode}`, isError: true };
-        }
-        
-        onLog('info', `[Done] ${output.slice(0, 100)}${output.length > 100 ? '...' : ''}`);
-        return { output, isError: false };
-      }
+interface AgentTurn {
+  response: Anthropic.Message;
+  /** The response's text and tool calls, for the assistant message */
+  assistantContent: ContentBlock[];
+  /** Results of the tool calls run before any stop request */
+  toolResults: ToolResultBlock[];
+}
 
-      case 'write_file': {
-        const path = typeof toolInput.path === 'string' ? toolInput.path : '';
-        const content = typeof toolInput.content === 'string' ? toolInput.content : undefined;
-        if (!path || content === undefined) {
-          return failTool('Invalid tool input: write_file requires { path: string, content: string }');
-        }
-        onLog('tool', `write_file: ${path} (${content.length} bytes)`);
-        
-        // Check if file exists first to determine if created or modified
-        let isNewFile = true;
-        try {
-          await sandbox.readFile(path);
-          isNewFile = false;
-        } catch {
-          isNewFile = true;
-        }
-        
-        await sandbox.writeFile(path, content);
-        const durationMs = Date.now() - startTime;
-        
-        // Emit file event
-        onEvent?.({
-          id: generateEventId(),
-          type: isNewFile ? 'file_created' : 'file_modified',
-          timestamp: new Date().toISOString(),
-          path,
-          size: content.length,
-          language: inferLanguage(path),
-          linesAdded: content.split('\n').length,
-        } as Omit<FileEvent, 'buildId'>);
-        
-        // If this is feature_list.json, emit a feature_list event with parsed content
-        if (path.endsWith('feature_list.json')) {
-          try {
-            const features = parseFeatureList(content);
-            // Ensure features is a valid array before proceeding
-            if (Array.isArray(features) && features.length > 0) {
-              const completed = features.filter(f => f && f.passes).length;
-              onEvent?.({
-                id: generateEventId(),
-                type: 'feature_list',
-                timestamp: new Date().toISOString(),
-                features: features as EventFeatureListItem[],
-                total: features.length,
-                completed,
-              } as Omit<FeatureListEvent, 'buildId'>);
-              onLog('info', `Feature list created: ${features.length} features (${completed} passing)`);
-            }
-          } catch (parseError) {
-            // Silently ignore parse errors - the file might be partial
-            console.error('Failed to parse feature_list.json:', parseError);
-          }
-        }
-        
-        // Emit tool end event
-        onEvent?.({
-          id: generateEventId(),
-          type: 'tool_end',
-          timestamp: new Date().toISOString(),
-          toolUseId,
-          success: true,
-          output: `Successfully wrote to ${path}`,
-          displayOutput: `Wrote ${path} (${content.length} bytes, ${content.split('\n').length} lines)`,
-          durationMs,
-        } as Omit<ToolEndEvent, 'buildId'>);
-        
-        onLog('info', `[Done] Wrote ${path}`);
-        return { output: `Successfully wrote to ${path}`, isError: false };
-      }
+/**
+ * Run one turn of an agent loop: stream a response, record its usage and run
+ * the tools it calls in the sandbox, stopping after the current tool if
+ * shouldStop() turns true. Rate-limited requests are retried after a wait;
+ * other errors, like a prompt that's too long, are thrown for the loop to handle.
+ */
+async function runAgentTurn(options: AgentTurnOptions): Promise<AgentTurn> {
+  const { anthropic, usage, model, toolbox, messages, sandbox, onLog, onEvent, shouldStop } = options;
 
-      case 'read_file': {
-        const path = typeof toolInput.path === 'string' ? toolInput.path : '';
-        if (!path) {
-          return failTool('Invalid tool input: read_file requires { path: string }');
-        }
-        const durationMs = Date.now() - startTime;
-        onLog('tool', `read_file: ${path}`);
-        
-        const content = await sandbox.readFile(path);
-        
-        // Emit tool end event
-        onEvent?.({
-          id: generateEventId(),
-          type: 'tool_end',
-          timestamp: new Date().toISOString(),
-          toolUseId,
-          success: true,
-          output: content.slice(0, 500),
-          displayOutput: `Read ${path} (${content.length} bytes)`,
-          durationMs,
-        } as Omit<ToolEndEvent, 'buildId'>);
-        
-        onLog('info', `[Done] Read ${path} (${content.length} bytes)`);
-        return { output: content, isError: false };
+  let response: Anthropic.Message;
+  while (true) {
+    try {
+      // Stream to avoid SDK timeout errors
+      const stream = anthropic.messages.stream({
+        model,
+        max_tokens: 8192,
+        system: cacheSystemPrompt(options.systemPrompt),
+        tools: cacheTools(toolbox.definitions),
+        messages: cacheConversation(messages),
+      });
+      response = await stream.finalMessage();
+      break;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('rate_limit') || errorMessage.includes('429')) {
+        onLog('warn', `Rate limited, waiting ${RATE_LIMIT_RETRY_MS / 1000} seconds before retry...`);
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_RETRY_MS));
+        continue;
       }
+      throw error;
+    }
+  }
+  usage.record(model, response.usage, options.attribution);
 
-      default: {
-        const durationMs = Date.now() - startTime;
-        
-        // Emit tool end event for unknown tool
-        onEvent?.({
-          id: generateEventId(),
-          type: 'tool_end',
-          timestamp: new Date().toISOString(),
-          toolUseId,
-          success: false,
-          error: `Unknown tool: ${toolName}`,
-          durationMs,
-        } as Omit<ToolEndEvent, 'buildId'>);
-        
-        return { output: `Unknown tool: ${toolName}`, isError: true };
+  const assistantContent: ContentBlock[] = [];
+  const toolResults: ToolResultBlock[] = [];
+
+  for (const block of response.content) {
+    if (block.type === 'text') {
+      onLog('info', block.text.slice(0, 500) + (block.text.length > 500 ? '...' : ''));
+      assistantContent.push({ type: 'text', text: block.text });
+
+      // Emit thinking event for agent's text output
+      onEvent?.({
+        id: generateEventId(),
+        type: 'thinking',
+        timestamp: new Date().toISOString(),
+        content: block.text.slice(0, 1000),
+        phase: 'planning',
+      } as Omit<ThinkingEvent, 'buildId'>);
+    } else if (block.type === 'tool_use') {
+      assistantContent.push({
+        type: 'tool_use',
+        id: block.id,
+        name: block.name,
+        input: block.input as Record<string, unknown>,
+      });
+
+      const result = await executeToolInSandbox(sandbox, toolbox, block, onLog, onEvent);
+
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: result.output.slice(0, 10000), // Limit output size
+        is_error: result.isError,
+      });
+
+      // Check for pause/stop request after each tool execution
+      if (shouldStop?.()) {
+        onLog('info', 'Build paused/stopped - detected after tool execution');
+        break;
       }
     }
+  }
+
+  return { response, assistantContent, toolResults };
+}
+
+/**
+ * Summarize older turns into the working memory, keeping the most recent ones,
+ * and replace the conversation's messages with the result. Forced compaction
+ * follows a "prompt is too long" error, so it keeps as few turns as possible and
+ * fails if nothing could be removed.
+ *
+ * @returns Whether the conversation was compacted
+ */
+async function compactConversation(
+  compactor: ContextCompactor,
+  messages: Anthropic.MessageParam[],
+  forced: boolean,
+  onLog: AgentLogCallback,
+  onEvent?: AgentEventCallback
+): Promise<boolean> {
+  const before = messages.length;
+  let compacted: Anthropic.MessageParam[];
+  try {
+    compacted = await compactor.compact(messages, forced ? { keepRecentMessages: 2 } : undefined);
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    const durationMs = Date.now() - startTime;
-    
-    // Emit error event
-    onEvent?.({
-      id: generateEventId(),
-      type: 'error',
-      timestamp: new Date().toISOString(),
-      severity: 'error',
-      message: `Tool error: ${errorMsg}`,
-      details: `Tool: ${toolName}`,
-      recoverable: true,
-    } as Omit<ErrorEvent, 'buildId'>);
-    
-    // Emit tool end event
-    onEvent?.({
-      id: generateEventId(),
-      type: 'tool_end',
-      timestamp: new Date().toISOString(),
-      toolUseId,
-      success: false,
-      error: errorMsg,
-      durationMs,
-    } as Omit<ToolEndEvent, 'buildId'>);
-    
-    onLog('error', `Tool error: ${errorMsg}`);
-    return { output: errorMsg, isError: true };
+    if (forced) {
+      throw error;
+    }
+    // The request still fits - carry on and try again next turn
+    onLog('warn', `Context compaction failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
   }
+  if (compacted === messages) {
+    if (forced) {
+      throw new Error('Context limit reached and there are no older turns to summarize');
+    }
+    return false;
+  }
+
+  messages.length = 0;
+  messages.push(...compacted);
+  onLog('info', `🗜️ Compacted conversation from ${before} to ${messages.length} messages into working memory`);
+  onEvent?.({
+    id: generateEventId(),
+    type: 'activity',
+    timestamp: new Date().toISOString(),
+    activity: 'planning',
+    description: 'Summarized earlier turns into working memory',
+  } as Omit<ActivityEvent, 'buildId'>);
+  return true;
 }
 
 /**
@@ -890,7 +883,10 @@ function estimateComplexity(appSpec: string): {
  */
 async function runPlanningPhase(
   anthropic: Anthropic,
+  usage: UsageTracker,
+  models: BuildModelRouting,
   sandbox: Sandbox,
+  toolbox: AgentToolbox,
   appSpec: string,
   targetFeatureCount: number,
   onLog: AgentLogCallback,
@@ -930,7 +926,14 @@ async function runPlanningPhase(
     });
     
     try {
-      designResearch = await runDesignResearch(anthropic, appSpec, domain, onLog);
+      designResearch = await runDesignResearch(
+        anthropic,
+        usage,
+        models.design_research,
+        appSpec,
+        domain,
+        onLog
+      );
     } catch (error) {
       onLog('warn', `Design research failed (continuing without): ${error instanceof Error ? error.message : 'Unknown error'}`);
       // Continue without design research - it's not critical
@@ -945,9 +948,7 @@ async function runPlanningPhase(
 Your task is to analyze an application specification and create a comprehensive feature list that will guide implementation.
 
 Your working directory is /home/user. You have access to:
-- bash: Execute shell commands
-- write_file: Create/update files  
-- read_file: Read file contents
+${describeTools(toolbox)}
 
 ## Your Task:
 1. Read app_spec.txt to understand the application requirements`;
@@ -1064,13 +1065,13 @@ The design should feel like it belongs in the ${designResearch.domain} space but
 
 After creating the feature list, output "PLANNING_COMPLETE" to signal you're done.`;
 
-  onLog('info', `🧠 Starting planning phase with ${PLANNING_MODEL}...`);
+  onLog('info', `🧠 Starting planning phase with ${models.planning}...`);
   onEvent?.({
     id: generateEventId(),
     type: 'phase',
     timestamp: new Date().toISOString(),
     phase: 'planning',
-    message: `Using ${PLANNING_MODEL} to generate feature list`,
+    message: `Using ${models.planning} to generate feature list`,
   });
 
   const messages: Anthropic.MessageParam[] = [
@@ -1104,13 +1105,14 @@ After creating the feature list, output "PLANNING_COMPLETE" to signal you're don
     try {
       // Use streaming to avoid SDK timeout errors with large max_tokens
       const stream = anthropic.messages.stream({
-        model: PLANNING_MODEL,
-        max_tokens: 32768, // Larger for comprehensive planning with Opus 4.5
-        system: planningSystemPrompt,
-        tools: TOOLS,
-        messages,
+        model: models.planning,
+        max_tokens: 32768, // Larger for comprehensive planning
+        system: cacheSystemPrompt(planningSystemPrompt),
+        tools: cacheTools(toolbox.definitions),
+        messages: cacheConversation(messages),
       });
       const response = await stream.finalMessage();
+      usage.record(models.planning, response.usage, { phase: 'planning' });
 
       // Handle all response content - including web search blocks
       // We need to pass through server_tool_use and web_search_tool_result as-is
@@ -1129,9 +1131,8 @@ After creating the feature list, output "PLANNING_COMPLETE" to signal you're don
           // Only execute our sandbox tools, not server tools like web_search
           const result = await executeToolInSandbox(
             sandbox,
-            block.name,
-            block.input as Record<string, unknown>,
-            block.id,
+            toolbox,
+            block,
             onLog,
             onEvent
           );
@@ -1357,13 +1358,28 @@ class FeatureListMutex {
   }
 }
 
+/**
+ * The first blocking feature that hasn't passed, which the sequential phase
+ * implements next.
+ */
+function getNextBlockingFeature(features: FeatureData[]): UsageAttribution {
+  const featureIndex = features.findIndex((f) => !f.passes && f.blocking !== false);
+  if (featureIndex === -1) {
+    return { phase: 'implementing' };
+  }
+  return { phase: 'implementing', featureIndex, feature: features[featureIndex].description };
+}
+
 /**
  * Run a single feature as a subagent with isolated conversation context.
  * Returns true if the feature was successfully implemented.
  */
 async function runSubagentForFeature(
   anthropic: Anthropic,
+  usage: UsageTracker,
+  model: string,
   sandbox: Sandbox,
+  toolbox: AgentToolbox,
   feature: FeatureData,
   featureIndex: number,
   mutex: FeatureListMutex,
@@ -1390,9 +1406,7 @@ async function runSubagentForFeature(
   let subagentSystemPrompt = `You are an expert developer implementing a SINGLE feature for an application.
 
 Your working directory is /home/user. You have access to:
-- bash: Execute shell commands
-- write_file: Create/update files
-- read_file: Read file contents
+${describeTools(toolbox)}
 
 ## Your Task
 Implement this specific feature:
@@ -1439,13 +1453,18 @@ Reference DESIGN.md for styling decisions. Maintain visual consistency with othe
     try {
       // Use streaming to avoid SDK timeout errors
       const stream = anthropic.messages.stream({
-        model: BUILDING_MODEL,
+        model,
         max_tokens: 8192,
-        system: subagentSystemPrompt,
-        tools: TOOLS,
-        messages,
+        system: cacheSystemPrompt(subagentSystemPrompt),
+        tools: cacheTools(toolbox.definitions),
+        messages: cacheConversation(messages),
       });
       const response = await stream.finalMessage();
+      usage.record(model, response.usage, {
+        phase: 'implementing',
+        featureIndex,
+        feature: feature.description,
+      });
 
       // Process response
       const assistantContent: ContentBlock[] = [];
@@ -1463,9 +1482,8 @@ Reference DESIGN.md for styling decisions. Maintain visual consistency with othe
           // Execute tool
           const result = await executeToolInSandbox(
             sandbox,
-            block.name,
-            block.input as Record<string, unknown>,
-            block.id,
+            toolbox,
+            block,
             (level, msg) => onLog(level, `[${featureId}] ${msg}`),
             onEvent
           );
@@ -1569,7 +1587,10 @@ function areDependenciesSatisfied(feature: FeatureData, completedDescriptions: S
  */
 async function runParallelFeatures(
   anthropic: Anthropic,
+  usage: UsageTracker,
+  model: string,
   sandbox: Sandbox,
+  toolbox: AgentToolbox,
   features: Array<{ feature: FeatureData; originalIndex: number }>,
   isUIProject: boolean,
   onLog: AgentLogCallback,
@@ -1643,7 +1664,10 @@ async function runParallelFeatures(
         batch.map(({ feature, originalIndex }) =>
           runSubagentForFeature(
             anthropic,
+            usage,
+            model,
             sandbox,
+            toolbox,
             feature,
             originalIndex,
             mutex,
@@ -1687,17 +1711,256 @@ async function runParallelFeatures(
   return { completedCount, failedFeatures };
 }
 
+// =============================================================================
+// HARNESS SESSIONS
+// =============================================================================
+
+/** Turns in one harness session before it restarts with a fresh context */
+const HARNESS_SESSION_MAX_ITERATIONS = 50;
+/** Sessions a harness gets to pass its completion check before the build stops */
+const MAX_HARNESS_SESSIONS = 20;
+
+/**
+ * Describe the sandbox tools to a harness. Harness prompts are written for any
+ * runtime, so they don't name this agent's tools or working directory.
+ */
+function getHarnessEnvironmentAddition(toolbox: AgentToolbox): string {
+  return `
+
+## Environment
+Your working directory is /home/user and the task is described in /home/user/app_spec.txt. You have access to:
+${describeTools(toolbox)}
+
+For long-running servers, use the bash tool with background: true instead of & or nohup.`;
+}
+
+/**
+ * Report the harness's progress tracker state as progress and feature_list events.
+ */
+async function reportHarnessProgress(
+  harness: AgentHarness,
+  sandbox: Sandbox,
+  onProgress: AgentProgressCallback,
+  onEvent?: AgentEventCallback
+): Promise<void> {
+  const progress = await harness.progressTracker(sandbox);
+  onProgress(progress.completed, progress.total);
+
+  onEvent?.({
+    id: generateEventId(),
+    type: 'progress',
+    timestamp: new Date().toISOString(),
+    completed: progress.completed,
+    total: progress.total,
+    percentComplete: progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0,
+  } as Omit<ProgressEvent, 'buildId'>);
+
+  if (progress.features.length > 0) {
+    onEvent?.({
+      id: generateEventId(),
+      type: 'feature_list',
+      timestamp: new Date().toISOString(),
+      features: progress.features.map((f): EventFeatureListItem => ({
+        category: f.category,
+        description: f.description,
+        steps: f.steps,
+        passes: f.status === 'passed',
+      })),
+      total: progress.total,
+      completed: progress.completed,
+    } as Omit<FeatureListEvent, 'buildId'>);
+  }
+}
+
+/**
+ * Run a harness with the sessions flow. The first session uses the
+ * harness's initializer prompt and later sessions its continuation prompt, each
+ * with a fresh context, until the harness's completion check passes. A session
+ * ends when the agent stops calling tools. Throws if the check still fails
+ * after MAX_HARNESS_SESSIONS sessions, so the build is marked as failed.
+ */
+async function runHarnessSessions(config: SandboxAgentConfig): Promise<void> {
+  const { sandbox, appSpec, harness, onLog, onProgress, onEvent, shouldStop, resumeContext } =
+    config;
+  const toolbox = createToolbox(
+    harness,
+    config.securityHook ?? createHarnessSecurityHook(harness)
+  );
+
+  onEvent?.({
+    id: generateEventId(),
+    type: 'phase',
+    timestamp: new Date().toISOString(),
+    phase: 'initializing',
+    message: `Setting up sandbox for ${harness.name}`,
+  });
+
+  const anthropic = createAnthropicClient();
+  const usage = createBuildUsageTracker(config);
+  const models = config.models ?? getDefaultBuildModelRouting();
+
+  onLog('info', 'Writing app specification to sandbox...');
+  await sandbox.writeFile('/home/user/app_spec.txt', appSpec);
+  onLog('tool', 'write_file: /home/user/app_spec.txt');
+
+  // A resumed build has already run its initializer session
+  let isFirstRun = !resumeContext;
+
+  for (let session = 1; session <= MAX_HARNESS_SESSIONS; session++) {
+    if (shouldStop?.()) {
+      onLog('info', 'Build stopped by user');
+      return;
+    }
+
+    onLog('info', `--- ${harness.name} session ${session} (${isFirstRun ? 'initializer' : 'continuation'}) ---`);
+    onEvent?.({
+      id: generateEventId(),
+      type: 'phase',
+      timestamp: new Date().toISOString(),
+      phase: isFirstRun ? 'planning' : 'implementing',
+      message: `${harness.name} session ${session}`,
+    });
+
+    // The initializer session plans the task; continuations carry it out
+    const sessionModel = isFirstRun ? models.planning : models.building;
+    const systemPrompt =
+      (isFirstRun ? harness.initializerPrompt : harness.continuationPrompt) +
+      getHarnessEnvironmentAddition(toolbox);
+    const messages: Anthropic.MessageParam[] = [
+      {
+        role: 'user',
+        content: isFirstRun
+          ? 'Read app_spec.txt and begin the task.'
+          : 'Continue the task from where the previous session left off.',
+      },
+    ];
+
+    // Older turns are summarized into a working memory as the session's context
+    // nears the window, as in the coding loop
+    const compactor = createContextCompactor({
+      client: anthropic,
+      model: models.summarization,
+      onUsage: (model, summaryUsage) => usage.record(model, summaryUsage, { phase: 'summarization' }),
+    });
+    let lastUsage: Anthropic.Usage | null = null;
+
+    for (let iteration = 1; iteration <= HARNESS_SESSION_MAX_ITERATIONS; iteration++) {
+      if (shouldStop?.()) break;
+
+      if (
+        lastUsage &&
+        compactor.needsCompaction(lastUsage) &&
+        (await compactConversation(compactor, messages, false, onLog, onEvent))
+      ) {
+        lastUsage = null;
+      }
+
+      onEvent?.({
+        id: generateEventId(),
+        type: 'activity',
+        timestamp: new Date().toISOString(),
+        activity: 'implementing',
+        description: `Session ${session}, iteration ${iteration}`,
+      } as Omit<ActivityEvent, 'buildId'>);
+
+      let turn: AgentTurn;
+      try {
+        turn = await runAgentTurn({
+          anthropic,
+          usage,
+          model: sessionModel,
+          attribution: { phase: isFirstRun ? 'planning' : 'implementing' },
+          systemPrompt,
+          toolbox,
+          messages,
+          sandbox,
+          onLog,
+          onEvent,
+          shouldStop,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        // Summarize all but the latest turn and retry, or failing that end the
+        // session; the next one starts with a fresh context
+        if (errorMessage.includes('prompt is too long') || errorMessage.includes('tokens >')) {
+          onLog('warn', `Context limit reached: ${errorMessage}`);
+          try {
+            await compactConversation(compactor, messages, true, onLog, onEvent);
+            lastUsage = null;
+            continue;
+          } catch (compactionError) {
+            onLog('warn', `Could not compact context, ending session: ${compactionError instanceof Error ? compactionError.message : String(compactionError)}`);
+            break;
+          }
+        }
+
+        onLog('error', `Agent error: ${errorMessage}`);
+        throw error;
+      }
+      const { assistantContent, toolResults } = turn;
+      lastUsage = turn.response.usage;
+
+      messages.push({
+        role: 'assistant',
+        content: assistantContent as Anthropic.ContentBlockParam[],
+      });
+
+      if (toolResults.length === 0 || shouldStop?.()) break;
+
+      messages.push({
+        role: 'user',
+        content: toolResults as Anthropic.ToolResultBlockParam[],
+      });
+    }
+
+    isFirstRun = false;
+
+    if (shouldStop?.()) {
+      onLog('info', 'Build stopped by user');
+      return;
+    }
+
+    await reportHarnessProgress(harness, sandbox, onProgress, onEvent);
+
+    if (await harness.completionCheck(sandbox)) {
+      onLog('info', `🎉 ${harness.name} task complete!`);
+      onEvent?.({
+        id: generateEventId(),
+        type: 'phase',
+        timestamp: new Date().toISOString(),
+        phase: 'completed',
+        message: `${harness.name} task complete`,
+      });
+      return;
+    }
+
+    onLog('info', 'Completion check not met - starting a new session');
+  }
+
+  onEvent?.({
+    id: generateEventId(),
+    type: 'phase',
+    timestamp: new Date().toISOString(),
+    phase: 'failed',
+    message: `Task not complete after ${MAX_HARNESS_SESSIONS} sessions`,
+  });
+  throw new Error(`${harness.name} did not complete within ${MAX_HARNESS_SESSIONS} sessions`);
+}
+
 // =============================================================================
 // MAIN AGENT ENTRY POINT
 // =============================================================================
 
 /**
  * Run the autonomous agent with sandbox tool execution.
- * This is the main entry point for real builds.
+ * This is the main entry point for real builds. Harnesses with the sessions
+ * flow run in runHarnessSessions(); the rest of this is the phased flow of the
+ * coding harness and harnesses extended from it.
  * 
- * Two-model architecture:
- * - Planning Phase: Uses PLANNING_MODEL (Opus 4.5) for high-quality feature list generation
- * - Building Phase: Uses BUILDING_MODEL (Haiku 4.5) for fast, cheap feature implementation
+ * Models come from config.models: design research and planning run on their
+ * own models, blocking features on the building model and parallel subagents
+ * on the subagent model.
  * 
  * Three-phase build:
  * 1. Planning: Generate feature_list.json with blocking/non-blocking categorization
@@ -1705,16 +1968,25 @@ async function runParallelFeatures(
  * 3. Parallel: Execute non-blocking features with concurrent subagents
  */
 export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void> {
+  if (config.harness.flow !== 'phased') {
+    return runHarnessSessions(config);
+  }
+
   const {
     buildId,
     sandbox,
     appSpec,
+    harness,
     targetFeatureCount = 80,
     onLog,
     onProgress,
     onEvent,
     shouldStop,
   } = config;
+  const toolbox = createToolbox(
+    harness,
+    config.securityHook ?? createHarnessSecurityHook(harness)
+  );
 
   // Emit phase event - initializing
   onEvent?.({
@@ -1726,6 +1998,8 @@ export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void>
   });
 
   const anthropic = createAnthropicClient();
+  const usage = createBuildUsageTracker(config);
+  const models = config.models ?? getDefaultBuildModelRouting();
 
   // Write app_spec.txt to sandbox
   onLog('info', 'Writing app specification to sandbox...');
@@ -1733,15 +2007,13 @@ export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void>
   onLog('tool', 'write_file: /home/user/app_spec.txt');
 
   // Check if feature_list.json already exists (continuation/resume)
-  let hasFeatureList = false;
-  try {
-    await sandbox.readFile('/home/user/feature_list.json');
-    hasFeatureList = true;
+  const hasFeatureList = await sandbox.exists('/home/user/feature_list.json');
+  if (hasFeatureList) {
     onLog('info', 'Found existing feature_list.json - skipping planning phase');
     
     const progress = await getProgress(sandbox);
     onProgress(progress.completed, progress.total);
-  } catch {
+  } else {
     onLog('info', 'No feature_list.json found - starting planning phase');
   }
 
@@ -1753,10 +2025,13 @@ export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void>
   const { reviewGatesEnabled, onReviewGate } = config;
 
   if (!hasFeatureList) {
-    onLog('info', `🧠 PLANNING PHASE: Using ${PLANNING_MODEL} for feature list generation`);
+    onLog('info', `🧠 PLANNING PHASE: Using ${models.planning} for feature list generation`);
     const planningSuccess = await runPlanningPhase(
       anthropic,
+      usage,
+      models,
       sandbox,
+      toolbox,
       appSpec,
       targetFeatureCount,
       onLog,
@@ -1787,7 +2062,10 @@ export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void>
   // PHASE 2: BUILDING - Sequential blocking features, then parallel non-blocking
   // ==========================================================================
   
-  onLog('info', `🔨 BUILDING PHASE: Using ${BUILDING_MODEL} for feature implementation`);
+  onLog(
+    'info',
+    `🔨 BUILDING PHASE: Using ${models.building} for blocking features and ${models.subagent} for parallel subagents`
+  );
   if (isUIProject) {
     onLog('info', '🎨 UI project - will reference DESIGN.md for styling decisions');
   }
@@ -1835,9 +2113,7 @@ export async function runSandboxAgent(config: SandboxAgentConfig): Promise<void>
     let buildingSystemPrompt = `You are an expert full-stack developer implementing BLOCKING features for an application.
 
 Your working directory is /home/user. You have access to:
-- bash: Execute shell commands
-- write_file: Create/update files
-- read_file: Read file contents
+${describeTools(toolbox)}
 
 The feature_list.json file already exists with all features defined. Your job is to:
 1. Check feature_list.json for the next BLOCKING feature with "passes": false
@@ -1856,7 +2132,7 @@ Focus on: project setup, core structure, shared utilities, and foundation code.
 - Keep verification simple and direct
 - For static HTML/CSS/JS: Verify files exist and have correct content
 - For Node.js apps: Use npm scripts to verify
-- Avoid background processes (&) - they don't work reliably
+- For long-running servers, use the bash tool with background: true instead of & or nohup
 
 When all BLOCKING features (blocking: true) have "passes": true, output "BLOCKING_COMPLETE" to signal you're done.`;
 
@@ -1882,87 +2158,27 @@ When all BLOCKING features (blocking: true) have "passes": true, output "BLOCKIN
     type: 'phase',
     timestamp: new Date().toISOString(),
     phase: 'implementing',
-    message: `Building with ${BUILDING_MODEL}`,
+    message: `Building with ${models.building}`,
   });
 
-  // Context management settings
-  // Anthropic's context limit is 200K tokens - we reset at 180K to have headroom
-  const MAX_MESSAGES_BEFORE_TRIM = 100; // Trim if conversation exceeds this many messages
-  const MESSAGES_TO_KEEP_AFTER_TRIM = 10; // Keep the most recent N messages after trim
-  let contextResetCount = 0;
-  const MAX_CONTEXT_RESETS = 10; // Prevent infinite reset loops
-
-  /**
-   * Reset the conversation context while preserving recent work.
-   * This handles the "prompt is too long" error gracefully.
-   */
-  async function resetContextWithSummary(): Promise<void> {
-    contextResetCount++;
-    onLog('info', `🔄 Context reset #${contextResetCount} - conversation too long, resuming with fresh context`);
-    
-    // Get current progress for context
-    const progress = await getProgress(sandbox);
-    const completedCount = progress.completed;
-    const totalCount = progress.total;
-    const remainingFeatures = progress.features
-      .filter(f => !f.passes)
-      .map(f => f.description)
-      .slice(0, 10); // Show first 10 remaining
-
-    // Create a summary message that captures current state
-    const contextSummary = `CONTEXT RESET - Previous conversation exceeded token limit.
-
-Current progress: ${completedCount}/${totalCount} features complete.
-
-Remaining features to implement (next ${Math.min(10, remainingFeatures.length)}):
-${remainingFeatures.map((f, i) => `${i + 1}. ${f}`).join('\n')}
-
-Continue implementing features. Check feature_list.json for the full list and mark each as "passes": true when complete.`;
-
-    // Reset messages with just the summary
-    messages.length = 0;
-    messages.push({
-      role: 'user',
-      content: contextSummary,
-    });
-
-    onEvent?.({
-      id: generateEventId(),
-      type: 'activity',
-      timestamp: new Date().toISOString(),
-      activity: 'planning',
-      description: `Context reset (${contextResetCount}/${MAX_CONTEXT_RESETS})`,
-    } as Omit<ActivityEvent, 'buildId'>);
-  }
-
-  /**
-   * Trim older messages if conversation is getting too long.
-   * Keeps the first message (initial prompt) and most recent messages.
-   */
-  function trimMessagesIfNeeded(): boolean {
-    if (messages.length > MAX_MESSAGES_BEFORE_TRIM) {
-      const initialMessage = messages[0];
-      const recentMessages = messages.slice(-MESSAGES_TO_KEEP_AFTER_TRIM);
-      
-      // Create a trim notice
-      const trimNotice = {
-        role: 'user' as const,
-        content: `[Context trimmed - removed ${messages.length - MESSAGES_TO_KEEP_AFTER_TRIM - 1} older messages to stay within limits. Continue from where you left off.]`,
-      };
-
-      messages.length = 0;
-      messages.push(initialMessage, trimNotice, ...recentMessages);
-      
-      onLog('info', `📝 Trimmed conversation from ${messages.length + messages.length - MESSAGES_TO_KEEP_AFTER_TRIM - 2} to ${messages.length} messages`);
-      return true;
-    }
-    return false;
-  }
+  // Context management: once a request's context nears the window, older turns
+  // are summarized into a working memory by the summarization model
+  const compactor = createContextCompactor({
+    client: anthropic,
+    model: models.summarization,
+    onUsage: (model, summaryUsage) =>
+      usage.record(model, summaryUsage, { ...currentFeature, phase: 'summarization' }),
+  });
+  let lastUsage: Anthropic.Usage | null = null;
+  let forcedCompactionCount = 0;
+  const MAX_FORCED_COMPACTIONS = 10; // Prevent infinite compaction loops
 
   // Main agent loop - runs until all features complete or agent signals done
   // No artificial iteration limit - the agent works autonomously until the task is finished
   // See: https://www.anthropic.com/engineering/effective-harnesses-for-long-running-agents
   let iteration = 0;
+  // Usage is attributed to the blocking feature the agent should be working on
+  let currentFeature = getNextBlockingFeature(allFeatures);
   
   while (true) {
     if (shouldStop?.()) {
@@ -1978,8 +2194,14 @@ Continue implementing features. Check feature_list.json for the full list and ma
       break;
     }
 
-    // Proactively trim messages to prevent hitting the limit
-    trimMessagesIfNeeded();
+    // Proactively compact before the next request outgrows the context window
+    if (
+      lastUsage &&
+      compactor.needsCompaction(lastUsage) &&
+      (await compactConversation(compactor, messages, false, onLog, onEvent))
+    ) {
+      lastUsage = null;
+    }
 
     iteration++;
     onLog('info', `--- Building Iteration ${iteration} ---`);
@@ -1994,65 +2216,20 @@ Continue implementing features. Check feature_list.json for the full list and ma
     } as Omit<ActivityEvent, 'buildId'>);
 
     try {
-      // Call Claude with BUILDING_MODEL using streaming to avoid SDK timeout errors
-      const stream = anthropic.messages.stream({
-        model: BUILDING_MODEL,
-        max_tokens: 8192,
-        system: buildingSystemPrompt,
-        tools: TOOLS,
+      const { response, assistantContent, toolResults } = await runAgentTurn({
+        anthropic,
+        usage,
+        model: models.building,
+        attribution: currentFeature,
+        systemPrompt: buildingSystemPrompt,
+        toolbox,
         messages,
+        sandbox,
+        onLog,
+        onEvent,
+        shouldStop,
       });
-      const response = await stream.finalMessage();
-
-      // Process the response
-      const assistantContent: ContentBlock[] = [];
-      const toolResults: ToolResultBlock[] = [];
-
-      for (const block of response.content) {
-        if (block.type === 'text') {
-          onLog('info', block.text.slice(0, 500) + (block.text.length > 500 ? '...' : ''));
-          assistantContent.push({ type: 'text', text: block.text });
-          
-          // Emit thinking event for agent's text output
-          onEvent?.({
-            id: generateEventId(),
-            type: 'thinking',
-            timestamp: new Date().toISOString(),
-            content: block.text.slice(0, 1000),
-            phase: 'planning',
-          } as Omit<ThinkingEvent, 'buildId'>);
-        } else if (block.type === 'tool_use') {
-          assistantContent.push({
-            type: 'tool_use',
-            id: block.id,
-            name: block.name,
-            input: block.input as Record<string, unknown>,
-          });
-
-          // Execute the tool with event emission
-          const result = await executeToolInSandbox(
-            sandbox,
-            block.name,
-            block.input as Record<string, unknown>,
-            block.id,
-            onLog,
-            onEvent
-          );
-
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: block.id,
-            content: result.output.slice(0, 10000), // Limit output size
-            is_error: result.isError,
-          });
-
-          // Check for pause/stop request after each tool execution
-          if (shouldStop?.()) {
-            onLog('info', 'Build paused/stopped - detected after tool execution');
-            break;
-          }
-        }
-      }
+      lastUsage = response.usage;
 
       // If stopped mid-iteration, save what we have and exit
       if (shouldStop?.()) {
@@ -2090,6 +2267,7 @@ Continue implementing features. Check feature_list.json for the full list and ma
         // Check progress after tool execution
         const progress = await getProgress(sandbox);
         onProgress(progress.completed, progress.total);
+        currentFeature = getNextBlockingFeature(progress.features);
         
         // Emit progress event
         onEvent?.({
@@ -2171,29 +2349,24 @@ Continue implementing features. Check feature_list.json for the full list and ma
       if (errorMessage.includes('prompt is too long') || errorMessage.includes('tokens >')) {
         onLog('warn', `Context limit reached: ${errorMessage}`);
         
-        // Check if we've exceeded max resets (prevent infinite loops)
-        if (contextResetCount >= MAX_CONTEXT_RESETS) {
-          onLog('error', `Exceeded maximum context resets (${MAX_CONTEXT_RESETS}). Stopping build.`);
+        // Check if we've exceeded max compactions (prevent infinite loops)
+        if (forcedCompactionCount >= MAX_FORCED_COMPACTIONS) {
+          onLog('error', `Exceeded maximum forced compactions (${MAX_FORCED_COMPACTIONS}). Stopping build.`);
           onEvent?.({
             id: generateEventId(),
             type: 'phase',
             timestamp: new Date().toISOString(),
             phase: 'failed',
-            message: 'Build stopped: exceeded maximum context resets',
+            message: 'Build stopped: exceeded maximum context compactions',
           });
           break;
         }
 
-        // Reset context and continue
-        await resetContextWithSummary();
-        continue; // Retry the iteration with fresh context
-      }
-
-      // Check for rate limit errors
-      if (errorMessage.includes('rate_limit') || errorMessage.includes('429')) {
-        onLog('warn', `Rate limited, waiting 60 seconds before retry...`);
-        await new Promise(resolve => setTimeout(resolve, 60000));
-        continue; // Retry the iteration
+        // Summarize all but the latest turn and retry the iteration
+        forcedCompactionCount++;
+        await compactConversation(compactor, messages, true, onLog, onEvent);
+        lastUsage = null;
+        continue;
       }
 
       // For other errors, log and rethrow
@@ -2219,7 +2392,10 @@ Continue implementing features. Check feature_list.json for the full list and ma
     
     const { completedCount, failedFeatures } = await runParallelFeatures(
       anthropic,
+      usage,
+      models.subagent,
       sandbox,
+      toolbox,
       remainingNonBlocking,
       isUIProject,
       onLog,
@@ -2239,7 +2415,10 @@ Continue implementing features. Check feature_list.json for the full list and ma
         const mutex = new FeatureListMutex();
         const result = await runSubagentForFeature(
           anthropic,
+          usage,
+          models.subagent,
           sandbox,
+          toolbox,
           feature,
           originalIndex,
           mutex,
@@ -2264,7 +2443,7 @@ Continue implementing features. Check feature_list.json for the full list and ma
   onProgress(finalProgress.completed, finalProgress.total);
   
   // Emit final completion event if all features are done
-  if (finalProgress.completed === finalProgress.total) {
+  if (await harness.completionCheck(sandbox)) {
     onEvent?.({
       id: generateEventId(),
       type: 'phase',
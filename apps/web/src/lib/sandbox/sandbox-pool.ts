@@ -0,0 +1,118 @@
+/**
+ * Warm Sandbox Pools
+ *
+ * Keeps sandboxes with Node.js 22 already installed ready per provider, so builds
+ * and previews skip sandbox creation and the slow `ensureNodeVersion` upgrade.
+ * Pooling is off unless SANDBOX_POOL_MIN_SIZE is set; sandboxes are then created
+ * on demand as before. Sandboxes that share the host runtime are never pooled, and
+ * pooled sandboxes have unrestricted network access, so requests with a network
+ * policy always get a fresh sandbox. Pooled sandboxes are created with the build
+ * resource limits, whatever they're later leased for.
+ */
+
+import { SandboxPool } from '@repo/sandbox-providers';
+import type { Sandbox, SandboxConfig, SandboxProvider } from '@repo/sandbox-providers';
+import { ensureNodeVersion } from './sandbox-utils';
+import { usesHostRuntime } from './providers';
+import { getBuildResourceLimits } from './resource-monitor';
+
+/** Warm sandboxes kept ready per provider (0 disables pooling) */
+const POOL_MIN_SIZE = parseInt(process.env.SANDBOX_POOL_MIN_SIZE || '0', 10);
+
+/** Most idle sandboxes kept per provider */
+const POOL_MAX_SIZE = Math.max(POOL_MIN_SIZE, parseInt(process.env.SANDBOX_POOL_MAX_SIZE || '0', 10));
+
+/** Template pooled sandboxes are created from */
+const POOL_TEMPLATE = 'base';
+
+/** Timeout (seconds) for idle pooled sandboxes; refreshed by the pool's health checks */
+const POOL_IDLE_TIMEOUT_SECONDS = 3600;
+
+const pools = new Map<string, SandboxPool>();
+
+export interface AcquiredSandbox {
+  sandbox: Sandbox;
+  /** Whether the toolchain is already set up (pooled sandboxes are prepared up front) */
+  prepared: boolean;
+}
+
+/**
+ * Get (and start warming) the pool for a provider.
+ * Returns null when pooling is disabled for it.
+ */
+function getPool(provider: SandboxProvider): SandboxPool | null {
+  if (POOL_MIN_SIZE <= 0 || usesHostRuntime(provider.name)) {
+    return null;
+  }
+
+  let pool = pools.get(provider.name);
+  if (!pool) {
+    pool = new SandboxPool({
+      provider,
+      config: {
+        template: POOL_TEMPLATE,
+        timeout: POOL_IDLE_TIMEOUT_SECONDS,
+        resources: getBuildResourceLimits(),
+      },
+      minSize: POOL_MIN_SIZE,
+      maxSize: POOL_MAX_SIZE,
+      initialize: async (sandbox) => {
+        if (!(await ensureNodeVersion(sandbox, '22'))) {
+          throw new Error(`Node.js upgrade failed in sandbox ${sandbox.id}`);
+        }
+      },
+      onError: (error) => {
+        console.error(`[sandbox-pool] Failed to warm ${provider.name} sandbox:`, error);
+      },
+    });
+    pools.set(provider.name, pool);
+    console.log(`[sandbox-pool] Warming ${POOL_MIN_SIZE} ${provider.name} sandbox(es)`);
+    void pool.start();
+  }
+  return pool;
+}
+
+/**
+ * Get a sandbox for a build or preview, from the warm pool when pooling is enabled.
+ * Pooled sandboxes are shared, so `config.env` only applies to sandboxes created
+ * on demand - nothing in the sandbox may depend on it.
+ *
+ * @param provider - Provider to get the sandbox from
+ * @param config - Config for a newly created sandbox (template and timeout in seconds)
+ * @param purpose - Label for pool metrics logs (e.g. 'build', 'preview')
+ */
+export async function acquireSandbox(
+  provider: SandboxProvider,
+  config: SandboxConfig,
+  purpose: string
+): Promise<AcquiredSandbox> {
+  const pool = getPool(provider);
+  if (!pool || config.network || (config.template && config.template !== POOL_TEMPLATE)) {
+    return { sandbox: await provider.create(config), prepared: false };
+  }
+
+  const lease = await pool.lease({ timeout: config.timeout });
+  const stats = pool.stats();
+  console.log(
+    `[sandbox-pool] Leased ${lease.warm ? 'warm' : 'cold'} ${provider.name} sandbox ${lease.sandbox.id} ` +
+      `for ${purpose} after ${lease.waitMs}ms (avg ${stats.averageWaitMs}ms, ` +
+      `${stats.warmLeases}/${stats.leases} warm, ${stats.idle} idle)`
+  );
+  return { sandbox: lease.sandbox, prepared: true };
+}
+
+/**
+ * Give back a sandbox from acquireSandbox that was never used.
+ * It rejoins the pool if there's room; otherwise it's destroyed.
+ */
+export async function releaseUnusedSandbox(
+  provider: SandboxProvider,
+  sandbox: Sandbox
+): Promise<void> {
+  const pool = getPool(provider);
+  if (pool) {
+    await pool.release(sandbox);
+  } else {
+    await sandbox.destroy();
+  }
+}
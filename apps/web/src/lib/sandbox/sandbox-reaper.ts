@@ -0,0 +1,235 @@
+/**
+ * Orphaned Sandbox Reaper
+ *
+ * Builds only track their sandboxes in memory, so a server restart mid-build (or a
+ * preview nobody stops) leaves sandboxes running until the provider times them out.
+ * The reaper periodically lists every provider's sandboxes, matches them to Build
+ * rows, and destroys those whose build has finished or whose preview has expired.
+ * Builds still marked running that no runner on this server owns (and that haven't
+ * been updated for a while) were interrupted; their work is saved as artifacts, the
+ * sandbox is reaped, and the build is marked FAILED so it can be resumed.
+ * It also deletes snapshots still held by finished builds. Every destroyed sandbox
+ * or snapshot is recorded in the reaped_sandboxes audit table.
+ *
+ * Sandboxes that no build references (warm pool, other deployments) are left alone.
+ */
+
+import type { Build } from '@prisma/client';
+import type { SandboxProvider } from '@repo/sandbox-providers';
+import {
+  TERMINAL_BUILD_STATUSES,
+  completeBuild,
+  createBuildLogs,
+  findBuildsBySandboxIds,
+  findBuildsWithStaleSnapshots,
+  recordReapedSandbox,
+  updateBuild,
+} from '@repo/database';
+import { isBuildActive } from './build-runner';
+import { isArtifactStorageAvailable, saveBuildArtifacts } from './artifact-storage';
+import { listSandboxProviders, resolveSandboxProvider } from './providers';
+
+/** How often the reaper runs (SANDBOX_REAPER_INTERVAL_MS=0 disables it) */
+const REAPER_INTERVAL_MS = parseInt(process.env.SANDBOX_REAPER_INTERVAL_MS || `${10 * 60 * 1000}`, 10);
+
+/** Delay before the first pass, so startup isn't slowed down */
+const REAPER_INITIAL_DELAY_MS = 60 * 1000;
+
+/** How long a running build without a runner must be idle before it counts as interrupted */
+const INTERRUPTED_BUILD_GRACE_MS = 30 * 60 * 1000;
+
+export interface ReaperResult {
+  /** Sandboxes and snapshots destroyed */
+  reaped: number;
+  /** Destroy attempts that failed */
+  failed: number;
+}
+
+let reaperTimer: NodeJS.Timeout | null = null;
+let reaperRunning = false;
+
+/**
+ * Decide why a sandbox should be reaped, or null to keep it.
+ */
+function getReapReason(build: Build, sandboxId: string, now: Date): string | null {
+  // Never touch a sandbox a build on this server is still using
+  if (isBuildActive(build.id)) {
+    return null;
+  }
+
+  // A preview may be starting on this sandbox before it's recorded as the preview sandbox
+  if (build.previewStatus === 'starting') {
+    return null;
+  }
+
+  const isPreviewSandbox = build.previewSandboxId === sandboxId || build.previewStatus === 'running';
+  if (isPreviewSandbox && build.previewExpiresAt) {
+    return build.previewExpiresAt <= now ? 'preview_expired' : null;
+  }
+
+  if (TERMINAL_BUILD_STATUSES.includes(build.status)) {
+    return 'build_finished';
+  }
+  if (
+    (build.status === 'RUNNING' || build.status === 'INITIALIZING') &&
+    now.getTime() - build.updatedAt.getTime() > INTERRUPTED_BUILD_GRACE_MS
+  ) {
+    return 'build_interrupted';
+  }
+  return null;
+}
+
+/**
+ * Destroy orphaned sandboxes from one provider.
+ */
+async function reapProvider(provider: SandboxProvider, result: ReaperResult): Promise<void> {
+  const sandboxes = await provider.list();
+  const builds = await findBuildsBySandboxIds(
+    provider.name,
+    sandboxes.map((sandbox) => sandbox.id)
+  );
+  const now = new Date();
+
+  for (const sandbox of sandboxes) {
+    const build = builds.find((b) => b.sandboxId === sandbox.id || b.previewSandboxId === sandbox.id);
+    const reason = build ? getReapReason(build, sandbox.id, now) : null;
+    if (!build || !reason) {
+      continue;
+    }
+
+    let error: string | undefined;
+    let artifactKey: string | undefined;
+    try {
+      if (reason === 'build_interrupted' && isArtifactStorageAvailable()) {
+        artifactKey = await saveBuildArtifacts(build.id, sandbox).catch((e) => {
+          console.error(`[sandbox-reaper] Could not save artifacts for build ${build.id}:`, e);
+          return undefined;
+        });
+      }
+      await sandbox.destroy();
+      result.reaped++;
+      console.log(`[sandbox-reaper] Destroyed ${provider.name} sandbox ${sandbox.id} (${reason}, build ${build.id})`);
+
+      if (reason === 'preview_expired') {
+        await updateBuild(build.id, { previewStatus: 'expired' });
+      } else if (reason === 'build_interrupted') {
+        await completeBuild(build.id, 'FAILED', artifactKey ? { artifactKey } : undefined);
+        await createBuildLogs([
+          {
+            buildId: build.id,
+            level: 'error',
+            message: artifactKey
+              ? 'Build interrupted (its runner is gone) - work saved and sandbox destroyed. Resume to continue.'
+              : 'Build interrupted (its runner is gone) - sandbox destroyed.',
+          },
+        ]);
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      result.failed++;
+      console.error(`[sandbox-reaper] Failed to destroy ${provider.name} sandbox ${sandbox.id}: ${error}`);
+    }
+
+    await recordReapedSandbox({
+      provider: provider.name,
+      sandboxId: sandbox.id,
+      kind: 'sandbox',
+      reason,
+      buildId: build.id,
+      buildStatus: build.status,
+      error,
+    });
+  }
+}
+
+/**
+ * Delete snapshots held by builds that finished without resuming.
+ */
+async function reapSnapshots(result: ReaperResult): Promise<void> {
+  for (const build of await findBuildsWithStaleSnapshots()) {
+    const resolved = resolveSandboxProvider(build.sandboxProvider);
+    if (!('provider' in resolved) || !resolved.provider.deleteSnapshot || !build.snapshotId) {
+      continue;
+    }
+
+    let error: string | undefined;
+    try {
+      await resolved.provider.deleteSnapshot(build.snapshotId);
+      await updateBuild(build.id, { snapshotId: null });
+      result.reaped++;
+      console.log(`[sandbox-reaper] Deleted ${build.sandboxProvider} snapshot ${build.snapshotId} (build ${build.id})`);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      result.failed++;
+      console.error(`[sandbox-reaper] Failed to delete snapshot ${build.snapshotId}: ${error}`);
+    }
+
+    await recordReapedSandbox({
+      provider: build.sandboxProvider,
+      sandboxId: build.snapshotId,
+      kind: 'snapshot',
+      reason: 'stale_snapshot',
+      buildId: build.id,
+      buildStatus: build.status,
+      error,
+    });
+  }
+}
+
+/**
+ * Run one reaper pass over every usable provider.
+ * A provider that can't be listed is skipped; the others are still reaped.
+ */
+export async function reapOrphanedSandboxes(): Promise<ReaperResult> {
+  const result: ReaperResult = { reaped: 0, failed: 0 };
+
+  for (const { name, available } of listSandboxProviders()) {
+    const resolved = resolveSandboxProvider(name);
+    if (!available || !('provider' in resolved)) {
+      continue;
+    }
+    try {
+      await reapProvider(resolved.provider, result);
+    } catch (e) {
+      console.error(`[sandbox-reaper] Could not reap ${name} sandboxes:`, e);
+    }
+  }
+
+  try {
+    await reapSnapshots(result);
+  } catch (e) {
+    console.error('[sandbox-reaper] Could not reap snapshots:', e);
+  }
+
+  if (result.reaped > 0 || result.failed > 0) {
+    console.log(`[sandbox-reaper] Pass complete: ${result.reaped} reaped, ${result.failed} failed`);
+  }
+  return result;
+}
+
+/**
+ * Start reaping periodically. Safe to call more than once.
+ */
+export function startSandboxReaper(): void {
+  if (reaperTimer || REAPER_INTERVAL_MS <= 0) {
+    return;
+  }
+
+  const runPass = async () => {
+    // Skip if the previous pass is still going (slow provider APIs)
+    if (reaperRunning) {
+      return;
+    }
+    reaperRunning = true;
+    try {
+      await reapOrphanedSandboxes();
+    } finally {
+      reaperRunning = false;
+    }
+  };
+
+  setTimeout(() => void runPass(), REAPER_INITIAL_DELAY_MS).unref();
+  reaperTimer = setInterval(() => void runPass(), REAPER_INTERVAL_MS);
+  reaperTimer.unref();
+  console.log(`[sandbox-reaper] Reaping orphaned sandboxes every ${REAPER_INTERVAL_MS / 1000}s`);
+}
@@ -0,0 +1,200 @@
+/**
+ * Build Sandbox Terminal Sessions
+ *
+ * Interactive shells into build sandboxes for debugging, opened by the build's
+ * owner from the build monitor. Sessions live in this server's memory; output is
+ * streamed over SSE and input arrives in separate POSTs. Every line submitted is
+ * written to the terminal audit log before it reaches the shell.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { SandboxTerminal } from '@repo/sandbox-providers';
+import { recordTerminalCommand } from '@repo/database';
+import { getBuildSandbox } from './providers';
+
+/** Sessions with no input for this long are closed */
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Longest line kept for the audit log; anything beyond is dropped */
+const MAX_COMMAND_CHARS = 10_000;
+
+export interface TerminalSession {
+  id: string;
+  buildId: string;
+  userId: string;
+  sandboxId: string;
+  terminal: SandboxTerminal;
+}
+
+interface SessionState extends TerminalSession {
+  recorder: CommandLineRecorder;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const sessions = new Map<string, SessionState>();
+
+/**
+ * Reassembles the lines a user submits from raw terminal input.
+ * Handles backspace, Ctrl-C/Ctrl-U and strips escape sequences (arrow keys,
+ * bracketed paste markers). Lines recalled from shell history or finished by tab
+ * completion are recorded as typed, since the shell's edits aren't visible here.
+ */
+class CommandLineRecorder {
+  private line = '';
+  /** Escape sequence being skipped: just after ESC, inside ESC [ ..., or after ESC O */
+  private escape: 'esc' | 'csi' | 'ss3' | null = null;
+
+  /**
+   * Feed input and return the lines it completed.
+   */
+  feed(data: string): string[] {
+    const completed: string[] = [];
+
+    for (const char of data) {
+      const code = char.charCodeAt(0);
+
+      if (this.escape === 'esc') {
+        this.escape = char === '[' ? 'csi' : char === 'O' ? 'ss3' : null;
+        continue;
+      }
+      if (this.escape === 'csi') {
+        // Parameters and intermediates run until a final byte in @ through ~
+        if (code >= 0x40 && code <= 0x7e) {
+          this.escape = null;
+        }
+        continue;
+      }
+      if (this.escape === 'ss3') {
+        this.escape = null;
+        continue;
+      }
+
+      if (char === '\x1b') {
+        this.escape = 'esc';
+      } else if (char === '\r' || char === '\n') {
+        const command = this.line.trim();
+        if (command) {
+          completed.push(command);
+        }
+        this.line = '';
+      } else if (char === '\x7f' || char === '\b') {
+        this.line = Array.from(this.line).slice(0, -1).join('');
+      } else if (char === '\x03' || char === '\x15') {
+        // Ctrl-C abandons the line, Ctrl-U clears it
+        this.line = '';
+      } else if (code >= 0x20 || char === '\t') {
+        if (this.line.length < MAX_COMMAND_CHARS) {
+          this.line += char;
+        }
+      }
+    }
+
+    return completed;
+  }
+}
+
+/**
+ * Close a session after a period without input.
+ */
+function touch(session: SessionState): void {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    console.log(`[terminal] Closing idle session ${session.id} for build ${session.buildId}`);
+    void closeTerminalSession(session.id);
+  }, IDLE_TIMEOUT_MS);
+}
+
+/**
+ * Open a terminal into a build's sandbox.
+ * Callers must have checked that `userId` owns the build.
+ *
+ * @returns The session, or null when the build has no running sandbox
+ */
+export async function openTerminalSession(
+  build: { id: string; sandboxId: string | null; sandboxProvider: string },
+  userId: string,
+  size: { cols?: number; rows?: number } = {}
+): Promise<TerminalSession | null> {
+  const sandbox = await getBuildSandbox(build);
+  if (!sandbox || !build.sandboxId || !(await sandbox.isRunning())) {
+    return null;
+  }
+
+  const terminal = await sandbox.openTerminal(size);
+  const session: SessionState = {
+    id: randomUUID(),
+    buildId: build.id,
+    userId,
+    sandboxId: build.sandboxId,
+    terminal,
+    recorder: new CommandLineRecorder(),
+  };
+  sessions.set(session.id, session);
+  touch(session);
+
+  // Drop the session once the shell exits on its own (e.g. `exit`)
+  void terminal.wait().then(() => {
+    clearTimeout(session.idleTimer);
+    sessions.delete(session.id);
+  });
+
+  console.log(`[terminal] User ${userId} opened session ${session.id} on build ${build.id}`);
+  return session;
+}
+
+/**
+ * Look up an open session belonging to a user's build.
+ */
+export function getTerminalSession(
+  sessionId: string,
+  buildId: string,
+  userId: string
+): TerminalSession | null {
+  const session = sessions.get(sessionId);
+  if (!session || session.buildId !== buildId || session.userId !== userId) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Send input to a session. Lines the input completes are recorded in the audit
+ * log first; if that fails the input is not sent.
+ */
+export async function writeTerminalInput(session: TerminalSession, data: string): Promise<void> {
+  const state = sessions.get(session.id);
+  if (!state) {
+    throw new Error('Terminal session is closed');
+  }
+  touch(state);
+
+  for (const command of state.recorder.feed(data)) {
+    await recordTerminalCommand({
+      buildId: state.buildId,
+      sandboxId: state.sandboxId,
+      sessionId: state.id,
+      userId: state.userId,
+      command,
+    });
+  }
+  await state.terminal.write(data);
+}
+
+/**
+ * Close a session and the shell behind it. Unknown sessions are ignored.
+ */
+export async function closeTerminalSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+  sessions.delete(sessionId);
+  clearTimeout(session.idleTimer);
+
+  try {
+    await session.terminal.close();
+    console.log(`[terminal] Closed session ${sessionId} for build ${session.buildId}`);
+  } catch (error) {
+    console.warn(`[terminal] Failed to close session ${sessionId}:`, error);
+  }
+}
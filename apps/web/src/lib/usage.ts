@@ -0,0 +1,89 @@
+/**
+ * Token usage of model calls made outside a build, and build budgets
+ *
+ * Builds record their usage through the build runner; the chat and spec
+ * expansion routes record theirs here, against the user.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  calculateCost,
+  toTokenCounts,
+  type MessageUsage,
+  type UsageBudget,
+  type UsagePhase,
+} from '@repo/agent-core';
+import { getProjectById, getUserById, recordTokenUsage } from '@repo/database';
+
+/** Largest token budget the database's integer columns hold */
+const MAX_TOKEN_BUDGET = 2_147_483_647;
+
+/**
+ * Record a finished message's token usage and cost for a user. A failure to
+ * record is logged but doesn't fail the request.
+ *
+ * @param userId - Database user ID, or null if the user hasn't been created yet
+ */
+export async function recordUserUsage(
+  userId: string | null,
+  phase: UsagePhase,
+  message: Anthropic.Message
+): Promise<void> {
+  // Typed as the API's usage, which has web search counts this SDK version omits
+  const usage: MessageUsage = message.usage;
+  const counts = toTokenCounts(usage);
+  try {
+    await recordTokenUsage({
+      userId: userId ?? undefined,
+      phase,
+      model: message.model,
+      ...counts,
+      costUsd: calculateCost(
+        message.model,
+        counts,
+        usage.server_tool_use?.web_search_requests ?? 0
+      ),
+    });
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
+
+/**
+ * Why budget limits from a request body are invalid, or null if they're
+ * valid. A limit may be left out, null to remove it, or a positive number.
+ */
+export function validateBudget(usd: unknown, tokens: unknown): string | null {
+  if (usd != null && (typeof usd !== 'number' || !Number.isFinite(usd) || usd <= 0)) {
+    return 'The spend budget must be a positive number of US dollars';
+  }
+  if (
+    tokens != null &&
+    (typeof tokens !== 'number' ||
+      !Number.isInteger(tokens) ||
+      tokens <= 0 ||
+      tokens > MAX_TOKEN_BUDGET)
+  ) {
+    return `The token budget must be a whole number of tokens from 1 to ${MAX_TOKEN_BUDGET}`;
+  }
+  return null;
+}
+
+/**
+ * Resolve the budget for a new build: each limit comes from the project's
+ * defaults, then the user's. Unset limits don't apply.
+ */
+export async function resolveDefaultBuildBudget(options: {
+  userId: string;
+  projectId?: string | null;
+}): Promise<UsageBudget> {
+  const [user, project] = await Promise.all([
+    getUserById(options.userId),
+    options.projectId ? getProjectById(options.projectId) : null,
+  ]);
+
+  return {
+    usd: project?.buildBudgetUsd ?? user?.buildBudgetUsd ?? null,
+    tokens: project?.buildBudgetTokens ?? user?.buildBudgetTokens ?? null,
+  };
+}
@@ -14,8 +14,10 @@ import type {
   ProgressState,
   AgentHarness,
   Sandbox,
+  SecurityPolicy,
 } from './types.js';
 import { createBashSecurityHook, DEFAULT_ALLOWED_COMMANDS } from './security.js';
+import { compileSecurityPolicy } from './policy.js';
 import { formatProgressSummary, formatSessionHeader } from './progress.js';
 import { getPromptForSession } from './prompts.js';
 
@@ -23,6 +25,10 @@ import { getPromptForSession } from './prompts.js';
 // Configuration
 // ============================================================================
 
+/**
+ * Model for agent sessions run with the Agent SDK. Builds route their own
+ * models by role (see DEFAULT_MODEL_ROUTING).
+ */
 export const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
 export const AUTO_CONTINUE_DELAY_MS = 3000;
 export const DEFAULT_MAX_TURNS = 1000;
@@ -34,6 +40,8 @@ export const DEFAULT_MAX_TURNS = 1000;
 export interface AgentSessionConfig {
   model?: string;
   allowedCommands?: Set<string>;
+  /** Enforced instead of allowedCommands when set */
+  securityPolicy?: SecurityPolicy;
   mcpServers?: Record<string, McpServerConfig>;
   maxTurns?: number;
   workingDirectory: string;
@@ -98,6 +106,7 @@ export async function runAgentSession(
   const {
     model = DEFAULT_MODEL,
     allowedCommands = DEFAULT_ALLOWED_COMMANDS,
+    securityPolicy,
     mcpServers = {},
     workingDirectory,
     systemPrompt = 'You are an expert full-stack developer building a production-quality web application.',
@@ -106,8 +115,10 @@ export async function runAgentSession(
   const toolCalls: ToolCall[] = [];
   let responseText = '';
 
-  // Create bash security hook with custom allowed commands
-  const bashSecurityHook = createBashSecurityHook(allowedCommands);
+  // Create bash security hook from the policy or custom allowed commands
+  const bashSecurityHook = securityPolicy
+    ? compileSecurityPolicy(securityPolicy)
+    : createBashSecurityHook(allowedCommands);
 
   try {
     const response = query({
@@ -297,6 +308,7 @@ export async function runAutonomousAgent(options: RunAgentOptions): Promise<void
       allowedCommands: harness
         ? new Set(harness.allowedCommands)
         : DEFAULT_ALLOWED_COMMANDS,
+      securityPolicy: harness?.securityPolicy,
       mcpServers: harness?.mcpServers
         ? Object.fromEntries(
             harness.mcpServers.map((server) => [
@@ -0,0 +1,209 @@
+/**
+ * Context Compaction Tests
+ * ========================
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createContextCompactor,
+  formatTranscript,
+  formatWorkingMemory,
+  parseWorkingMemory,
+  type CompactionClient,
+  type ConversationMessage,
+  type WorkingMemory,
+} from './compaction.js';
+
+const MEMORY: WorkingMemory = {
+  progress: 'Login form done; working on the session API',
+  keyFiles: ['src/app/login/page.tsx - login form'],
+  conventions: ['Components use Tailwind classes'],
+  knownBugs: ['Logout does not clear the cookie'],
+  workingCommands: ['npm run build'],
+};
+
+function mockClient(text: string) {
+  const create = vi.fn(async () => ({
+    content: [{ type: 'text', text }],
+    usage: { input_tokens: 5000, output_tokens: 400 },
+  }));
+  const client: CompactionClient = { messages: { create } };
+  return { client, create };
+}
+
+/** A prompt followed by tool-using turns: assistant tool_use, user tool_result */
+function conversation(turns: number): ConversationMessage[] {
+  const messages: ConversationMessage[] = [{ role: 'user', content: 'Build the app' }];
+  for (let i = 0; i < turns; i++) {
+    messages.push(
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: `Step ${i}` },
+          { type: 'tool_use', name: 'bash', input: { command: `echo ${i}` } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', content: `output ${i}`, is_error: false }],
+      }
+    );
+  }
+  return messages;
+}
+
+describe('parseWorkingMemory', () => {
+  it('reads the JSON object from a response', () => {
+    expect(parseWorkingMemory(`Here it is:\n${JSON.stringify(MEMORY)}`)).toEqual(MEMORY);
+  });
+
+  it('drops malformed fields', () => {
+    expect(parseWorkingMemory('{"progress": 3, "keyFiles": ["a.ts", 4]}')).toEqual({
+      progress: '',
+      keyFiles: [],
+      conventions: [],
+      knownBugs: [],
+      workingCommands: [],
+    });
+  });
+
+  it('keeps a response that is not JSON as progress notes', () => {
+    expect(parseWorkingMemory('  Built the login form.  ')).toMatchObject({
+      progress: 'Built the login form.',
+      keyFiles: [],
+    });
+  });
+});
+
+describe('formatWorkingMemory', () => {
+  it('lists each non-empty section', () => {
+    const text = formatWorkingMemory({ ...MEMORY, knownBugs: [] });
+    expect(text).toContain('## Progress\nLogin form done');
+    expect(text).toContain('## Key files\n- src/app/login/page.tsx - login form');
+    expect(text).toContain('## Commands that work\n- npm run build');
+    expect(text).not.toContain('## Known bugs');
+  });
+});
+
+describe('formatTranscript', () => {
+  it('shows text, tool calls and shortened tool results', () => {
+    const transcript = formatTranscript([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking' },
+          { type: 'tool_use', name: 'bash', input: { command: 'ls' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', content: 'x'.repeat(5000), is_error: true }],
+      },
+    ]);
+    expect(transcript).toContain('[assistant]\nChecking\n→ bash({"command":"ls"})');
+    expect(transcript).toContain('← error: xxx');
+    expect(transcript).toContain('[truncated]');
+    expect(transcript.length).toBeLessThan(2000);
+  });
+});
+
+describe('createContextCompactor', () => {
+  it('compacts on the tokens a response reports', () => {
+    const { client } = mockClient('{}');
+    const compactor = createContextCompactor({
+      client,
+      model: 'claude-haiku-4-5',
+      maxContextTokens: 1000,
+    });
+    expect(compactor.needsCompaction({ input_tokens: 600, output_tokens: 100 })).toBe(false);
+    expect(
+      compactor.needsCompaction({
+        input_tokens: 100,
+        output_tokens: 100,
+        cache_read_input_tokens: 800,
+      })
+    ).toBe(true);
+  });
+
+  it('replaces older turns with a working memory after the first message', async () => {
+    const { client, create } = mockClient(JSON.stringify(MEMORY));
+    const onUsage = vi.fn();
+    const compactor = createContextCompactor({
+      client,
+      model: 'claude-haiku-4-5',
+      keepRecentMessages: 4,
+      onUsage,
+    });
+    const messages = conversation(10);
+
+    const compacted = await compactor.compact(messages);
+
+    // First message, then the last two turns starting with an assistant message
+    expect(compacted).toHaveLength(5);
+    expect(compacted.slice(1)).toEqual(messages.slice(-4));
+    expect(compacted[1].role).toBe('assistant');
+    expect(compacted[0].content).toEqual([
+      { type: 'text', text: 'Build the app' },
+      { type: 'text', text: formatWorkingMemory(MEMORY) },
+    ]);
+    expect(compactor.memory()).toEqual(MEMORY);
+
+    const request = (
+      create.mock.calls[0] as unknown as [Parameters<CompactionClient['messages']['create']>[0]]
+    )[0];
+    expect(request.model).toBe('claude-haiku-4-5');
+    expect(request.messages[0].content).toContain('There is no previous working memory.');
+    expect(request.messages[0].content).toContain('Step 0');
+    expect(request.messages[0].content).not.toContain('Step 9');
+    expect(onUsage).toHaveBeenCalledWith('claude-haiku-4-5', {
+      input_tokens: 5000,
+      output_tokens: 400,
+    });
+  });
+
+  it('builds on the previous memory and keeps the original first message', async () => {
+    const { client, create } = mockClient(JSON.stringify(MEMORY));
+    const compactor = createContextCompactor({
+      client,
+      model: 'claude-haiku-4-5',
+      keepRecentMessages: 2,
+    });
+
+    const once = await compactor.compact(conversation(5));
+    const twice = await compactor.compact([...once, ...conversation(3).slice(1)]);
+
+    const secondRequest = (
+      create.mock.calls[1] as unknown as [Parameters<CompactionClient['messages']['create']>[0]]
+    )[0];
+    expect(secondRequest.messages[0].content).toContain('Previous working memory:');
+    expect(secondRequest.messages[0].content).not.toContain('<working_memory>');
+    expect(twice[0].content).toHaveLength(2);
+    expect(twice).toHaveLength(3);
+  });
+
+  it('leaves conversations without older turns alone', async () => {
+    const { client, create } = mockClient('{}');
+    const compactor = createContextCompactor({ client, model: 'claude-haiku-4-5' });
+    const messages = conversation(3);
+
+    expect(await compactor.compact(messages)).toBe(messages);
+    expect(create).not.toHaveBeenCalled();
+    expect(compactor.memory()).toBeNull();
+  });
+
+  it('keeps fewer recent messages when asked', async () => {
+    const { client } = mockClient('{}');
+    const compactor = createContextCompactor({ client, model: 'claude-haiku-4-5' });
+
+    const compacted = await compactor.compact(conversation(3), { keepRecentMessages: 2 });
+    expect(compacted).toHaveLength(3);
+  });
+
+  it('throws when the summarization call fails', async () => {
+    const client: CompactionClient = {
+      messages: { create: vi.fn(async () => Promise.reject(new Error('overloaded'))) },
+    };
+    const compactor = createContextCompactor({ client, model: 'claude-haiku-4-5' });
+    await expect(compactor.compact(conversation(12))).rejects.toThrow('overloaded');
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Context Compaction
+ * ==================
+ *
+ * Keeps a long agent conversation within the context window by summarizing
+ * its older turns into a working memory: the files, conventions, bugs and
+ * commands the agent learned about, kept in place of the turns themselves.
+ */
+
+import { countTokens, toTokenCounts, type MessageUsage } from './usage.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A Messages API content block, as far as compaction reads it */
+export interface ConversationBlock {
+  type: string;
+  text?: string;
+  /** Tool name of a tool_use block */
+  name?: string;
+  /** Input of a tool_use block */
+  input?: unknown;
+  /** Output of a tool_result block: text or content blocks */
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/** A Messages API message, as far as compaction reads it */
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string | ConversationBlock[];
+}
+
+/**
+ * The part of a Messages API client compaction uses, so tests can pass a
+ * mock and agent-core doesn't depend on the SDK.
+ */
+export interface CompactionClient {
+  messages: {
+    create(params: {
+      model: string;
+      max_tokens: number;
+      system: string;
+      messages: Array<{ role: 'user'; content: string }>;
+    }): Promise<{ content: Array<{ type: string; text?: string }>; usage: MessageUsage }>;
+  };
+}
+
+/** What the agent learned in the turns that were summarized */
+export interface WorkingMemory {
+  /** Work done so far and what the agent was in the middle of */
+  progress: string;
+  /** Files that matter, with what they hold */
+  keyFiles: string[];
+  /** Conventions the codebase follows */
+  conventions: string[];
+  /** Bugs found and not yet fixed, and failed approaches to avoid */
+  knownBugs: string[];
+  /** Commands that work, e.g. to build, test or start the app */
+  workingCommands: string[];
+}
+
+export interface ContextCompactorOptions {
+  client: CompactionClient;
+  /** Model that writes the summaries; a cheaper one than the agent's will do */
+  model: string;
+  /** Compact once a request's context reaches this many tokens */
+  maxContextTokens?: number;
+  /** Most recent messages kept verbatim when compacting */
+  keepRecentMessages?: number;
+  /** Receives the usage of each summarization call */
+  onUsage?: (model: string, usage: MessageUsage) => void;
+}
+
+export interface ContextCompactor {
+  /** Whether a response's usage shows the conversation has outgrown the limit */
+  needsCompaction(usage: MessageUsage): boolean;
+  /**
+   * Replace the turns between the first message and the most recent ones
+   * with a working memory appended to the first message.
+   *
+   * @param options.keepRecentMessages - Keep fewer recent messages than
+   *   configured, e.g. after a request was rejected as too long
+   * @returns The compacted conversation, or the same messages if there are
+   *   no turns to summarize
+   * @throws If the summarization call fails
+   */
+  compact<M extends ConversationMessage>(
+    messages: M[],
+    options?: { keepRecentMessages?: number }
+  ): Promise<M[]>;
+  /** The working memory from the last compaction */
+  memory(): WorkingMemory | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Compaction threshold. The context window is 200K tokens; the rest leaves
+ * room for a turn's output and tool results.
+ */
+export const DEFAULT_COMPACTION_THRESHOLD_TOKENS = 140_000;
+export const DEFAULT_KEEP_RECENT_MESSAGES = 10;
+
+const SUMMARY_MAX_TOKENS = 4096;
+const TOOL_INPUT_PREVIEW_CHARS = 500;
+const TOOL_RESULT_PREVIEW_CHARS = 1500;
+/** Keep the transcript well within the summarizing model's context */
+const MAX_TRANSCRIPT_CHARS = 300_000;
+
+const COMPACTION_SYSTEM_PROMPT = `You maintain the working memory of an autonomous coding agent whose conversation has grown too long for its context window. You are given the agent's previous working memory, if any, and a transcript of its turns since then. Those turns will be removed from the conversation, so the working memory you write is all the agent will keep of them.
+
+Respond with only a JSON object with these keys:
+- "progress": string - what has been done, and what the agent was in the middle of
+- "keyFiles": string[] - files that matter, each with a short note on what it holds
+- "conventions": string[] - conventions the codebase follows (structure, naming, libraries, styling)
+- "knownBugs": string[] - bugs found and not yet fixed, and approaches that failed
+- "workingCommands": string[] - exact commands that worked, e.g. to install, build, test or start the app
+
+Merge the previous working memory with what the transcript adds. Drop entries the transcript shows are no longer true. Be specific and brief.`;
+
+// ============================================================================
+// Working Memory
+// ============================================================================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Read a working memory from a summary response. A response that isn't the
+ * expected JSON is kept whole as the progress notes.
+ */
+export function parseWorkingMemory(text: string): WorkingMemory {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    try {
+      const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+      if (parsed && typeof parsed === 'object') {
+        const memory = parsed as Record<string, unknown>;
+        return {
+          progress: typeof memory.progress === 'string' ? memory.progress : '',
+          keyFiles: isStringArray(memory.keyFiles) ? memory.keyFiles : [],
+          conventions: isStringArray(memory.conventions) ? memory.conventions : [],
+          knownBugs: isStringArray(memory.knownBugs) ? memory.knownBugs : [],
+          workingCommands: isStringArray(memory.workingCommands) ? memory.workingCommands : [],
+        };
+      }
+    } catch {
+      // Not JSON - fall through
+    }
+  }
+  return {
+    progress: text.trim(),
+    keyFiles: [],
+    conventions: [],
+    knownBugs: [],
+    workingCommands: [],
+  };
+}
+
+/**
+ * Working memory as the text the agent sees, leaving out empty sections.
+ */
+export function formatWorkingMemory(memory: WorkingMemory): string {
+  const sections: Array<[string, string[]]> = [
+    ['Key files', memory.keyFiles],
+    ['Conventions', memory.conventions],
+    ['Known bugs', memory.knownBugs],
+    ['Commands that work', memory.workingCommands],
+  ];
+
+  const lines = [
+    '<working_memory>',
+    'Earlier turns of this conversation were summarized to save context. This is what you learned in them.',
+  ];
+  if (memory.progress) {
+    lines.push('', '## Progress', memory.progress);
+  }
+  for (const [title, items] of sections) {
+    if (items.length > 0) {
+      lines.push('', `## ${title}`, ...items.map((item) => `- ${item}`));
+    }
+  }
+  lines.push('</working_memory>');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Transcript
+// ============================================================================
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}... [truncated]` : text;
+}
+
+function blockText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block: ConversationBlock) =>
+        block.type === 'text' ? (block.text ?? '') : `[${block.type}]`
+      )
+      .join('\n');
+  }
+  return '';
+}
+
+function formatBlock(block: ConversationBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text ?? '';
+    case 'tool_use':
+      return `→ ${block.name}(${truncate(JSON.stringify(block.input ?? {}), TOOL_INPUT_PREVIEW_CHARS)})`;
+    case 'tool_result':
+      return `← ${block.is_error ? 'error' : 'result'}: ${truncate(blockText(block.content), TOOL_RESULT_PREVIEW_CHARS)}`;
+    default:
+      return `[${block.type}]`;
+  }
+}
+
+/**
+ * Turns as plain text for the summarizing model, with tool inputs and results
+ * shortened. The oldest turns are dropped if it's still too long.
+ */
+export function formatTranscript(messages: ConversationMessage[]): string {
+  const transcript = messages
+    .map((message) => {
+      const body =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map(formatBlock).join('\n');
+      return `[${message.role}]\n${body}`;
+    })
+    .join('\n\n');
+  return transcript.length > MAX_TRANSCRIPT_CHARS
+    ? `[earlier turns omitted]\n${transcript.slice(-MAX_TRANSCRIPT_CHARS)}`
+    : transcript;
+}
+
+// ============================================================================
+// Compactor
+// ============================================================================
+
+/**
+ * Index of the first message kept verbatim: the first assistant message among
+ * the most recent ones, so the kept turns follow the first (user) message and
+ * every tool result still follows its tool use. 0 if nothing can be removed.
+ */
+function findKeptStart(messages: ConversationMessage[], keepRecent: number): number {
+  for (let i = Math.max(1, messages.length - keepRecent); i < messages.length; i++) {
+    if (messages[i].role === 'assistant') {
+      // Message 1 would leave no turns to summarize
+      return i > 1 ? i : 0;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compact one agent conversation. The compactor remembers the conversation's
+ * first message as it was before the first compaction, so use one per
+ * conversation.
+ */
+export function createContextCompactor(options: ContextCompactorOptions): ContextCompactor {
+  const maxContextTokens = options.maxContextTokens ?? DEFAULT_COMPACTION_THRESHOLD_TOKENS;
+  let memory: WorkingMemory | null = null;
+  let initialContent: ConversationMessage['content'] | null = null;
+
+  return {
+    needsCompaction(usage) {
+      return countTokens(toTokenCounts(usage)) >= maxContextTokens;
+    },
+
+    async compact<M extends ConversationMessage>(
+      messages: M[],
+      compactOptions?: { keepRecentMessages?: number }
+    ): Promise<M[]> {
+      const keepRecent =
+        compactOptions?.keepRecentMessages ??
+        options.keepRecentMessages ??
+        DEFAULT_KEEP_RECENT_MESSAGES;
+      const keptStart = findKeptStart(messages, keepRecent);
+      if (keptStart === 0) {
+        return messages;
+      }
+
+      initialContent ??= messages[0].content;
+      const previous = memory
+        ? `Previous working memory:\n${JSON.stringify(memory, null, 2)}`
+        : 'There is no previous working memory.';
+      const response = await options.client.messages.create({
+        model: options.model,
+        max_tokens: SUMMARY_MAX_TOKENS,
+        system: COMPACTION_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: `${previous}\n\nTranscript:\n${formatTranscript(messages.slice(1, keptStart))}`,
+          },
+        ],
+      });
+      options.onUsage?.(options.model, response.usage);
+
+      memory = parseWorkingMemory(blockText(response.content));
+      const initialBlocks: ConversationBlock[] =
+        typeof initialContent === 'string'
+          ? [{ type: 'text', text: initialContent }]
+          : initialContent;
+      // The first message only gains text blocks, so it's still a valid M
+      const first = {
+        ...messages[0],
+        content: [...initialBlocks, { type: 'text', text: formatWorkingMemory(memory) }],
+      } as M;
+      return [first, ...messages.slice(keptStart)];
+    },
+
+    memory: () => memory,
+  };
+}
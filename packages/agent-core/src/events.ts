@@ -5,6 +5,8 @@
  * is doing during a build.
  */
 
+import type { UsagePhase, UsageTotals } from './usage.js';
+
 // =============================================================================
 // Base Event Type
 // =============================================================================
@@ -121,7 +123,7 @@ export interface CommandEvent extends BaseEvent {
 
 export interface ToolStartEvent extends BaseEvent {
   type: 'tool_start';
-  toolName: 'bash' | 'write_file' | 'read_file' | 'str_replace_editor';
+  toolName: string; // Name of a registered sandbox tool
   toolUseId: string;
   input: Record<string, unknown>;
   displayInput?: string; // Truncated/formatted for display
@@ -178,6 +180,18 @@ export interface ErrorEvent extends BaseEvent {
   recovering?: boolean; // True if agent is attempting to fix
 }
 
+// =============================================================================
+// Security Events - Tool calls refused by the security policy
+// =============================================================================
+
+export interface SecurityBlockEvent extends BaseEvent {
+  type: 'security_block';
+  toolName: string;
+  toolUseId: string;
+  command: string;
+  reason: string;
+}
+
 // =============================================================================
 // Progress Events - Overall build progress
 // =============================================================================
@@ -192,6 +206,39 @@ export interface ProgressEvent extends BaseEvent {
   averageFeatureDurationMs?: number; // Average time per feature so far
 }
 
+// =============================================================================
+// Resource Events - Sandbox resource consumption
+// =============================================================================
+
+export interface ResourceUsageEvent extends BaseEvent {
+  type: 'resource_usage';
+  cpuPercent: number; // Percent of one core, can exceed 100
+  memoryUsedBytes: number;
+  memoryLimitBytes?: number;
+  diskUsedBytes: number;
+  diskTotalBytes?: number;
+}
+
+// =============================================================================
+// Usage Events - Tokens and cost of each model call
+// =============================================================================
+
+export interface UsageEvent extends BaseEvent {
+  type: 'usage';
+  phase: UsagePhase;
+  model: string;
+  featureIndex?: number;
+  feature?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  cacheHitRate: number; // Share of this call's input read from the prompt cache (0-1)
+  totals: UsageTotals; // Build totals including this call
+  totalCacheHitRate: number; // Share of the build's input read from the prompt cache (0-1)
+}
+
 // =============================================================================
 // Feature List Events - Full feature list from feature_list.json
 // =============================================================================
@@ -231,7 +278,10 @@ export type AgentEvent =
   | CommandEvent
   | TestRunEvent
   | ErrorEvent
+  | SecurityBlockEvent
   | ProgressEvent
+  | ResourceUsageEvent
+  | UsageEvent
   | FeatureListEvent;
 
 export type EventType = AgentEvent['type'];
@@ -249,6 +299,9 @@ export type EventCategory =
   | 'command'    // CommandEvent
   | 'test'       // TestRunEvent
   | 'activity'   // ActivityEvent
+  | 'resource'   // ResourceUsageEvent
+  | 'usage'      // UsageEvent
+  | 'security'   // SecurityBlockEvent
   | 'error';     // ErrorEvent
 
 /**
@@ -280,6 +333,12 @@ export function getEventCategory(event: AgentEvent): EventCategory {
       return 'test';
     case 'activity':
       return 'activity';
+    case 'resource_usage':
+      return 'resource';
+    case 'usage':
+      return 'usage';
+    case 'security_block':
+      return 'security';
     case 'error':
       return 'error';
     default:
@@ -6,12 +6,19 @@
  * This harness is optimized for building web applications from an app_spec.txt.
  */
 
-import type { AgentHarness, ProgressState, Sandbox, FeatureStatus } from '../types.js';
+import type {
+  AgentHarness,
+  ProgressState,
+  Sandbox,
+  FeatureStatus,
+  SecurityPolicy,
+} from '../types.js';
 import { INITIALIZER_PROMPT, CODING_PROMPT } from '../prompts.js';
 
 /**
  * Allowed bash commands for the coding harness.
- * Minimal set needed for development tasks.
+ * Set needed for building and running web apps in a sandbox; rm, kill, pkill,
+ * chmod, npm, npx and curl are validated further (see security.ts).
  */
 export const CODING_ALLOWED_COMMANDS = [
   // File inspection
@@ -21,26 +28,93 @@ export const CODING_ALLOWED_COMMANDS = [
   'tail',
   'wc',
   'grep',
+  'find',
   // File operations
   'cp',
+  'mv',
+  'rm',
   'mkdir',
+  'touch',
   'chmod',
   // Directory
   'pwd',
+  'cd',
+  // Output
+  'echo',
   // Node.js development
   'npm',
+  'npx',
   'node',
   // Version control
   'git',
+  // Checking dev servers
+  'curl',
   // Process management
   'ps',
   'lsof',
   'sleep',
+  'kill',
   'pkill',
   // Script execution
   'init.sh',
 ];
 
+/**
+ * Security policy for the coding harness: the allowed commands above, without
+ * the git/npm operations that reach outside the sandbox, and with writes kept
+ * to the workspace and /tmp.
+ */
+export const CODING_SECURITY_POLICY: SecurityPolicy = {
+  commands: {
+    ...Object.fromEntries(CODING_ALLOWED_COMMANDS.map((command) => [command, {}])),
+    cp: { writes: 'last' },
+    mv: { writes: 'move' },
+    rm: { writes: 'all', validator: 'rm' },
+    mkdir: { writes: 'all' },
+    touch: { writes: 'all' },
+    chmod: { writes: 'all', validator: 'chmod' },
+    find: {
+      deny: [
+        {
+          args: [['-exec', '-execdir', '-ok', '-okdir', '-delete', '-fprint', '-fprintf', '-fls']],
+          reason: 'find may only search; run other commands on its results directly',
+        },
+      ],
+    },
+    git: {
+      deny: [
+        { args: ['push', ['--force*', '-f', '+*']], reason: 'Force pushes are not allowed' },
+        { args: ['remote', ['add', 'set-url']], reason: 'Changing git remotes is not allowed' },
+        {
+          args: ['clone'],
+          reason: 'Cloning repositories is not allowed; the workspace is the repository',
+        },
+      ],
+    },
+    npm: {
+      deny: [{ args: [['publish', 'unpublish']], reason: 'Publishing packages is not allowed' }],
+      validator: 'npm',
+    },
+    npx: { validator: 'npx' },
+    curl: {
+      deny: [
+        {
+          args: [['-o', '-O', '--output', '--remote-name']],
+          reason: 'curl is for checking servers; downloading files is not allowed',
+        },
+      ],
+      validator: 'curl',
+    },
+    kill: { validator: 'kill' },
+    pkill: { validator: 'pkill' },
+    'init.sh': { validator: 'init.sh' },
+  },
+  paths: {
+    writable: ['/home/user', '/tmp'],
+    reason: 'Files may only be written in /home/user or /tmp',
+  },
+};
+
 /**
  * Feature list item as stored in feature_list.json
  */
@@ -134,13 +208,14 @@ async function trackProgress(sandbox: Sandbox): Promise<ProgressState> {
 export const codingHarness: AgentHarness = {
   id: 'coding',
   name: 'Autonomous Coding',
-  description:
-    'Build web applications from app_spec.txt with automated testing and verification',
+  description: 'Build web applications from app_spec.txt with automated testing and verification',
 
   initializerPrompt: INITIALIZER_PROMPT,
   continuationPrompt: CODING_PROMPT,
+  flow: 'phased',
 
   allowedCommands: CODING_ALLOWED_COMMANDS,
+  securityPolicy: CODING_SECURITY_POLICY,
 
   mcpServers: [
     {
@@ -5,8 +5,15 @@
  * Factory for creating custom agent harnesses with specific configurations.
  */
 
-import type { AgentHarness, McpServerConfig, ProgressState, Sandbox } from '../types.js';
-import { codingHarness, CODING_ALLOWED_COMMANDS } from './coding.js';
+import type {
+  AgentHarness,
+  McpServerConfig,
+  ProgressState,
+  Sandbox,
+  HarnessTools,
+  SecurityPolicy,
+} from '../types.js';
+import { codingHarness, CODING_ALLOWED_COMMANDS, CODING_SECURITY_POLICY } from './coding.js';
 
 /**
  * Options for creating a custom harness.
@@ -22,12 +29,24 @@ export interface CustomHarnessOptions {
   /** System prompt for continuation agents */
   continuationPrompt: string;
 
+  /** How builds run the harness (defaults to sessions of the prompts above) */
+  flow?: 'sessions' | 'phased';
+
   /** Allowed bash commands (defaults to coding harness commands) */
   allowedCommands?: string[];
 
+  /** Declarative bash policy, enforced instead of allowedCommands when set */
+  securityPolicy?: SecurityPolicy;
+
   /** MCP servers to enable */
   mcpServers?: McpServerConfig[];
 
+  /** Markdown or PDF files holding the harness's deliverable */
+  reportFiles?: string[];
+
+  /** Sandbox tools to add or remove */
+  tools?: HarnessTools;
+
   /**
    * Custom completion check function.
    * Returns true when the task is complete.
@@ -72,9 +91,9 @@ async function defaultProgressTracker(_sandbox: Sandbox): Promise<ProgressState>
  *
  * @example
  * ```typescript
- * const researchHarness = createCustomHarness({
- *   id: 'research',
- *   name: 'Deep Research',
+ * const webResearchHarness = createCustomHarness({
+ *   id: 'web-research',
+ *   name: 'Web Research',
  *   description: 'Conduct multi-hour research on a topic',
  *   initializerPrompt: 'You are a research agent...',
  *   continuationPrompt: 'Continue your research...',
@@ -92,8 +111,12 @@ export function createCustomHarness(options: CustomHarnessOptions): AgentHarness
     description,
     initializerPrompt,
     continuationPrompt,
+    flow = 'sessions',
     allowedCommands = CODING_ALLOWED_COMMANDS,
+    securityPolicy,
     mcpServers = [],
+    reportFiles,
+    tools,
     completionCheck = defaultCompletionCheck,
     progressTracker = defaultProgressTracker,
   } = options;
@@ -104,8 +127,12 @@ export function createCustomHarness(options: CustomHarnessOptions): AgentHarness
     description,
     initializerPrompt,
     continuationPrompt,
+    flow,
     allowedCommands,
+    securityPolicy,
     mcpServers,
+    reportFiles,
+    tools,
     completionCheck,
     progressTracker,
   };
@@ -114,6 +141,15 @@ export function createCustomHarness(options: CustomHarnessOptions): AgentHarness
 /**
  * Extend the default coding harness with custom modifications.
  *
+ * `allowedCommands` adds to the coding harness's commands rather than
+ * replacing them, and the coding security policy still applies: the new
+ * commands are allowed as they are, while its argument denies and write
+ * confinement stay in force. Pass `securityPolicy` to replace the policy.
+ *
+ * The extended harness keeps the coding harness's phased build, which uses
+ * its own prompts; giving it new prompts switches it to sessions of those
+ * prompts unless `flow` says otherwise.
+ *
  * @param overrides - Partial harness options to override defaults
  * @returns A new harness based on the coding harness
  *
@@ -122,19 +158,42 @@ export function createCustomHarness(options: CustomHarnessOptions): AgentHarness
  * const pythonHarness = extendCodingHarness({
  *   id: 'python-coding',
  *   name: 'Python Development',
- *   allowedCommands: [...CODING_ALLOWED_COMMANDS, 'python', 'pip', 'pytest'],
+ *   allowedCommands: ['python', 'pip', 'pytest'],
  * });
  * ```
  */
 export function extendCodingHarness(
   overrides: Partial<CustomHarnessOptions>
 ): AgentHarness {
+  const allowedCommands = [
+    ...new Set([...codingHarness.allowedCommands, ...(overrides.allowedCommands ?? [])]),
+  ];
+
   return {
     ...codingHarness,
     ...overrides,
-    allowedCommands: overrides.allowedCommands ?? codingHarness.allowedCommands,
+    flow:
+      overrides.flow ??
+      (overrides.initializerPrompt || overrides.continuationPrompt ? 'sessions' : codingHarness.flow),
+    allowedCommands,
+    securityPolicy: overrides.securityPolicy ?? widenSecurityPolicy(allowedCommands),
     mcpServers: overrides.mcpServers ?? codingHarness.mcpServers,
     completionCheck: overrides.completionCheck ?? codingHarness.completionCheck,
     progressTracker: overrides.progressTracker ?? codingHarness.progressTracker,
   };
 }
+
+/**
+ * The coding security policy, also allowing the given commands. Commands it
+ * already has keep their rules.
+ */
+function widenSecurityPolicy(commands: string[]): SecurityPolicy {
+  const policy = CODING_SECURITY_POLICY;
+  return {
+    ...policy,
+    commands: {
+      ...Object.fromEntries(commands.map((command) => [command, {}])),
+      ...policy.commands,
+    },
+  };
+}
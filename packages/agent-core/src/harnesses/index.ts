@@ -6,4 +6,12 @@
  */
 
 export { codingHarness } from './coding.js';
+export { researchHarness } from './research.js';
 export { createCustomHarness, type CustomHarnessOptions } from './custom.js';
+export {
+  registerHarness,
+  getHarness,
+  hasHarness,
+  listHarnesses,
+  type HarnessRegistry,
+} from './registry.js';
@@ -0,0 +1,82 @@
+/**
+ * Harness Registry Tests
+ * ======================
+ */
+
+import { describe, it, expect } from 'vitest';
+import { codingHarness } from './coding.js';
+import { createCustomHarness, extendCodingHarness } from './custom.js';
+import { getHarness, hasHarness, listHarnesses, registerHarness } from './registry.js';
+
+describe('harness registry', () => {
+  it('registers the coding harness by default', () => {
+    expect(getHarness('coding')).toBe(codingHarness);
+    expect(hasHarness('coding')).toBe(true);
+    expect(listHarnesses()).toContain(codingHarness);
+  });
+
+  it('registers custom harnesses', () => {
+    const harness = createCustomHarness({
+      id: 'registry-test',
+      name: 'Registry Test',
+      description: 'A harness for the registry tests',
+      initializerPrompt: 'Start the task.',
+      continuationPrompt: 'Continue the task.',
+      allowedCommands: ['ls'],
+    });
+
+    registerHarness(harness);
+
+    expect(getHarness('registry-test')).toBe(harness);
+    expect(listHarnesses().map((h) => h.id)).toEqual(
+      expect.arrayContaining(['coding', 'registry-test'])
+    );
+  });
+
+  it('replaces a harness registered with the same ID', () => {
+    const first = createCustomHarness({
+      id: 'registry-replace',
+      name: 'First',
+      description: '',
+      initializerPrompt: '',
+      continuationPrompt: '',
+    });
+    const second = createCustomHarness({ ...first, name: 'Second' });
+
+    registerHarness(first);
+    registerHarness(second);
+
+    expect(getHarness('registry-replace').name).toBe('Second');
+    expect(listHarnesses().filter((h) => h.id === 'registry-replace')).toHaveLength(1);
+  });
+
+  it('throws for unknown harnesses, listing the registered ones', () => {
+    expect(hasHarness('missing')).toBe(false);
+    expect(() => getHarness('missing')).toThrow(/Harness 'missing' is not registered/);
+    expect(() => getHarness('missing')).toThrow(/coding/);
+  });
+});
+
+describe('harness flows', () => {
+  it('runs custom harnesses as sessions and the coding harness as phases', () => {
+    const harness = createCustomHarness({
+      id: 'flow-test',
+      name: 'Flow Test',
+      description: '',
+      initializerPrompt: 'Start the task.',
+      continuationPrompt: 'Continue the task.',
+    });
+    expect(harness.flow).toBe('sessions');
+    expect(codingHarness.flow).toBe('phased');
+  });
+
+  it('keeps the phased flow for extended coding harnesses, unless given new prompts', () => {
+    expect(extendCodingHarness({ id: 'python', allowedCommands: ['python'] }).flow).toBe('phased');
+    expect(extendCodingHarness({ id: 'docs', continuationPrompt: 'Write docs.' }).flow).toBe(
+      'sessions'
+    );
+    expect(
+      extendCodingHarness({ id: 'docs', continuationPrompt: 'Write docs.', flow: 'phased' }).flow
+    ).toBe('phased');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Harness Registry
+ * ================
+ *
+ * Harnesses a build can be run with, looked up by the `harnessId` stored on
+ * the build. The built-in harnesses are registered when this module loads;
+ * harnesses made with createCustomHarness() are added with registerHarness().
+ */
+
+import type { AgentHarness } from '../types.js';
+import { codingHarness } from './coding.js';
+import { researchHarness } from './research.js';
+
+/**
+ * Harness registry type.
+ */
+export type HarnessRegistry = Record<string, AgentHarness>;
+
+/**
+ * Default harness registry.
+ */
+const harnesses: HarnessRegistry = {};
+
+/**
+ * Register an agent harness, replacing any harness with the same ID.
+ *
+ * @param harness - The harness to register
+ */
+export function registerHarness(harness: AgentHarness): void {
+  harnesses[harness.id] = harness;
+}
+
+/**
+ * Get a registered harness by ID.
+ *
+ * @param id - Harness ID
+ * @returns The harness if found
+ * @throws Error if harness is not registered
+ */
+export function getHarness(id: string): AgentHarness {
+  const harness = harnesses[id];
+  if (!harness) {
+    throw new Error(
+      `Harness '${id}' is not registered. ` +
+        `Available harnesses: ${Object.keys(harnesses).join(', ') || 'none'}`
+    );
+  }
+  return harness;
+}
+
+/**
+ * Check whether a harness is registered.
+ *
+ * @param id - Harness ID
+ */
+export function hasHarness(id: string): boolean {
+  return id in harnesses;
+}
+
+/**
+ * List all registered harnesses, in registration order.
+ *
+ * @returns Array of harnesses
+ */
+export function listHarnesses(): AgentHarness[] {
+  return Object.values(harnesses);
+}
+
+// Built-in harnesses
+registerHarness(codingHarness);
+registerHarness(researchHarness);
@@ -0,0 +1,104 @@
+/**
+ * Research Harness Tests
+ * ======================
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Sandbox } from '../types.js';
+import { createHarnessSecurityHook } from '../policy.js';
+import { parseResearchPlan, researchHarness } from './research.js';
+
+// Sandbox whose files are the given map; missing files throw like a real sandbox
+function sandboxWithFiles(files: Record<string, string>): Sandbox {
+  return {
+    readFile: async (path: string) => {
+      if (!(path in files)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      return files[path];
+    },
+  } as unknown as Sandbox;
+}
+
+const plan = (answered: boolean[]) =>
+  JSON.stringify(
+    answered.map((a, i) => ({
+      question: `Question ${i + 1}?`,
+      sources: [`sources/doc-${i + 1}.pdf`],
+      answered: a,
+    }))
+  );
+
+describe('parseResearchPlan', () => {
+  it('parses questions', () => {
+    expect(parseResearchPlan(plan([true, false]))).toEqual([
+      { question: 'Question 1?', sources: ['sources/doc-1.pdf'], answered: true },
+      { question: 'Question 2?', sources: ['sources/doc-2.pdf'], answered: false },
+    ]);
+  });
+
+  it('drops entries without a question and treats a missing answered flag as open', () => {
+    const content = JSON.stringify([{ question: 'Kept?' }, { answered: true }, 'text', null]);
+    expect(parseResearchPlan(content)).toEqual([
+      { question: 'Kept?', sources: undefined, answered: false },
+    ]);
+  });
+
+  it('returns no questions for invalid JSON or a non-array', () => {
+    expect(parseResearchPlan('not json')).toEqual([]);
+    expect(parseResearchPlan('{"question": "Q?"}')).toEqual([]);
+  });
+});
+
+describe('researchHarness', () => {
+  it('tracks answered questions as progress', async () => {
+    const progress = await researchHarness.progressTracker(
+      sandboxWithFiles({ 'research_plan.json': plan([true, false, true]) })
+    );
+
+    expect(progress.total).toBe(3);
+    expect(progress.completed).toBe(2);
+    expect(progress.features[1]).toEqual({
+      id: 'question-2',
+      category: 'functional',
+      description: 'Question 2?',
+      steps: ['sources/doc-2.pdf'],
+      status: 'pending',
+    });
+  });
+
+  it('reports no progress before the plan exists', async () => {
+    const progress = await researchHarness.progressTracker(sandboxWithFiles({}));
+    expect(progress).toEqual({ total: 0, completed: 0, features: [] });
+  });
+
+  it('is complete once every question is answered and the report is written', async () => {
+    const check = (files: Record<string, string>) =>
+      researchHarness.completionCheck(sandboxWithFiles(files));
+
+    expect(await check({})).toBe(false);
+    expect(await check({ 'research_plan.json': '[]', 'report.md': '# Report' })).toBe(false);
+    expect(
+      await check({ 'research_plan.json': plan([true, false]), 'report.md': '# Report' })
+    ).toBe(false);
+    expect(await check({ 'research_plan.json': plan([true, true]) })).toBe(false);
+    expect(await check({ 'research_plan.json': plan([true, true]), 'report.md': '  \n' })).toBe(
+      false
+    );
+    expect(await check({ 'research_plan.json': plan([true, true]), 'report.md': '# Report' })).toBe(
+      true
+    );
+  });
+
+  it('lets the agent read and convert sources but not reach the network', async () => {
+    const hook = createHarnessSecurityHook(researchHarness);
+    const run = (command: string) => hook({ tool_name: 'Bash', tool_input: { command } });
+
+    expect((await run('pdftotext sources/paper.pdf notes/paper.txt')).decision).toBeUndefined();
+    expect((await run('grep -ri "revenue" sources/ | sort | uniq')).decision).toBeUndefined();
+    expect((await run('pandoc report.md -o report.pdf')).decision).toBeUndefined();
+    expect((await run('curl https://example.com')).decision).toBe('block');
+    expect((await run('rm -rf sources')).decision).toBe('block');
+    expect((await run('cp notes/q1.md /etc/motd')).decision).toBe('block');
+  });
+});
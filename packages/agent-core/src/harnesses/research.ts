@@ -0,0 +1,188 @@
+/**
+ * Research Harness
+ * ================
+ *
+ * Pre-configured harness for research and document writing. The agent answers
+ * the questions in research_plan.json from the documents in sources/, then
+ * writes its findings up as report.md (and report.pdf when pandoc is
+ * available). It has no network access, so the attached sources are all it
+ * can cite.
+ */
+
+import type {
+  AgentHarness,
+  FeatureStatus,
+  ProgressState,
+  Sandbox,
+  SecurityPolicy,
+} from '../types.js';
+import { RESEARCH_INITIALIZER_PROMPT, RESEARCH_PROMPT } from '../prompts.js';
+
+/**
+ * Allowed bash commands for the research harness: reading and searching
+ * files, converting documents, and nothing that reaches the network.
+ */
+export const RESEARCH_ALLOWED_COMMANDS = [
+  // File inspection
+  'ls',
+  'cat',
+  'head',
+  'tail',
+  'wc',
+  'grep',
+  'find',
+  // Text processing
+  'sort',
+  'uniq',
+  'cut',
+  // File operations
+  'cp',
+  'mv',
+  'mkdir',
+  'touch',
+  // Directory
+  'pwd',
+  'cd',
+  // Output
+  'echo',
+  // Document conversion
+  'pdftotext',
+  'pdfinfo',
+  'pandoc',
+];
+
+/**
+ * Security policy for the research harness: the allowed commands above, with
+ * writes kept to the workspace and /tmp.
+ */
+export const RESEARCH_SECURITY_POLICY: SecurityPolicy = {
+  commands: {
+    ...Object.fromEntries(RESEARCH_ALLOWED_COMMANDS.map((command) => [command, {}])),
+    cp: { writes: 'last' },
+    mv: { writes: 'all' },
+    mkdir: { writes: 'all' },
+    touch: { writes: 'all' },
+    find: {
+      deny: [
+        {
+          args: [['-exec', '-execdir', '-ok', '-okdir', '-delete']],
+          reason: 'find may only search; run other commands on its results directly',
+        },
+      ],
+    },
+  },
+  paths: {
+    writable: ['/home/user', '/tmp'],
+    reason: 'Files may only be written in /home/user or /tmp',
+  },
+};
+
+/** The research report, in the order the UI prefers them */
+export const RESEARCH_REPORT_FILES = ['report.md', 'report.pdf'];
+
+/**
+ * Research question as stored in research_plan.json
+ */
+export interface ResearchQuestion {
+  question: string;
+  sources?: string[];
+  answered: boolean;
+}
+
+/**
+ * Parse the research_plan.json content.
+ * Entries without a question are dropped.
+ */
+export function parseResearchPlan(content: string): ResearchQuestion[] {
+  try {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      return [];
+    }
+    return data
+      .filter(
+        (q): q is Record<string, unknown> =>
+          typeof q === 'object' && q !== null && typeof q.question === 'string'
+      )
+      .map((q) => ({
+        question: q.question as string,
+        sources: Array.isArray(q.sources)
+          ? q.sources.filter((s): s is string => typeof s === 'string')
+          : undefined,
+        answered: q.answered === true,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+async function readResearchPlan(sandbox: Sandbox): Promise<ResearchQuestion[]> {
+  try {
+    return parseResearchPlan(await sandbox.readFile('research_plan.json'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check that every question is answered and the report has been written.
+ */
+async function checkCompletion(sandbox: Sandbox): Promise<boolean> {
+  const questions = await readResearchPlan(sandbox);
+  if (questions.length === 0 || !questions.every((q) => q.answered)) {
+    return false;
+  }
+
+  try {
+    const report = await sandbox.readFile(RESEARCH_REPORT_FILES[0]);
+    return report.trim().length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Track progress as the answered questions in research_plan.json.
+ */
+async function trackProgress(sandbox: Sandbox): Promise<ProgressState> {
+  const questions = await readResearchPlan(sandbox);
+
+  const features: FeatureStatus[] = questions.map((q, index) => ({
+    id: `question-${index + 1}`,
+    category: 'functional',
+    description: q.question,
+    steps: q.sources ?? [],
+    status: q.answered ? 'passed' : 'pending',
+  }));
+
+  return {
+    total: questions.length,
+    completed: questions.filter((q) => q.answered).length,
+    features,
+  };
+}
+
+/**
+ * Research harness for reports written from attached documents.
+ *
+ * This harness is designed to:
+ * - Plan a report from the brief in app_spec.txt as a list of questions
+ * - Answer each question from the files in sources/, citing them
+ * - Write the findings up as a markdown report, rendered to PDF if possible
+ */
+export const researchHarness: AgentHarness = {
+  id: 'research',
+  name: 'Research Report',
+  description: 'Research a topic from attached documents and write up the findings as a report',
+
+  initializerPrompt: RESEARCH_INITIALIZER_PROMPT,
+  continuationPrompt: RESEARCH_PROMPT,
+
+  allowedCommands: RESEARCH_ALLOWED_COMMANDS,
+  securityPolicy: RESEARCH_SECURITY_POLICY,
+
+  reportFiles: RESEARCH_REPORT_FILES,
+
+  completionCheck: checkCompletion,
+  progressTracker: trackProgress,
+};
@@ -11,7 +11,11 @@
 export type {
   // Sandbox types
   ExecResult,
+  ExecOptions,
   AgentOutput,
+  BackgroundProcess,
+  FileEntry,
+  ResourceUsage,
   Sandbox,
   SandboxConfig,
   // Progress types
@@ -25,6 +29,21 @@ export type {
   SecurityHookInput,
   SecurityHookResult,
   SecurityHook,
+  ArgumentPattern,
+  ArgumentRule,
+  CommandValidatorName,
+  CommandPolicy,
+  PathPolicy,
+  SecurityPolicy,
+  // Tool types
+  ToolInputSchema,
+  ToolDefinition,
+  ToolAccess,
+  ToolEvent,
+  ToolContext,
+  ToolResult,
+  SandboxTool,
+  HarnessTools,
   // Session types
   SessionStatus,
   SessionResult,
@@ -40,16 +59,46 @@ export type {
 export {
   DEFAULT_ALLOWED_COMMANDS,
   COMMANDS_NEEDING_EXTRA_VALIDATION,
+  COMMAND_VALIDATORS,
   splitCommandSegments,
   tokenizeCommand,
   extractCommands,
   validatePkillCommand,
+  validateKillCommand,
   validateChmodCommand,
+  validateRmCommand,
+  validateNpmCommand,
+  validateNpxCommand,
+  validateCurlCommand,
   validateInitScript,
   createBashSecurityHook,
   bashSecurityHook,
 } from './security.js';
 
+// Shell parsing
+export {
+  parseShell,
+  findExecutedCommands,
+  formatCommand,
+  quoteShellWord,
+  type ShellWord,
+  type ShellRedirect,
+  type ShellCommand,
+  type ShellCompound,
+  type ShellPipeline,
+  type ShellStatement,
+  type ShellScript,
+  type ExecutedCommand,
+} from './shell.js';
+
+// Security policies
+export {
+  DEFAULT_POLICY_WORKING_DIRECTORY,
+  parseSecurityPolicy,
+  compileSecurityPolicy,
+  createHarnessSecurityHook,
+} from './policy.js';
+
 // Progress
 export {
   type FeatureListItem,
@@ -70,6 +119,8 @@ export {
 export {
   INITIALIZER_PROMPT,
   CODING_PROMPT,
+  RESEARCH_INITIALIZER_PROMPT,
+  RESEARCH_PROMPT,
   DISCOVERY_SYSTEM_PROMPT,
   EXPANSION_SYSTEM_PROMPT,
   TIER_DETAILS,
@@ -97,12 +148,119 @@ export {
 } from './agent.js';
 
 // Harnesses
-export { codingHarness, CODING_ALLOWED_COMMANDS } from './harnesses/coding.js';
+export {
+  codingHarness,
+  CODING_ALLOWED_COMMANDS,
+  CODING_SECURITY_POLICY,
+} from './harnesses/coding.js';
+export {
+  researchHarness,
+  parseResearchPlan,
+  RESEARCH_ALLOWED_COMMANDS,
+  RESEARCH_SECURITY_POLICY,
+  RESEARCH_REPORT_FILES,
+  type ResearchQuestion,
+} from './harnesses/research.js';
 export {
   createCustomHarness,
   extendCodingHarness,
   type CustomHarnessOptions,
 } from './harnesses/custom.js';
+export {
+  registerHarness,
+  getHarness,
+  hasHarness,
+  listHarnesses,
+  type HarnessRegistry,
+} from './harnesses/registry.js';
+
+// Tools
+export {
+  bashTool,
+  readFileTool,
+  writeFileTool,
+  strReplaceEditorTool,
+  deleteFileTool,
+  listDirTool,
+  globTool,
+  grepTool,
+  globToRegExp,
+  BASH_TIMEOUT_MS,
+  BACKGROUND_STARTUP_MS,
+  registerTool,
+  getTool,
+  hasTool,
+  listTools,
+  getHarnessTools,
+  toToolDefinition,
+  executeTool,
+  type ToolRegistry,
+  type ExecuteToolOptions,
+  type ToolExecutionEvent,
+} from './tools/index.js';
+
+// Token usage
+export {
+  MODEL_PRICING,
+  WEB_SEARCH_COST_USD,
+  getModelPricing,
+  calculateCost,
+  toTokenCounts,
+  countTokens,
+  getCacheHitRate,
+  getBudgetOverrun,
+  emptyUsageTotals,
+  addUsage,
+  createUsageTracker,
+  type UsagePhase,
+  type TokenCounts,
+  type UsageAttribution,
+  type UsageRecord,
+  type UsageTotals,
+  type MessageUsage,
+  type ModelPricing,
+  type UsageBudget,
+  type UsageTracker,
+} from './usage.js';
+
+// Context compaction
+export {
+  DEFAULT_COMPACTION_THRESHOLD_TOKENS,
+  DEFAULT_KEEP_RECENT_MESSAGES,
+  createContextCompactor,
+  parseWorkingMemory,
+  formatWorkingMemory,
+  formatTranscript,
+  type ConversationBlock,
+  type ConversationMessage,
+  type CompactionClient,
+  type WorkingMemory,
+  type ContextCompactorOptions,
+  type ContextCompactor,
+} from './compaction.js';
+
+// Prompt caching
+export {
+  cacheSystemPrompt,
+  cacheTools,
+  cacheConversation,
+  type CacheControl,
+  type CachedTextBlock,
+} from './prompt-cache.js';
+
+// Model routing
+export {
+  BUILD_MODEL_ROLES,
+  DEFAULT_MODEL_ROUTING,
+  SUPPORTED_MODELS,
+  getDefaultBuildModelRouting,
+  isSupportedModel,
+  parseBuildModelRouting,
+  type BuildModelRole,
+  type ModelRole,
+  type ModelRouting,
+  type BuildModelRouting,
+} from './models.js';
 
 // Events
 export type {
@@ -123,6 +281,9 @@ export type {
   TestRunEvent,
   ErrorEvent,
   ProgressEvent,
+  ResourceUsageEvent,
+  UsageEvent,
+  SecurityBlockEvent,
   FeatureListItem as EventFeatureListItem,
   FeatureListEvent,
   AgentEvent,
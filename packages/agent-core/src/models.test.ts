@@ -0,0 +1,69 @@
+/**
+ * Model Routing Tests
+ * ===================
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL_ROUTING,
+  SUPPORTED_MODELS,
+  getDefaultBuildModelRouting,
+  isSupportedModel,
+  parseBuildModelRouting,
+} from './models.js';
+import { getModelPricing } from './usage.js';
+
+describe('isSupportedModel', () => {
+  it('accepts Claude model aliases and dated IDs', () => {
+    expect(isSupportedModel('claude-opus-4-5')).toBe(true);
+    expect(isSupportedModel('claude-sonnet-4-5-20250929')).toBe(true);
+    expect(isSupportedModel('claude-haiku-4-5')).toBe(true);
+  });
+
+  it('rejects unknown and malformed model IDs', () => {
+    expect(isSupportedModel('gpt-4o')).toBe(false);
+    expect(isSupportedModel('claude-unknown-1')).toBe(false);
+    expect(isSupportedModel('claude-opus-4-5 ')).toBe(false);
+    expect(isSupportedModel('claude-opus-4-5-bogus')).toBe(false);
+  });
+
+  it('only supports models with pricing', () => {
+    for (const model of SUPPORTED_MODELS) {
+      expect(getModelPricing(model)).toBeDefined();
+    }
+  });
+});
+
+describe('parseBuildModelRouting', () => {
+  it('defaults every build role', () => {
+    expect(parseBuildModelRouting(undefined)).toEqual(getDefaultBuildModelRouting());
+    expect(parseBuildModelRouting({})).toEqual({
+      planning: DEFAULT_MODEL_ROUTING.planning,
+      design_research: DEFAULT_MODEL_ROUTING.design_research,
+      building: DEFAULT_MODEL_ROUTING.building,
+      subagent: DEFAULT_MODEL_ROUTING.subagent,
+      summarization: DEFAULT_MODEL_ROUTING.summarization,
+    });
+  });
+
+  it('overrides the roles given', () => {
+    const routing = parseBuildModelRouting({
+      building: 'claude-sonnet-4-5',
+      subagent: 'claude-haiku-4-5',
+    });
+    expect(routing.building).toBe('claude-sonnet-4-5');
+    expect(routing.subagent).toBe('claude-haiku-4-5');
+    expect(routing.planning).toBe(DEFAULT_MODEL_ROUTING.planning);
+  });
+
+  it('rejects unknown roles, unsupported models and non-objects', () => {
+    expect(() => parseBuildModelRouting({ chat: 'claude-opus-4-5' })).toThrow(
+      /unknown role 'chat'/
+    );
+    expect(() => parseBuildModelRouting({ planning: 'gpt-4o' })).toThrow(
+      /'gpt-4o' is not a supported model for planning/
+    );
+    expect(() => parseBuildModelRouting({ planning: 4 })).toThrow(/not a supported model/);
+    expect(() => parseBuildModelRouting(['claude-opus-4-5'])).toThrow(/must be an object/);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Model Routing
+ * =============
+ *
+ * Which model each part of a build runs on, and the models used to write a
+ * spec in chat before there is a build.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The parts of a build that call a model: design research, planning, the
+ * sequential building loop, parallel feature subagents, and summarizing the
+ * conversation when it outgrows the context window.
+ */
+export type BuildModelRole =
+  | 'planning'
+  | 'design_research'
+  | 'building'
+  | 'subagent'
+  | 'summarization';
+
+/** Build roles, plus spec discovery chat and spec expansion */
+export type ModelRole = BuildModelRole | 'chat' | 'expand_spec';
+
+export type ModelRouting = Record<ModelRole, string>;
+
+/** The models a build runs with, stored on the build */
+export type BuildModelRouting = Record<BuildModelRole, string>;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const BUILD_MODEL_ROLES: readonly BuildModelRole[] = [
+  'planning',
+  'design_research',
+  'building',
+  'subagent',
+  'summarization',
+];
+
+export const DEFAULT_MODEL_ROUTING: ModelRouting = {
+  planning: 'claude-opus-4-5',
+  design_research: 'claude-opus-4-5',
+  building: 'claude-opus-4-5',
+  subagent: 'claude-opus-4-5',
+  summarization: 'claude-sonnet-4-5',
+  chat: 'claude-opus-4-5',
+  expand_spec: 'claude-opus-4-5',
+};
+
+export function getDefaultBuildModelRouting(): BuildModelRouting {
+  return Object.fromEntries(
+    BUILD_MODEL_ROLES.map((role) => [role, DEFAULT_MODEL_ROUTING[role]])
+  ) as BuildModelRouting;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Claude models a build may use, as aliases and dated IDs. Each has pricing in
+ * MODEL_PRICING, so its usage is costed and counts towards the build's budget.
+ */
+export const SUPPORTED_MODELS: readonly string[] = [
+  'claude-opus-4-5',
+  'claude-opus-4-5-20251101',
+  'claude-opus-4-1',
+  'claude-opus-4-1-20250805',
+  'claude-opus-4-0',
+  'claude-opus-4-20250514',
+  'claude-sonnet-4-5',
+  'claude-sonnet-4-5-20250929',
+  'claude-sonnet-4-0',
+  'claude-sonnet-4-20250514',
+  'claude-3-7-sonnet-latest',
+  'claude-3-7-sonnet-20250219',
+  'claude-haiku-4-5',
+  'claude-haiku-4-5-20251001',
+  'claude-3-5-haiku-latest',
+  'claude-3-5-haiku-20241022',
+];
+
+/**
+ * Whether a model ID is one of SUPPORTED_MODELS.
+ */
+export function isSupportedModel(model: string): boolean {
+  return SUPPORTED_MODELS.includes(model);
+}
+
+/**
+ * Validate a build's model choices, e.g. from a request body, filling in the
+ * defaults for roles left out.
+ *
+ * @param source - Object mapping build roles to model IDs
+ * @returns The model for every build role
+ * @throws If a role is unknown or a model isn't supported
+ */
+export function parseBuildModelRouting(source: unknown): BuildModelRouting {
+  const routing = getDefaultBuildModelRouting();
+  if (source === undefined || source === null) {
+    return routing;
+  }
+  if (typeof source !== 'object' || Array.isArray(source)) {
+    throw new Error('Invalid model routing: must be an object mapping build roles to model IDs');
+  }
+
+  for (const [role, model] of Object.entries(source)) {
+    if (!BUILD_MODEL_ROLES.includes(role as BuildModelRole)) {
+      throw new Error(
+        `Invalid model routing: unknown role '${role}' (expected one of ${BUILD_MODEL_ROLES.join(', ')})`
+      );
+    }
+    if (typeof model !== 'string' || !isSupportedModel(model)) {
+      throw new Error(
+        `Invalid model routing: '${String(model)}' is not a supported model for ${role}`
+      );
+    }
+    routing[role as BuildModelRole] = model;
+  }
+  return routing;
+}
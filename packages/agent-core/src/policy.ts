@@ -0,0 +1,513 @@
+/**
+ * Declarative Security Policies
+ * =============================
+ *
+ * Bash security policies written as data rather than code: the commands a
+ * harness may run, argument patterns each command may not be called with, and
+ * the directories commands may write to. Policies are plain JSON, so they can
+ * live in a harness definition or a JSON/YAML file, and are compiled into the
+ * same SecurityHook shape as the allowlist hooks in security.ts.
+ *
+ * @example
+ * ```typescript
+ * const hook = compileSecurityPolicy(parseSecurityPolicy({
+ *   commands: {
+ *     ls: {},
+ *     git: { deny: [{ args: ['push', ['--force*', '-f']], reason: 'No force pushes' }] },
+ *     rm: { validator: 'rm', writes: 'all' },
+ *   },
+ *   paths: { writable: ['/home/user'] },
+ * }));
+ * ```
+ */
+
+import { COMMAND_VALIDATORS, createBashSecurityHook } from './security.js';
+import {
+  findExecutedCommands,
+  formatCommand,
+  parseShell,
+  type ExecutedCommand,
+  type ShellRedirect,
+  type ShellWord,
+} from './shell.js';
+import type {
+  AgentHarness,
+  ArgumentPattern,
+  ArgumentRule,
+  CommandPolicy,
+  CommandValidatorName,
+  PathPolicy,
+  SecurityHook,
+  SecurityHookInput,
+  SecurityHookResult,
+  SecurityPolicy,
+} from './types.js';
+
+/** Directory relative paths are resolved against when the policy doesn't say */
+export const DEFAULT_POLICY_WORKING_DIRECTORY = '/home/user';
+
+/** Written to by `> /dev/null` everywhere; never a real write */
+const NULL_DEVICE = '/dev/null';
+
+/** Tools that write the file at their `file_path` input */
+const WRITE_TOOLS = new Set(['Write', 'Edit']);
+
+/** Redirection operators that open their target for writing */
+const OUTPUT_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&']);
+
+/**
+ * Flags whose value is a file or directory the command writes, whatever the
+ * command: find's output files and the GNU `--target-directory`.
+ */
+const WRITE_TARGET_FLAGS = new Set(['--target-directory', '-fprint', '-fprintf', '-fls']);
+
+// ============================================================================
+// Parsing and Validation
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, problem: string): never {
+  throw new Error(`Invalid security policy: ${path} ${problem}`);
+}
+
+function parseArgumentPattern(value: unknown, path: string): ArgumentPattern {
+  if (typeof value === 'string' && value) {
+    return value;
+  }
+  if (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((alternative) => typeof alternative === 'string' && alternative)
+  ) {
+    return [...value] as string[];
+  }
+  return invalid(path, 'must be a non-empty string or a list of them');
+}
+
+function parseArgumentRule(value: unknown, path: string): ArgumentRule {
+  if (!isRecord(value)) {
+    return invalid(path, 'must be an object');
+  }
+  if (!Array.isArray(value.args) || value.args.length === 0) {
+    return invalid(`${path}.args`, 'must be a non-empty list');
+  }
+  if (value.reason !== undefined && typeof value.reason !== 'string') {
+    return invalid(`${path}.reason`, 'must be a string');
+  }
+  return {
+    args: value.args.map((pattern, i) => parseArgumentPattern(pattern, `${path}.args[${i}]`)),
+    ...(value.reason !== undefined && { reason: value.reason }),
+  };
+}
+
+function parseCommandPolicy(value: unknown, path: string): CommandPolicy {
+  // `ls:` with nothing after it is null in YAML, and means no extra rules
+  if (value === null) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    return invalid(path, 'must be an object');
+  }
+
+  const policy: CommandPolicy = {};
+  if (value.deny !== undefined) {
+    if (!Array.isArray(value.deny)) {
+      return invalid(`${path}.deny`, 'must be a list');
+    }
+    policy.deny = value.deny.map((rule, i) => parseArgumentRule(rule, `${path}.deny[${i}]`));
+  }
+  if (value.validator !== undefined) {
+    if (typeof value.validator !== 'string' || !(value.validator in COMMAND_VALIDATORS)) {
+      return invalid(
+        `${path}.validator`,
+        `must be one of: ${Object.keys(COMMAND_VALIDATORS).join(', ')}`
+      );
+    }
+    policy.validator = value.validator as CommandValidatorName;
+  }
+  if (value.writes !== undefined) {
+    if (value.writes !== 'all' && value.writes !== 'last' && value.writes !== 'move') {
+      return invalid(`${path}.writes`, "must be 'all', 'last' or 'move'");
+    }
+    policy.writes = value.writes;
+  }
+  return policy;
+}
+
+function parsePathPolicy(value: unknown): PathPolicy {
+  if (!isRecord(value)) {
+    return invalid('paths', 'must be an object');
+  }
+  const { writable, workingDirectory, reason } = value;
+  if (
+    !Array.isArray(writable) ||
+    writable.length === 0 ||
+    !writable.every((dir) => typeof dir === 'string' && dir.startsWith('/'))
+  ) {
+    return invalid('paths.writable', 'must be a non-empty list of absolute paths');
+  }
+  if (
+    workingDirectory !== undefined &&
+    (typeof workingDirectory !== 'string' || !workingDirectory.startsWith('/'))
+  ) {
+    return invalid('paths.workingDirectory', 'must be an absolute path');
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    return invalid('paths.reason', 'must be a string');
+  }
+  return {
+    writable: [...writable] as string[],
+    ...(workingDirectory !== undefined && { workingDirectory }),
+    ...(reason !== undefined && { reason }),
+  };
+}
+
+/**
+ * Validate a security policy from JSON text or an already-parsed document
+ * (for example one loaded from YAML).
+ *
+ * @param source - JSON string or parsed policy object
+ * @returns The validated policy
+ * @throws If the policy is malformed
+ */
+export function parseSecurityPolicy(source: unknown): SecurityPolicy {
+  let document = source;
+  if (typeof source === 'string') {
+    try {
+      document = JSON.parse(source);
+    } catch (error) {
+      throw new Error(
+        `Invalid security policy: not valid JSON (${error instanceof Error ? error.message : error})`
+      );
+    }
+  }
+
+  if (!isRecord(document)) {
+    return invalid('policy', 'must be an object');
+  }
+  if (!isRecord(document.commands)) {
+    return invalid('commands', 'must be an object mapping command names to rules');
+  }
+
+  const commands: Record<string, CommandPolicy> = {};
+  for (const [name, rule] of Object.entries(document.commands)) {
+    if (!name || /[\s/]/.test(name)) {
+      return invalid(`commands.${name}`, 'is not a valid command name');
+    }
+    commands[name] = parseCommandPolicy(rule, `commands.${name}`);
+  }
+
+  return {
+    commands,
+    ...(document.paths !== undefined && { paths: parsePathPolicy(document.paths) }),
+  };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Whether an argument matches a pattern, including flags written with their
+ * value (`--output` matches `--output=file`) and single-letter flags bundled
+ * with others or with their value (`-f` matches `-uf`, `-o` matches `-o/tmp/x`).
+ */
+function argumentMatches(arg: string, pattern: ArgumentPattern): boolean {
+  const alternatives = Array.isArray(pattern) ? pattern : [pattern];
+  const longFlag = /^--[^=]+=/.test(arg) ? arg.slice(0, arg.indexOf('=')) : null;
+  // The letters of a short flag cluster, up to any attached value
+  const shortFlags = /^-([A-Za-z]+)/.exec(arg)?.[1] ?? '';
+  return alternatives.some(
+    (alternative) =>
+      globToRegExp(alternative).test(arg) ||
+      (longFlag !== null && globToRegExp(alternative).test(longFlag)) ||
+      (/^-[A-Za-z]$/.test(alternative) && shortFlags.includes(alternative[1]))
+  );
+}
+
+/**
+ * Whether the patterns all match the arguments in order (other arguments may
+ * come between them).
+ */
+function argumentsMatch(args: string[], patterns: ArgumentPattern[]): boolean {
+  let next = 0;
+  for (const arg of args) {
+    if (next < patterns.length && argumentMatches(arg, patterns[next])) {
+      next++;
+    }
+  }
+  return next === patterns.length;
+}
+
+function describePatterns(patterns: ArgumentPattern[]): string {
+  return patterns
+    .map((pattern) => (Array.isArray(pattern) ? pattern.join('|') : pattern))
+    .join(' ');
+}
+
+/**
+ * Resolve a path against a directory, or null when it can't be known statically
+ * (home directory, variables, command substitution, or an unknown directory).
+ */
+function resolvePath(path: string, cwd: string | null): string | null {
+  if (/^~|[$`]/.test(path) || (!path.startsWith('/') && cwd === null)) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  for (const part of (path.startsWith('/') ? path : `${cwd}/${path}`).split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return `/${parts.join('/')}`;
+}
+
+function isInside(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir === '/' ? '/' : `${dir}/`);
+}
+
+/**
+ * Split a command's arguments into the values of its write target flags and
+ * its operands (the non-flag arguments). Short `-t` (`-t dir`, `-tdir`,
+ * `-vt dir`) is only a target flag for commands whose policy lists writes,
+ * since elsewhere it means something else (`ls -t`, `sort -t,`).
+ */
+function splitWriteArguments(
+  args: ShellWord[],
+  shortTargetFlag: boolean
+): { targets: ShellWord[]; operands: ShellWord[] } {
+  const targets: ShellWord[] = [];
+  const operands: ShellWord[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const equals = arg.text.indexOf('=');
+    if (WRITE_TARGET_FLAGS.has(arg.text)) {
+      if (i + 1 < args.length) {
+        targets.push(args[++i]);
+      }
+    } else if (arg.text.startsWith('--') && WRITE_TARGET_FLAGS.has(arg.text.slice(0, equals))) {
+      targets.push({ ...arg, text: arg.text.slice(equals + 1) });
+    } else if (shortTargetFlag && /^-[A-Za-z]*t/.test(arg.text)) {
+      const value = arg.text.slice(arg.text.indexOf('t') + 1);
+      if (value) {
+        targets.push({ ...arg, text: value });
+      } else if (i + 1 < args.length) {
+        targets.push(args[++i]);
+      }
+    } else if (!arg.text.startsWith('-')) {
+      operands.push(arg);
+    }
+  }
+  return { targets, operands };
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Compile a security policy into a bash security hook.
+ *
+ * Every command in the string must be listed in the policy. Each one is then
+ * checked against its deny rules and built-in validator, and the paths it
+ * writes (including output redirections) against the path policy. `cd` is
+ * followed, so relative paths are resolved against the directory they'd
+ * actually run in.
+ *
+ * `Write` and `Edit` tool calls are checked against the path policy only.
+ *
+ * @param policy - Policy to enforce
+ * @returns Security hook function
+ */
+export function compileSecurityPolicy(policy: SecurityPolicy): SecurityHook {
+  const rules = new Map(Object.entries(policy.commands));
+  const paths = policy.paths;
+  const writable = paths?.writable.map((dir) => resolvePath(dir, '/') ?? dir) ?? [];
+  const homeDirectory =
+    resolvePath(paths?.workingDirectory ?? DEFAULT_POLICY_WORKING_DIRECTORY, '/') ??
+    DEFAULT_POLICY_WORKING_DIRECTORY;
+  const pathReason = paths?.reason ?? `Writes are only allowed in ${writable.join(', ')}`;
+
+  /**
+   * Reason a write to `target` is blocked, or null if it's allowed. A path
+   * that is `removed` (e.g. moved away) must be inside a writable directory,
+   * not the directory itself.
+   */
+  const checkWrite = (target: ShellWord, cwd: string | null, removed = false): string | null => {
+    if (!paths || target.text === NULL_DEVICE) {
+      return null;
+    }
+    const resolved = target.dynamic ? null : resolvePath(target.text, cwd);
+    if (resolved === null) {
+      return `Cannot verify write target against the path policy: ${target.text}`;
+    }
+    return writable.some((dir) => isInside(resolved, dir) && !(removed && resolved === dir))
+      ? null
+      : `${pathReason} (${target.text})`;
+  };
+
+  /** Reason a redirection is blocked, or null if it's allowed */
+  const checkRedirect = (redirect: ShellRedirect, cwd: string | null): string | null => {
+    if (!OUTPUT_REDIRECTS.has(redirect.operator)) {
+      return null;
+    }
+    // >&2 and >&- duplicate or close a descriptor rather than open a file
+    if (redirect.operator === '>&' && /^(\d+|-)$/.test(redirect.target.text)) {
+      return null;
+    }
+    return checkWrite(redirect.target, cwd);
+  };
+
+  return async (
+    inputData: SecurityHookInput,
+    _toolUseId?: string,
+    _context?: unknown
+  ): Promise<SecurityHookResult> => {
+    // File tools are only checked against the path policy
+    if (WRITE_TOOLS.has(inputData.tool_name)) {
+      const path = inputData.tool_input.file_path;
+      const reason =
+        typeof path === 'string' && path
+          ? checkWrite({ text: path, dynamic: false, glob: false, scripts: [] }, homeDirectory)
+          : null;
+      return reason ? { decision: 'block', reason, rule: 'paths' } : {};
+    }
+
+    if (inputData.tool_name !== 'Bash') {
+      return {};
+    }
+
+    const toolInput = inputData.tool_input as { command?: string };
+    const command = toolInput.command || '';
+
+    if (!command) {
+      return {};
+    }
+
+    let commands: ExecutedCommand[];
+    try {
+      commands = findExecutedCommands(parseShell(command));
+    } catch (error) {
+      return {
+        decision: 'block',
+        reason: `Could not parse command for security validation: ${error instanceof Error ? error.message : command}`,
+        rule: 'parse',
+      };
+    }
+    if (!commands.some(({ name }) => name !== null)) {
+      return {
+        decision: 'block',
+        reason: `Could not parse command for security validation: ${command}`,
+        rule: 'parse',
+      };
+    }
+
+    // Walk the commands in order, following `cd` to resolve relative paths
+    let cwd: string | null = homeDirectory;
+    for (const { name, words, redirects } of commands) {
+      if (name !== null) {
+        const rule = rules.get(name);
+        if (!rule) {
+          return {
+            decision: 'block',
+            reason: `Command '${name}' is not allowed by the security policy`,
+            rule: `allowlist:${name}`,
+          };
+        }
+
+        const args = words.slice(1);
+        const dynamic = args.find((arg) => arg.dynamic);
+        if (dynamic && (rule.deny || rule.validator || rule.writes)) {
+          return {
+            decision: 'block',
+            reason: `Arguments of '${name}' must be known to check them against the security policy, got: ${dynamic.text}`,
+            rule: `dynamic-args:${name}`,
+          };
+        }
+
+        for (const deny of rule.deny ?? []) {
+          if (
+            argumentsMatch(
+              args.map((arg) => arg.text),
+              deny.args
+            )
+          ) {
+            const denied = `${name} ${describePatterns(deny.args)}`;
+            return {
+              decision: 'block',
+              reason: deny.reason ?? `'${denied}' is not allowed`,
+              rule: `deny:${denied}`,
+            };
+          }
+        }
+
+        if (rule.validator) {
+          const { allowed, reason } = COMMAND_VALIDATORS[rule.validator](formatCommand(words));
+          if (!allowed) {
+            return { decision: 'block', reason, rule: `validator:${rule.validator}` };
+          }
+        }
+
+        // A target flag names the destination, making every operand a source
+        const { targets, operands } = splitWriteArguments(args, rule.writes !== undefined);
+        const destination = targets.length === 0 ? operands.slice(-1) : [];
+        const sources = targets.length === 0 ? operands.slice(0, -1) : operands;
+        const written =
+          rule.writes === 'all' ? operands : rule.writes === undefined ? [] : destination;
+        const removed = rule.writes === 'move' ? sources : [];
+        for (const [target, isRemoved] of [
+          ...[...targets, ...written].map((word) => [word, false] as const),
+          ...removed.map((word) => [word, true] as const),
+        ]) {
+          const reason = checkWrite(target, cwd, isRemoved);
+          if (reason) {
+            return { decision: 'block', reason, rule: 'paths' };
+          }
+        }
+      }
+
+      for (const redirect of redirects) {
+        const reason = checkRedirect(redirect, cwd);
+        if (reason) {
+          return { decision: 'block', reason, rule: 'paths' };
+        }
+      }
+
+      if (name === 'cd') {
+        const target = words.slice(1).find((arg) => !arg.text.startsWith('-'));
+        cwd =
+          target === undefined
+            ? homeDirectory
+            : target.dynamic
+              ? null
+              : resolvePath(target.text, cwd);
+      }
+    }
+
+    return {};
+  };
+}
+
+/**
+ * Create the bash security hook for a harness: its security policy when it has
+ * one, otherwise its allowed commands.
+ *
+ * @param harness - Harness whose policy applies
+ * @returns Security hook function
+ */
+export function createHarnessSecurityHook(harness: AgentHarness): SecurityHook {
+  return harness.securityPolicy
+    ? compileSecurityPolicy(harness.securityPolicy)
+    : createBashSecurityHook(new Set(harness.allowedCommands));
+}
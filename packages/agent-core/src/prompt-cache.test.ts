@@ -0,0 +1,74 @@
+/**
+ * Prompt Caching Tests
+ * ====================
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cacheConversation, cacheSystemPrompt, cacheTools } from './prompt-cache.js';
+import type { ConversationMessage } from './compaction.js';
+
+describe('cacheSystemPrompt', () => {
+  it('marks the prompt as a cached text block', () => {
+    expect(cacheSystemPrompt('You are a coding agent')).toEqual([
+      { type: 'text', text: 'You are a coding agent', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+});
+
+describe('cacheTools', () => {
+  it('marks only the last tool and leaves the definitions alone', () => {
+    const tools = [{ name: 'bash' }, { name: 'write_file' }];
+    const cached = cacheTools(tools);
+    expect(cached).toEqual([
+      { name: 'bash' },
+      { name: 'write_file', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(tools[1]).toEqual({ name: 'write_file' });
+  });
+
+  it('handles no tools', () => {
+    expect(cacheTools([])).toEqual([]);
+  });
+});
+
+describe('cacheConversation', () => {
+  it('marks the last block of the last message without changing the history', () => {
+    const messages: ConversationMessage[] = [
+      { role: 'user', content: 'Build the app' },
+      { role: 'assistant', content: [{ type: 'tool_use', name: 'bash', input: {} }] },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', content: 'ok' },
+          { type: 'text', text: 'Continue' },
+        ],
+      },
+    ];
+    const cached = cacheConversation(messages);
+
+    expect(cached.slice(0, 2)).toEqual(messages.slice(0, 2));
+    expect(cached[2].content).toEqual([
+      { type: 'tool_result', content: 'ok' },
+      { type: 'text', text: 'Continue', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(JSON.stringify(messages)).not.toContain('cache_control');
+  });
+
+  it('turns string content into a cached text block', () => {
+    expect(cacheConversation([{ role: 'user', content: 'Build the app' }])).toEqual([
+      {
+        role: 'user',
+        content: [{ type: 'text', text: 'Build the app', cache_control: { type: 'ephemeral' } }],
+      },
+    ]);
+  });
+
+  it('leaves conversations it cannot mark alone', () => {
+    const empty: ConversationMessage[] = [];
+    const thinking: ConversationMessage[] = [
+      { role: 'assistant', content: [{ type: 'thinking', text: '...' }] },
+    ];
+    expect(cacheConversation(empty)).toBe(empty);
+    expect(cacheConversation(thinking)).toBe(thinking);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Prompt Caching
+ * ==============
+ *
+ * Cache breakpoints for agent loops that resend the same tools, system
+ * prompt and growing conversation on every request. The API caches the
+ * request prefix up to each breakpoint, in the order tools, system, messages,
+ * and later requests with the same prefix read it back at a tenth of the
+ * input price.
+ *
+ * Three of the four breakpoints a request allows are used:
+ * - the last tool, so loops and subagents with different system prompts still
+ *   share the cached tool definitions
+ * - the system prompt, which is fixed for a loop
+ * - the last message, so each request reads the conversation the previous
+ *   one wrote and only pays full price for the newest turn
+ */
+
+import type { ConversationBlock, ConversationMessage } from './compaction.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Cache the prefix up to this block for the default 5 minutes */
+export interface CacheControl {
+  type: 'ephemeral';
+}
+
+export interface CachedTextBlock {
+  type: 'text';
+  text: string;
+  cache_control: CacheControl;
+}
+
+// ============================================================================
+// Breakpoints
+// ============================================================================
+
+const EPHEMERAL: CacheControl = { type: 'ephemeral' };
+
+/** Blocks that can't carry a cache breakpoint */
+const UNCACHEABLE_BLOCK_TYPES = new Set(['thinking', 'redacted_thinking']);
+
+/**
+ * A system prompt as a text block with a cache breakpoint.
+ */
+export function cacheSystemPrompt(system: string): CachedTextBlock[] {
+  return [{ type: 'text', text: system, cache_control: EPHEMERAL }];
+}
+
+/**
+ * Tool definitions with a cache breakpoint on the last one. The definitions
+ * passed in are left as they are.
+ */
+export function cacheTools<T extends object>(
+  tools: T[]
+): Array<T & { cache_control?: CacheControl }> {
+  return tools.map((tool, index) =>
+    index === tools.length - 1 ? { ...tool, cache_control: EPHEMERAL } : tool
+  );
+}
+
+/**
+ * A conversation with a cache breakpoint on the last block of its last
+ * message. Returns copies, so the breakpoint doesn't stay in the history and
+ * pile up past the API's limit over later requests.
+ */
+export function cacheConversation<M extends ConversationMessage>(messages: M[]): M[] {
+  const last = messages.at(-1);
+  if (!last) {
+    return messages;
+  }
+
+  const blocks: ConversationBlock[] =
+    typeof last.content === 'string' ? [{ type: 'text', text: last.content }] : last.content;
+  const lastBlock = blocks.at(-1);
+  if (!lastBlock || UNCACHEABLE_BLOCK_TYPES.has(lastBlock.type)) {
+    return messages;
+  }
+
+  // The last message only gains a cache breakpoint, so it's still a valid M
+  const cached = {
+    ...last,
+    content: [...blocks.slice(0, -1), { ...lastBlock, cache_control: EPHEMERAL }],
+  } as M;
+  return [...messages.slice(0, -1), cached];
+}
@@ -4,11 +4,19 @@
  *
  * Pre-tool-use hooks that validate bash commands for security.
  * Uses an allowlist approach - only explicitly permitted commands can run.
+ * Commands are found with the shell parser (shell.ts), so nested and wrapped
+ * commands are checked too.
  *
  * Ported from Python implementation.
  */
 
-import type { SecurityHook, SecurityHookInput, SecurityHookResult } from './types.js';
+import type {
+  CommandValidatorName,
+  SecurityHook,
+  SecurityHookInput,
+  SecurityHookResult,
+} from './types.js';
+import { findExecutedCommands, formatCommand, parseShell, type ExecutedCommand } from './shell.js';
 
 // ============================================================================
 // Default Allowed Commands
@@ -49,7 +57,16 @@ export const DEFAULT_ALLOWED_COMMANDS = new Set([
 /**
  * Commands that need additional validation even when in the allowlist.
  */
-export const COMMANDS_NEEDING_EXTRA_VALIDATION = new Set(['pkill', 'chmod', 'init.sh']);
+export const COMMANDS_NEEDING_EXTRA_VALIDATION = new Set([
+  'pkill',
+  'kill',
+  'chmod',
+  'rm',
+  'npm',
+  'npx',
+  'curl',
+  'init.sh',
+]);
 
 // ============================================================================
 // Command Parsing
@@ -57,25 +74,19 @@ export const COMMANDS_NEEDING_EXTRA_VALIDATION = new Set(['pkill', 'chmod', 'ini
 
 /**
  * Split a compound command into individual command segments.
- * Handles command chaining (&&, ||, ;) but not pipes (those are single commands).
+ * Splits on command chaining (&&, ||, ;, &, newlines) but not pipes (those are
+ * single commands). Returns no segments if the command can't be parsed.
  */
 export function splitCommandSegments(commandString: string): string[] {
-  // Split on && and || while preserving the ability to handle each segment
-  const segments = commandString.split(/\s*(?:&&|\|\|)\s*/);
-
-  // Further split on semicolons
-  const result: string[] = [];
-  for (const segment of segments) {
-    const subSegments = segment.split(/(?<!["'])\s*;\s*(?!["'])/);
-    for (const sub of subSegments) {
-      const trimmed = sub.trim();
-      if (trimmed) {
-        result.push(trimmed);
-      }
-    }
+  let script;
+  try {
+    script = parseShell(commandString);
+  } catch {
+    return [];
   }
-
-  return result;
+  return script.statements.flatMap((statement) =>
+    statement.pipelines.map((pipeline) => pipeline.source)
+  );
 }
 
 /**
@@ -136,80 +147,30 @@ export function tokenizeCommand(command: string): string[] {
   return tokens;
 }
 
+/**
+ * Parse a command string and list every command it runs.
+ *
+ * @throws If the string can't be parsed or runs commands that can't be determined
+ */
+function parseExecutedCommands(commandString: string): ExecutedCommand[] {
+  return findExecutedCommands(parseShell(commandString));
+}
+
 /**
  * Extract command names from a shell command string.
- * Handles pipes, command chaining (&&, ||, ;), and subshells.
+ * Includes commands in pipes, chains, subshells and substitutions, and commands
+ * run through wrappers like `env`, `xargs` and `bash -c`.
  * Returns the base command names (without paths).
  */
 export function extractCommands(commandString: string): string[] {
-  const commands: string[] = [];
-
-  // Split on semicolons that aren't inside quotes (simple heuristic)
-  const segments = commandString.split(/(?<!["'])\s*;\s*(?!["'])/);
-
-  for (const segment of segments) {
-    const trimmed = segment.trim();
-    if (!trimmed) continue;
-
-    const tokens = tokenizeCommand(trimmed);
-    if (tokens.length === 0) {
-      // Malformed command - return empty to trigger block (fail-safe)
-      return [];
-    }
-
-    // Track when we expect a command vs arguments
-    let expectCommand = true;
-
-    for (const token of tokens) {
-      // Shell operators indicate a new command follows
-      if (['|', '||', '&&', '&'].includes(token)) {
-        expectCommand = true;
-        continue;
-      }
-
-      // Skip shell keywords that precede commands
-      const shellKeywords = [
-        'if',
-        'then',
-        'else',
-        'elif',
-        'fi',
-        'for',
-        'while',
-        'until',
-        'do',
-        'done',
-        'case',
-        'esac',
-        'in',
-        '!',
-        '{',
-        '}',
-      ];
-      if (shellKeywords.includes(token)) {
-        continue;
-      }
-
-      // Skip flags/options
-      if (token.startsWith('-')) {
-        continue;
-      }
-
-      // Skip variable assignments (VAR=value)
-      if (token.includes('=') && !token.startsWith('=')) {
-        continue;
-      }
-
-      if (expectCommand) {
-        // Extract the base command name (handle paths like /usr/bin/python)
-        const basename = token.split('/').pop() || token;
-        commands.push(basename);
-        expectCommand = false;
-      }
-    }
+  try {
+    return parseExecutedCommands(commandString).flatMap(({ name }) =>
+      name === null ? [] : [name]
+    );
+  } catch {
+    // Malformed or unverifiable command - return empty to trigger block (fail-safe)
+    return [];
   }
-
-  return commands;
 }
 
 // ============================================================================
@@ -255,6 +216,75 @@ export function validatePkillCommand(commandString: string): { allowed: boolean;
   };
 }
 
+/**
+ * Validate kill commands - only allow signalling specific processes by PID.
+ * Blocks process groups and broadcast targets like `kill -9 -1`.
+ */
+export function validateKillCommand(commandString: string): { allowed: boolean; reason: string } {
+  const tokens = tokenizeCommand(commandString);
+
+  if (tokens.length === 0 || tokens[0] !== 'kill') {
+    return { allowed: false, reason: 'Not a kill command' };
+  }
+
+  let args = tokens.slice(1);
+  // An optional signal: -9, -TERM, -SIGKILL or -s TERM
+  if (args[0] === '-s') {
+    args = args.slice(2);
+  } else if (args[0] && /^-(\d+|[A-Z]+)$/.test(args[0])) {
+    args = args.slice(1);
+  }
+
+  if (args.length === 0) {
+    return { allowed: false, reason: 'kill requires a process ID' };
+  }
+
+  for (const arg of args) {
+    // PIDs 0 and 1 are the process group and init; negative targets are groups
+    if (!/^\d+$/.test(arg) || Number(arg) <= 1) {
+      return { allowed: false, reason: `kill only allowed for specific process IDs, got: ${arg}` };
+    }
+  }
+
+  return { allowed: true, reason: '' };
+}
+
+/**
+ * Validate rm commands - only allow removing paths inside the workspace.
+ * Relative paths must not climb out with `..`; absolute paths must be under
+ * /home/user/ or /tmp/ (but not those directories themselves).
+ */
+export function validateRmCommand(commandString: string): { allowed: boolean; reason: string } {
+  const tokens = tokenizeCommand(commandString);
+
+  if (tokens.length === 0 || tokens[0] !== 'rm') {
+    return { allowed: false, reason: 'Not an rm command' };
+  }
+
+  const targets = tokens.slice(1).filter((token) => !token.startsWith('-'));
+  if (targets.length === 0) {
+    return { allowed: false, reason: 'rm requires at least one path' };
+  }
+
+  for (const target of targets) {
+    const parts = target.split('/');
+    if (target.startsWith('~') || target.startsWith('$') || parts.includes('..')) {
+      return { allowed: false, reason: `rm not allowed outside the workspace: ${target}` };
+    }
+    if (target.startsWith('/')) {
+      const inside = /^\/(home\/user|tmp)\/[^/*]/.test(target);
+      if (!inside) {
+        return { allowed: false, reason: `rm not allowed outside the workspace: ${target}` };
+      }
+    }
+    if (/^[./*]*$/.test(target)) {
+      return { allowed: false, reason: `rm not allowed for the whole workspace: ${target}` };
+    }
+  }
+
+  return { allowed: true, reason: '' };
+}
+
 /**
  * Validate chmod commands - only allow making files executable with +x.
  */
@@ -297,6 +327,219 @@ export function validateChmodCommand(commandString: string): { allowed: boolean;
   return { allowed: true, reason: '' };
 }
 
+/**
+ * Packages npx may run: project tooling and scaffolders. Anything else would
+ * download and run a package the allowlist never saw.
+ */
+const ALLOWED_NPX_PACKAGES = new Set([
+  'create-next-app',
+  'create-vite',
+  'next',
+  'vite',
+  'tsc',
+  'eslint',
+  'prettier',
+  'prisma',
+  'vitest',
+  'jest',
+  'tailwindcss',
+  'shadcn',
+]);
+
+/** npm subcommands that run arbitrary packages or shells, bypassing the allowlist */
+const BLOCKED_NPM_SUBCOMMANDS = new Set(['exec', 'x', 'explore']);
+
+/** npm flags that take the next word as their value */
+const NPM_FLAGS_WITH_VALUES = new Set(['--prefix', '-C', '--workspace', '-w', '--registry']);
+
+/**
+ * Name of a package spec without its version, e.g. `vite@5` -> `vite`,
+ * `@scope/pkg@1` -> `@scope/pkg`.
+ */
+function packageName(spec: string): string {
+  const versionAt = spec.indexOf('@', 1);
+  return versionAt === -1 ? spec : spec.slice(0, versionAt);
+}
+
+/**
+ * Validate npx commands - only allow running packages from a small allowlist.
+ * Blocks `-p`/`--package` and `-c`/`--call`, which choose what runs elsewhere.
+ */
+export function validateNpxCommand(commandString: string): { allowed: boolean; reason: string } {
+  const tokens = tokenizeCommand(commandString);
+
+  if (tokens.length === 0 || tokens[0] !== 'npx') {
+    return { allowed: false, reason: 'Not an npx command' };
+  }
+
+  for (const token of tokens.slice(1)) {
+    if (/^(-p|--package|-c|--call)(=|$)/.test(token)) {
+      return { allowed: false, reason: `npx ${token.split('=')[0]} is not allowed` };
+    }
+    if (token.startsWith('-')) {
+      continue;
+    }
+    const name = packageName(token);
+    if (ALLOWED_NPX_PACKAGES.has(name)) {
+      return { allowed: true, reason: '' };
+    }
+    return {
+      allowed: false,
+      reason: `npx only allowed for: ${[...ALLOWED_NPX_PACKAGES].join(', ')}, got: ${name}`,
+    };
+  }
+
+  return { allowed: false, reason: 'npx requires a package' };
+}
+
+/**
+ * Validate npm commands - block the subcommands that run arbitrary packages
+ * (`npm exec`, `npm x`, `npm explore`), and `npm init`/`npm create` with an
+ * initializer npx couldn't run.
+ */
+export function validateNpmCommand(commandString: string): { allowed: boolean; reason: string } {
+  const tokens = tokenizeCommand(commandString);
+
+  if (tokens.length === 0 || tokens[0] !== 'npm') {
+    return { allowed: false, reason: 'Not an npm command' };
+  }
+
+  // The subcommand is the first word that isn't a flag or a flag's value
+  const args = tokens.slice(1);
+  let index = 0;
+  while (index < args.length && args[index].startsWith('-')) {
+    index += NPM_FLAGS_WITH_VALUES.has(args[index]) ? 2 : 1;
+  }
+  const subcommand = args[index];
+
+  if (subcommand === undefined) {
+    return { allowed: true, reason: '' };
+  }
+  if (BLOCKED_NPM_SUBCOMMANDS.has(subcommand)) {
+    return { allowed: false, reason: `npm ${subcommand} is not allowed; use npx or npm run` };
+  }
+  if (subcommand === 'init' || subcommand === 'create') {
+    // `npm init foo` runs the create-foo package, like `npx create-foo`
+    const initializer = args.slice(index + 1).find((arg) => !arg.startsWith('-'));
+    if (initializer !== undefined) {
+      const name = packageName(initializer);
+      // Scoped initializers (@scope/create) are never on the list
+      const scaffolder = name.startsWith('@') ? name : `create-${name}`;
+      if (!ALLOWED_NPX_PACKAGES.has(scaffolder)) {
+        return {
+          allowed: false,
+          reason: `npm ${subcommand} only allowed for initializers npx may run, got: ${scaffolder}`,
+        };
+      }
+    }
+  }
+
+  return { allowed: true, reason: '' };
+}
+
+/** curl flags that take no value, by short letter and long name */
+const CURL_SWITCHES = new Set([
+  's',
+  'S',
+  'i',
+  'I',
+  'f',
+  'L',
+  'v',
+  'G',
+  'k',
+  '--silent',
+  '--show-error',
+  '--include',
+  '--head',
+  '--fail',
+  '--location',
+  '--verbose',
+  '--get',
+  '--insecure',
+  '--compressed',
+]);
+
+/** curl flags that take the next word as their value */
+const CURL_FLAGS_WITH_VALUES = new Set([
+  'X',
+  'H',
+  'd',
+  'w',
+  'm',
+  '--request',
+  '--header',
+  '--data',
+  '--data-raw',
+  '--data-binary',
+  '--data-urlencode',
+  '--json',
+  '--write-out',
+  '--max-time',
+  '--connect-timeout',
+  '--retry',
+]);
+
+/** A URL on this machine, with or without a scheme, e.g. `localhost:3000/api` */
+const LOCAL_URL = /^(https?:\/\/)?(localhost|127\.0\.0\.1|\[::1\])(:\d+)?([/?#].*)?$/;
+
+/**
+ * Validate curl commands - only allow requests to servers on this machine, so
+ * curl can check dev servers but can't send workspace files anywhere else.
+ * Flags outside a small set are blocked, since others (`--proxy`,
+ * `--connect-to`, `--config`, ...) choose where the request goes.
+ */
+export function validateCurlCommand(commandString: string): { allowed: boolean; reason: string } {
+  const tokens = tokenizeCommand(commandString);
+
+  if (tokens.length === 0 || tokens[0] !== 'curl') {
+    return { allowed: false, reason: 'Not a curl command' };
+  }
+
+  const urls: string[] = [];
+  const args = tokens.slice(1);
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg.startsWith('--')) {
+      if (CURL_FLAGS_WITH_VALUES.has(arg)) {
+        index++;
+      } else if (!CURL_SWITCHES.has(arg)) {
+        return { allowed: false, reason: `curl ${arg} is not allowed` };
+      }
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      // A cluster of short flags, where the first one taking a value ends it,
+      // e.g. -sSL, -XPOST or -sH 'Accept: text/html'
+      for (let letter = 1; letter < arg.length; letter++) {
+        const flag = arg[letter];
+        if (CURL_FLAGS_WITH_VALUES.has(flag)) {
+          if (letter === arg.length - 1) {
+            index++;
+          }
+          break;
+        }
+        if (!CURL_SWITCHES.has(flag)) {
+          return { allowed: false, reason: `curl -${flag} is not allowed` };
+        }
+      }
+    } else {
+      urls.push(arg);
+    }
+  }
+
+  if (urls.length === 0) {
+    return { allowed: false, reason: 'curl requires a URL' };
+  }
+  const remote = urls.find((url) => !LOCAL_URL.test(url));
+  if (remote !== undefined) {
+    return {
+      allowed: false,
+      reason: `curl only allowed for localhost, 127.0.0.1 or [::1], got: ${remote}`,
+    };
+  }
+
+  return { allowed: true, reason: '' };
+}
+
 /**
  * Validate init.sh script execution - only allow ./init.sh.
  */
@@ -322,18 +565,20 @@ export function validateInitScript(commandString: string): { allowed: boolean; r
 // Main Security Hook
 // ============================================================================
 
-/**
- * Find the specific command segment that contains the given command.
- */
-function getCommandForValidation(cmd: string, segments: string[]): string {
-  for (const segment of segments) {
-    const segmentCommands = extractCommands(segment);
-    if (segmentCommands.includes(cmd)) {
-      return segment;
-    }
-  }
-  return '';
-}
+/** Extra validation for sensitive commands, also available to security policies */
+export const COMMAND_VALIDATORS: Record<
+  CommandValidatorName,
+  (segment: string) => { allowed: boolean; reason: string }
+> = {
+  pkill: validatePkillCommand,
+  kill: validateKillCommand,
+  chmod: validateChmodCommand,
+  rm: validateRmCommand,
+  npm: validateNpmCommand,
+  npx: validateNpxCommand,
+  curl: validateCurlCommand,
+  'init.sh': validateInitScript,
+};
 
 /**
  * Create a bash security hook with a custom allowlist.
@@ -360,52 +605,54 @@ export function createBashSecurityHook(
       return {};
     }
 
-    // Extract all commands from the command string
-    const commands = extractCommands(command);
-
-    if (commands.length === 0) {
+    // Find every command the string runs, however deeply nested
+    let commands: ExecutedCommand[];
+    try {
+      commands = parseExecutedCommands(command);
+    } catch (error) {
       // Could not parse - fail safe by blocking
       return {
         decision: 'block',
-        reason: `Could not parse command for security validation: ${command}`,
+        reason: `Could not parse command for security validation: ${error instanceof Error ? error.message : command}`,
+        rule: 'parse',
       };
     }
 
-    // Split into segments for per-command validation
-    const segments = splitCommandSegments(command);
+    if (!commands.some(({ name }) => name !== null)) {
+      return {
+        decision: 'block',
+        reason: `Could not parse command for security validation: ${command}`,
+        rule: 'parse',
+      };
+    }
 
     // Check each command against the allowlist
-    for (const cmd of commands) {
-      if (!allowedCommands.has(cmd)) {
+    for (const { name, words } of commands) {
+      if (name === null) {
+        continue;
+      }
+      if (!allowedCommands.has(name)) {
         return {
           decision: 'block',
-          reason: `Command '${cmd}' is not in the allowed commands list`,
+          reason: `Command '${name}' is not in the allowed commands list`,
+          rule: `allowlist:${name}`,
         };
       }
 
-      // Additional validation for sensitive commands
-      if (COMMANDS_NEEDING_EXTRA_VALIDATION.has(cmd)) {
-        // Find the specific segment containing this command
-        let cmdSegment = getCommandForValidation(cmd, segments);
-        if (!cmdSegment) {
-          cmdSegment = command; // Fallback to full command
+      // Additional validation for sensitive commands, on exactly the words they run with
+      const validate = COMMAND_VALIDATORS[name as CommandValidatorName];
+      if (COMMANDS_NEEDING_EXTRA_VALIDATION.has(name) && validate) {
+        const dynamic = words.find((word) => word.dynamic);
+        if (dynamic) {
+          return {
+            decision: 'block',
+            reason: `Arguments of '${name}' must be known to validate it, got: ${dynamic.text}`,
+            rule: `dynamic-args:${name}`,
+          };
         }
-
-        if (cmd === 'pkill') {
-          const { allowed, reason } = validatePkillCommand(cmdSegment);
-          if (!allowed) {
-            return { decision: 'block', reason };
-          }
-        } else if (cmd === 'chmod') {
-          const { allowed, reason } = validateChmodCommand(cmdSegment);
-          if (!allowed) {
-            return { decision: 'block', reason };
-          }
-        } else if (cmd === 'init.sh') {
-          const { allowed, reason } = validateInitScript(cmdSegment);
-          if (!allowed) {
-            return { decision: 'block', reason };
-          }
+        const { allowed, reason } = validate(formatCommand(words));
+        if (!allowed) {
+          return { decision: 'block', reason, rule: `validator:${name}` };
         }
       }
     }
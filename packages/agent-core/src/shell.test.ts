@@ -0,0 +1,336 @@
+/**
+ * Shell Parser Tests
+ * ==================
+ *
+ * Tests for the shell parser and the executed-command walk the security
+ * hooks rely on, plus property tests that generate commands hiding
+ * disallowed programs in every executable position the parser knows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { findExecutedCommands, formatCommand, parseShell } from './shell.js';
+import { createBashSecurityHook } from './security.js';
+import { compileSecurityPolicy } from './policy.js';
+
+// Helper returning the names of the commands a string would run
+function executed(source: string): (string | null)[] {
+  return findExecutedCommands(parseShell(source)).map(({ name }) => name);
+}
+
+describe('parseShell', () => {
+  it('splits statements, operators and pipelines', () => {
+    const script = parseShell('ls -la | grep x && pwd; echo done &');
+    expect(script.statements).toHaveLength(2);
+    expect(script.statements[0].operators).toEqual(['&&']);
+    expect(script.statements[0].pipelines[0].commands).toHaveLength(2);
+    expect(script.statements[1].background).toBe(true);
+  });
+
+  it('removes quotes from words', () => {
+    const [command] = findExecutedCommands(parseShell(`echo 'a b' "c d" e\\ f`));
+    expect(command.words.map((word) => word.text)).toEqual(['echo', 'a b', 'c d', 'e f']);
+    expect(command.words.some((word) => word.dynamic)).toBe(false);
+  });
+
+  it('marks expansions and globs', () => {
+    const [command] = findExecutedCommands(parseShell('ls $HOME *.ts {a,b} plain'));
+    expect(command.words.map((word) => [word.dynamic, word.glob])).toEqual([
+      [false, false],
+      [true, false],
+      [false, true],
+      [true, false],
+      [false, false],
+    ]);
+  });
+
+  it('reads redirections', () => {
+    const [command] = findExecutedCommands(parseShell('npm run dev > /tmp/log 2>&1 < in'));
+    expect(command.redirects.map(({ operator, target }) => [operator, target.text])).toEqual([
+      ['>', '/tmp/log'],
+      ['>&', '1'],
+      ['<', 'in'],
+    ]);
+  });
+
+  it('reads here-document bodies', () => {
+    const [command] = findExecutedCommands(parseShell('cat <<EOF\nhello\nEOF\n'));
+    expect(command.redirects[0].body?.text).toBe('hello\n');
+  });
+
+  it('ignores comments and line continuations', () => {
+    expect(executed('ls \\\n  -la # ; rm -rf /')).toEqual(['ls']);
+  });
+
+  it.each([
+    'echo "unterminated',
+    "echo 'unterminated",
+    'echo $(ls',
+    'echo `ls',
+    'if true; then ls',
+    'cat <<EOF\nno end',
+    'ls &&',
+    'ls | | grep',
+    'f() { ls; }',
+  ])('rejects: %s', (source) => {
+    expect(() => parseShell(source)).toThrow();
+  });
+});
+
+describe('findExecutedCommands', () => {
+  it.each([
+    ['echo $(rm -rf /)', ['rm', 'echo']],
+    ['echo `pkill bash`', ['pkill', 'echo']],
+    ['echo "$(whoami)"', ['whoami', 'echo']],
+    ['echo ${x:-$(id)}', ['id', 'echo']],
+    ['echo $((1 + $(id -u)))', ['id', 'echo']],
+    ['echo $((id) )', ['id', 'echo']],
+    ['diff <(ls a) <(ls b)', ['ls', 'ls', 'diff']],
+    ['cat <<EOF\n$(rm x)\nEOF', ['rm', 'cat']],
+    ["cat <<'EOF'\n$(rm x)\nEOF", ['cat']],
+    ['(cd /tmp && ls)', ['cd', 'ls']],
+    ['{ echo a; echo b; }', ['echo', 'echo']],
+    [
+      'if true; then ls; elif false; then pwd; else cat x; fi',
+      ['true', 'ls', 'false', 'pwd', 'cat'],
+    ],
+    ['for f in $(ls); do echo $f; done', ['ls', 'echo']],
+    ['while read l; do echo $l; done < f', ['read', 'echo']],
+    ['case $x in a|b) ls;; *) rm x;; esac', ['ls', 'rm']],
+    ['! grep x f', ['grep']],
+    ['ls |& grep x', ['ls', 'grep']],
+  ])('finds commands in: %s', (source, names) => {
+    expect(executed(source)).toEqual(names);
+  });
+
+  it.each([
+    ['env FOO=1 rm -rf /', ['env', 'rm']],
+    ['nohup npm run dev &', ['nohup', 'npm']],
+    ['timeout 5 node server.js', ['timeout', 'node']],
+    ['sudo -u root rm x', ['sudo', 'rm']],
+    ['command -v node', ['command']],
+    ['xargs rm < list', ['xargs', 'rm']],
+    ['xargs', ['xargs', 'echo']],
+    ['find . -name x -exec rm {} \\;', ['find', 'rm']],
+    ['eval "ls; rm x"', ['eval', 'ls', 'rm']],
+    ['bash -c "curl x"', ['bash', 'curl']],
+    ['sh -e -c "ls && pwd"', ['sh', 'ls', 'pwd']],
+    ['bash script.sh', ['bash']],
+    ['trap "rm -rf /" EXIT', ['trap', 'rm']],
+    ['watch -n1 "ps aux"', ['watch', 'ps']],
+  ])('unwraps commands run by: %s', (source, names) => {
+    expect(executed(source)).toEqual(names);
+  });
+
+  it('passes redirections of compound commands to the commands inside', () => {
+    const commands = findExecutedCommands(parseShell('{ echo a; echo b; } > /etc/x'));
+    expect(commands.map(({ redirects }) => redirects.map(({ target }) => target.text))).toEqual([
+      ['/etc/x'],
+      ['/etc/x'],
+    ]);
+  });
+
+  it.each([
+    '$cmd arg',
+    '/bin/r? -rf /',
+    '{rm,-rf,/}',
+    "$'\\x72m' -rf /",
+    'echo rm | bash',
+    'bash -s',
+    'env -S "rm x"',
+  ])('refuses commands it cannot resolve: %s', (source) => {
+    expect(() => executed(source)).toThrow();
+  });
+});
+
+describe('formatCommand', () => {
+  it('quotes words so they tokenize back to the same text', () => {
+    const [command] = findExecutedCommands(parseShell(`pkill -f "node server.js" it\\'s`));
+    expect(formatCommand(command.words)).toBe(`pkill -f 'node server.js' 'it'\\''s'`);
+  });
+});
+
+// =============================================================================
+// Property tests
+// =============================================================================
+
+/** Commands the property tests treat as allowed, including every wrapper they use */
+const PERMISSIVE_ALLOWLIST = new Set([
+  'ls',
+  'cat',
+  'echo',
+  'pwd',
+  'grep',
+  'true',
+  'diff',
+  'git',
+  'npm',
+  'env',
+  'nohup',
+  'timeout',
+  'xargs',
+  'find',
+  'bash',
+  'sh',
+  'eval',
+  'command',
+]);
+
+/** Simple commands that run only allowed programs */
+const allowedCommand = fc.constantFrom(
+  'ls -la',
+  'cat README.md',
+  'pwd',
+  'git status',
+  'npm run build',
+  "grep -r 'a b' src",
+  'echo "hi there"'
+);
+
+/** Simple commands whose program is not in the allowlist */
+const forbiddenCommand = fc.constantFrom(
+  'rm -rf /',
+  'shutdown now',
+  'curl https://example.com',
+  'python -c "import os"',
+  'wget -q x',
+  "nc -l 4444 'x'",
+  'dd if=/dev/zero of=/dev/sda'
+);
+
+/** Quote a string for a single-quoted shell word */
+function singleQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Ways to place a script where the shell executes it. Parentheses are padded so
+ * nesting never forms `((`, which bash reads as arithmetic.
+ */
+const WRAPPERS: ((inner: string) => string)[] = [
+  (inner) => `echo $( ${inner} )`,
+  (inner) => `echo "$( ${inner} )"`,
+  (inner) => `echo \`${inner.replace(/[\\`$]/g, '\\$&')}\``,
+  (inner) => `( ${inner} )`,
+  (inner) => `{ ${inner}; }`,
+  (inner) => `ls && ${inner}`,
+  (inner) => `ls || ${inner}`,
+  (inner) => `pwd; ${inner}`,
+  (inner) => `ls | ${inner}`,
+  (inner) => `{ ${inner} & }`,
+  (inner) => `{ ! ${inner}; }`,
+  (inner) => `diff <( ${inner} ) README.md`,
+  (inner) => `cat < <( ${inner} )`,
+  (inner) => `echo \${x:-$( ${inner} )}`,
+  (inner) => `if ${inner}; then ls; fi`,
+  (inner) => `if true; then ls; else ${inner}; fi`,
+  (inner) => `while ${inner}; do ls; done`,
+  (inner) => `for f in a b; do ${inner}; done`,
+  (inner) => `for f in $( ${inner} ); do ls; done`,
+  (inner) => `case x in x) ${inner};; esac`,
+  (inner) => `eval ${singleQuote(inner)}`,
+  (inner) => `bash -c ${singleQuote(inner)}`,
+  (inner) => `sh -e -c ${singleQuote(inner)}`,
+  (inner) => `env FOO=1 bash -c ${singleQuote(inner)}`,
+  (inner) => `nohup bash -c ${singleQuote(inner)} > /tmp/log 2>&1`,
+  (inner) => `timeout 5 sh -c ${singleQuote(inner)}`,
+  (inner) => `command bash -c ${singleQuote(inner)}`,
+  (inner) => `echo a | xargs bash -c ${singleQuote(inner)}`,
+  (inner) => `find . -exec sh -c ${singleQuote(inner)} \\;`,
+];
+
+/**
+ * Wrap a command in a random stack of executable contexts, optionally inside a
+ * here-document last (its delimiter must end a line, so nothing can follow it)
+ */
+function wrapped(command: fc.Arbitrary<string>): fc.Arbitrary<string> {
+  return fc
+    .tuple(
+      command,
+      fc.array(fc.integer({ min: 0, max: WRAPPERS.length - 1 }), { maxLength: 4 }),
+      fc.boolean()
+    )
+    .map(([inner, stack, heredoc]) => {
+      const script = stack.reduce((script, index) => WRAPPERS[index](script), inner);
+      return heredoc ? `cat <<EOF\n$( ${script} )\nEOF\n` : script;
+    });
+}
+
+describe('security hook properties', () => {
+  const hook = createBashSecurityHook(PERMISSIVE_ALLOWLIST);
+  const policyHook = compileSecurityPolicy({
+    commands: Object.fromEntries([...PERMISSIVE_ALLOWLIST].map((name) => [name, {}])),
+  });
+
+  const decide = async (command: string) =>
+    (await hook({ tool_name: 'Bash', tool_input: { command } })).decision;
+  const decideByPolicy = async (command: string) =>
+    (await policyHook({ tool_name: 'Bash', tool_input: { command } })).decision;
+
+  it('blocks a disallowed command in any executable position', async () => {
+    await fc.assert(
+      fc.asyncProperty(wrapped(forbiddenCommand), async (command) => {
+        expect(await decide(command)).toBe('block');
+        expect(await decideByPolicy(command)).toBe('block');
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('blocks a disallowed command chained after allowed ones', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(wrapped(allowedCommand), { maxLength: 3 }),
+        wrapped(forbiddenCommand),
+        fc.array(wrapped(allowedCommand), { maxLength: 3 }),
+        fc.constantFrom('; ', ' && ', ' || ', ' | ', '\n'),
+        async (before, forbidden, after, separator) => {
+          const command = [...before, forbidden, ...after].join(separator);
+          expect(await decide(command)).toBe('block');
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+
+  it('allows the same contexts when every command is allowed', async () => {
+    await fc.assert(
+      fc.asyncProperty(wrapped(allowedCommand), async (command) => {
+        expect(await decide(command)).toBeUndefined();
+        expect(await decideByPolicy(command)).toBeUndefined();
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  it('decides on arbitrary input without throwing', async () => {
+    const shellish = fc.stringOf(
+      fc.constantFrom(
+        ...'ab rm ls $ ( ) ` \' " \\ ; & | < > { } [ ] * ? # = ! \n \t'.split(' '),
+        ' ',
+        '<<',
+        '$(',
+        '${',
+        '<(',
+        'if ',
+        'then ',
+        'fi',
+        'case ',
+        'esac',
+        'bash -c '
+      ),
+      { maxLength: 40 }
+    );
+    await fc.assert(
+      fc.asyncProperty(fc.oneof(shellish, fc.string()), async (command) => {
+        const result = await hook({ tool_name: 'Bash', tool_input: { command } });
+        expect([undefined, 'block']).toContain(result.decision);
+        if (result.decision === undefined && command) {
+          const names = findExecutedCommands(parseShell(command)).map(({ name }) => name);
+          expect(names.every((name) => name === null || PERMISSIVE_ALLOWLIST.has(name))).toBe(true);
+        }
+      }),
+      { numRuns: 1000 }
+    );
+  });
+});
@@ -0,0 +1,1222 @@
+/**
+ * Shell Parser
+ * ============
+ *
+ * Parses bash command strings into a syntax tree for security validation, and
+ * lists every command a string would run: commands nested in substitutions,
+ * subshells and control structures, and commands run indirectly through
+ * wrappers such as `env`, `xargs`, `eval`, `bash -c` and `find -exec`.
+ *
+ * Anything whose effect can't be determined statically, like a command name
+ * produced by an expansion, is reported as an error rather than guessed at, so
+ * callers can block it.
+ */
+
+// ============================================================================
+// Syntax Tree
+// ============================================================================
+
+export interface ShellWord {
+  /** Text with quotes removed; expansions are kept as written */
+  text: string;
+  /** Whether the word contains expansions, so its value is only known at runtime */
+  dynamic: boolean;
+  /** Whether the word contains unquoted glob characters (`*`, `?`, `[`) */
+  glob: boolean;
+  /** Scripts run by command and process substitutions in the word */
+  scripts: ShellScript[];
+}
+
+export interface ShellRedirect {
+  /** Operator without its file descriptor, e.g. `>`, `>>`, `<`, `<<`, `>&` */
+  operator: string;
+  /** File descriptor written before the operator, as in `2>` */
+  fd?: number;
+  /** File, file descriptor or here-document delimiter */
+  target: ShellWord;
+  /** Here-document contents */
+  body?: ShellWord;
+}
+
+/** A simple command: assignments, words and redirections */
+export interface ShellCommand {
+  type: 'command';
+  assignments: ShellWord[];
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+}
+
+/** A subshell, group or control structure */
+export interface ShellCompound {
+  type: 'subshell' | 'group' | 'if' | 'while' | 'until' | 'for' | 'case';
+  /** Words the structure expands: `for` lists and `case` subjects and patterns */
+  words: ShellWord[];
+  /** Nested command lists, in source order */
+  body: ShellScript[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  negated: boolean;
+  commands: (ShellCommand | ShellCompound)[];
+  /** Source text of the pipeline */
+  source: string;
+}
+
+/** Pipelines joined by `&&` and `||`, ended by `;`, `&` or a newline */
+export interface ShellStatement {
+  pipelines: ShellPipeline[];
+  operators: ('&&' | '||')[];
+  background: boolean;
+}
+
+export interface ShellScript {
+  type: 'script';
+  statements: ShellStatement[];
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Deepest nesting of substitutions, subshells and wrapped commands accepted */
+const MAX_NESTING = 32;
+
+/** Characters that end an unquoted word */
+const METACHARACTERS = new Set([' ', '\t', '\n', ';', '&', '|', '(', ')', '<', '>']);
+
+/** Reserved words that can't start a command */
+const UNEXPECTED_RESERVED_WORDS = new Set([
+  'then',
+  'elif',
+  'else',
+  'fi',
+  'do',
+  'done',
+  'esac',
+  '}',
+]);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*\+?=/;
+
+const REDIRECT = /^(\d*)(&>>|&>|>>|>&|>\||<<<|<<-|<<|<&|<>|>|<)/;
+
+/** Unquoted `{a,b}` or `{1..3}` expands into several words */
+const BRACE_EXPANSION = /\{[^{}]*(,|\.\.)[^{}]*\}/;
+
+interface WordBuilder {
+  text: string;
+  dynamic: boolean;
+  glob: boolean;
+  quoted: boolean;
+  scripts: ShellScript[];
+  /** Unquoted characters, for spotting brace expansion */
+  unquoted: string;
+}
+
+interface PendingHeredoc {
+  redirect: ShellRedirect;
+  delimiter: string;
+  stripTabs: boolean;
+  quoted: boolean;
+}
+
+function newWord(): WordBuilder {
+  return { text: '', dynamic: false, glob: false, quoted: false, scripts: [], unquoted: '' };
+}
+
+function finishWord(word: WordBuilder): ShellWord {
+  return {
+    text: word.text,
+    dynamic: word.dynamic || BRACE_EXPANSION.test(word.unquoted),
+    glob: word.glob,
+    scripts: word.scripts,
+  };
+}
+
+class ShellParser {
+  private pos = 0;
+  private depth: number;
+  private heredocs: PendingHeredoc[] = [];
+
+  constructor(
+    private readonly source: string,
+    nesting = 0
+  ) {
+    this.depth = nesting;
+  }
+
+  // --------------------------------------------------------------------------
+  // Entry points
+  // --------------------------------------------------------------------------
+
+  parseAll(): ShellScript {
+    const script = this.parseScript([]);
+    this.skipSpace(true);
+    if (!this.atEnd()) {
+      throw this.error(`Unexpected '${this.peek()}'`);
+    }
+    if (this.heredocs.length > 0) {
+      throw this.error(`Here-document '${this.heredocs[0].delimiter}' is not terminated`);
+    }
+    return script;
+  }
+
+  /**
+   * Parse text where only expansions are special, like a here-document body.
+   */
+  parseExpansions(): ShellWord {
+    const word = newWord();
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === '\\' && '$`\\\n'.includes(this.source[this.pos + 1] ?? '')) {
+        word.text += this.source[this.pos + 1];
+        this.pos += 2;
+      } else if (c === '$') {
+        this.parseDollar(word);
+      } else if (c === '`') {
+        this.parseBackticks(word);
+      } else {
+        word.text += c;
+        this.pos++;
+      }
+    }
+    return finishWord(word);
+  }
+
+  // --------------------------------------------------------------------------
+  // Lists and commands
+  // --------------------------------------------------------------------------
+
+  /**
+   * Parse statements until the end of input or one of the terminators: `)`,
+   * a `;;`-style case terminator, or a reserved word like `fi`.
+   */
+  private parseScript(terminators: string[]): ShellScript {
+    if (++this.depth > MAX_NESTING) {
+      throw this.error('Command is nested too deeply');
+    }
+
+    const statements: ShellStatement[] = [];
+    for (;;) {
+      this.skipSpace(true);
+      if (this.atEnd() || this.atTerminator(terminators)) {
+        break;
+      }
+
+      const statement = this.parseStatement();
+      statements.push(statement);
+
+      this.skipSpace(false);
+      const c = this.peek();
+      const next = this.source[this.pos + 1];
+      if (c === ';' && next !== ';' && next !== '&') {
+        this.pos++;
+      } else if (c === '&') {
+        statement.background = true;
+        this.pos++;
+      } else if (c === '\n') {
+        this.consumeNewline();
+      } else if (!this.atEnd() && !this.atTerminator(terminators)) {
+        throw this.error(`Unexpected '${c}'`);
+      }
+    }
+
+    this.depth--;
+    return { type: 'script', statements };
+  }
+
+  private parseStatement(): ShellStatement {
+    const pipelines = [this.parsePipeline()];
+    const operators: ('&&' | '||')[] = [];
+    for (;;) {
+      this.skipSpace(false);
+      const operator = this.startsWith('&&') ? '&&' : this.startsWith('||') ? '||' : null;
+      if (!operator) {
+        break;
+      }
+      this.pos += 2;
+      this.skipSpace(true);
+      operators.push(operator);
+      pipelines.push(this.parsePipeline());
+    }
+    return { pipelines, operators, background: false };
+  }
+
+  private parsePipeline(): ShellPipeline {
+    this.skipSpace(false);
+    const start = this.pos;
+    let negated = false;
+    if (this.peekWord() === '!') {
+      negated = true;
+      this.pos++;
+    }
+
+    const commands = [this.parseCommand()];
+    for (;;) {
+      this.skipSpace(false);
+      if (!this.startsWith('|') || this.startsWith('||')) {
+        break;
+      }
+      this.pos += this.startsWith('|&') ? 2 : 1;
+      this.skipSpace(true);
+      commands.push(this.parseCommand());
+    }
+
+    return {
+      type: 'pipeline',
+      negated,
+      commands,
+      source: this.source.slice(start, this.pos).trim(),
+    };
+  }
+
+  private parseCommand(): ShellCommand | ShellCompound {
+    this.skipSpace(false);
+    if (this.startsWith('((')) {
+      throw this.error('Arithmetic commands are not supported');
+    }
+    if (this.peek() === '(') {
+      this.pos++;
+      const body = this.parseScript([')']);
+      this.expect(')');
+      return this.withRedirects({ type: 'subshell', words: [], body: [body], redirects: [] });
+    }
+
+    const keyword = this.peekWord();
+    switch (keyword) {
+      case '{':
+        return this.parseGroup();
+      case 'if':
+        return this.parseIf();
+      case 'while':
+      case 'until':
+        return this.parseLoop(keyword);
+      case 'for':
+        return this.parseFor();
+      case 'case':
+        return this.parseCase();
+      case 'function':
+        throw this.error('Function definitions are not supported');
+    }
+    if (keyword && UNEXPECTED_RESERVED_WORDS.has(keyword)) {
+      throw this.error(`Unexpected '${keyword}'`);
+    }
+
+    return this.parseSimpleCommand();
+  }
+
+  private parseSimpleCommand(): ShellCommand {
+    const command: ShellCommand = { type: 'command', assignments: [], words: [], redirects: [] };
+
+    for (;;) {
+      this.skipSpace(false);
+      if (this.atEnd()) {
+        break;
+      }
+      if (this.parseRedirect(command.redirects)) {
+        continue;
+      }
+
+      const c = this.peek();
+      if (!this.atWordStart()) {
+        if (c === '(') {
+          throw this.error(
+            command.words.length > 0 ? 'Function definitions are not supported' : "Unexpected '('"
+          );
+        }
+        break;
+      }
+
+      const isAssignment =
+        command.words.length === 0 && ASSIGNMENT.test(this.source.slice(this.pos));
+      const { word } = this.parseWord();
+      (isAssignment ? command.assignments : command.words).push(word);
+    }
+
+    if (
+      command.words.length === 0 &&
+      command.assignments.length === 0 &&
+      command.redirects.length === 0
+    ) {
+      throw this.error(this.atEnd() ? 'Expected a command' : `Unexpected '${this.peek()}'`);
+    }
+    return command;
+  }
+
+  private parseGroup(): ShellCompound {
+    this.pos++;
+    const body = this.parseScript(['}']);
+    this.expectKeyword('}');
+    return this.withRedirects({ type: 'group', words: [], body: [body], redirects: [] });
+  }
+
+  private parseIf(): ShellCompound {
+    this.pos += 2;
+    const body = [this.parseScript(['then'])];
+    this.expectKeyword('then');
+    body.push(this.parseScript(['elif', 'else', 'fi']));
+
+    for (;;) {
+      this.skipSpace(true);
+      const keyword = this.peekWord();
+      if (keyword === 'elif') {
+        this.pos += 4;
+        body.push(this.parseScript(['then']));
+        this.expectKeyword('then');
+        body.push(this.parseScript(['elif', 'else', 'fi']));
+      } else if (keyword === 'else') {
+        this.pos += 4;
+        body.push(this.parseScript(['fi']));
+        this.expectKeyword('fi');
+        break;
+      } else {
+        this.expectKeyword('fi');
+        break;
+      }
+    }
+
+    return this.withRedirects({ type: 'if', words: [], body, redirects: [] });
+  }
+
+  private parseLoop(keyword: 'while' | 'until'): ShellCompound {
+    this.pos += keyword.length;
+    const condition = this.parseScript(['do']);
+    this.expectKeyword('do');
+    const body = this.parseScript(['done']);
+    this.expectKeyword('done');
+    return this.withRedirects({ type: keyword, words: [], body: [condition, body], redirects: [] });
+  }
+
+  private parseFor(): ShellCompound {
+    this.pos += 3;
+    this.skipSpace(false);
+    if (this.startsWith('((')) {
+      throw this.error('Arithmetic for loops are not supported');
+    }
+    const name = this.peekWord();
+    if (!name || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw this.error('Expected a loop variable');
+    }
+    this.pos += name.length;
+
+    const words: ShellWord[] = [];
+    this.skipSpace(true);
+    if (this.peekWord() === 'in') {
+      this.pos += 2;
+      for (;;) {
+        this.skipSpace(false);
+        if (this.peek() === ';') {
+          this.pos++;
+          break;
+        }
+        if (this.peek() === '\n') {
+          this.consumeNewline();
+          break;
+        }
+        if (!this.atWordStart()) {
+          throw this.error("Expected 'do'");
+        }
+        words.push(this.parseWord().word);
+      }
+    } else if (this.peek() === ';') {
+      this.pos++;
+    }
+
+    this.expectKeyword('do');
+    const body = this.parseScript(['done']);
+    this.expectKeyword('done');
+    return this.withRedirects({ type: 'for', words, body: [body], redirects: [] });
+  }
+
+  private parseCase(): ShellCompound {
+    this.pos += 4;
+    this.skipSpace(false);
+    if (!this.atWordStart()) {
+      throw this.error('Expected a word after case');
+    }
+    const words = [this.parseWord().word];
+    this.expectKeyword('in');
+
+    const body: ShellScript[] = [];
+    for (;;) {
+      this.skipSpace(true);
+      if (this.peekWord() === 'esac') {
+        this.pos += 4;
+        break;
+      }
+      if (this.atEnd()) {
+        throw this.error("Expected 'esac'");
+      }
+
+      if (this.peek() === '(') {
+        this.pos++;
+      }
+      for (;;) {
+        this.skipSpace(false);
+        if (!this.atWordStart()) {
+          throw this.error('Expected a case pattern');
+        }
+        words.push(this.parseWord().word);
+        this.skipSpace(false);
+        if (this.peek() === '|') {
+          this.pos++;
+        } else {
+          this.expect(')');
+          break;
+        }
+      }
+
+      body.push(this.parseScript([';;&', ';;', ';&', 'esac']));
+      this.skipSpace(true);
+      const terminator = [';;&', ';;', ';&'].find((t) => this.startsWith(t));
+      if (terminator) {
+        this.pos += terminator.length;
+      } else if (this.peekWord() !== 'esac') {
+        throw this.error("Expected ';;' or 'esac'");
+      }
+    }
+
+    return this.withRedirects({ type: 'case', words, body, redirects: [] });
+  }
+
+  private withRedirects(compound: ShellCompound): ShellCompound {
+    for (;;) {
+      this.skipSpace(false);
+      if (!this.parseRedirect(compound.redirects)) {
+        return compound;
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Redirections
+  // --------------------------------------------------------------------------
+
+  /**
+   * Parse a redirection at the current position, if there is one.
+   */
+  private parseRedirect(redirects: ShellRedirect[]): boolean {
+    const match = REDIRECT.exec(this.source.slice(this.pos));
+    if (!match) {
+      return false;
+    }
+    const [matched, fd, operator] = match;
+    // <(...) and >(...) are process substitutions, which are words
+    if ((operator === '<' || operator === '>') && this.source[this.pos + matched.length] === '(') {
+      return false;
+    }
+
+    this.pos += matched.length;
+    this.skipSpace(false);
+    if (!this.atWordStart()) {
+      throw this.error(`Expected a target after '${operator}'`);
+    }
+    const { word: target, quoted } = this.parseWord();
+    const redirect: ShellRedirect = { operator, target, ...(fd && { fd: Number(fd) }) };
+    redirects.push(redirect);
+
+    if (operator === '<<' || operator === '<<-') {
+      this.heredocs.push({
+        redirect,
+        delimiter: target.text,
+        stripTabs: operator === '<<-',
+        quoted,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Read the bodies of here-documents started on the line just ended.
+   */
+  private readHeredocs(): void {
+    const pending = this.heredocs;
+    this.heredocs = [];
+
+    for (const heredoc of pending) {
+      let body = '';
+      for (;;) {
+        if (this.atEnd()) {
+          throw this.error(`Here-document '${heredoc.delimiter}' is not terminated`);
+        }
+        const newline = this.source.indexOf('\n', this.pos);
+        const end = newline === -1 ? this.source.length : newline;
+        let line = this.source.slice(this.pos, end);
+        this.pos = newline === -1 ? end : end + 1;
+        if (heredoc.stripTabs) {
+          line = line.replace(/^\t+/, '');
+        }
+        if (line === heredoc.delimiter) {
+          break;
+        }
+        body += `${line}\n`;
+      }
+
+      heredoc.redirect.body = heredoc.quoted
+        ? { text: body, dynamic: false, glob: false, scripts: [] }
+        : new ShellParser(body, this.depth + 1).parseExpansions();
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Words
+  // --------------------------------------------------------------------------
+
+  private parseWord(): { word: ShellWord; quoted: boolean } {
+    const word = newWord();
+    const start = this.pos;
+
+    while (!this.atEnd()) {
+      const c = this.peek();
+      const next = this.source[this.pos + 1];
+
+      if ((c === '<' || c === '>') && next === '(' && this.pos === start) {
+        // Process substitution
+        const open = this.pos;
+        this.pos += 2;
+        word.scripts.push(this.parseScript([')']));
+        this.expect(')');
+        word.text += this.source.slice(open, this.pos);
+        word.dynamic = true;
+      } else if (METACHARACTERS.has(c)) {
+        break;
+      } else if (c === '\\') {
+        word.quoted = true;
+        if (next === '\n') {
+          this.pos += 2;
+        } else if (next === undefined) {
+          word.text += c;
+          this.pos++;
+        } else {
+          word.text += next;
+          this.pos += 2;
+        }
+      } else if (c === "'") {
+        const close = this.source.indexOf("'", this.pos + 1);
+        if (close === -1) {
+          throw this.error('Unterminated single quote');
+        }
+        word.text += this.source.slice(this.pos + 1, close);
+        word.quoted = true;
+        this.pos = close + 1;
+      } else if (c === '"') {
+        this.parseDoubleQuoted(word);
+      } else if (c === '$') {
+        this.parseDollar(word);
+      } else if (c === '`') {
+        this.parseBackticks(word);
+      } else {
+        if (c === '*' || c === '?' || c === '[') {
+          word.glob = true;
+        }
+        word.text += c;
+        word.unquoted += c;
+        this.pos++;
+      }
+    }
+
+    return { word: finishWord(word), quoted: word.quoted };
+  }
+
+  private parseDoubleQuoted(word: WordBuilder): void {
+    word.quoted = true;
+    this.pos++;
+    for (;;) {
+      if (this.atEnd()) {
+        throw this.error('Unterminated double quote');
+      }
+      const c = this.peek();
+      const next = this.source[this.pos + 1];
+      if (c === '"') {
+        this.pos++;
+        return;
+      }
+      if (c === '\\' && next !== undefined && '$`"\\\n'.includes(next)) {
+        if (next !== '\n') {
+          word.text += next;
+        }
+        this.pos += 2;
+      } else if (c === '$') {
+        this.parseDollar(word);
+      } else if (c === '`') {
+        this.parseBackticks(word);
+      } else {
+        word.text += c;
+        this.pos++;
+      }
+    }
+  }
+
+  /**
+   * Parse an expansion starting with `$`: command substitution, arithmetic,
+   * parameters, or ANSI-C and locale quoting.
+   */
+  private parseDollar(word: WordBuilder): void {
+    const start = this.pos;
+    const next = this.source[this.pos + 1];
+
+    // Like bash, `$((` only opens arithmetic when it closes with `))`; otherwise
+    // it is a command substitution starting with a subshell
+    const close = this.startsWith('$((') ? this.findArithmeticEnd(this.pos + 3) : -1;
+    if (close !== -1) {
+      const expression = this.source.slice(this.pos + 3, close);
+      word.scripts.push(...new ShellParser(expression, this.depth + 1).parseExpansions().scripts);
+      this.pos = close + 2;
+    } else if (next === '(') {
+      this.pos += 2;
+      word.scripts.push(this.parseScript([')']));
+      this.expect(')');
+    } else if (next === '{') {
+      this.parseParameterExpansion(word);
+    } else if (next === "'") {
+      // ANSI-C quoting; escapes like \x72 can spell anything, so treat them as dynamic
+      let end = this.pos + 2;
+      while (end < this.source.length && this.source[end] !== "'") {
+        end += this.source[end] === '\\' ? 2 : 1;
+      }
+      if (end >= this.source.length) {
+        throw this.error('Unterminated quote');
+      }
+      const content = this.source.slice(this.pos + 2, end);
+      word.text += content;
+      word.quoted = true;
+      word.dynamic ||= content.includes('\\');
+      this.pos = end + 1;
+      return;
+    } else if (next === '"') {
+      this.pos++;
+      this.parseDoubleQuoted(word);
+      return;
+    } else if (next !== undefined && /[A-Za-z_]/.test(next)) {
+      this.pos++;
+      while (!this.atEnd() && /[A-Za-z0-9_]/.test(this.peek())) {
+        this.pos++;
+      }
+    } else if (next !== undefined && /[0-9@*#?$!-]/.test(next)) {
+      this.pos += 2;
+    } else {
+      // A lone $ is literal
+      word.text += '$';
+      this.pos++;
+      return;
+    }
+
+    word.text += this.source.slice(start, this.pos);
+    word.dynamic = true;
+  }
+
+  private parseParameterExpansion(word: WordBuilder): void {
+    this.pos += 2;
+    // Operands like ${x:-$(cmd)} can run commands; the text is collected by the caller
+    const inner = newWord();
+    for (;;) {
+      if (this.atEnd()) {
+        throw this.error('Unterminated parameter expansion');
+      }
+      const c = this.peek();
+      if (c === '}') {
+        this.pos++;
+        break;
+      }
+      if (c === '\\') {
+        this.pos += 2;
+      } else if (c === "'") {
+        const close = this.source.indexOf("'", this.pos + 1);
+        if (close === -1) {
+          throw this.error('Unterminated single quote');
+        }
+        this.pos = close + 1;
+      } else if (c === '"') {
+        this.parseDoubleQuoted(inner);
+      } else if (c === '$') {
+        this.parseDollar(inner);
+      } else if (c === '`') {
+        this.parseBackticks(inner);
+      } else {
+        this.pos++;
+      }
+    }
+    word.scripts.push(...inner.scripts);
+  }
+
+  /** Index of the `))` closing an arithmetic expansion, or -1 if it has none */
+  private findArithmeticEnd(from: number): number {
+    let depth = 0;
+    for (let i = from; i < this.source.length; i++) {
+      const c = this.source[i];
+      if (c === '(') {
+        depth++;
+      } else if (c === ')') {
+        if (depth === 0) {
+          return this.source[i + 1] === ')' ? i : -1;
+        }
+        depth--;
+      }
+    }
+    return -1;
+  }
+
+  private parseBackticks(word: WordBuilder): void {
+    const start = this.pos;
+    let inner = '';
+    this.pos++;
+    for (;;) {
+      if (this.atEnd()) {
+        throw this.error('Unterminated backquote');
+      }
+      const c = this.peek();
+      const next = this.source[this.pos + 1];
+      if (c === '`') {
+        this.pos++;
+        break;
+      }
+      if (c === '\\' && next !== undefined && '`\\$'.includes(next)) {
+        inner += next;
+        this.pos += 2;
+      } else {
+        inner += c;
+        this.pos++;
+      }
+    }
+
+    word.scripts.push(new ShellParser(inner, this.depth + 1).parseAll());
+    word.text += this.source.slice(start, this.pos);
+    word.dynamic = true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Low-level helpers
+  // --------------------------------------------------------------------------
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  /** Whether a word starts here, including a process substitution */
+  private atWordStart(): boolean {
+    const c = this.peek();
+    return (
+      c !== '' &&
+      (!METACHARACTERS.has(c) || ((c === '<' || c === '>') && this.source[this.pos + 1] === '('))
+    );
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos);
+  }
+
+  /**
+   * The plain unquoted word at the current position, for recognising reserved
+   * words, or null if the next word has quotes or expansions.
+   */
+  private peekWord(): string | null {
+    let end = this.pos;
+    while (end < this.source.length && !METACHARACTERS.has(this.source[end])) {
+      if ('\'"\\$`'.includes(this.source[end])) {
+        return null;
+      }
+      end++;
+    }
+    return end > this.pos ? this.source.slice(this.pos, end) : null;
+  }
+
+  private atTerminator(terminators: string[]): boolean {
+    return terminators.some((terminator) =>
+      terminator === ')' || terminator.startsWith(';')
+        ? this.startsWith(terminator)
+        : this.peekWord() === terminator
+    );
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  private expectKeyword(keyword: string): void {
+    this.skipSpace(true);
+    if (this.peekWord() !== keyword) {
+      throw this.error(`Expected '${keyword}'`);
+    }
+    this.pos += keyword.length;
+  }
+
+  private consumeNewline(): void {
+    this.pos++;
+    if (this.heredocs.length > 0) {
+      this.readHeredocs();
+    }
+  }
+
+  /**
+   * Skip blanks, comments and line continuations, and newlines if allowed.
+   */
+  private skipSpace(newlines: boolean): void {
+    while (!this.atEnd()) {
+      const c = this.peek();
+      if (c === ' ' || c === '\t') {
+        this.pos++;
+      } else if (c === '\\' && this.source[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (c === '#') {
+        const newline = this.source.indexOf('\n', this.pos);
+        this.pos = newline === -1 ? this.source.length : newline;
+      } else if (c === '\n' && newlines) {
+        this.consumeNewline();
+      } else {
+        break;
+      }
+    }
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} (at position ${this.pos})`);
+  }
+}
+
+/**
+ * Parse a bash command string.
+ *
+ * @param source - Command string
+ * @returns The syntax tree
+ * @throws If the string isn't valid shell syntax, or uses syntax that isn't
+ *   supported (function definitions, arithmetic commands)
+ */
+export function parseShell(source: string): ShellScript {
+  return new ShellParser(source).parseAll();
+}
+
+// ============================================================================
+// Executed Commands
+// ============================================================================
+
+export interface ExecutedCommand {
+  /** Command name without its directory; null for a bare redirection like `> file` */
+  name: string | null;
+  /** Command words, the command itself first */
+  words: ShellWord[];
+  /** Redirections applying to the command, including those of enclosing compounds */
+  redirects: ShellRedirect[];
+}
+
+/** Shells whose -c option runs a command string */
+const SHELLS = new Set(['sh', 'bash', 'dash', 'zsh', 'ksh', 'ash']);
+
+/**
+ * Where an invocation runs further commands: more command words, or a script
+ * to parse.
+ */
+type Nested = { words: ShellWord[] } | { script: ShellWord };
+
+function literal(text: string): ShellWord {
+  return { text, dynamic: false, glob: false, scripts: [] };
+}
+
+/**
+ * Skip leading options of a wrapper command.
+ *
+ * @param args - Arguments after the wrapper's name
+ * @param withValue - Options taking the next argument as their value
+ * @returns Index of the first argument that isn't an option
+ */
+function skipOptions(name: string, args: ShellWord[], withValue: string[] = []): number {
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+    if (arg.dynamic) {
+      throw new Error(`Cannot tell which command '${name}' runs: ${arg.text}`);
+    }
+    if (arg.text === '--') {
+      return i + 1;
+    }
+    if (!arg.text.startsWith('-') || arg.text === '-') {
+      return i;
+    }
+    i += withValue.includes(arg.text) ? 2 : 1;
+  }
+  return i;
+}
+
+/**
+ * Join words into a script, for commands that evaluate their arguments.
+ */
+function joinScript(name: string, words: ShellWord[]): ShellWord {
+  const dynamic = words.find((word) => word.dynamic);
+  if (dynamic) {
+    throw new Error(`Cannot validate '${name}' of a runtime value: ${dynamic.text}`);
+  }
+  return literal(words.map((word) => word.text).join(' '));
+}
+
+/**
+ * Commands an invocation runs on its behalf.
+ */
+function nestedCommands(name: string, args: ShellWord[]): Nested[] {
+  switch (name) {
+    case 'env': {
+      let i = 0;
+      while (i < args.length) {
+        const { text, dynamic } = args[i];
+        if (dynamic) {
+          throw new Error(`Cannot tell which command 'env' runs: ${text}`);
+        }
+        if (text === '--') {
+          i++;
+          break;
+        }
+        if (['-u', '--unset', '-C', '--chdir'].includes(text)) {
+          i += 2;
+        } else if (/^-[i0]+$|^--(ignore-environment|null)$|^--(unset|chdir)=|^-[uC]./.test(text)) {
+          i++;
+        } else if (text.startsWith('-')) {
+          throw new Error(`Unsupported env option: ${text}`);
+        } else if (ASSIGNMENT.test(text)) {
+          i++;
+        } else {
+          break;
+        }
+      }
+      return [{ words: args.slice(i) }];
+    }
+
+    case 'nohup':
+    case 'setsid':
+    case 'builtin':
+    case 'time':
+      return [{ words: args.slice(skipOptions(name, args)) }];
+
+    case 'exec':
+      return [{ words: args.slice(skipOptions(name, args, ['-a'])) }];
+
+    case 'command':
+      // command -v and -V only look commands up
+      if (args.some((arg) => /^-[pvV]*[vV]/.test(arg.text))) {
+        return [];
+      }
+      return [{ words: args.slice(skipOptions(name, args)) }];
+
+    case 'nice':
+      return [{ words: args.slice(skipOptions(name, args, ['-n', '--adjustment'])) }];
+
+    case 'timeout': {
+      const start = skipOptions(name, args, ['-s', '--signal', '-k', '--kill-after']);
+      // The first argument after the options is the duration
+      return [{ words: args.slice(start + 1) }];
+    }
+
+    case 'stdbuf':
+      return [{ words: args.slice(skipOptions(name, args, ['-i', '-o', '-e'])) }];
+
+    case 'sudo':
+    case 'doas':
+      return [
+        {
+          words: args.slice(
+            skipOptions(name, args, ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '-T'])
+          ),
+        },
+      ];
+
+    case 'xargs': {
+      const start = skipOptions(name, args, [
+        '-a',
+        '-d',
+        '-E',
+        '-I',
+        '-L',
+        '-n',
+        '-P',
+        '-s',
+        '--arg-file',
+        '--delimiter',
+        '--eof',
+        '--replace',
+        '--max-lines',
+        '--max-args',
+        '--max-procs',
+        '--max-chars',
+        '--process-slot-var',
+      ]);
+      // With no command, xargs runs echo
+      return [{ words: start < args.length ? args.slice(start) : [literal('echo')] }];
+    }
+
+    case 'watch': {
+      const start = skipOptions(name, args, ['-n', '--interval', '-d', '--differences']);
+      const exec = args.slice(0, start).some((arg) => /^-[a-z]*x|^--exec$/.test(arg.text));
+      return [
+        exec ? { words: args.slice(start) } : { script: joinScript(name, args.slice(start)) },
+      ];
+    }
+
+    case 'eval':
+      return [{ script: joinScript(name, args) }];
+
+    case 'trap':
+      return args.length >= 2 && args[0].text !== '-' ? [{ script: args[0] }] : [];
+
+    case 'find': {
+      const nested: Nested[] = [];
+      for (let i = 0; i < args.length; i++) {
+        if (['-exec', '-execdir', '-ok', '-okdir'].includes(args[i].text)) {
+          const end = args.findIndex((arg, j) => j > i && (arg.text === ';' || arg.text === '+'));
+          if (end === -1) {
+            throw new Error(`Unterminated ${args[i].text} in find`);
+          }
+          nested.push({ words: args.slice(i + 1, end) });
+          i = end;
+        }
+      }
+      return nested;
+    }
+  }
+
+  if (SHELLS.has(name)) {
+    const dynamic = args.find((arg) => arg.dynamic);
+    if (dynamic) {
+      throw new Error(`Cannot tell what '${name}' runs: ${dynamic.text}`);
+    }
+    // A -c anywhere is taken as a command string, even after a script file
+    const command = args.findIndex((arg) => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg.text));
+    if (command !== -1) {
+      const script = args.slice(command + 1).find((arg) => !/^[-+]/.test(arg.text));
+      if (!script) {
+        throw new Error(`'${name} -c' needs a command string`);
+      }
+      return [{ script }];
+    }
+    const start = skipOptions(name, args, ['-o', '+o', '-O', '+O', '--rcfile', '--init-file']);
+    if (start < args.length && args[start].text !== '-') {
+      // Runs a script file, which is up to the allowlist to permit
+      return [];
+    }
+    throw new Error(`Commands that '${name}' reads from standard input cannot be validated`);
+  }
+
+  return [];
+}
+
+function collectScript(
+  script: ShellScript,
+  inherited: ShellRedirect[],
+  depth: number,
+  out: ExecutedCommand[]
+): void {
+  for (const statement of script.statements) {
+    for (const pipeline of statement.pipelines) {
+      for (const command of pipeline.commands) {
+        collectCommand(command, inherited, depth, out);
+      }
+    }
+  }
+}
+
+function collectWordScripts(words: ShellWord[], depth: number, out: ExecutedCommand[]): void {
+  for (const word of words) {
+    for (const script of word.scripts) {
+      collectScript(script, [], depth, out);
+    }
+  }
+}
+
+function redirectWords(redirects: ShellRedirect[]): ShellWord[] {
+  return redirects.flatMap((redirect) =>
+    redirect.body ? [redirect.target, redirect.body] : [redirect.target]
+  );
+}
+
+function collectCommand(
+  command: ShellCommand | ShellCompound,
+  inherited: ShellRedirect[],
+  depth: number,
+  out: ExecutedCommand[]
+): void {
+  const redirects = [...inherited, ...command.redirects];
+
+  if (command.type !== 'command') {
+    collectWordScripts([...command.words, ...redirectWords(command.redirects)], depth, out);
+    for (const script of command.body) {
+      collectScript(script, redirects, depth, out);
+    }
+    return;
+  }
+
+  // Substitutions run before the command itself
+  collectWordScripts(
+    [...command.assignments, ...command.words, ...redirectWords(command.redirects)],
+    depth,
+    out
+  );
+  if (command.words.length === 0) {
+    out.push({ name: null, words: [], redirects });
+    return;
+  }
+  collectInvocation(command.words, redirects, depth, out);
+}
+
+function collectInvocation(
+  words: ShellWord[],
+  redirects: ShellRedirect[],
+  depth: number,
+  out: ExecutedCommand[]
+): void {
+  if (depth > MAX_NESTING) {
+    throw new Error('Command is nested too deeply');
+  }
+
+  const [first, ...args] = words;
+  if (first.dynamic || first.glob) {
+    throw new Error(`Command name is only known at runtime: ${first.text}`);
+  }
+  const name = first.text.split('/').pop() ?? '';
+  out.push({ name, words, redirects });
+
+  for (const nested of nestedCommands(name, args)) {
+    if ('script' in nested) {
+      if (nested.script.dynamic) {
+        throw new Error(`Cannot validate '${name}' of a runtime value: ${nested.script.text}`);
+      }
+      collectScript(new ShellParser(nested.script.text, depth + 1).parseAll(), [], depth + 1, out);
+    } else if (nested.words.length > 0) {
+      collectInvocation(nested.words, [], depth + 1, out);
+    }
+  }
+}
+
+/**
+ * List every command a parsed command string runs, in source order, with
+ * commands in substitutions before the command using them. Commands run through
+ * wrappers (`env`, `nohup`, `timeout`, `xargs`, `find -exec`, ...) or evaluated
+ * from strings (`eval`, `bash -c`, `trap`) are listed after their wrapper.
+ *
+ * @param script - Parsed command string
+ * @throws If a command run can't be determined, e.g. `$cmd args` or `bash -c "$x"`
+ */
+export function findExecutedCommands(script: ShellScript): ExecutedCommand[] {
+  const commands: ExecutedCommand[] = [];
+  collectScript(script, [], 0, commands);
+  return commands;
+}
+
+/**
+ * Quote text so the shell reads it as one word, unchanged.
+ */
+export function quoteShellWord(text: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote command words back into a command string that tokenizes to the same
+ * words.
+ */
+export function formatCommand(words: ShellWord[]): string {
+  return words.map(({ text }) => quoteShellWord(text)).join(' ');
+}
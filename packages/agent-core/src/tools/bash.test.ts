@@ -0,0 +1,83 @@
+/**
+ * Bash Tool Tests
+ * ===============
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { BackgroundProcess, ExecResult, Sandbox } from '../types.js';
+import { BACKGROUND_STARTUP_MS, bashTool } from './bash.js';
+
+/** A background process whose logs yield the given chunks, then never end or fail */
+function backgroundProcess(chunks: string[], end: 'hang' | 'reject') {
+  let returned = false;
+  const logs: AsyncIterator<string> = {
+    async next() {
+      const chunk = chunks.shift();
+      if (chunk !== undefined) {
+        return { done: false, value: chunk };
+      }
+      if (end === 'reject') {
+        throw new Error('sandbox destroyed');
+      }
+      return new Promise<IteratorResult<string>>(() => {});
+    },
+    async return() {
+      returned = true;
+      return { done: true, value: undefined };
+    },
+  };
+  const process: BackgroundProcess = {
+    pid: 4242,
+    logs: () => ({ [Symbol.asyncIterator]: () => logs }),
+    kill: async () => {},
+    wait: () => new Promise<ExecResult>(() => {}),
+  };
+  return { process, returned: () => returned };
+}
+
+async function runInBackground(process: BackgroundProcess) {
+  const sandbox = { spawnBackground: async () => process } as unknown as Sandbox;
+  const result = bashTool.execute(
+    { command: 'npm run dev', background: true },
+    { sandbox, emit: () => {}, log: () => {} }
+  );
+  await vi.advanceTimersByTimeAsync(BACKGROUND_STARTUP_MS);
+  return result;
+}
+
+describe('bashTool in the background', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the startup output and stops reading the logs', async () => {
+    vi.useFakeTimers();
+    const { process, returned } = backgroundProcess(['ready on ', 'port 3000'], 'hang');
+
+    const result = await runInBackground(process);
+
+    expect(result.isError).toBe(false);
+    expect(result.output).toContain('pid 4242');
+    expect(result.output).toContain('ready on port 3000');
+    expect(returned()).toBe(true);
+  });
+
+  it('keeps the output read before the logs fail', async () => {
+    vi.useFakeTimers();
+    const unhandled = vi.fn();
+    globalThis.process.on('unhandledRejection', unhandled);
+    const { process } = backgroundProcess(['starting'], 'reject');
+
+    try {
+      const result = await runInBackground(process);
+      // Give Node a turn to report an unhandled rejection
+      vi.useRealTimers();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(result.output).toContain('starting');
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      globalThis.process.off('unhandledRejection', unhandled);
+    }
+  });
+});
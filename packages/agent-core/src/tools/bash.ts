@@ -0,0 +1,122 @@
+/**
+ * Bash Tool
+ * =========
+ *
+ * Runs shell commands in the sandbox, in the foreground or as a background
+ * process for dev servers. Commands are checked by the security hook before
+ * they run.
+ */
+
+import type { BackgroundProcess, ExecResult, SandboxTool } from '../types.js';
+
+/** Foreground commands running longer than this are killed (e.g. a dev server run without background) */
+export const BASH_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** How long to collect output from a background command before returning to the agent */
+export const BACKGROUND_STARTUP_MS = 5000;
+
+/**
+ * Collect a background process's output for a short startup window.
+ * Returns the exit result instead if the process finishes within the window.
+ * Stops reading the logs when the window closes; the process keeps running.
+ */
+async function readStartupOutput(
+  process: BackgroundProcess,
+  windowMs: number
+): Promise<{ output: string; exit: ExecResult | null }> {
+  let output = '';
+  let reading = true;
+  const logs = process.logs()[Symbol.asyncIterator]();
+  void (async () => {
+    while (reading) {
+      const chunk = await logs.next();
+      if (chunk.done || !reading) break;
+      output += chunk.value;
+    }
+  })().catch(() => {
+    // The logs can fail once the process is killed or the sandbox destroyed;
+    // the output read so far is still returned
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const exit = await Promise.race([
+      process.wait(),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), windowMs);
+      }),
+    ]);
+    return { output, exit };
+  } finally {
+    reading = false;
+    clearTimeout(timer);
+    void Promise.resolve(logs.return?.()).catch(() => {});
+  }
+}
+
+export const bashTool: SandboxTool = {
+  name: 'bash',
+  description:
+    'Execute a bash command in the sandbox. Use this for running shell commands, installing packages, running scripts, etc.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The bash command to execute',
+      },
+      background: {
+        type: 'boolean',
+        description:
+          'Run a long-lived command (e.g. a dev server) in the background. Returns its pid and first few seconds of output instead of waiting for it to exit.',
+      },
+    },
+    required: ['command'],
+  },
+  access: 'execute',
+  emits: ['command'],
+
+  async execute(input, { sandbox, emit, log }) {
+    const command = typeof input.command === 'string' ? input.command : '';
+    if (!command) {
+      throw new Error('Invalid tool input: bash requires { command: string }');
+    }
+    log('tool', `bash: ${command.slice(0, 200)}${command.length > 200 ? '...' : ''}`);
+
+    const startTime = Date.now();
+    let result: ExecResult;
+    if (input.background === true) {
+      const process = await sandbox.spawnBackground(command);
+      const startup = await readStartupOutput(process, BACKGROUND_STARTUP_MS);
+      result = startup.exit ?? {
+        stdout: `Started background process (pid ${process.pid}). It keeps running after this call; stop it with: kill ${process.pid}\n\nOutput so far:\n${startup.output}`,
+        stderr: '',
+        exitCode: 0,
+      };
+    } else {
+      result = await sandbox.exec(command, { timeoutMs: BASH_TIMEOUT_MS });
+    }
+    const output = result.stdout + (result.stderr ? `\nSTDERR: ${result.stderr}` : '');
+
+    emit({
+      type: 'command',
+      command,
+      exitCode: result.exitCode,
+      stdout: result.stdout?.slice(0, 500),
+      stderr: result.stderr?.slice(0, 500),
+      durationMs: Date.now() - startTime,
+    });
+
+    if (result.exitCode !== 0) {
+      log('error', `Command exited with code ${result.exitCode}`);
+      return {
+        output: output || `Exit code: ${result.exitCode}`,
+        isError: true,
+        error: `Exit code: ${result.exitCode}`,
+      };
+    }
+
+    log('info', `[Done] ${output.slice(0, 100)}${output.length > 100 ? '...' : ''}`);
+    return { output, isError: false };
+  },
+};
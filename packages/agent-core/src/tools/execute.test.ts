@@ -0,0 +1,108 @@
+/**
+ * Tool Execution Tests
+ * ====================
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileSecurityPolicy } from '../policy.js';
+import type { Sandbox, SandboxTool } from '../types.js';
+import { executeTool, type ToolExecutionEvent } from './execute.js';
+
+const echoTool: SandboxTool = {
+  name: 'echo',
+  description: 'Echo the input',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+  access: 'read',
+  emits: [],
+  execute: async (input) => ({ output: String(input.text), isError: false }),
+};
+
+const touchTool: SandboxTool = {
+  name: 'touch',
+  description: 'Create an empty file',
+  inputSchema: { type: 'object', properties: { path: { type: 'string' } } },
+  access: 'write',
+  emits: ['file_created'],
+  execute: async (input, { emit }) => {
+    emit({ type: 'file_created', path: String(input.path) });
+    return { output: 'ok', isError: false };
+  },
+};
+
+const runTool: SandboxTool = {
+  name: 'run',
+  description: 'Run a command',
+  inputSchema: { type: 'object', properties: { command: { type: 'string' } } },
+  access: 'execute',
+  emits: [],
+  execute: async () => {
+    throw new Error('sandbox is gone');
+  },
+};
+
+const tools = [echoTool, touchTool, runTool];
+
+const securityHook = compileSecurityPolicy({
+  commands: { ls: {} },
+  paths: { writable: ['/home/user'] },
+});
+
+async function run(name: string, input: Record<string, unknown>) {
+  const events: ToolExecutionEvent[] = [];
+  const result = await executeTool(
+    tools,
+    { id: 'toolu_1', name, input },
+    {
+      sandbox: {} as Sandbox,
+      onLog: () => {},
+      onEvent: (event) => events.push(event),
+      securityHook,
+    }
+  );
+  return { result, events, types: events.map((event) => event.type) };
+}
+
+describe('executeTool', () => {
+  it('wraps the tool in tool_start and tool_end events', async () => {
+    const { result, events, types } = await run('touch', { path: 'a.txt' });
+
+    expect(result).toEqual({ output: 'ok', isError: false });
+    expect(types).toEqual(['tool_start', 'file_created', 'tool_end']);
+    expect(events[0]).toMatchObject({ toolName: 'touch', toolUseId: 'toolu_1' });
+    expect(events[2]).toMatchObject({ success: true, output: 'ok' });
+    expect(events.every((event) => event.id && event.timestamp)).toBe(true);
+  });
+
+  it('checks write tools against the path policy', async () => {
+    const { result, events, types } = await run('touch', { path: '/etc/hosts' });
+
+    expect(result.isError).toBe(true);
+    expect(result.output).toMatch(/^Blocked by security policy: Writes are only allowed in/);
+    expect(types).toEqual(['tool_start', 'security_block', 'error', 'tool_end']);
+    expect(events[1]).toMatchObject({ command: 'touch /etc/hosts' });
+  });
+
+  it('checks execute tools as bash commands', async () => {
+    const { types } = await run('run', { command: 'curl https://example.com' });
+    expect(types).toContain('security_block');
+  });
+
+  it('does not check read tools', async () => {
+    const { result } = await run('echo', { text: '/etc/passwd' });
+    expect(result).toEqual({ output: '/etc/passwd', isError: false });
+  });
+
+  it('reports thrown errors as tool errors', async () => {
+    const { result, types } = await run('run', { command: 'ls' });
+
+    expect(result).toEqual({ output: 'sandbox is gone', isError: true, error: 'sandbox is gone' });
+    expect(types).toEqual(['tool_start', 'error', 'tool_end']);
+  });
+
+  it('fails calls to tools the agent was not given', async () => {
+    const { result, events } = await run('bash', { command: 'ls' });
+
+    expect(result).toEqual({ output: 'Unknown tool: bash', isError: true });
+    expect(events[1]).toMatchObject({ type: 'tool_end', success: false });
+  });
+});
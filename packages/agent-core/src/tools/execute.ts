@@ -0,0 +1,152 @@
+/**
+ * Tool Execution
+ * ==============
+ *
+ * Runs the model's tool calls against the sandbox: finds the tool, checks the
+ * call with the security hook according to the tool's access, runs it, and
+ * reports it to the activity feed as tool_start and tool_end events around the
+ * events the tool emits itself.
+ */
+
+import {
+  generateEventId,
+  type ErrorEvent,
+  type SecurityBlockEvent,
+  type ToolEndEvent,
+  type ToolStartEvent,
+} from '../events.js';
+import type {
+  Sandbox,
+  SandboxTool,
+  SecurityHook,
+  SecurityHookInput,
+  ToolCall,
+  ToolContext,
+  ToolEvent,
+  ToolResult,
+} from '../types.js';
+
+type EventFields<T> = Omit<T, 'id' | 'timestamp' | 'buildId'>;
+
+type ToolCallEvent =
+  | ToolEvent
+  | EventFields<ToolStartEvent>
+  | EventFields<ToolEndEvent>
+  | EventFields<ErrorEvent>
+  | EventFields<SecurityBlockEvent>;
+
+/** An event from a tool call, as passed to the event callback (without a build ID) */
+export type ToolExecutionEvent = ToolCallEvent & { id: string; timestamp: string };
+
+export interface ExecuteToolOptions {
+  sandbox: Sandbox;
+  onLog: ToolContext['log'];
+  onEvent?: (event: ToolExecutionEvent) => void;
+  /** Checks `execute` and `write` tool calls before they run */
+  securityHook?: SecurityHook;
+}
+
+/**
+ * What the security hook is asked to approve for a call, or null for tools
+ * that only read. Write tools are checked as writes to their `path` input.
+ */
+function securityInput(
+  tool: SandboxTool,
+  input: Record<string, unknown>
+): SecurityHookInput | null {
+  switch (tool.access) {
+    case 'execute':
+      return { tool_name: 'Bash', tool_input: input };
+    case 'write':
+      return { tool_name: 'Write', tool_input: { file_path: input.path } };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Run a tool call with the given tools.
+ *
+ * @param tools - Tools the agent was given
+ * @param call - The model's tool call
+ * @param options - Sandbox, callbacks and security hook
+ * @returns The result to send back to the model
+ */
+export async function executeTool(
+  tools: readonly SandboxTool[],
+  call: ToolCall,
+  options: ExecuteToolOptions
+): Promise<ToolResult> {
+  const { sandbox, onLog, onEvent, securityHook } = options;
+  const startTime = Date.now();
+
+  const emit = (event: ToolCallEvent) =>
+    onEvent?.({ ...event, id: generateEventId(), timestamp: new Date().toISOString() });
+
+  const endTool = (result: ToolResult): ToolResult => {
+    emit({
+      type: 'tool_end',
+      toolUseId: call.id,
+      success: !result.isError,
+      output: result.output.slice(0, 500),
+      displayOutput:
+        result.displayOutput ??
+        (result.output.length > 500 ? result.output.slice(0, 500) + '...' : result.output),
+      durationMs: Date.now() - startTime,
+      error: result.isError ? (result.error ?? result.output.slice(0, 500)) : undefined,
+    });
+    return result;
+  };
+
+  const failTool = (errorMsg: string): ToolResult => {
+    emit({
+      type: 'error',
+      severity: 'error',
+      message: `Tool error: ${errorMsg}`,
+      details: `Tool: ${call.name}`,
+      recoverable: true,
+    });
+    onLog('error', `Tool error: ${errorMsg}`);
+    return endTool({ output: errorMsg, isError: true, error: errorMsg });
+  };
+
+  emit({
+    type: 'tool_start',
+    toolName: call.name,
+    toolUseId: call.id,
+    input: call.input,
+    displayInput: JSON.stringify(call.input).slice(0, 200),
+  });
+
+  const tool = tools.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    return endTool({
+      output: `Unknown tool: ${call.name}`,
+      isError: true,
+    });
+  }
+
+  try {
+    const check = securityInput(tool, call.input);
+    const verdict = check && (await securityHook?.(check, call.id));
+    if (verdict?.decision === 'block') {
+      const reason = verdict.reason || 'Blocked by security policy';
+      emit({
+        type: 'security_block',
+        toolName: call.name,
+        toolUseId: call.id,
+        command:
+          typeof call.input.command === 'string'
+            ? call.input.command
+            : `${call.name} ${String(call.input.path ?? '')}`.trim(),
+        reason,
+      });
+      return failTool(`Blocked by security policy: ${reason}`);
+    }
+
+    const result = await tool.execute(call.input, { sandbox, emit, log: onLog });
+    return endTool(result);
+  } catch (error) {
+    return failTool(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * File Tool Tests
+ * ===============
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Sandbox, ToolContext, ToolEvent } from '../types.js';
+import { deleteFileTool, strReplaceEditorTool, writeFileTool } from './files.js';
+
+// In-memory sandbox holding the given files; `test -d` succeeds for `dirs`
+function createContext(files: Record<string, string>, dirs: string[] = []) {
+  const events: ToolEvent[] = [];
+  const sandbox = {
+    exists: async (path: string) => path in files || dirs.includes(path),
+    readFile: async (path: string) => files[path],
+    writeFile: async (path: string, content: string) => {
+      files[path] = content;
+    },
+    remove: async (path: string) => {
+      delete files[path];
+    },
+    exec: async (command: string) => ({
+      stdout: '',
+      stderr: '',
+      exitCode: dirs.some((dir) => command === `test -d ${dir}`) ? 0 : 1,
+    }),
+  } as unknown as Sandbox;
+  const context: ToolContext = { sandbox, emit: (event) => events.push(event), log: () => {} };
+  return { files, events, context };
+}
+
+describe('str_replace_editor', () => {
+  it('replaces a unique snippet and reports the lines changed', async () => {
+    const { files, events, context } = createContext({
+      'app.ts': 'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+    });
+
+    const result = await strReplaceEditorTool.execute(
+      { command: 'str_replace', path: 'app.ts', old_str: 'const b = 2;', new_str: 'const b = 20;' },
+      context
+    );
+
+    expect(result.isError).toBe(false);
+    expect(files['app.ts']).toBe('const a = 1;\nconst b = 20;\nconst c = 3;\n');
+    expect(events).toEqual([
+      {
+        type: 'file_modified',
+        path: 'app.ts',
+        size: files['app.ts'].length,
+        language: 'typescript',
+        linesAdded: 1,
+        linesRemoved: 1,
+      },
+    ]);
+  });
+
+  it('refuses snippets that are missing or not unique, leaving the file alone', async () => {
+    const { files, context } = createContext({ 'a.txt': 'x\nx\n' });
+
+    const missing = await strReplaceEditorTool.execute(
+      { command: 'str_replace', path: 'a.txt', old_str: 'y', new_str: 'z' },
+      context
+    );
+    const repeated = await strReplaceEditorTool.execute(
+      { command: 'str_replace', path: 'a.txt', old_str: 'x', new_str: 'z' },
+      context
+    );
+
+    expect(missing).toMatchObject({ isError: true, error: 'old_str not found' });
+    expect(repeated).toMatchObject({ isError: true, error: 'old_str matches 2 times' });
+    expect(files['a.txt']).toBe('x\nx\n');
+  });
+
+  it('inserts after a line', async () => {
+    const { files, context } = createContext({ 'a.txt': 'one\nthree' });
+
+    await strReplaceEditorTool.execute(
+      { command: 'insert', path: 'a.txt', insert_line: 1, new_str: 'two' },
+      context
+    );
+    await strReplaceEditorTool.execute(
+      { command: 'insert', path: 'a.txt', insert_line: 0, new_str: 'zero' },
+      context
+    );
+
+    expect(files['a.txt']).toBe('zero\none\ntwo\nthree');
+    expect(
+      await strReplaceEditorTool.execute(
+        { command: 'insert', path: 'a.txt', insert_line: 9, new_str: 'x' },
+        context
+      )
+    ).toMatchObject({ isError: true });
+  });
+
+  it('throws for files that do not exist and for bad input', async () => {
+    const { context } = createContext({});
+
+    await expect(
+      strReplaceEditorTool.execute(
+        { command: 'str_replace', path: 'nope.ts', old_str: 'a', new_str: 'b' },
+        context
+      )
+    ).rejects.toThrow('File not found: nope.ts');
+    await expect(
+      strReplaceEditorTool.execute({ command: 'view', path: 'a.ts', new_str: '' }, context)
+    ).rejects.toThrow('Invalid tool input');
+  });
+
+  it('emits the feature list when feature_list.json is edited', async () => {
+    const { events, context } = createContext({
+      'feature_list.json': JSON.stringify([{ description: 'A', passes: false }]),
+    });
+
+    await strReplaceEditorTool.execute(
+      {
+        command: 'str_replace',
+        path: 'feature_list.json',
+        old_str: '"passes":false',
+        new_str: '"passes":true',
+      },
+      context
+    );
+
+    expect(events[1]).toMatchObject({ type: 'feature_list', total: 1, completed: 1 });
+  });
+});
+
+describe('write_file', () => {
+  it('reports whether the file was created or modified', async () => {
+    const { events, context } = createContext({ 'old.md': '' });
+
+    await writeFileTool.execute({ path: 'new.md', content: '# New' }, context);
+    await writeFileTool.execute({ path: 'old.md', content: '# Old' }, context);
+
+    expect(events.map((event) => event.type)).toEqual(['file_created', 'file_modified']);
+  });
+});
+
+describe('delete_file', () => {
+  it('deletes files', async () => {
+    const { files, events, context } = createContext({ 'tmp.log': 'x' });
+
+    expect((await deleteFileTool.execute({ path: 'tmp.log' }, context)).isError).toBe(false);
+    expect(files).toEqual({});
+    expect(events).toEqual([{ type: 'file_deleted', path: 'tmp.log', language: undefined }]);
+  });
+
+  it('does not delete directories', async () => {
+    const { context } = createContext({}, ['src']);
+
+    expect(await deleteFileTool.execute({ path: 'src' }, context)).toMatchObject({
+      isError: true,
+    });
+  });
+});
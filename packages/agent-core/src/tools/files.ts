@@ -0,0 +1,297 @@
+/**
+ * File Tools
+ * ==========
+ *
+ * Reading, writing, editing and deleting files in the sandbox. Edits replace
+ * one exact snippet of a file, so small changes don't need the whole file
+ * written back.
+ */
+
+import { inferLanguage, type FeatureListItem } from '../events.js';
+import { parseFeatureList } from '../progress.js';
+import { quoteShellWord } from '../shell.js';
+import type { SandboxTool, ToolContext } from '../types.js';
+
+function lineCount(text: string): number {
+  return text.split('\n').length;
+}
+
+function stringInput(input: Record<string, unknown>, key: string): string | undefined {
+  return typeof input[key] === 'string' ? (input[key] as string) : undefined;
+}
+
+/**
+ * Emit the feature list when the agent writes feature_list.json, so the UI can
+ * show it before the next progress check.
+ */
+function emitFeatureList(path: string, content: string, { emit, log }: ToolContext): void {
+  if (!path.endsWith('feature_list.json')) {
+    return;
+  }
+  const features = parseFeatureList(content);
+  if (features.length === 0) {
+    return;
+  }
+  const completed = features.filter((f) => f && f.passes).length;
+  emit({
+    type: 'feature_list',
+    features: features as FeatureListItem[],
+    total: features.length,
+    completed,
+  });
+  log('info', `Feature list created: ${features.length} features (${completed} passing)`);
+}
+
+export const readFileTool: SandboxTool = {
+  name: 'read_file',
+  description: 'Read the contents of a file in the sandbox.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The file path to read',
+      },
+    },
+    required: ['path'],
+  },
+  access: 'read',
+  emits: [],
+
+  async execute(input, { sandbox, log }) {
+    const path = stringInput(input, 'path');
+    if (!path) {
+      throw new Error('Invalid tool input: read_file requires { path: string }');
+    }
+    log('tool', `read_file: ${path}`);
+
+    if (!(await sandbox.exists(path))) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    const content = await sandbox.readFile(path);
+    log('info', `[Done] Read ${path} (${content.length} bytes)`);
+    return {
+      output: content,
+      isError: false,
+      displayOutput: `Read ${path} (${content.length} bytes)`,
+    };
+  },
+};
+
+export const writeFileTool: SandboxTool = {
+  name: 'write_file',
+  description:
+    'Write content to a file in the sandbox. Creates the file if it does not exist, overwrites if it does. Use str_replace_editor to change part of an existing file.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The file path to write to',
+      },
+      content: {
+        type: 'string',
+        description: 'The content to write to the file',
+      },
+    },
+    required: ['path', 'content'],
+  },
+  access: 'write',
+  emits: ['file_created', 'file_modified', 'feature_list'],
+
+  async execute(input, context) {
+    const { sandbox, emit, log } = context;
+    const path = stringInput(input, 'path');
+    const content = stringInput(input, 'content');
+    if (!path || content === undefined) {
+      throw new Error('Invalid tool input: write_file requires { path: string, content: string }');
+    }
+    log('tool', `write_file: ${path} (${content.length} bytes)`);
+
+    const isNewFile = !(await sandbox.exists(path));
+    await sandbox.writeFile(path, content);
+
+    emit({
+      type: isNewFile ? 'file_created' : 'file_modified',
+      path,
+      size: content.length,
+      language: inferLanguage(path),
+      linesAdded: lineCount(content),
+    });
+    emitFeatureList(path, content, context);
+
+    log('info', `[Done] Wrote ${path}`);
+    return {
+      output: `Successfully wrote to ${path}`,
+      isError: false,
+      displayOutput: `Wrote ${path} (${content.length} bytes, ${lineCount(content)} lines)`,
+    };
+  },
+};
+
+/**
+ * Count the non-overlapping occurrences of `search` in `text`.
+ */
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+export const strReplaceEditorTool: SandboxTool = {
+  name: 'str_replace_editor',
+  description:
+    'Edit an existing file in place. `str_replace` replaces old_str, which must appear exactly once in the file (include enough surrounding lines to make it unique), with new_str. `insert` inserts new_str after line insert_line (0 inserts at the top). Prefer this over write_file for changes to existing files.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        enum: ['str_replace', 'insert'],
+        description: 'The edit to make',
+      },
+      path: {
+        type: 'string',
+        description: 'The file to edit',
+      },
+      old_str: {
+        type: 'string',
+        description: 'For str_replace: the exact text to replace, including whitespace',
+      },
+      new_str: {
+        type: 'string',
+        description: 'The replacement (str_replace) or inserted (insert) text',
+      },
+      insert_line: {
+        type: 'integer',
+        description: 'For insert: the line number to insert after',
+      },
+    },
+    required: ['command', 'path', 'new_str'],
+  },
+  access: 'write',
+  emits: ['file_modified', 'feature_list'],
+
+  async execute(input, context) {
+    const { sandbox, emit, log } = context;
+    const command = stringInput(input, 'command');
+    const path = stringInput(input, 'path');
+    const newStr = stringInput(input, 'new_str');
+    if ((command !== 'str_replace' && command !== 'insert') || !path || newStr === undefined) {
+      throw new Error(
+        "Invalid tool input: str_replace_editor requires { command: 'str_replace' | 'insert', path: string, new_str: string }"
+      );
+    }
+    log('tool', `str_replace_editor: ${command} ${path}`);
+
+    if (!(await sandbox.exists(path))) {
+      throw new Error(`File not found: ${path}. Use write_file to create new files`);
+    }
+    const original = await sandbox.readFile(path);
+
+    let updated: string;
+    let linesRemoved = 0;
+    if (command === 'str_replace') {
+      const oldStr = stringInput(input, 'old_str');
+      if (!oldStr) {
+        throw new Error('Invalid tool input: str_replace requires a non-empty old_str');
+      }
+      const occurrences = countOccurrences(original, oldStr);
+      if (occurrences !== 1) {
+        return {
+          output:
+            occurrences === 0
+              ? `old_str was not found in ${path}. It must match the file exactly, including whitespace; read the file again to check.`
+              : `old_str appears ${occurrences} times in ${path}. Include more surrounding lines so it matches exactly once.`,
+          isError: true,
+          error: occurrences === 0 ? 'old_str not found' : `old_str matches ${occurrences} times`,
+        };
+      }
+      const index = original.indexOf(oldStr);
+      updated = original.slice(0, index) + newStr + original.slice(index + oldStr.length);
+      linesRemoved = lineCount(oldStr);
+    } else {
+      const lines = original.split('\n');
+      const insertLine = input.insert_line;
+      if (
+        typeof insertLine !== 'number' ||
+        !Number.isInteger(insertLine) ||
+        insertLine < 0 ||
+        insertLine > lines.length
+      ) {
+        return {
+          output: `insert_line must be a line number from 0 to ${lines.length} for ${path}`,
+          isError: true,
+          error: 'Invalid insert_line',
+        };
+      }
+      lines.splice(insertLine, 0, ...newStr.split('\n'));
+      updated = lines.join('\n');
+    }
+
+    await sandbox.writeFile(path, updated);
+
+    emit({
+      type: 'file_modified',
+      path,
+      size: updated.length,
+      language: inferLanguage(path),
+      linesAdded: lineCount(newStr),
+      linesRemoved,
+    });
+    emitFeatureList(path, updated, context);
+
+    log('info', `[Done] Edited ${path}`);
+    return {
+      output: `Successfully edited ${path}`,
+      isError: false,
+      displayOutput: `Edited ${path} (+${lineCount(newStr)} -${linesRemoved} lines)`,
+    };
+  },
+};
+
+export const deleteFileTool: SandboxTool = {
+  name: 'delete_file',
+  description: 'Delete a file in the sandbox. Directories are not deleted.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The file to delete',
+      },
+    },
+    required: ['path'],
+  },
+  access: 'write',
+  emits: ['file_deleted'],
+
+  async execute(input, { sandbox, emit, log }) {
+    const path = stringInput(input, 'path');
+    if (!path) {
+      throw new Error('Invalid tool input: delete_file requires { path: string }');
+    }
+    log('tool', `delete_file: ${path}`);
+
+    if (!(await sandbox.exists(path))) {
+      throw new Error(`File not found: ${path}`);
+    }
+    if ((await sandbox.exec(`test -d ${quoteShellWord(path)}`)).exitCode === 0) {
+      return {
+        output: `${path} is a directory; delete_file only deletes files`,
+        isError: true,
+        error: 'Path is a directory',
+      };
+    }
+
+    await sandbox.remove(path);
+
+    emit({ type: 'file_deleted', path, language: inferLanguage(path) });
+
+    log('info', `[Done] Deleted ${path}`);
+    return { output: `Successfully deleted ${path}`, isError: false };
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * Sandbox Tools
+ * =============
+ *
+ * Tools the agents use to work in the sandbox, and the registry that decides
+ * which ones each harness gets.
+ */
+
+export { bashTool, BASH_TIMEOUT_MS, BACKGROUND_STARTUP_MS } from './bash.js';
+export { readFileTool, writeFileTool, strReplaceEditorTool, deleteFileTool } from './files.js';
+export { listDirTool, globTool, grepTool, globToRegExp } from './search.js';
+export {
+  registerTool,
+  getTool,
+  hasTool,
+  listTools,
+  getHarnessTools,
+  toToolDefinition,
+  type ToolRegistry,
+} from './registry.js';
+export { executeTool, type ExecuteToolOptions, type ToolExecutionEvent } from './execute.js';
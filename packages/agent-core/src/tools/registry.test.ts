@@ -0,0 +1,85 @@
+/**
+ * Tool Registry Tests
+ * ===================
+ */
+
+import { describe, it, expect } from 'vitest';
+import { codingHarness } from '../harnesses/coding.js';
+import { extendCodingHarness } from '../harnesses/custom.js';
+import type { SandboxTool } from '../types.js';
+import {
+  getHarnessTools,
+  getTool,
+  hasTool,
+  listTools,
+  registerTool,
+  toToolDefinition,
+} from './registry.js';
+
+const noteTool: SandboxTool = {
+  name: 'note',
+  description: 'Take a note',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  access: 'read',
+  emits: [],
+  execute: async () => ({ output: 'noted', isError: false }),
+};
+
+describe('tool registry', () => {
+  it('registers the built-in tools', () => {
+    expect(listTools().map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        'bash',
+        'read_file',
+        'write_file',
+        'str_replace_editor',
+        'list_dir',
+        'glob',
+        'grep',
+        'delete_file',
+      ])
+    );
+    expect(hasTool('str_replace_editor')).toBe(true);
+  });
+
+  it('throws for unknown tools, listing the registered ones', () => {
+    expect(hasTool('missing')).toBe(false);
+    expect(() => getTool('missing')).toThrow(/Tool 'missing' is not registered/);
+    expect(() => getTool('missing')).toThrow(/bash/);
+  });
+
+  it('registers more tools', () => {
+    registerTool({ ...noteTool, name: 'registry-note' });
+    expect(getTool('registry-note').description).toBe('Take a note');
+  });
+
+  it('gives harnesses the registered tools', () => {
+    expect(getHarnessTools(codingHarness)).toEqual(listTools());
+  });
+
+  it('lets harnesses add and remove tools', () => {
+    const harness = extendCodingHarness({
+      tools: {
+        add: [noteTool, { ...noteTool, name: 'grep', description: 'Custom grep' }],
+        remove: ['bash', 'delete_file'],
+      },
+    });
+
+    const tools = getHarnessTools(harness);
+    const names = tools.map((tool) => tool.name);
+
+    expect(names).not.toContain('bash');
+    expect(names).not.toContain('delete_file');
+    expect(names).toContain('note');
+    expect(names.filter((name) => name === 'grep')).toHaveLength(1);
+    expect(tools.find((tool) => tool.name === 'grep')?.description).toBe('Custom grep');
+  });
+
+  it('describes tools for the model', () => {
+    expect(toToolDefinition(noteTool)).toEqual({
+      name: 'note',
+      description: 'Take a note',
+      input_schema: noteTool.inputSchema,
+    });
+  });
+});
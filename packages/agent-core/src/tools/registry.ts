@@ -0,0 +1,105 @@
+/**
+ * Tool Registry
+ * =============
+ *
+ * Sandbox tools the agents are given. The built-in tools are registered when
+ * this module loads; more can be added with registerTool(), and a harness can
+ * add or remove tools for its own agents.
+ */
+
+import type { AgentHarness, SandboxTool, ToolDefinition } from '../types.js';
+import { bashTool } from './bash.js';
+import { deleteFileTool, readFileTool, strReplaceEditorTool, writeFileTool } from './files.js';
+import { globTool, grepTool, listDirTool } from './search.js';
+
+/**
+ * Tool registry type.
+ */
+export type ToolRegistry = Record<string, SandboxTool>;
+
+/**
+ * Default tool registry.
+ */
+const tools: ToolRegistry = {};
+
+/**
+ * Register a sandbox tool, replacing any tool with the same name.
+ *
+ * @param tool - The tool to register
+ */
+export function registerTool(tool: SandboxTool): void {
+  tools[tool.name] = tool;
+}
+
+/**
+ * Get a registered tool by name.
+ *
+ * @param name - Tool name
+ * @returns The tool if found
+ * @throws Error if tool is not registered
+ */
+export function getTool(name: string): SandboxTool {
+  const tool = tools[name];
+  if (!tool) {
+    throw new Error(
+      `Tool '${name}' is not registered. ` +
+        `Available tools: ${Object.keys(tools).join(', ') || 'none'}`
+    );
+  }
+  return tool;
+}
+
+/**
+ * Check whether a tool is registered.
+ *
+ * @param name - Tool name
+ */
+export function hasTool(name: string): boolean {
+  return name in tools;
+}
+
+/**
+ * List all registered tools, in registration order.
+ *
+ * @returns Array of tools
+ */
+export function listTools(): SandboxTool[] {
+  return Object.values(tools);
+}
+
+/**
+ * The tools a harness's agents get: the registered tools, less the ones the
+ * harness removes, plus the ones it adds.
+ *
+ * @param harness - Harness the agents run with
+ * @returns Array of tools
+ */
+export function getHarnessTools(harness: AgentHarness): SandboxTool[] {
+  const added = harness.tools?.add ?? [];
+  const excluded = new Set([...(harness.tools?.remove ?? []), ...added.map((tool) => tool.name)]);
+  return [...listTools().filter((tool) => !excluded.has(tool.name)), ...added];
+}
+
+/**
+ * Describe a tool for the model.
+ *
+ * @param tool - Tool to describe
+ * @returns The tool's name, description and input schema
+ */
+export function toToolDefinition(tool: SandboxTool): ToolDefinition {
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  };
+}
+
+// Built-in tools
+registerTool(bashTool);
+registerTool(readFileTool);
+registerTool(writeFileTool);
+registerTool(strReplaceEditorTool);
+registerTool(listDirTool);
+registerTool(globTool);
+registerTool(grepTool);
+registerTool(deleteFileTool);
@@ -0,0 +1,85 @@
+/**
+ * Search Tool Tests
+ * =================
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ExecResult, Sandbox, ToolContext } from '../types.js';
+import { globTool, globToRegExp, grepTool } from './search.js';
+
+function contextWithExec(result: Partial<ExecResult>) {
+  const commands: string[] = [];
+  const sandbox = {
+    exec: async (command: string) => {
+      commands.push(command);
+      return { stdout: '', stderr: '', exitCode: 0, ...result };
+    },
+  } as unknown as Sandbox;
+  const context: ToolContext = { sandbox, emit: () => {}, log: () => {} };
+  return { commands, context };
+}
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.ts', 'index.ts', true],
+    ['*.ts', 'src/index.ts', false],
+    ['**/*.ts', 'index.ts', true],
+    ['**/*.ts', 'src/lib/index.ts', true],
+    ['src/**', 'src/a/b.css', true],
+    ['src/{app,lib}/*.ts', 'src/lib/db.ts', true],
+    ['src/{app,lib}/*.ts', 'src/components/db.ts', false],
+    ['**/*.{ts,tsx}', 'app/page.tsx', true],
+    ['file?.md', 'file1.md', true],
+    ['[!a]*.md', 'a.md', false],
+    ['package.json', 'package-json', false],
+  ])('%s matches %s: %s', (pattern, path, matches) => {
+    expect(globToRegExp(pattern).test(path)).toBe(matches);
+  });
+});
+
+describe('glob', () => {
+  it('matches paths relative to the search directory', async () => {
+    const { commands, context } = contextWithExec({
+      stdout: 'src/b.ts\nsrc/lib/a.ts\nsrc/style.css\n',
+    });
+
+    const result = await globTool.execute({ pattern: '**/*.ts', path: 'src' }, context);
+
+    expect(commands[0]).toContain('-prune');
+    expect(result.output).toBe('src/b.ts\nsrc/lib/a.ts');
+  });
+
+  it('says when nothing matches', async () => {
+    const { context } = contextWithExec({ stdout: './README.md\n' });
+    expect((await globTool.execute({ pattern: '*.ts' }, context)).output).toBe(
+      'No files match *.ts in .'
+    );
+  });
+});
+
+describe('grep', () => {
+  it('quotes the pattern and include glob', async () => {
+    const { commands, context } = contextWithExec({ stdout: './a.ts:1:it works\n' });
+
+    const result = await grepTool.execute(
+      { pattern: "it's (ok|fine)", include: '*.ts', case_insensitive: true },
+      context
+    );
+
+    expect(commands[0]).toContain(`-i`);
+    expect(commands[0]).toContain(`'--include=*.ts' -e 'it'\\''s (ok|fine)' -- .`);
+    expect(result).toMatchObject({ output: './a.ts:1:it works', isError: false });
+  });
+
+  it('reports no matches, and grep errors', async () => {
+    expect((await grepTool.execute({ pattern: 'x' }, contextWithExec({}).context)).output).toBe(
+      'No matches for x in .'
+    );
+    expect(
+      await grepTool.execute(
+        { pattern: '(' },
+        contextWithExec({ stderr: 'grep: Unmatched ( or \\(' }).context
+      )
+    ).toMatchObject({ isError: true });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Search Tools
+ * ============
+ *
+ * Listing directories and finding files by name or content, so the agent can
+ * look around the workspace without reading whole files or going through
+ * bash. Dependency and build directories are skipped.
+ */
+
+import { quoteShellWord } from '../shell.js';
+import type { SandboxTool } from '../types.js';
+
+/** Directories glob and grep don't descend into */
+const SKIPPED_DIRS = ['node_modules', '.git', '.next'];
+
+/** Most entries, files or matching lines a search returns */
+const MAX_RESULTS = 200;
+
+/** Matching lines longer than this (usually minified code) are cut short */
+const MAX_LINE_LENGTH = 300;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern
+        .slice(i + 1, end)
+        .split(',')
+        .map(globSource)
+        .join('|')})`;
+      i = end;
+    } else if (char === '[' && pattern.indexOf(']', i + 2) > i) {
+      const end = pattern.indexOf(']', i + 2);
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile a glob into a regular expression over `/`-separated relative paths.
+ * `*` and `?` stay within one directory, `**` crosses directories, and
+ * `{a,b}` and `[abc]` work as in the shell.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern)}$`);
+}
+
+/** List at most MAX_RESULTS lines, noting how many were left out */
+function formatResults(lines: string[]): string {
+  const extra = lines.length - MAX_RESULTS;
+  return extra > 0
+    ? `${lines.slice(0, MAX_RESULTS).join('\n')}\n... and ${extra} more`
+    : lines.join('\n');
+}
+
+export const listDirTool: SandboxTool = {
+  name: 'list_dir',
+  description:
+    'List the files and directories directly inside a directory in the sandbox, with file sizes. Directories end with /.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The directory to list (defaults to the working directory)',
+      },
+    },
+  },
+  access: 'read',
+  emits: [],
+
+  async execute(input, { sandbox, log }) {
+    const path = typeof input.path === 'string' && input.path ? input.path : '.';
+    log('tool', `list_dir: ${path}`);
+
+    const entries = await sandbox.listDir(path);
+    if (entries.length === 0) {
+      return { output: `${path} is empty`, isError: false };
+    }
+
+    const lines = entries
+      .sort(
+        (a, b) =>
+          Number(b.type === 'dir') - Number(a.type === 'dir') || a.name.localeCompare(b.name)
+      )
+      .map((entry) =>
+        entry.type === 'dir'
+          ? `${entry.name}/`
+          : entry.type === 'symlink'
+            ? `${entry.name}@`
+            : `${entry.name}  (${entry.size} bytes)`
+      );
+    return {
+      output: formatResults(lines),
+      isError: false,
+      displayOutput: `${entries.length} entries in ${path}`,
+    };
+  },
+};
+
+export const globTool: SandboxTool = {
+  name: 'glob',
+  description: `Find files whose path matches a glob pattern, such as "**/*.tsx" or "src/{app,lib}/*.ts". Patterns match paths relative to the search directory; node_modules, .git and .next are skipped. Returns at most ${MAX_RESULTS} paths.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Glob pattern, relative to path',
+      },
+      path: {
+        type: 'string',
+        description: 'Directory to search (defaults to the working directory)',
+      },
+    },
+    required: ['pattern'],
+  },
+  access: 'read',
+  emits: [],
+
+  async execute(input, { sandbox, log }) {
+    const pattern = typeof input.pattern === 'string' ? input.pattern : '';
+    if (!pattern) {
+      throw new Error('Invalid tool input: glob requires { pattern: string }');
+    }
+    const root = typeof input.path === 'string' && input.path ? input.path : '.';
+    log('tool', `glob: ${pattern} in ${root}`);
+
+    const skipped = SKIPPED_DIRS.map((dir) => `-name ${quoteShellWord(dir)}`).join(' -o ');
+    const result = await sandbox.exec(
+      `find ${quoteShellWord(root)} \\( ${skipped} \\) -prune -o -type f -print`
+    );
+    if (result.exitCode !== 0 && !result.stdout) {
+      return {
+        output: result.stderr || `Could not search ${root}`,
+        isError: true,
+        error: `Exit code: ${result.exitCode}`,
+      };
+    }
+
+    const prefix = root.endsWith('/') ? root : `${root}/`;
+    const matcher = globToRegExp(pattern);
+    const matches = result.stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((path) => (path.startsWith(prefix) ? path.slice(prefix.length) : path))
+      .filter((path) => matcher.test(path))
+      .sort()
+      .map((path) => (root === '.' ? path : `${prefix}${path}`));
+
+    if (matches.length === 0) {
+      return { output: `No files match ${pattern} in ${root}`, isError: false };
+    }
+    return {
+      output: formatResults(matches),
+      isError: false,
+      displayOutput: `${matches.length} files match ${pattern}`,
+    };
+  },
+};
+
+export const grepTool: SandboxTool = {
+  name: 'grep',
+  description: `Search file contents for a regular expression (grep -E syntax). Returns matching lines as path:line:text; node_modules, .git, .next and binary files are skipped. Returns at most ${MAX_RESULTS} lines.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Extended regular expression to search for',
+      },
+      path: {
+        type: 'string',
+        description: 'File or directory to search (defaults to the working directory)',
+      },
+      include: {
+        type: 'string',
+        description: 'Only search files whose name matches this glob, e.g. "*.ts"',
+      },
+      case_insensitive: {
+        type: 'boolean',
+        description: 'Ignore case when matching',
+      },
+    },
+    required: ['pattern'],
+  },
+  access: 'read',
+  emits: [],
+
+  async execute(input, { sandbox, log }) {
+    const pattern = typeof input.pattern === 'string' ? input.pattern : '';
+    if (!pattern) {
+      throw new Error('Invalid tool input: grep requires { pattern: string }');
+    }
+    const root = typeof input.path === 'string' && input.path ? input.path : '.';
+    const include = typeof input.include === 'string' && input.include ? input.include : null;
+    log('tool', `grep: ${pattern} in ${root}`);
+
+    const args = [
+      'grep',
+      '-rnIE',
+      ...(input.case_insensitive === true ? ['-i'] : []),
+      ...SKIPPED_DIRS.map((dir) => `--exclude-dir=${dir}`),
+      ...(include ? [`--include=${include}`] : []),
+      '-e',
+      pattern,
+      '--',
+      root,
+    ];
+    const result = await sandbox.exec(
+      `${args.map(quoteShellWord).join(' ')} | head -n ${MAX_RESULTS + 1}`
+    );
+
+    const lines = result.stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line) =>
+        line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line
+      );
+    if (lines.length === 0) {
+      // grep's own exit code is lost in the pipe; errors still show on stderr
+      return result.stderr
+        ? { output: result.stderr, isError: true, error: result.stderr.split('\n')[0] }
+        : { output: `No matches for ${pattern} in ${root}`, isError: false };
+    }
+    return {
+      output:
+        lines.length > MAX_RESULTS
+          ? `${lines.slice(0, MAX_RESULTS).join('\n')}\n... more matches not shown; narrow the search`
+          : lines.join('\n'),
+      isError: false,
+      displayOutput: `${Math.min(lines.length, MAX_RESULTS)} matching lines`,
+    };
+  },
+};
@@ -5,63 +5,25 @@
  * Shared type definitions for the autonomous agents platform.
  */
 
+import type { Sandbox } from '@repo/sandbox-providers';
+import type { CommandEvent, FeatureListEvent, FileEvent } from './events.js';
+
 // ============================================================================
 // Sandbox Types
 // ============================================================================
 
-export interface ExecResult {
-  stdout: string;
-  stderr: string;
-  exitCode: number;
-}
-
-export interface AgentOutput {
-  type: 'text' | 'tool_use' | 'tool_result' | 'error';
-  content: string;
-  timestamp: Date;
-  metadata?: Record<string, unknown>;
-}
-
-export interface Sandbox {
-  id: string;
-  status: 'creating' | 'running' | 'stopped' | 'error';
-
-  /** Execute a command in the sandbox */
-  exec(command: string): Promise<ExecResult>;
-
-  /** Stream command output */
-  execStream(command: string): AsyncIterable<string>;
-
-  /** Write a file to the sandbox */
-  writeFile(path: string, content: string): Promise<void>;
-
-  /** Read a file from the sandbox */
-  readFile(path: string): Promise<string>;
-
-  /** Download directory as buffer */
-  downloadDir(path: string): Promise<Buffer>;
-
-  /** Stop and destroy the sandbox */
-  destroy(): Promise<void>;
-
-  /** Subscribe to agent output */
-  onOutput(callback: (data: AgentOutput) => void): () => void;
-}
-
-export interface SandboxConfig {
-  /** Provider-specific template/image */
-  template?: string;
-  /** Environment variables */
-  env?: Record<string, string>;
-  /** Resource limits */
-  resources?: {
-    cpu?: number;
-    memory?: string;
-    disk?: string;
-  };
-  /** Timeout in seconds */
-  timeout?: number;
-}
+// The sandbox contract lives in @repo/sandbox-providers; re-exported so agent code
+// and harnesses can keep importing it from here.
+export type {
+  ExecResult,
+  ExecOptions,
+  AgentOutput,
+  BackgroundProcess,
+  FileEntry,
+  ResourceUsage,
+  Sandbox,
+  SandboxConfig,
+} from '@repo/sandbox-providers';
 
 // ============================================================================
 // Progress Types
@@ -105,12 +67,33 @@ export interface AgentHarness {
   /** System prompt for continuation agents */
   continuationPrompt: string;
 
+  /**
+   * How builds run the harness. `sessions` (the default) runs the initializer
+   * prompt, then the continuation prompt in fresh sessions until
+   * completionCheck passes. `phased` is the coding harness's pipeline: plan a
+   * feature_list.json, build its blocking features in order, then the rest
+   * with parallel subagents, using the pipeline's own prompts.
+   */
+  flow?: 'sessions' | 'phased';
+
   /** Allowed bash commands (security) */
   allowedCommands: string[];
 
+  /** Declarative bash policy; when set, it is enforced instead of allowedCommands */
+  securityPolicy?: SecurityPolicy;
+
   /** MCP servers to enable */
   mcpServers?: McpServerConfig[];
 
+  /**
+   * Files, relative to the working directory, holding the harness's deliverable
+   * as markdown or PDF. Shown as a report instead of an app preview.
+   */
+  reportFiles?: string[];
+
+  /** Changes to the registered sandbox tools for this harness's agents */
+  tools?: HarnessTools;
+
   /** How to determine if the task is complete */
   completionCheck: (sandbox: Sandbox) => Promise<boolean>;
 
@@ -130,6 +113,12 @@ export interface SecurityHookInput {
 export interface SecurityHookResult {
   decision?: 'block';
   reason?: string;
+  /**
+   * The check that blocked the command, for audit logs: `parse`,
+   * `allowlist:<command>`, `dynamic-args:<command>`, `validator:<name>`,
+   * `deny:<command> <patterns>` or `paths`
+   */
+  rule?: string;
 }
 
 export type SecurityHook = (
@@ -138,6 +127,140 @@ export type SecurityHook = (
   context?: unknown
 ) => Promise<SecurityHookResult>;
 
+/**
+ * An argument pattern. `*` matches any run of characters, a single-letter flag
+ * like `-f` also matches bundled flags like `-uf`, and an array matches any of
+ * its patterns.
+ */
+export type ArgumentPattern = string | string[];
+
+export interface ArgumentRule {
+  /** Patterns that must all match the command's arguments, in this order */
+  args: ArgumentPattern[];
+  /** Reported when the rule blocks a command */
+  reason?: string;
+}
+
+/** Built-in validators for commands that need more than argument patterns */
+export type CommandValidatorName =
+  | 'pkill'
+  | 'kill'
+  | 'chmod'
+  | 'rm'
+  | 'npm'
+  | 'npx'
+  | 'curl'
+  | 'init.sh';
+
+export interface CommandPolicy {
+  /** Argument rules that block the command when they match */
+  deny?: ArgumentRule[];
+  /** Built-in validator the command must also pass */
+  validator?: CommandValidatorName;
+  /**
+   * Which non-flag arguments are paths the command writes, checked against the
+   * path policy: `all`, the `last` (a destination), or `move` (the last is the
+   * destination, and the others are moved away, so they must be inside a
+   * writable directory rather than the directory itself). Values of target
+   * flags such as `-t` and `--target-directory` are always checked.
+   */
+  writes?: 'all' | 'last' | 'move';
+}
+
+export interface PathPolicy {
+  /** Directories that commands and output redirections may write to */
+  writable: string[];
+  /** Directory relative paths are resolved against (default: /home/user) */
+  workingDirectory?: string;
+  /** Reported when a write is blocked */
+  reason?: string;
+}
+
+/**
+ * Declarative bash security policy. Plain data, so it can be written as JSON or
+ * YAML; commands not listed in `commands` are blocked.
+ */
+export interface SecurityPolicy {
+  commands: Record<string, CommandPolicy>;
+  paths?: PathPolicy;
+}
+
+// ============================================================================
+// Tool Types
+// ============================================================================
+
+/** JSON schema for a tool's input, in the shape the Messages API expects */
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  /** Other JSON schema keywords, such as additionalProperties */
+  [keyword: string]: unknown;
+}
+
+/** A tool as it is offered to the model */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: ToolInputSchema;
+}
+
+/**
+ * What a tool does to the sandbox, which decides how the security hook sees
+ * it: `execute` tools are checked as a Bash `command`, `write` tools as a write
+ * to their `path` input, and `read` tools are not checked.
+ */
+export type ToolAccess = 'read' | 'write' | 'execute';
+
+type ToolEventFields<T> = Omit<T, 'id' | 'timestamp' | 'buildId'>;
+
+/** Events a tool can emit; the executor adds the ID and timestamp */
+export type ToolEvent =
+  | ToolEventFields<FileEvent>
+  | ToolEventFields<CommandEvent>
+  | ToolEventFields<FeatureListEvent>;
+
+export interface ToolContext {
+  sandbox: Sandbox;
+  /** Emit an event to the build's activity feed */
+  emit: (event: ToolEvent) => void;
+  /** Add a line to the build log */
+  log: (level: 'info' | 'warn' | 'error' | 'tool', message: string) => void;
+}
+
+export interface ToolResult {
+  /** Sent back to the model */
+  output: string;
+  isError: boolean;
+  /** Shown in the activity feed instead of the start of the output */
+  displayOutput?: string;
+  /** Short description of the failure for the activity feed */
+  error?: string;
+}
+
+export interface SandboxTool {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  access: ToolAccess;
+  /** Event types the tool emits besides tool_start and tool_end */
+  emits: ToolEvent['type'][];
+  /**
+   * Run the tool. Failures the model should correct, like an edit that
+   * doesn't match, are returned with `isError`; thrown errors, including bad
+   * input, are also reported to the feed as tool errors.
+   */
+  execute: (input: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>;
+}
+
+/** How a harness changes the registered tools */
+export interface HarnessTools {
+  /** Tools added for this harness, replacing registered tools with the same name */
+  add?: SandboxTool[];
+  /** Names of registered tools this harness's agents don't get */
+  remove?: string[];
+}
+
 // ============================================================================
 // Agent Session Types
 // ============================================================================
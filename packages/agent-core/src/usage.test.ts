@@ -0,0 +1,133 @@
+/**
+ * Token Usage Tests
+ * =================
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCost,
+  countTokens,
+  createUsageTracker,
+  getBudgetOverrun,
+  getCacheHitRate,
+  getModelPricing,
+  toTokenCounts,
+  type UsageRecord,
+  type UsageTotals,
+} from './usage.js';
+
+const counts = (inputTokens: number, outputTokens: number, cacheWrite = 0, cacheRead = 0) => ({
+  inputTokens,
+  outputTokens,
+  cacheCreationInputTokens: cacheWrite,
+  cacheReadInputTokens: cacheRead,
+});
+
+describe('getModelPricing', () => {
+  it('matches the longest model ID prefix', () => {
+    expect(getModelPricing('claude-opus-4-5')?.input).toBe(5);
+    expect(getModelPricing('claude-opus-4-5-20251101')?.input).toBe(5);
+    expect(getModelPricing('claude-opus-4-1-20250805')?.input).toBe(15);
+    expect(getModelPricing('claude-sonnet-4-5')?.output).toBe(15);
+  });
+
+  it('has no pricing for unknown models', () => {
+    expect(getModelPricing('gpt-4o')).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices input, output and cache tokens per million', () => {
+    expect(calculateCost('claude-opus-4-5', counts(1_000_000, 0))).toBeCloseTo(5);
+    expect(calculateCost('claude-opus-4-5', counts(0, 1_000_000))).toBeCloseTo(25);
+    expect(calculateCost('claude-opus-4-5', counts(0, 0, 1_000_000, 1_000_000))).toBeCloseTo(6.75);
+    expect(calculateCost('claude-haiku-4-5', counts(2000, 1000))).toBeCloseTo(0.007);
+  });
+
+  it('adds web searches, and costs nothing for unknown models', () => {
+    expect(calculateCost('claude-sonnet-4-5', counts(0, 0), 3)).toBeCloseTo(0.03);
+    expect(calculateCost('unknown-model', counts(1_000_000, 1_000_000))).toBe(0);
+  });
+});
+
+describe('toTokenCounts', () => {
+  it('treats missing cache counts as zero', () => {
+    expect(
+      toTokenCounts({ input_tokens: 10, output_tokens: 5, cache_read_input_tokens: null })
+    ).toEqual(counts(10, 5));
+  });
+});
+
+describe('getCacheHitRate', () => {
+  it('is the share of input read from the cache, ignoring output', () => {
+    expect(getCacheHitRate(counts(100, 5000, 100, 800))).toBe(0.8);
+    expect(getCacheHitRate(counts(0, 0))).toBe(0);
+  });
+});
+
+describe('getBudgetOverrun', () => {
+  const totals = { ...counts(600_000, 100_000, 50_000, 250_000), costUsd: 9.5, calls: 12 };
+
+  it('counts every token a call processed', () => {
+    expect(countTokens(totals)).toBe(1_000_000);
+  });
+
+  it('is null within the budget, or without one', () => {
+    expect(getBudgetOverrun(totals, { usd: 10, tokens: 2_000_000 })).toBeNull();
+    expect(getBudgetOverrun(totals, {})).toBeNull();
+    expect(getBudgetOverrun(totals, { usd: null, tokens: null })).toBeNull();
+  });
+
+  it('describes the budget that was reached', () => {
+    expect(getBudgetOverrun(totals, { usd: 9.5 })).toBe('Spend budget reached: $9.50 of $9.50');
+    expect(getBudgetOverrun(totals, { usd: 20, tokens: 800_000 })).toBe(
+      'Token budget reached: 1,000,000 of 800,000 tokens'
+    );
+  });
+});
+
+describe('createUsageTracker', () => {
+  it('records attributed calls and keeps running totals', () => {
+    const seen: Array<[UsageRecord, UsageTotals]> = [];
+    const tracker = createUsageTracker((record, totals) => seen.push([record, totals]));
+
+    tracker.record(
+      'claude-opus-4-5',
+      { input_tokens: 1000, output_tokens: 200, cache_read_input_tokens: 5000 },
+      { phase: 'planning' }
+    );
+    const record = tracker.record(
+      'claude-opus-4-5',
+      { input_tokens: 500, output_tokens: 100 },
+      { phase: 'implementing', featureIndex: 3, feature: 'Login form' }
+    );
+
+    expect(record).toMatchObject({
+      phase: 'implementing',
+      featureIndex: 3,
+      feature: 'Login form',
+      model: 'claude-opus-4-5',
+      inputTokens: 500,
+      cacheReadInputTokens: 0,
+    });
+    expect(record.costUsd).toBeCloseTo(0.005);
+    expect(seen).toHaveLength(2);
+    expect(seen[1][1]).toMatchObject({
+      inputTokens: 1500,
+      outputTokens: 300,
+      cacheReadInputTokens: 5000,
+      calls: 2,
+    });
+    expect(tracker.totals().costUsd).toBeCloseTo(0.0175);
+  });
+
+  it('starts from the initial totals', () => {
+    const tracker = createUsageTracker(undefined, {
+      ...counts(100, 100),
+      costUsd: 1.5,
+      calls: 4,
+    });
+    tracker.record('claude-haiku-4-5', { input_tokens: 0, output_tokens: 0 }, { phase: 'chat' });
+    expect(tracker.totals()).toMatchObject({ inputTokens: 100, costUsd: 1.5, calls: 5 });
+  });
+});
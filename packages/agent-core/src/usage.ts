@@ -0,0 +1,240 @@
+/**
+ * Token Usage
+ * ===========
+ *
+ * Token counts and cost of model calls, attributed to the build phase and
+ * feature that made them.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a model call was for: a build's design research, planning,
+ * implementation and conversation summaries, or writing a spec in chat.
+ */
+export type UsagePhase =
+  | 'design_research'
+  | 'planning'
+  | 'implementing'
+  | 'summarization'
+  | 'chat'
+  | 'expand_spec';
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreationInputTokens: number;
+  /** Input tokens read from the prompt cache */
+  cacheReadInputTokens: number;
+}
+
+export interface UsageAttribution {
+  phase: UsagePhase;
+  /** Index of the feature in feature_list.json */
+  featureIndex?: number;
+  /** Feature description */
+  feature?: string;
+}
+
+/** One model call's usage */
+export interface UsageRecord extends UsageAttribution, TokenCounts {
+  model: string;
+  costUsd: number;
+}
+
+export interface UsageTotals extends TokenCounts {
+  costUsd: number;
+  /** Model calls counted */
+  calls: number;
+}
+
+/** The `usage` of a Messages API response */
+export interface MessageUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  server_tool_use?: { web_search_requests: number } | null;
+}
+
+/** Limits on a build's usage; unset limits don't apply */
+export interface UsageBudget {
+  usd?: number | null;
+  tokens?: number | null;
+}
+
+/** Prices in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Prices by model ID prefix, so dated IDs like `claude-opus-4-5-20251101` use
+ * their family's price. Cache writes are priced for the default 5 minute TTL.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+/** Price of one server-side web search, in USD */
+export const WEB_SEARCH_COST_USD = 0.01;
+
+/**
+ * Pricing for a model, matched by the longest ID prefix in MODEL_PRICING.
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/**
+ * Cost of a call in USD. Models without pricing cost nothing, so an unknown
+ * model undercounts rather than failing the build.
+ */
+export function calculateCost(model: string, counts: TokenCounts, webSearches = 0): number {
+  const pricing = getModelPricing(model);
+  const tokenCost = pricing
+    ? (counts.inputTokens * pricing.input +
+        counts.outputTokens * pricing.output +
+        counts.cacheCreationInputTokens * pricing.cacheWrite +
+        counts.cacheReadInputTokens * pricing.cacheRead) /
+      1_000_000
+    : 0;
+  return tokenCost + webSearches * WEB_SEARCH_COST_USD;
+}
+
+/**
+ * Token counts from a Messages API response's usage.
+ */
+export function toTokenCounts(usage: MessageUsage): TokenCounts {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Every token a call processed: input, cache writes and reads, and output.
+ */
+export function countTokens(counts: TokenCounts): number {
+  return (
+    counts.inputTokens +
+    counts.cacheCreationInputTokens +
+    counts.cacheReadInputTokens +
+    counts.outputTokens
+  );
+}
+
+/**
+ * Share of input tokens read from the prompt cache, from 0 to 1. 0 when
+ * there was no input.
+ */
+export function getCacheHitRate(counts: TokenCounts): number {
+  const input = counts.inputTokens + counts.cacheCreationInputTokens + counts.cacheReadInputTokens;
+  return input > 0 ? counts.cacheReadInputTokens / input : 0;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * Why usage has reached a budget, or null while it's within it.
+ */
+export function getBudgetOverrun(totals: UsageTotals, budget: UsageBudget): string | null {
+  if (budget.usd != null && totals.costUsd >= budget.usd) {
+    return `Spend budget reached: $${totals.costUsd.toFixed(2)} of $${budget.usd.toFixed(2)}`;
+  }
+  const tokens = countTokens(totals);
+  if (budget.tokens != null && tokens >= budget.tokens) {
+    return (
+      `Token budget reached: ${tokens.toLocaleString('en-US')} of ` +
+      `${budget.tokens.toLocaleString('en-US')} tokens`
+    );
+  }
+  return null;
+}
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    calls: 0,
+  };
+}
+
+export function addUsage(
+  totals: UsageTotals,
+  record: TokenCounts & { costUsd: number }
+): UsageTotals {
+  return {
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    cacheCreationInputTokens: totals.cacheCreationInputTokens + record.cacheCreationInputTokens,
+    cacheReadInputTokens: totals.cacheReadInputTokens + record.cacheReadInputTokens,
+    costUsd: totals.costUsd + record.costUsd,
+    calls: totals.calls + 1,
+  };
+}
+
+export interface UsageTracker {
+  /** Count a response's usage and pass it to the tracker's listener */
+  record(model: string, usage: MessageUsage, attribution: UsageAttribution): UsageRecord;
+  /** Totals of every call recorded, plus the initial totals */
+  totals(): UsageTotals;
+}
+
+/**
+ * Keep running totals of a build's model calls.
+ *
+ * @param onRecord - Called with each call's usage and the totals including it
+ * @param initialTotals - Usage already recorded, e.g. before a build was resumed
+ */
+export function createUsageTracker(
+  onRecord?: (record: UsageRecord, totals: UsageTotals) => void,
+  initialTotals: UsageTotals = emptyUsageTotals()
+): UsageTracker {
+  let totals = { ...initialTotals };
+
+  return {
+    record(model, usage, attribution) {
+      const counts = toTokenCounts(usage);
+      const record: UsageRecord = {
+        ...attribution,
+        model,
+        ...counts,
+        costUsd: calculateCost(model, counts, usage.server_tool_use?.web_search_requests ?? 0),
+      };
+      totals = addUsage(totals, record);
+      onRecord?.(record, { ...totals });
+      return record;
+    },
+    totals: () => ({ ...totals }),
+  };
+}
@@ -5,6 +5,8 @@ export default defineConfig({
     'src/index.ts',
     'src/agent.ts',
     'src/security.ts',
+    'src/policy.ts',
+    'src/shell.ts',
     'src/progress.ts',
     'src/prompts.ts',
     'src/types.ts',
@@ -12,6 +14,9 @@ export default defineConfig({
     'src/harnesses/index.ts',
     'src/harnesses/coding.ts',
     'src/harnesses/custom.ts',
+    'src/harnesses/research.ts',
+    'src/harnesses/registry.ts',
+    'src/tools/index.ts',
   ],
   format: ['esm'],
   // Note: DTS disabled due to Claude Agent SDK type compatibility issues
@@ -22,11 +27,16 @@ export default defineConfig({
       'src/types.ts',
       'src/events.ts',
       'src/security.ts',
+      'src/policy.ts',
+      'src/shell.ts',
       'src/progress.ts',
       'src/prompts.ts',
       'src/harnesses/index.ts',
       'src/harnesses/coding.ts',
       'src/harnesses/custom.ts',
+      'src/harnesses/research.ts',
+      'src/harnesses/registry.ts',
+      'src/tools/index.ts',
     ],
   },
   clean: true,
@@ -0,0 +1,3 @@
+-- Add default sandbox provider preferences for users and projects
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "defaultSandboxProvider" TEXT;
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "defaultSandboxProvider" TEXT;
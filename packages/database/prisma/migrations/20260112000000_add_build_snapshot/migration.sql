@@ -0,0 +1,2 @@
+-- Record the provider snapshot of a paused build's sandbox
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "snapshotId" TEXT;
@@ -0,0 +1,20 @@
+-- Audit trail of sandboxes destroyed by the orphaned sandbox reaper
+CREATE TABLE IF NOT EXISTS "reaped_sandboxes" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "provider" TEXT NOT NULL,
+    "sandboxId" TEXT NOT NULL,
+    "kind" VARCHAR(20) NOT NULL,
+    "reason" VARCHAR(50) NOT NULL,
+    "buildId" TEXT,
+    "buildStatus" VARCHAR(30),
+    "error" TEXT,
+
+    CONSTRAINT "reaped_sandboxes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "reaped_sandboxes_buildId_idx" ON "reaped_sandboxes"("buildId");
+CREATE INDEX IF NOT EXISTS "reaped_sandboxes_createdAt_idx" ON "reaped_sandboxes"("createdAt");
+
+ALTER TABLE "reaped_sandboxes" DROP CONSTRAINT IF EXISTS "reaped_sandboxes_buildId_fkey";
+ALTER TABLE "reaped_sandboxes" ADD CONSTRAINT "reaped_sandboxes_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES "builds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
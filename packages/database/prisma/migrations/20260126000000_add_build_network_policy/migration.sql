@@ -0,0 +1,2 @@
+-- Record the network egress policy a build's sandbox ran under
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "networkPolicy" JSONB;
@@ -0,0 +1,19 @@
+-- Audit trail of commands typed into interactive build sandbox terminals
+CREATE TABLE IF NOT EXISTS "terminal_commands" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "buildId" TEXT,
+    "sandboxId" TEXT NOT NULL,
+    "sessionId" VARCHAR(50) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "command" TEXT NOT NULL,
+
+    CONSTRAINT "terminal_commands_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "terminal_commands_buildId_idx" ON "terminal_commands"("buildId");
+CREATE INDEX IF NOT EXISTS "terminal_commands_userId_idx" ON "terminal_commands"("userId");
+CREATE INDEX IF NOT EXISTS "terminal_commands_createdAt_idx" ON "terminal_commands"("createdAt");
+
+ALTER TABLE "terminal_commands" DROP CONSTRAINT IF EXISTS "terminal_commands_buildId_fkey";
+ALTER TABLE "terminal_commands" ADD CONSTRAINT "terminal_commands_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES "builds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
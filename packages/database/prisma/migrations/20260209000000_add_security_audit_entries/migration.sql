@@ -0,0 +1,24 @@
+-- Every security hook decision on an agent tool call
+CREATE TABLE IF NOT EXISTS "security_audit_entries" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "buildId" TEXT NOT NULL,
+    "harnessId" VARCHAR(50) NOT NULL,
+    "toolName" VARCHAR(50) NOT NULL,
+    "toolUseId" TEXT,
+    "input" JSONB NOT NULL,
+    "command" TEXT,
+    "decision" VARCHAR(10) NOT NULL,
+    "rule" TEXT,
+    "reason" TEXT,
+
+    CONSTRAINT "security_audit_entries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "security_audit_entries_buildId_idx" ON "security_audit_entries"("buildId");
+CREATE INDEX IF NOT EXISTS "security_audit_entries_buildId_decision_idx" ON "security_audit_entries"("buildId", "decision");
+CREATE INDEX IF NOT EXISTS "security_audit_entries_decision_createdAt_idx" ON "security_audit_entries"("decision", "createdAt");
+CREATE INDEX IF NOT EXISTS "security_audit_entries_createdAt_idx" ON "security_audit_entries"("createdAt");
+
+ALTER TABLE "security_audit_entries" DROP CONSTRAINT IF EXISTS "security_audit_entries_buildId_fkey";
+ALTER TABLE "security_audit_entries" ADD CONSTRAINT "security_audit_entries_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES "builds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
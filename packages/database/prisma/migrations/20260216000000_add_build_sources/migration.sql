@@ -0,0 +1,2 @@
+-- Attachments a build's agent reads from its sandbox (research sources)
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "sources" JSONB;
@@ -0,0 +1,26 @@
+-- Tokens and cost of each model call, by build, phase and feature
+CREATE TABLE IF NOT EXISTS "token_usage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "buildId" TEXT,
+    "userId" TEXT,
+    "phase" VARCHAR(30) NOT NULL,
+    "featureIndex" INTEGER,
+    "feature" TEXT,
+    "model" VARCHAR(100) NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "cacheCreationInputTokens" INTEGER NOT NULL DEFAULT 0,
+    "cacheReadInputTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "token_usage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "token_usage_buildId_idx" ON "token_usage"("buildId");
+CREATE INDEX IF NOT EXISTS "token_usage_buildId_phase_idx" ON "token_usage"("buildId", "phase");
+CREATE INDEX IF NOT EXISTS "token_usage_userId_createdAt_idx" ON "token_usage"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "token_usage_createdAt_idx" ON "token_usage"("createdAt");
+
+ALTER TABLE "token_usage" DROP CONSTRAINT IF EXISTS "token_usage_buildId_fkey";
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES "builds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
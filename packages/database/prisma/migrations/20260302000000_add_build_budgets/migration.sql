@@ -0,0 +1,9 @@
+-- Per-build token and spend budgets, with user and project defaults for new builds
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "buildBudgetUsd" DOUBLE PRECISION;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "buildBudgetTokens" INTEGER;
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "buildBudgetUsd" DOUBLE PRECISION;
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "buildBudgetTokens" INTEGER;
+
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "budgetUsd" DOUBLE PRECISION;
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "budgetTokens" INTEGER;
@@ -0,0 +1,2 @@
+-- Model each build role runs on, chosen when the build is created
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "models" JSONB;
@@ -4,10 +4,20 @@
  */
 
 import { prisma } from '../client.js';
-import type { Build, BuildLog, BuildStatus } from '@prisma/client';
+import type { Build, BuildLog, BuildStatus, Prisma } from '@prisma/client';
 
 export type ComplexityTier = 'simple' | 'standard' | 'production';
 
+/**
+ * An uploaded attachment the agent can read from its sandbox.
+ */
+export interface BuildSource {
+  name: string;
+  storageKey: string;
+  type: string;
+  size: number;
+}
+
 export interface CreateBuildInput {
   userId: string;
   projectId?: string;
@@ -15,10 +25,16 @@ export interface CreateBuildInput {
   appSpecId?: string;
   harnessId?: string;
   sandboxProvider?: string;
+  sources?: BuildSource[];
   // Complexity configuration
   complexityTier?: ComplexityTier;
   targetFeatureCount?: number;
   complexityInferred?: boolean;
+  /** Model for each build role (BuildModelRouting) */
+  models?: Record<string, string>;
+  // Budgets (the build pauses when its usage reaches either)
+  budgetUsd?: number | null;
+  budgetTokens?: number | null;
   // Review gates (optional approval checkpoints)
   reviewGatesEnabled?: boolean;
 }
@@ -68,6 +84,7 @@ export function getTierDetails(tier: ComplexityTier) {
 
 export interface UpdateBuildInput {
   sandboxId?: string;
+  networkPolicy?: Record<string, unknown>;
   status?: BuildStatus;
   progress?: Record<string, unknown>;
   startedAt?: Date;
@@ -79,11 +96,16 @@ export interface UpdateBuildInput {
   previewPort?: number;
   previewExpiresAt?: Date;
   previewStartedAt?: Date;
+  previewSandboxId?: string;
   // Pause/Resume checkpoint fields
   pausedAt?: Date | null;
   pauseReason?: string | null;
   checkpointData?: Record<string, unknown>;
   conversationHistory?: Record<string, unknown>[];
+  snapshotId?: string | null;
+  // Budgets
+  budgetUsd?: number | null;
+  budgetTokens?: number | null;
   // Review gate approval timestamps
   designApprovedAt?: Date;
   featuresApprovedAt?: Date;
@@ -123,9 +145,13 @@ export async function createBuild(input: CreateBuildInput): Promise<Build> {
       appSpec: input.appSpec,
       harnessId: input.harnessId ?? 'coding',
       sandboxProvider: input.sandboxProvider ?? 'e2b',
+      sources: input.sources as unknown as Prisma.InputJsonArray | undefined,
       complexityTier: tier,
       targetFeatureCount,
       complexityInferred: input.complexityInferred ?? true,
+      models: input.models,
+      budgetUsd: input.budgetUsd,
+      budgetTokens: input.budgetTokens,
       reviewGatesEnabled: input.reviewGatesEnabled ?? false,
     },
   });
@@ -253,6 +279,7 @@ export async function pauseBuild(
     checkpointData?: object;
     conversationHistory?: object;
     artifactKey?: string;
+    snapshotId?: string;
   }
 ): Promise<Build> {
   return prisma.build.update({
@@ -264,6 +291,7 @@ export async function pauseBuild(
       checkpointData: options.checkpointData,
       conversationHistory: options.conversationHistory,
       ...(options.artifactKey && { artifactKey: options.artifactKey }),
+      ...(options.snapshotId && { snapshotId: options.snapshotId }),
     },
   });
 }
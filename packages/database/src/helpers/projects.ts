@@ -14,7 +14,10 @@ export interface CreateProjectInput {
 
 export interface UpdateProjectInput {
   name?: string;
-  description?: string;
+  description?: string | null;
+  defaultSandboxProvider?: string | null;
+  buildBudgetUsd?: number | null;
+  buildBudgetTokens?: number | null;
 }
 
 export interface ListProjectsOptions {
@@ -0,0 +1,87 @@
+/**
+ * Sandbox Reaper Data Access Helpers
+ * ==================================
+ *
+ * Lookups that tie provider sandboxes back to builds, and the audit trail of
+ * sandboxes the orphan reaper destroyed.
+ */
+
+import { prisma } from '../client.js';
+import type { Build, BuildStatus, ReapedSandbox } from '@prisma/client';
+
+/** Build statuses after which a build never needs its sandbox again */
+export const TERMINAL_BUILD_STATUSES: BuildStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+export interface RecordReapedSandboxInput {
+  provider: string;
+  sandboxId: string;
+  kind: 'sandbox' | 'snapshot';
+  reason: string;
+  buildId?: string;
+  buildStatus?: BuildStatus;
+  error?: string;
+}
+
+// ============================================================================
+// Sandbox Lookups
+// ============================================================================
+
+/**
+ * Find builds that reference any of the given sandboxes, as their build sandbox
+ * or their preview sandbox.
+ */
+export async function findBuildsBySandboxIds(
+  provider: string,
+  sandboxIds: string[]
+): Promise<Build[]> {
+  if (sandboxIds.length === 0) {
+    return [];
+  }
+
+  return prisma.build.findMany({
+    where: {
+      sandboxProvider: provider,
+      OR: [{ sandboxId: { in: sandboxIds } }, { previewSandboxId: { in: sandboxIds } }],
+    },
+  });
+}
+
+/**
+ * Find finished builds that still hold a sandbox snapshot.
+ */
+export async function findBuildsWithStaleSnapshots(): Promise<Build[]> {
+  return prisma.build.findMany({
+    where: {
+      snapshotId: { not: null },
+      status: { in: TERMINAL_BUILD_STATUSES },
+    },
+  });
+}
+
+// ============================================================================
+// Audit Trail
+// ============================================================================
+
+/**
+ * Record a sandbox or snapshot the reaper destroyed (or tried to).
+ */
+export async function recordReapedSandbox(input: RecordReapedSandboxInput): Promise<ReapedSandbox> {
+  return prisma.reapedSandbox.create({
+    data: input,
+  });
+}
+
+/**
+ * List reaper audit entries, newest first.
+ */
+export async function listReapedSandboxes(
+  options: { buildId?: string; limit?: number } = {}
+): Promise<ReapedSandbox[]> {
+  const { buildId, limit = 100 } = options;
+
+  return prisma.reapedSandbox.findMany({
+    where: buildId ? { buildId } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
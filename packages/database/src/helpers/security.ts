@@ -0,0 +1,173 @@
+/**
+ * Security Audit Data Access Helpers
+ * ==================================
+ *
+ * Audit trail of the security hook's decisions on agent tool calls, and reports
+ * across builds for tuning harness allowlists.
+ */
+
+import { prisma } from '../client.js';
+import type { Prisma, SecurityAuditEntry } from '@prisma/client';
+
+export type SecurityDecision = 'allow' | 'block';
+
+export interface RecordSecurityAuditEntryInput {
+  buildId: string;
+  harnessId: string;
+  toolName: string;
+  toolUseId?: string;
+  input: Record<string, unknown>;
+  command?: string;
+  decision: SecurityDecision;
+  rule?: string;
+  reason?: string;
+}
+
+export interface SecurityAuditReportOptions {
+  /** Only include builds owned by this user */
+  userId?: string;
+  harnessId?: string;
+  /** Only include entries recorded at or after this time */
+  since?: Date;
+  /** Rows in each top-N list */
+  limit?: number;
+}
+
+export interface SecurityAuditReport {
+  allowed: number;
+  blocked: number;
+  /** Builds with at least one recorded decision */
+  builds: number;
+  harnesses: Array<{ harnessId: string; allowed: number; blocked: number }>;
+  /** Rules that blocked the most tool calls */
+  topRules: Array<{ rule: string; count: number }>;
+  /** Commands blocked most often, verbatim */
+  topBlockedCommands: Array<{ command: string; count: number }>;
+}
+
+// ============================================================================
+// Audit Trail
+// ============================================================================
+
+/**
+ * Record a security hook decision on a tool call.
+ */
+export async function recordSecurityAuditEntry(
+  input: RecordSecurityAuditEntryInput
+): Promise<SecurityAuditEntry> {
+  return prisma.securityAuditEntry.create({
+    data: {
+      ...input,
+      input: input.input as Prisma.JsonObject,
+    },
+  });
+}
+
+/**
+ * List a build's security audit entries, newest first.
+ */
+export async function listSecurityAuditEntries(
+  buildId: string,
+  options: { decision?: SecurityDecision; limit?: number } = {}
+): Promise<SecurityAuditEntry[]> {
+  const { decision, limit = 100 } = options;
+
+  return prisma.securityAuditEntry.findMany({
+    where: {
+      buildId,
+      ...(decision && { decision }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Count a build's allowed and blocked tool calls.
+ */
+export async function countSecurityAuditEntries(
+  buildId: string
+): Promise<{ allowed: number; blocked: number }> {
+  const result = await prisma.securityAuditEntry.groupBy({
+    by: ['decision'],
+    where: { buildId },
+    _count: { decision: true },
+  });
+
+  const count = (decision: SecurityDecision) =>
+    result.find((r) => r.decision === decision)?._count.decision ?? 0;
+  return { allowed: count('allow'), blocked: count('block') };
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Aggregate security decisions across builds: how often each harness's commands
+ * are blocked, and by which rules, to show where an allowlist is too tight (the
+ * agent keeps asking for the same command) or a rule never fires.
+ */
+export async function getSecurityAuditReport(
+  options: SecurityAuditReportOptions = {}
+): Promise<SecurityAuditReport> {
+  const { userId, harnessId, since, limit = 10 } = options;
+
+  const where: Prisma.SecurityAuditEntryWhereInput = {
+    ...(userId && { build: { userId } }),
+    ...(harnessId && { harnessId }),
+    ...(since && { createdAt: { gte: since } }),
+  };
+  const blockedWhere: Prisma.SecurityAuditEntryWhereInput = { ...where, decision: 'block' };
+
+  const [byHarness, byBuild, byRule, byCommand] = await Promise.all([
+    prisma.securityAuditEntry.groupBy({
+      by: ['harnessId', 'decision'],
+      where,
+      _count: { decision: true },
+    }),
+    prisma.securityAuditEntry.groupBy({
+      by: ['buildId'],
+      where,
+    }),
+    prisma.securityAuditEntry.groupBy({
+      by: ['rule'],
+      where: { ...blockedWhere, rule: { not: null } },
+      _count: { rule: true },
+      orderBy: { _count: { rule: 'desc' } },
+      take: limit,
+    }),
+    prisma.securityAuditEntry.groupBy({
+      by: ['command'],
+      where: { ...blockedWhere, command: { not: null } },
+      _count: { command: true },
+      orderBy: { _count: { command: 'desc' } },
+      take: limit,
+    }),
+  ]);
+
+  const harnesses = new Map<string, { harnessId: string; allowed: number; blocked: number }>();
+  for (const row of byHarness) {
+    const entry = harnesses.get(row.harnessId) ?? {
+      harnessId: row.harnessId,
+      allowed: 0,
+      blocked: 0,
+    };
+    entry[row.decision === 'block' ? 'blocked' : 'allowed'] += row._count.decision;
+    harnesses.set(row.harnessId, entry);
+  }
+
+  return {
+    allowed: [...harnesses.values()].reduce((sum, h) => sum + h.allowed, 0),
+    blocked: [...harnesses.values()].reduce((sum, h) => sum + h.blocked, 0),
+    builds: byBuild.length,
+    harnesses: [...harnesses.values()].sort(
+      (a, b) => b.allowed + b.blocked - (a.allowed + a.blocked)
+    ),
+    topRules: byRule.map((r) => ({ rule: r.rule as string, count: r._count.rule })),
+    topBlockedCommands: byCommand.map((r) => ({
+      command: r.command as string,
+      count: r._count.command,
+    })),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Terminal Audit Data Access Helpers
+ * ==================================
+ *
+ * Audit trail of commands typed into interactive terminals on build sandboxes.
+ */
+
+import { prisma } from '../client.js';
+import type { TerminalCommand } from '@prisma/client';
+
+export interface RecordTerminalCommandInput {
+  buildId: string;
+  sandboxId: string;
+  sessionId: string;
+  userId: string;
+  command: string;
+}
+
+/**
+ * Record a command submitted in a build sandbox terminal.
+ */
+export async function recordTerminalCommand(
+  input: RecordTerminalCommandInput
+): Promise<TerminalCommand> {
+  return prisma.terminalCommand.create({
+    data: input,
+  });
+}
+
+/**
+ * List terminal commands typed for a build, newest first.
+ */
+export async function listTerminalCommands(
+  buildId: string,
+  options: { limit?: number } = {}
+): Promise<TerminalCommand[]> {
+  const { limit = 100 } = options;
+
+  return prisma.terminalCommand.findMany({
+    where: { buildId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * Token Usage Data Access Helpers
+ * ===============================
+ *
+ * Tokens and cost of each model call, with totals per build, phase and feature
+ * for the build monitor and the dashboard.
+ */
+
+import { prisma } from '../client.js';
+import type { Prisma, TokenUsage } from '@prisma/client';
+
+export interface RecordTokenUsageInput {
+  buildId?: string;
+  userId?: string;
+  phase: string;
+  featureIndex?: number;
+  feature?: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export interface TokenUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  /** Model calls counted */
+  calls: number;
+}
+
+export interface BuildUsage {
+  totals: TokenUsageTotals;
+  phases: Array<TokenUsageTotals & { phase: string }>;
+  /** Calls made while implementing a feature, by feature index */
+  features: Array<TokenUsageTotals & { featureIndex: number; feature: string | null }>;
+  models: Array<TokenUsageTotals & { model: string }>;
+}
+
+export interface UserUsageReport {
+  totals: TokenUsageTotals;
+  phases: Array<TokenUsageTotals & { phase: string }>;
+}
+
+const USAGE_SUMS = {
+  inputTokens: true,
+  outputTokens: true,
+  cacheCreationInputTokens: true,
+  cacheReadInputTokens: true,
+  costUsd: true,
+} as const;
+
+type UsageSums = { [K in keyof typeof USAGE_SUMS]: number | null };
+
+function toTotals(sums: UsageSums, calls: number): TokenUsageTotals {
+  return {
+    inputTokens: sums.inputTokens ?? 0,
+    outputTokens: sums.outputTokens ?? 0,
+    cacheCreationInputTokens: sums.cacheCreationInputTokens ?? 0,
+    cacheReadInputTokens: sums.cacheReadInputTokens ?? 0,
+    costUsd: sums.costUsd ?? 0,
+    calls,
+  };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record the usage of one model call.
+ */
+export async function recordTokenUsage(input: RecordTokenUsageInput): Promise<TokenUsage> {
+  return prisma.tokenUsage.create({ data: input });
+}
+
+// ============================================================================
+// Totals
+// ============================================================================
+
+/**
+ * Total usage of the calls matching a filter.
+ */
+export async function getTokenUsageTotals(
+  where: Prisma.TokenUsageWhereInput
+): Promise<TokenUsageTotals> {
+  const result = await prisma.tokenUsage.aggregate({
+    where,
+    _sum: USAGE_SUMS,
+    _count: { _all: true },
+  });
+  return toTotals(result._sum, result._count._all);
+}
+
+/**
+ * A build's usage, in total and split by phase, feature and model.
+ */
+export async function getBuildUsage(buildId: string): Promise<BuildUsage> {
+  const [totals, byPhase, byFeature, byModel] = await Promise.all([
+    getTokenUsageTotals({ buildId }),
+    prisma.tokenUsage.groupBy({
+      by: ['phase'],
+      where: { buildId },
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+    }),
+    prisma.tokenUsage.groupBy({
+      by: ['featureIndex', 'feature'],
+      where: { buildId, featureIndex: { not: null } },
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+      orderBy: { featureIndex: 'asc' },
+    }),
+    prisma.tokenUsage.groupBy({
+      by: ['model'],
+      where: { buildId },
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    totals,
+    phases: byPhase
+      .map((row) => ({ phase: row.phase, ...toTotals(row._sum, row._count._all) }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    features: byFeature.map((row) => ({
+      featureIndex: row.featureIndex as number,
+      feature: row.feature,
+      ...toTotals(row._sum, row._count._all),
+    })),
+    models: byModel
+      .map((row) => ({ model: row.model, ...toTotals(row._sum, row._count._all) }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+/**
+ * Cost in USD of each of the given builds. Builds without recorded usage are
+ * left out.
+ */
+export async function getBuildCosts(buildIds: string[]): Promise<Record<string, number>> {
+  if (buildIds.length === 0) {
+    return {};
+  }
+
+  const result = await prisma.tokenUsage.groupBy({
+    by: ['buildId'],
+    where: { buildId: { in: buildIds } },
+    _sum: { costUsd: true },
+  });
+
+  return Object.fromEntries(result.map((row) => [row.buildId as string, row._sum.costUsd ?? 0]));
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * A user's usage across their builds and spec chats, by phase.
+ */
+export async function getUserUsageReport(
+  userId: string,
+  options: { since?: Date } = {}
+): Promise<UserUsageReport> {
+  const where: Prisma.TokenUsageWhereInput = {
+    userId,
+    ...(options.since && { createdAt: { gte: options.since } }),
+  };
+
+  const [totals, byPhase] = await Promise.all([
+    getTokenUsageTotals(where),
+    prisma.tokenUsage.groupBy({
+      by: ['phase'],
+      where,
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    totals,
+    phases: byPhase
+      .map((row) => ({ phase: row.phase, ...toTotals(row._sum, row._count._all) }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
@@ -15,6 +15,9 @@ export interface CreateUserInput {
 export interface UpdateUserInput {
   email?: string;
   name?: string;
+  defaultSandboxProvider?: string | null;
+  buildBudgetUsd?: number | null;
+  buildBudgetTokens?: number | null;
 }
 
 /**
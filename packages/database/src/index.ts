@@ -17,6 +17,10 @@ export * from './helpers/builds.js';
 export * from './helpers/chats.js';
 export * from './helpers/appspecs.js';
 export * from './helpers/events.js';
+export * from './helpers/sandboxes.js';
+export * from './helpers/terminals.js';
+export * from './helpers/security.js';
+export * from './helpers/usage.js';
 
 // Re-export types from helpers
 export type { ChatMessage } from './helpers/chats.js';
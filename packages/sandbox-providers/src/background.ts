@@ -0,0 +1,163 @@
+/**
+ * Background Process Utilities
+ * ============================
+ *
+ * Provider-independent plumbing for BackgroundProcess handles and ExecOptions
+ * limits. Providers only need to start a process, feed its output into a
+ * ProcessLog and report its exit code; timeouts and aborts are layered on top.
+ */
+
+import type { BackgroundProcess, ExecOptions, ExecResult } from './interface.js';
+
+/** Exit code reported when a command hits its timeout (matches coreutils `timeout`) */
+export const TIMEOUT_EXIT_CODE = 124;
+
+/** Exit code reported when a command is aborted (matches a shell killed by SIGINT) */
+export const ABORT_EXIT_CODE = 130;
+
+/** Output kept per process; older output is dropped first */
+const MAX_BUFFERED_CHARS = 8 * 1024 * 1024;
+
+/**
+ * Output buffer for a running process.
+ * Every logs() consumer gets the buffered output first, then live output until close().
+ */
+export class ProcessLog {
+  private chunks: string[] = [];
+  /** Number of chunks dropped from the front of `chunks` */
+  private dropped = 0;
+  private bufferedChars = 0;
+  private stdout = '';
+  private stderr = '';
+  private closed = false;
+  private waiters: Set<() => void> = new Set();
+
+  /**
+   * Append output from the process.
+   */
+  push(content: string, stream: 'stdout' | 'stderr'): void {
+    if (this.closed || !content) {
+      return;
+    }
+
+    if (stream === 'stdout') {
+      this.stdout = keepTail(this.stdout + content);
+    } else {
+      this.stderr = keepTail(this.stderr + content);
+    }
+
+    this.chunks.push(content);
+    this.bufferedChars += content.length;
+    while (this.bufferedChars > MAX_BUFFERED_CHARS && this.chunks.length > 1) {
+      this.bufferedChars -= this.chunks.shift()!.length;
+      this.dropped++;
+    }
+
+    this.wake();
+  }
+
+  /**
+   * Mark the process as exited. Open log streams end once drained.
+   */
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  /**
+   * Build the final result for the process.
+   */
+  result(exitCode: number): ExecResult {
+    return { stdout: this.stdout, stderr: this.stderr, exitCode };
+  }
+
+  /**
+   * Yield buffered output, then live output until the process exits.
+   */
+  async *stream(): AsyncIterable<string> {
+    let cursor = this.dropped;
+    for (;;) {
+      // Skip anything dropped while this consumer was behind
+      cursor = Math.max(cursor, this.dropped);
+      const index = cursor - this.dropped;
+
+      if (index < this.chunks.length) {
+        cursor++;
+        yield this.chunks[index];
+        continue;
+      }
+      if (this.closed) {
+        return;
+      }
+      await new Promise<void>((resolve) => this.waiters.add(resolve));
+    }
+  }
+
+  private wake(): void {
+    for (const resolve of this.waiters) {
+      resolve();
+    }
+    this.waiters.clear();
+  }
+}
+
+function keepTail(text: string): string {
+  return text.length > MAX_BUFFERED_CHARS ? text.slice(-MAX_BUFFERED_CHARS) : text;
+}
+
+/**
+ * Enforce ExecOptions.timeoutMs and ExecOptions.signal on a running process.
+ * The process is killed when either fires, and wait() reports it through the exit
+ * code (124 for timeouts, 130 for aborts) with a note appended to stderr.
+ */
+export function applyExecLimits(
+  process: BackgroundProcess,
+  options: ExecOptions = {}
+): BackgroundProcess {
+  const { timeoutMs, signal } = options;
+  if (!timeoutMs && !signal) {
+    return process;
+  }
+
+  let stopReason: { exitCode: number; message: string } | null = null;
+  const stop = (exitCode: number, message: string) => {
+    stopReason ??= { exitCode, message };
+    process.kill().catch(() => {
+      // Already gone
+    });
+  };
+
+  const onAbort = () => stop(ABORT_EXIT_CODE, 'Command aborted');
+  const timer = timeoutMs
+    ? setTimeout(() => stop(TIMEOUT_EXIT_CODE, `Command timed out after ${timeoutMs}ms`), timeoutMs)
+    : null;
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const finished = process.wait().then((result): ExecResult => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    signal?.removeEventListener('abort', onAbort);
+
+    if (!stopReason) {
+      return result;
+    }
+    const separator = result.stderr && !result.stderr.endsWith('\n') ? '\n' : '';
+    return {
+      stdout: result.stdout,
+      stderr: `${result.stderr}${separator}${stopReason.message}`,
+      exitCode: stopReason.exitCode,
+    };
+  });
+
+  return {
+    pid: process.pid,
+    logs: () => process.logs(),
+    kill: () => process.kill(),
+    wait: () => finished,
+  };
+}
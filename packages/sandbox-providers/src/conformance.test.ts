@@ -0,0 +1,50 @@
+/**
+ * Provider Conformance Tests
+ * ==========================
+ *
+ * Runs the shared conformance suite against every provider. The local provider
+ * always runs; the others need their runtime or credentials:
+ * - docker: SANDBOX_CONFORMANCE_DOCKER=true and a Docker daemon
+ * - e2b: E2B_API_KEY
+ * - daytona: DAYTONA_API_KEY
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll } from 'vitest';
+import { describeProviderConformance } from './conformance.js';
+import { DaytonaProvider } from './daytona.js';
+import { DockerProvider } from './docker.js';
+import { E2BProvider } from './e2b.js';
+import { LocalProcessProvider } from './local.js';
+
+let localBaseDir: string | undefined;
+
+afterAll(async () => {
+  if (localBaseDir) {
+    await rm(localBaseDir, { recursive: true, force: true });
+  }
+});
+
+describeProviderConformance(
+  'local',
+  async () => {
+    localBaseDir = await mkdtemp(join(tmpdir(), 'conformance-local-'));
+    return new LocalProcessProvider({ baseDir: localBaseDir });
+  },
+  { testTimeoutMs: 10_000 }
+);
+
+describeProviderConformance('docker', () => new DockerProvider(), {
+  skip: process.env.SANDBOX_CONFORMANCE_DOCKER !== 'true',
+});
+
+describeProviderConformance('e2b', () => new E2BProvider(), {
+  config: { template: 'base' },
+  skip: !process.env.E2B_API_KEY,
+});
+
+describeProviderConformance('daytona', () => new DaytonaProvider(), {
+  skip: !process.env.DAYTONA_API_KEY,
+});
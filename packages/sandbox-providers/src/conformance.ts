@@ -0,0 +1,341 @@
+/**
+ * Provider Conformance Suite
+ * ==========================
+ *
+ * Behaviors every SandboxProvider must share, packaged as a vitest suite so any
+ * implementation can be checked against the same contract:
+ *
+ * ```ts
+ * import { describeProviderConformance } from '@repo/sandbox-providers/conformance';
+ *
+ * describeProviderConformance('my-provider', () => new MyProvider());
+ * ```
+ *
+ * Tests run against real sandboxes under /home/user, the workspace layout agent
+ * prompts assume. Optional capabilities (snapshots) are only checked when the
+ * provider implements them.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Sandbox, SandboxConfig, SandboxProvider } from './interface.js';
+
+export interface ConformanceOptions {
+  /** Config for sandboxes the suite creates */
+  config?: SandboxConfig;
+  /** Per-test timeout; cloud providers need more than vitest's default (default: 120s) */
+  testTimeoutMs?: number;
+  /** Skip the whole suite, e.g. when credentials are missing */
+  skip?: boolean;
+}
+
+/**
+ * Register the conformance suite for a provider.
+ *
+ * @param name - Label for the describe block
+ * @param createProvider - Returns the provider under test (called once, before the tests)
+ * @param options - Sandbox config, timeouts and skip flag
+ */
+export function describeProviderConformance(
+  name: string,
+  createProvider: () => SandboxProvider | Promise<SandboxProvider>,
+  options: ConformanceOptions = {}
+): void {
+  const { config = {}, testTimeoutMs = 120_000, skip = false } = options;
+
+  describe.skipIf(skip)(`${name} provider conformance`, () => {
+    let provider: SandboxProvider;
+    let sandbox: Sandbox;
+    let scratchCount = 0;
+
+    /** Fresh directory per test so tests sharing the sandbox don't collide */
+    const scratchDir = () => `/home/user/conformance-${++scratchCount}`;
+
+    beforeAll(async () => {
+      provider = await createProvider();
+      sandbox = await provider.create(config);
+    }, testTimeoutMs);
+
+    afterAll(async () => {
+      await sandbox?.destroy();
+    }, testTimeoutMs);
+
+    describe('lifecycle', () => {
+      it(
+        'creates running sandboxes that can be looked up by id',
+        async () => {
+          expect(sandbox.id).toBeTruthy();
+          expect(await sandbox.isRunning()).toBe(true);
+
+          const found = await provider.get(sandbox.id);
+          expect(found?.id).toBe(sandbox.id);
+          expect((await provider.list()).map((s) => s.id)).toContain(sandbox.id);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'returns null for unknown sandbox ids',
+        async () => {
+          expect(await provider.get('conformance-missing-sandbox')).toBeNull();
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'accepts timeout extensions and exposes port hosts',
+        async () => {
+          await sandbox.setTimeout(10 * 60 * 1000);
+
+          expect(sandbox.getHost(3000)).toMatch(/\S/);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'reports resource usage',
+        async () => {
+          const usage = await sandbox.getResourceUsage();
+
+          expect(usage.cpuPercent).toBeGreaterThanOrEqual(0);
+          expect(usage.memoryUsedBytes).toBeGreaterThan(0);
+          expect(usage.diskUsedBytes).toBeGreaterThan(0);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'destroys sandboxes',
+        async () => {
+          const doomed = await provider.create(config);
+
+          await provider.destroy(doomed.id);
+
+          expect(await doomed.isRunning()).toBe(false);
+          expect(await provider.get(doomed.id)).toBeNull();
+        },
+        testTimeoutMs
+      );
+    });
+
+    describe('commands', () => {
+      it(
+        'reports stdout, stderr and exit codes',
+        async () => {
+          const ok = await sandbox.exec('echo conformance');
+          expect(ok.exitCode).toBe(0);
+          expect(ok.stdout).toContain('conformance');
+
+          const failed = await sandbox.exec('echo broken >&2; exit 3');
+          expect(failed.exitCode).toBe(3);
+          expect(failed.stderr).toContain('broken');
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'applies cwd and env options',
+        async () => {
+          const dir = scratchDir();
+          await sandbox.mkdir(dir);
+
+          const result = await sandbox.exec('echo "$CONFORMANCE_VALUE"; pwd', {
+            cwd: dir,
+            env: { CONFORMANCE_VALUE: 'from-env' },
+          });
+
+          expect(result.stdout).toContain('from-env');
+          expect(result.stdout.trim().endsWith(dir.split('/').pop()!)).toBe(true);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'stops commands at their timeout with exit code 124',
+        async () => {
+          const result = await sandbox.exec('sleep 60', { timeoutMs: 1000 });
+
+          expect(result.exitCode).toBe(124);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'stops commands on abort with exit code 130',
+        async () => {
+          const controller = new AbortController();
+          setTimeout(() => controller.abort(), 500);
+
+          const result = await sandbox.exec('sleep 60', { signal: controller.signal });
+
+          expect(result.exitCode).toBe(130);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'streams command output',
+        async () => {
+          let output = '';
+          for await (const chunk of sandbox.execStream('echo first; echo second')) {
+            output += chunk;
+          }
+
+          expect(output).toContain('first');
+          expect(output).toContain('second');
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'runs background processes that can be followed and killed',
+        async () => {
+          const server = await sandbox.spawnBackground('echo started; sleep 60');
+          expect(server.pid).toBeGreaterThan(0);
+
+          for await (const chunk of server.logs()) {
+            if (chunk.includes('started')) {
+              break;
+            }
+          }
+          await server.kill();
+
+          const result = await server.wait();
+          expect(result.exitCode).not.toBe(0);
+          expect(result.stdout).toContain('started');
+        },
+        testTimeoutMs
+      );
+    });
+
+    describe('terminals', () => {
+      it(
+        'runs an interactive shell that can be resized',
+        async () => {
+          const terminal = await sandbox.openTerminal({ cols: 100, rows: 30 });
+          const output = terminal.output()[Symbol.asyncIterator]();
+          let seen = '';
+          const waitFor = async (text: string) => {
+            while (!seen.includes(text)) {
+              const next = await output.next();
+              if (next.done) {
+                throw new Error(`Terminal exited before printing ${text}: ${seen}`);
+              }
+              seen += next.value;
+            }
+          };
+
+          // Arithmetic keeps the expected text out of the echoed input
+          await terminal.write('echo "size $(stty size) sum $((40 + 2))"\n');
+          await waitFor('size 30 100 sum 42');
+
+          await terminal.resize(120, 40);
+          await terminal.write('stty size\n');
+          await waitFor('40 120');
+
+          await terminal.write('exit 7\n');
+          expect(await terminal.wait()).toBe(7);
+          await terminal.close();
+        },
+        testTimeoutMs
+      );
+    });
+
+    describe('files', () => {
+      it(
+        'round-trips text and binary files',
+        async () => {
+          const dir = scratchDir();
+          const bytes = new Uint8Array([0x00, 0xff, 0x50, 0x4b, 0x80, 0x0a]);
+
+          await sandbox.writeFile(`${dir}/nested/notes.txt`, 'héllo\nworld');
+          await sandbox.writeFileBytes(`${dir}/blob.bin`, bytes);
+
+          expect(await sandbox.readFile(`${dir}/nested/notes.txt`)).toBe('héllo\nworld');
+          expect(
+            Buffer.compare(await sandbox.readFileBytes(`${dir}/blob.bin`), Buffer.from(bytes))
+          ).toBe(0);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'lists, renames and removes files',
+        async () => {
+          const dir = scratchDir();
+          await sandbox.mkdir(`${dir}/src`);
+          await sandbox.writeFile(`${dir}/package.json`, '{}');
+
+          const entries = await sandbox.listDir(dir);
+          expect(entries.map((entry) => [entry.name, entry.type]).sort()).toEqual([
+            ['package.json', 'file'],
+            ['src', 'dir'],
+          ]);
+
+          await sandbox.rename(`${dir}/package.json`, `${dir}/src/package.json`);
+          expect(await sandbox.exists(`${dir}/package.json`)).toBe(false);
+          expect(await sandbox.exists(`${dir}/src/package.json`)).toBe(true);
+
+          await sandbox.remove(dir);
+          await sandbox.remove(`${dir}/never-existed`);
+          expect(await sandbox.exists(dir)).toBe(false);
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'sees files written by commands and vice versa',
+        async () => {
+          const dir = scratchDir();
+          await sandbox.writeFile(`${dir}/input.txt`, 'from-api');
+
+          const result = await sandbox.exec(
+            `cat ${dir}/input.txt && echo from-shell > ${dir}/output.txt`
+          );
+
+          expect(result.stdout).toContain('from-api');
+          expect((await sandbox.readFile(`${dir}/output.txt`)).trim()).toBe('from-shell');
+        },
+        testTimeoutMs
+      );
+
+      it(
+        'downloads directories as archives',
+        async () => {
+          const dir = scratchDir();
+          await sandbox.writeFile(`${dir}/src/main.ts`, 'export {};');
+
+          const archive = await sandbox.downloadDir(dir);
+
+          expect(archive.length).toBeGreaterThan(0);
+        },
+        testTimeoutMs
+      );
+    });
+
+    describe('snapshots', () => {
+      it(
+        'restores files from a snapshot',
+        async (ctx) => {
+          if (!provider.snapshot || !provider.restoreFromSnapshot) {
+            ctx.skip();
+            return;
+          }
+
+          const original = await provider.create(config);
+          await original.writeFile('/home/user/conformance-snapshot.txt', 'kept');
+
+          const snapshot = await provider.snapshot(original.id);
+          expect(snapshot.provider).toBe(provider.name);
+
+          const restored = await provider.restoreFromSnapshot(snapshot.id, config);
+          try {
+            expect(await restored.readFile('/home/user/conformance-snapshot.txt')).toBe('kept');
+          } finally {
+            await restored.destroy();
+          }
+        },
+        testTimeoutMs
+      );
+    });
+  });
+}
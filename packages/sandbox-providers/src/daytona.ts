@@ -5,55 +5,422 @@
  * Implementation of the sandbox provider interface for Daytona (https://www.daytona.io).
  * Daytona provides development environments with Git integration and persistence.
  *
- * Note: This is a stub implementation. Full implementation requires Daytona SDK.
+ * Talks to the Daytona workspace REST API directly (workspace lifecycle on
+ * /workspace, command and file operations on the per-workspace toolbox API),
+ * so no SDK dependency is required.
  */
 
+import { randomUUID } from 'node:crypto';
+import { posix } from 'node:path';
 import type {
   Sandbox,
   SandboxConfig,
   AgentOutput,
   ExecResult,
+  ExecOptions,
+  BackgroundProcess,
+  FileEntry,
   SandboxProvider,
+  SandboxSnapshot,
+  SandboxNetwork,
+  ResourceUsage,
+  SandboxTerminal,
+  TerminalOptions,
 } from './interface.js';
+import { applyExecLimits, ProcessLog } from './background.js';
+import { sampleResourceUsage } from './resources.js';
+import { openShellTerminal } from './terminal.js';
+import { enforceByBlockingAll, resolveNetworkPolicy } from './egress.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_API_URL = 'https://app.daytona.io/api';
+
+/** Domain that serves workspace ports when the API doesn't report one */
+const DEFAULT_PREVIEW_DOMAIN = 'proxy.daytona.work';
+
+/** Label used to find workspaces created by this provider */
+const SANDBOX_LABEL = 'autonomous-agents.sandbox';
+
+/** Workspace path the agent expects (matches the E2B home directory) */
+const SANDBOX_WORKDIR = '/home/user';
+
+/** How long to wait for a new workspace to reach the started state */
+const START_TIMEOUT_MS = 120_000;
+const START_POLL_INTERVAL_MS = 1_000;
+
+/** Upper bound for a single toolbox command, in seconds */
+const EXEC_TIMEOUT_SECONDS = 30 * 60;
+
+/** How often background process logs and exit status are polled */
+const BACKGROUND_POLL_INTERVAL_MS = 1_000;
+
+export interface DaytonaProviderOptions {
+  /** API key (default: DAYTONA_API_KEY) */
+  apiKey?: string;
+  /** API base URL (default: DAYTONA_API_URL or https://app.daytona.io/api) */
+  apiUrl?: string;
+  /** Target region for new workspaces (default: DAYTONA_TARGET) */
+  target?: string;
+  /** Image used when SandboxConfig.template is not set (default: DAYTONA_IMAGE) */
+  defaultImage?: string;
+  /** Domain used for port preview hosts (default: DAYTONA_PREVIEW_DOMAIN) */
+  previewDomain?: string;
+}
+
+/** Subset of a toolbox file listing entry */
+interface DaytonaFileInfo {
+  name: string;
+  isDir: boolean;
+  size: number;
+  modTime?: string;
+  mode?: string;
+}
+
+/** Subset of the workspace resource returned by the API */
+interface DaytonaWorkspace {
+  id: string;
+  state?: string;
+  labels?: Record<string, string>;
+  runnerDomain?: string;
+}
+
+// ============================================================================
+// API Client
+// ============================================================================
 
 /**
- * Placeholder Daytona sandbox wrapper.
- * TODO: Implement using Daytona SDK when available.
+ * Minimal client for the Daytona REST API.
+ */
+class DaytonaClient {
+  constructor(
+    private apiUrl: string,
+    private apiKey: string | undefined
+  ) {}
+
+  /**
+   * Make an authenticated API request.
+   * Throws with the response body on non-2xx status codes.
+   */
+  async request(method: string, path: string, body?: unknown): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('Daytona API key not configured (set DAYTONA_API_KEY)');
+    }
+
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        ...(body !== undefined && !isForm && { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Daytona API ${method} ${path} failed (${response.status}): ${text}`);
+    }
+
+    return response;
+  }
+
+  async json<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.request(method, path, body);
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Convert a size string like "4GB", "512Mi" or "2" into whole gigabytes (Daytona's unit).
+ */
+function toGigabytes(size: string): number {
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt])?i?b?$/i);
+  if (!match) {
+    return Number.parseInt(size, 10) || 1;
+  }
+  const value = Number(match[1]);
+  const unit = (match[2] ?? 'g').toLowerCase();
+  const factor = { k: 1 / 1024 / 1024, m: 1 / 1024, g: 1, t: 1024 }[unit] ?? 1;
+  return Math.max(1, Math.ceil(value * factor));
+}
+
+/**
+ * Quote a string for safe use as a single shell word.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// ============================================================================
+// Sandbox Wrapper
+// ============================================================================
+
+/**
+ * Daytona workspace that implements our Sandbox interface.
  */
 class DaytonaSandboxWrapper implements Sandbox {
   public status: 'creating' | 'running' | 'stopped' | 'error' = 'running';
+  public network?: SandboxNetwork;
   private outputListeners: Set<(data: AgentOutput) => void> = new Set();
 
   constructor(
     public readonly id: string,
-    private config: SandboxConfig
+    private client: DaytonaClient,
+    private previewDomain: string,
+    private onDestroyed: (id: string) => void
   ) {}
 
-  async exec(_command: string): Promise<ExecResult> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Execute a command in the workspace.
+   * The toolbox API reports combined output, which is returned as stdout.
+   */
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+    if (options.timeoutMs || options.signal) {
+      return (await this.spawnBackground(command, options)).wait();
+    }
+
+    const exports = Object.entries(options.env ?? {})
+      .map(([key, value]) => `export ${key}=${shellQuote(value)}\n`)
+      .join('');
+    // Base64-encode the command so quoting survives the toolbox's own parsing
+    const encoded = Buffer.from(exports + command).toString('base64');
+    try {
+      const result = await this.client.json<{ exitCode: number; result: string }>(
+        'POST',
+        `/toolbox/${this.id}/toolbox/process/execute`,
+        {
+          command: `sh -c "echo ${encoded} | base64 -d | bash"`,
+          cwd: this.resolvePath(options.cwd ?? SANDBOX_WORKDIR),
+          timeout: EXEC_TIMEOUT_SECONDS,
+        }
+      );
+      return {
+        stdout: result.result ?? '',
+        stderr: '',
+        exitCode: result.exitCode,
+      };
+    } catch (error) {
+      return {
+        stdout: '',
+        stderr: String(error),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Start a long-running command without waiting for it to exit.
+   * The toolbox API can't stream, so output goes to a log file in the workspace
+   * that is polled while someone reads logs() or waits for the process.
+   */
+  async spawnBackground(command: string, options: ExecOptions = {}): Promise<BackgroundProcess> {
+    const logFile = `/tmp/background-${randomUUID()}.log`;
+    const exitFile = `${logFile}.exit`;
+    // setsid makes the command a process group leader so kill() reaches its children
+    const script = `bash -lc ${shellQuote(command)} > ${logFile} 2>&1; echo $? > ${exitFile}`;
+    const launch = await this.exec(
+      `setsid bash -c ${shellQuote(script)} > /dev/null 2>&1 < /dev/null & echo $!`,
+      { cwd: options.cwd, env: options.env }
+    );
+    const pid = Number.parseInt(launch.stdout.trim(), 10);
+    if (launch.exitCode !== 0 || Number.isNaN(pid)) {
+      throw new Error(`Failed to start background process: ${launch.stdout || launch.stderr}`);
+    }
+
+    const log = new ProcessLog();
+    let offset = 0;
+    const poll = async (): Promise<ExecResult> => {
+      for (;;) {
+        // Read the exit status before the log so no output written before exit is missed
+        const status = await this.exec(`cat ${exitFile} 2>/dev/null`);
+        const output = await this.exec(`tail -c +${offset + 1} ${logFile} 2>/dev/null`);
+        if (output.stdout) {
+          offset += Buffer.byteLength(output.stdout);
+          log.push(output.stdout, 'stdout');
+        }
+
+        const exitCode = Number.parseInt(status.stdout.trim(), 10);
+        if (!Number.isNaN(exitCode) || status.stderr) {
+          // A toolbox error (stderr) means the workspace is gone
+          log.push(status.stderr, 'stderr');
+          log.close();
+          return log.result(Number.isNaN(exitCode) ? 1 : exitCode);
+        }
+        await new Promise((resolve) => setTimeout(resolve, BACKGROUND_POLL_INTERVAL_MS));
+      }
+    };
+    let finished: Promise<ExecResult> | null = null;
+    const watch = () => (finished ??= poll());
+
+    return applyExecLimits(
+      {
+        pid,
+        logs: () => {
+          void watch();
+          return log.stream();
+        },
+        kill: async () => {
+          // The wrapper shell dies with the group, so record the exit status for it
+          await this.exec(
+            `kill -TERM -- -${pid} 2>/dev/null; [ -f ${exitFile} ] || echo 143 > ${exitFile}`
+          );
+        },
+        wait: watch,
+      },
+      options
+    );
+  }
+
+  /**
+   * Execute a command and stream the output.
+   */
+  async *execStream(command: string): AsyncIterable<string> {
+    const result = await this.exec(command);
+    const output = result.stdout || result.stderr;
+    if (output) {
+      this.emitOutput({
+        type: 'text',
+        content: output,
+        timestamp: new Date(),
+        ...(result.exitCode !== 0 && { metadata: { exitCode: result.exitCode } }),
+      });
+      yield output;
+    }
+  }
+
+  /**
+   * Open an interactive shell on a pseudo-terminal.
+   */
+  async openTerminal(options: TerminalOptions = {}): Promise<SandboxTerminal> {
+    return openShellTerminal(this, options);
   }
 
-  async *execStream(_command: string): AsyncIterable<string> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Write a file to the workspace, creating parent directories as needed.
+   */
+  async writeFile(path: string, content: string): Promise<void> {
+    await this.writeFileBytes(path, Buffer.from(content, 'utf-8'));
   }
 
-  async writeFile(_path: string, _content: string): Promise<void> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Read a file from the workspace.
+   */
+  async readFile(path: string): Promise<string> {
+    const data = await this.readFileBytes(path);
+    return data.toString('utf-8');
   }
 
-  async readFile(_path: string): Promise<string> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Write raw bytes to a file, creating parent directories as needed.
+   */
+  async writeFileBytes(path: string, data: Uint8Array): Promise<void> {
+    const target = this.resolvePath(path);
+    await this.mkdir(posix.dirname(target));
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(data)]), posix.basename(target) || 'file');
+    await this.client.request(
+      'POST',
+      `/toolbox/${this.id}/toolbox/files/upload?path=${encodeURIComponent(target)}`,
+      form
+    );
+  }
+
+  /**
+   * Read a file's raw bytes.
+   */
+  async readFileBytes(path: string): Promise<Buffer> {
+    const response = await this.client.request(
+      'GET',
+      `/toolbox/${this.id}/toolbox/files/download?path=${encodeURIComponent(this.resolvePath(path))}`
+    );
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * List the direct children of a directory.
+   */
+  async listDir(path: string): Promise<FileEntry[]> {
+    const dir = this.resolvePath(path);
+    const files = await this.client.json<DaytonaFileInfo[]>(
+      'GET',
+      `/toolbox/${this.id}/toolbox/files?path=${encodeURIComponent(dir)}`
+    );
+    return files.map((file) => ({
+      name: file.name,
+      path: posix.join(dir, file.name),
+      // The toolbox reports symlinks through the Unix mode string (e.g. "Lrwxrwxrwx")
+      type: file.mode?.startsWith('L') ? 'symlink' : file.isDir ? 'dir' : 'file',
+      size: file.size,
+      ...(file.modTime && { modifiedAt: new Date(file.modTime) }),
+    }));
+  }
+
+  /**
+   * Check whether a file or directory exists.
+   */
+  async exists(path: string): Promise<boolean> {
+    const result = await this.exec(`test -e ${shellQuote(this.resolvePath(path))}`);
+    return result.exitCode === 0;
+  }
+
+  /**
+   * Remove a file or directory.
+   */
+  async remove(path: string): Promise<void> {
+    await this.execChecked(`rm -rf ${shellQuote(this.resolvePath(path))}`, `remove ${path}`);
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    const source = encodeURIComponent(this.resolvePath(from));
+    const destination = encodeURIComponent(this.resolvePath(to));
+    await this.client.request(
+      'POST',
+      `/toolbox/${this.id}/toolbox/files/move?source=${source}&destination=${destination}`
+    );
   }
 
-  async downloadDir(_path: string): Promise<Buffer> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(path: string): Promise<void> {
+    await this.execChecked(`mkdir -p ${shellQuote(this.resolvePath(path))}`, `create ${path}`);
   }
 
+  /**
+   * Download a directory as a tar archive buffer.
+   * Excludes node_modules and other large directories to keep archive size manageable.
+   */
+  async downloadDir(path: string): Promise<Buffer> {
+    const tarCommand = `tar -cf /tmp/download.tar -C ${shellQuote(path)} --exclude='node_modules' --exclude='.git' --exclude='.next' --exclude='dist' --exclude='build' --exclude='.cache' --exclude='coverage' .`;
+    const result = await this.exec(tarCommand);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to create tar archive: ${result.stdout || result.stderr}`);
+    }
+
+    return this.readFileBytes('/tmp/download.tar');
+  }
+
+  /**
+   * Stop and delete the workspace.
+   */
   async destroy(): Promise<void> {
     this.status = 'stopped';
+    await this.client.request('DELETE', `/workspace/${this.id}?force=true`);
     this.outputListeners.clear();
+    this.onDestroyed(this.id);
   }
 
+  /**
+   * Subscribe to agent output.
+   */
   onOutput(callback: (data: AgentOutput) => void): () => void {
     this.outputListeners.add(callback);
     return () => {
@@ -61,61 +428,247 @@ class DaytonaSandboxWrapper implements Sandbox {
     };
   }
 
-  getHost(_port: number): string {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Get the public host for a port exposed in the workspace.
+   * Daytona proxies every port at `<port>-<workspaceId>.<preview domain>`.
+   *
+   * @param port - The port number to get the host for
+   * @returns The public host address (e.g., "3000-abc123.proxy.daytona.work")
+   */
+  getHost(port: number): string {
+    return `${port}-${this.id}.${this.previewDomain}`;
   }
 
+  /**
+   * Check if the workspace is still started.
+   */
   async isRunning(): Promise<boolean> {
-    return this.status === 'running';
+    try {
+      const workspace = await this.client.json<DaytonaWorkspace>('GET', `/workspace/${this.id}`);
+      return workspace.state === 'started';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Extend the sandbox timeout.
+   * Daytona stops workspaces after an inactivity interval (in whole minutes),
+   * so the interval is reset to cover the requested duration.
+   *
+   * @param timeoutMs - New timeout in milliseconds from now
+   */
+  async setTimeout(timeoutMs: number): Promise<void> {
+    const minutes = Math.max(1, Math.ceil(timeoutMs / 60_000));
+    await this.client.request('POST', `/workspace/${this.id}/autostop/${minutes}`);
+  }
+
+  /**
+   * Measure current CPU, memory and disk usage.
+   */
+  async getResourceUsage(): Promise<ResourceUsage> {
+    return sampleResourceUsage(this);
   }
 
-  async setTimeout(_timeoutMs: number): Promise<void> {
-    throw new Error('Daytona provider not yet implemented');
+  /**
+   * Run a command that must succeed, throwing with its output otherwise.
+   */
+  private async execChecked(command: string, action: string): Promise<void> {
+    const result = await this.exec(command);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to ${action}: ${(result.stdout || result.stderr).trim()}`);
+    }
+  }
+
+  /**
+   * Resolve a path against the workspace directory, like commands do.
+   */
+  private resolvePath(path: string): string {
+    return posix.resolve(SANDBOX_WORKDIR, path);
+  }
+
+  /**
+   * Emit output to all listeners.
+   */
+  private emitOutput(data: AgentOutput): void {
+    for (const listener of this.outputListeners) {
+      listener(data);
+    }
   }
 }
 
+// ============================================================================
+// Provider
+// ============================================================================
+
 /**
  * Daytona sandbox provider implementation.
- *
- * TODO: Full implementation requires:
- * 1. Daytona SDK/API client
- * 2. Workspace management
- * 3. Git integration
- * 4. SSH/exec capabilities
  */
 export class DaytonaProvider implements SandboxProvider {
   name = 'daytona';
 
   private activeSandboxes: Map<string, DaytonaSandboxWrapper> = new Map();
+  private client: DaytonaClient;
+  private target?: string;
+  private defaultImage?: string;
+  private previewDomain?: string;
 
-  async create(config: SandboxConfig): Promise<Sandbox> {
-    // Stub: Generate a fake ID
-    const id = `daytona-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-    const sandbox = new DaytonaSandboxWrapper(id, config);
-    this.activeSandboxes.set(id, sandbox);
-
-    console.warn(
-      'Daytona provider is not yet fully implemented. ' +
-        'Please use E2B provider for production use.'
+  constructor(options: DaytonaProviderOptions = {}) {
+    this.client = new DaytonaClient(
+      options.apiUrl ?? process.env.DAYTONA_API_URL ?? DEFAULT_API_URL,
+      options.apiKey ?? process.env.DAYTONA_API_KEY
     );
+    this.target = options.target ?? process.env.DAYTONA_TARGET;
+    this.defaultImage = options.defaultImage ?? process.env.DAYTONA_IMAGE;
+    this.previewDomain = options.previewDomain ?? process.env.DAYTONA_PREVIEW_DOMAIN;
+  }
+
+  /**
+   * Create a new Daytona workspace and wait for it to start.
+   * Daytona's firewall works on IP ranges, not hostnames, so of a network policy only
+   * "allow no hosts" is enforced; host lists are recorded as unenforced.
+   */
+  async create(config: SandboxConfig): Promise<Sandbox> {
+    // 'base' is the E2B default template name; let Daytona use its default image
+    const image =
+      config.template && config.template !== 'base' ? config.template : this.defaultImage;
+    const policy = resolveNetworkPolicy(config.network);
+    const network = policy ? enforceByBlockingAll(policy) : undefined;
+
+    const workspace = await this.client.json<DaytonaWorkspace>('POST', '/workspace', {
+      ...(image && { image }),
+      ...(this.target && { target: this.target }),
+      env: config.env ?? {},
+      labels: { [SANDBOX_LABEL]: 'true' },
+      ...(config.resources?.cpu && { cpu: config.resources.cpu }),
+      ...(config.resources?.memory && { memory: toGigabytes(config.resources.memory) }),
+      ...(config.resources?.disk && { disk: toGigabytes(config.resources.disk) }),
+      autoStopInterval: Math.max(1, Math.ceil((config.timeout ?? 300) / 60)),
+      ...(network?.enforcement === 'provider' && { networkBlockAll: true }),
+    });
+
+    try {
+      const started = await this.waitUntilStarted(workspace.id);
+      const wrapper = this.wrap(started);
+      wrapper.network = network;
+
+      // Agent prompts and tools work in /home/user; Daytona images use a different home
+      await wrapper.exec(
+        `mkdir -p ${SANDBOX_WORKDIR} 2>/dev/null || (sudo mkdir -p ${SANDBOX_WORKDIR} && sudo chown "$(id -u)" ${SANDBOX_WORKDIR})`
+      );
 
-    return sandbox;
+      return wrapper;
+    } catch (error) {
+      // Nothing holds the workspace yet, so delete it rather than leak it
+      await this.destroy(workspace.id).catch(() => {
+        // Already gone
+      });
+      throw error;
+    }
   }
 
+  /**
+   * Get an existing workspace by ID.
+   */
   async get(id: string): Promise<Sandbox | null> {
-    return this.activeSandboxes.get(id) ?? null;
+    const cached = this.activeSandboxes.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const workspace = await this.client.json<DaytonaWorkspace>('GET', `/workspace/${id}`);
+      if (workspace.state !== 'started') {
+        return null;
+      }
+      return this.wrap(workspace);
+    } catch {
+      return null;
+    }
   }
 
+  /**
+   * List all workspaces created by this provider, including ones from other processes.
+   */
   async list(): Promise<Sandbox[]> {
-    return Array.from(this.activeSandboxes.values());
+    const labels = encodeURIComponent(JSON.stringify({ [SANDBOX_LABEL]: 'true' }));
+    const workspaces = await this.client.json<DaytonaWorkspace[]>(
+      'GET',
+      `/workspace?labels=${labels}`
+    );
+    return workspaces
+      .filter((workspace) => workspace.state === 'started')
+      .map((workspace) => this.activeSandboxes.get(workspace.id) ?? this.wrap(workspace));
   }
 
+  /**
+   * Destroy a workspace by ID.
+   */
   async destroy(id: string): Promise<void> {
     const sandbox = this.activeSandboxes.get(id);
     if (sandbox) {
       await sandbox.destroy();
-      this.activeSandboxes.delete(id);
+      return;
+    }
+    await this.client.request('DELETE', `/workspace/${id}?force=true`);
+  }
+
+  /**
+   * Stop a workspace. Stopped workspaces keep their disk, so the snapshot ID is the
+   * workspace ID and restoring starts it again (running processes don't survive).
+   */
+  async snapshot(sandboxId: string): Promise<SandboxSnapshot> {
+    await this.client.request('POST', `/workspace/${sandboxId}/stop`);
+    this.activeSandboxes.delete(sandboxId);
+    return { id: sandboxId, provider: this.name, createdAt: new Date() };
+  }
+
+  /**
+   * Start a stopped workspace again.
+   * Only the timeout from the config applies - env and image are fixed by the workspace.
+   */
+  async restoreFromSnapshot(snapshotId: string, config: SandboxConfig): Promise<Sandbox> {
+    await this.client.request('POST', `/workspace/${snapshotId}/start`);
+    const wrapper = this.wrap(await this.waitUntilStarted(snapshotId));
+    // A restarted workspace keeps the network settings it was created with
+    const policy = resolveNetworkPolicy(config.network);
+    wrapper.network = policy ? enforceByBlockingAll(policy) : undefined;
+    await wrapper.setTimeout((config.timeout ?? 300) * 1000);
+    return wrapper;
+  }
+
+  /**
+   * Delete a stopped workspace that will never be restarted.
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await this.client.request('DELETE', `/workspace/${snapshotId}?force=true`);
+  }
+
+  /**
+   * Poll a workspace until it reports the started state.
+   */
+  private async waitUntilStarted(id: string): Promise<DaytonaWorkspace> {
+    const deadline = Date.now() + START_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const workspace = await this.client.json<DaytonaWorkspace>('GET', `/workspace/${id}`);
+      if (workspace.state === 'started') {
+        return workspace;
+      }
+      if (workspace.state === 'error' || workspace.state === 'build_failed') {
+        throw new Error(`Daytona workspace ${id} failed to start (state: ${workspace.state})`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, START_POLL_INTERVAL_MS));
     }
+    throw new Error(`Timed out waiting for Daytona workspace ${id} to start`);
+  }
+
+  private wrap(workspace: DaytonaWorkspace): DaytonaSandboxWrapper {
+    const previewDomain = this.previewDomain ?? workspace.runnerDomain ?? DEFAULT_PREVIEW_DOMAIN;
+    const wrapper = new DaytonaSandboxWrapper(workspace.id, this.client, previewDomain, (id) =>
+      this.activeSandboxes.delete(id)
+    );
+    this.activeSandboxes.set(workspace.id, wrapper);
+    return wrapper;
   }
 }
 
@@ -0,0 +1,847 @@
+/**
+ * Docker Sandbox Provider
+ * =======================
+ *
+ * Implementation of the sandbox provider interface for a local Docker daemon.
+ * Each sandbox is a long-lived container that commands are `docker exec`'d into,
+ * which lets builds and previews run on-prem or in CI without a cloud account.
+ *
+ * Talks to the daemon through the `docker` CLI, so it honours DOCKER_HOST and
+ * docker contexts the same way the CLI does.
+ *
+ * Sandboxes with a network policy are attached only to an internal network. Their
+ * sole way out is a per-sandbox gateway container running the egress proxy, so the
+ * policy holds even for programs that ignore proxy settings. Internal networks
+ * can't publish ports, so getHost() is unavailable for those sandboxes.
+ */
+
+import { spawn } from 'node:child_process';
+import { posix } from 'node:path';
+import type {
+  Sandbox,
+  SandboxConfig,
+  AgentOutput,
+  ExecResult,
+  ExecOptions,
+  BackgroundProcess,
+  FileEntry,
+  SandboxProvider,
+  SandboxSnapshot,
+  SandboxNetwork,
+  ResourceUsage,
+  SandboxTerminal,
+  TerminalOptions,
+} from './interface.js';
+import { applyExecLimits, ProcessLog } from './background.js';
+import { sampleResourceUsage } from './resources.js';
+import { openShellTerminal } from './terminal.js';
+import {
+  EGRESS_PROXY_SCRIPT,
+  egressProxyEnv,
+  resolveNetworkPolicy,
+  type ResolvedNetworkPolicy,
+} from './egress.js';
+import {
+  collectOutput,
+  streamOutput,
+  trackProcess,
+  type CollectedOutput,
+} from './process-utils.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Label used to find containers created by this provider */
+const SANDBOX_LABEL = 'autonomous-agents.sandbox';
+
+/** Label recording the snapshot image a container was restored from */
+const SNAPSHOT_LABEL = 'autonomous-agents.snapshot';
+
+/** Label naming the egress gateway container of a network-restricted sandbox */
+const GATEWAY_LABEL = 'autonomous-agents.egress-gateway';
+
+/** Internal network that network-restricted sandboxes are attached to */
+const EGRESS_NETWORK = 'autonomous-agents-egress';
+
+/** Port the egress proxy listens on inside gateway containers */
+const GATEWAY_PROXY_PORT = 3128;
+
+/** How long to wait for a gateway container's proxy to start */
+const GATEWAY_START_TIMEOUT_MS = 30_000;
+
+/** Repository that snapshot images are committed to */
+const SNAPSHOT_REPOSITORY = 'autonomous-agents-snapshot';
+
+/** Working directory inside the container (matches the E2B home directory) */
+const SANDBOX_WORKDIR = '/home/user';
+
+/** Ports published by default so dev servers and previews are reachable */
+const DEFAULT_EXPOSED_PORTS = [3000, 3001, 4173, 5173, 8000, 8080];
+
+/** Image used when no template is given (or the E2B 'base' template is requested) */
+const DEFAULT_IMAGE = 'node:22-bookworm';
+
+/**
+ * Runs a background command as the leader of a new session and prints its PID first,
+ * so the whole process group can be signalled later with `kill -- -<pid>`.
+ */
+const BACKGROUND_LAUNCHER = 'echo "$$"; exec bash -lc "$1"';
+
+/** Directories skipped when downloading a directory archive */
+const DOWNLOAD_EXCLUDES = ['node_modules', '.git', '.next', 'dist', 'build', '.cache', 'coverage'];
+
+export interface DockerProviderOptions {
+  /** Image used when SandboxConfig.template is not set (default: node:22-bookworm) */
+  defaultImage?: string;
+  /** Container ports to publish on the host (default: common dev server ports) */
+  exposedPorts?: number[];
+  /** Hostname returned by getHost() for published ports (default: DOCKER_SANDBOX_HOST or localhost) */
+  publicHost?: string;
+  /** Docker network to attach sandboxes (or, with a network policy, their gateways) to */
+  network?: string;
+  /** Image for egress gateway containers; needs node (default: node:22-bookworm) */
+  gatewayImage?: string;
+}
+
+// ============================================================================
+// Docker CLI Helpers
+// ============================================================================
+
+/**
+ * Run a docker CLI command and collect its output.
+ * Never rejects for non-zero exit codes; callers inspect exitCode.
+ */
+function runDocker(args: string[], input?: string | Buffer): Promise<CollectedOutput> {
+  return collectOutput(spawn('docker', args, { stdio: ['pipe', 'pipe', 'pipe'] }), input);
+}
+
+/**
+ * Convert a memory string like "2GB", "512Mi" or "1g" into docker's format ("2g", "512m").
+ */
+function toDockerMemory(memory: string): string {
+  const match = memory.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt])?i?b?$/i);
+  if (!match) {
+    return memory;
+  }
+  return `${match[1]}${(match[2] ?? 'b').toLowerCase()}`;
+}
+
+/**
+ * Parse `docker port` output into a container-port -> host-port map.
+ * Lines look like "3000/tcp -> 0.0.0.0:49153" (one per binding).
+ */
+function parsePortMappings(output: string): Map<number, number> {
+  const mappings = new Map<number, number>();
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\d+)\/tcp -> .*:(\d+)$/);
+    if (match && !mappings.has(Number(match[1]))) {
+      mappings.set(Number(match[1]), Number(match[2]));
+    }
+  }
+  return mappings;
+}
+
+/**
+ * Parse `find -printf '%y\t%s\t%T@\t%f\n'` output into file entries.
+ */
+function parseFindOutput(output: string, dir: string): FileEntry[] {
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [kind, size, mtime, ...nameParts] = line.split('\t');
+      const name = nameParts.join('\t');
+      return {
+        name,
+        path: posix.join(dir, name),
+        type: kind === 'd' ? 'dir' : kind === 'l' ? 'symlink' : 'file',
+        size: Number(size),
+        modifiedAt: new Date(Number(mtime) * 1000),
+      } satisfies FileEntry;
+    });
+}
+
+/**
+ * Create the internal network for restricted sandboxes unless it already exists.
+ */
+async function ensureEgressNetwork(): Promise<void> {
+  const result = await runDocker(['network', 'create', '--internal', EGRESS_NETWORK]);
+  if (result.exitCode !== 0 && !/already exists/i.test(result.stderr)) {
+    throw new Error(`Failed to create Docker network ${EGRESS_NETWORK}: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Wait until a gateway container's proxy reports that it is listening.
+ */
+async function waitForGateway(name: string): Promise<void> {
+  const deadline = Date.now() + GATEWAY_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const result = await runDocker(['logs', name]);
+    if (result.stdout.toString('utf-8').startsWith('listening ')) {
+      return;
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(`Egress gateway ${name} failed: ${result.stderr.trim()}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`Egress gateway ${name} did not start within ${GATEWAY_START_TIMEOUT_MS}ms`);
+}
+
+/**
+ * Read the published port mappings of a container.
+ */
+async function inspectPorts(containerId: string): Promise<Map<number, number>> {
+  const result = await runDocker(['port', containerId]);
+  return parsePortMappings(result.stdout.toString('utf-8'));
+}
+
+// ============================================================================
+// Sandbox Wrapper
+// ============================================================================
+
+/**
+ * Docker container that implements our Sandbox interface.
+ */
+class DockerSandboxWrapper implements Sandbox {
+  private outputListeners: Set<(data: AgentOutput) => void> = new Set();
+  private timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+  public status: 'creating' | 'running' | 'stopped' | 'error' = 'running';
+  public network?: SandboxNetwork;
+
+  constructor(
+    public readonly id: string,
+    private ports: Map<number, number>,
+    private publicHost: string,
+    private onDestroyed: (id: string) => void,
+    private snapshotImage?: string,
+    private gateway?: string
+  ) {}
+
+  /**
+   * Execute a command in the sandbox.
+   */
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+    if (options.timeoutMs || options.signal) {
+      return (await this.spawnBackground(command, options)).wait();
+    }
+
+    const result = await runDocker([...this.execArgs(options), 'bash', '-lc', command]);
+    return {
+      stdout: result.stdout.toString('utf-8'),
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+    };
+  }
+
+  /**
+   * Start a long-running command without waiting for it to exit.
+   * The handle's pid is the container-side process ID, which leads its own process group.
+   */
+  async spawnBackground(command: string, options: ExecOptions = {}): Promise<BackgroundProcess> {
+    const child = spawn(
+      'docker',
+      [
+        ...this.execArgs(options),
+        'setsid',
+        '-w',
+        'bash',
+        '-c',
+        BACKGROUND_LAUNCHER,
+        'bash',
+        command,
+      ],
+      { stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+
+    const log = new ProcessLog();
+    let pid: number | undefined;
+    let pidLine = '';
+    let resolvePid: (pid: number) => void = () => {};
+    const started = new Promise<number>((resolve) => {
+      resolvePid = resolve;
+    });
+
+    const finished = trackProcess(child, (content, stream) => {
+      // The launcher's first line of stdout is the PID, not command output
+      if (stream === 'stdout' && pid === undefined) {
+        pidLine += content;
+        const newline = pidLine.indexOf('\n');
+        if (newline === -1) {
+          return;
+        }
+        pid = Number.parseInt(pidLine.slice(0, newline), 10);
+        resolvePid(pid);
+        content = pidLine.slice(newline + 1);
+      }
+      log.push(content, stream);
+    }).then((exitCode) => {
+      resolvePid(-1);
+      log.close();
+      return log.result(exitCode);
+    });
+
+    const containerPid = await started;
+
+    return applyExecLimits(
+      {
+        pid: containerPid,
+        logs: () => log.stream(),
+        kill: async () => {
+          if (containerPid > 0) {
+            await runDocker(['exec', this.id, 'kill', '-TERM', '--', `-${containerPid}`]);
+          }
+          child.kill();
+        },
+        wait: () => finished,
+      },
+      options
+    );
+  }
+
+  /**
+   * Execute a command and stream the output as it is produced.
+   */
+  async *execStream(command: string): AsyncIterable<string> {
+    const child = spawn('docker', [...this.execArgs(), 'bash', '-lc', command], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    yield* streamOutput(child, (content, stream) => {
+      this.emitOutput({
+        type: 'text',
+        content,
+        timestamp: new Date(),
+        ...(stream === 'stderr' && { metadata: { stream: 'stderr' } }),
+      });
+    });
+  }
+
+  /**
+   * Open an interactive shell on a pseudo-terminal.
+   */
+  async openTerminal(options: TerminalOptions = {}): Promise<SandboxTerminal> {
+    return openShellTerminal(this, options);
+  }
+
+  /**
+   * Write a file to the sandbox, creating parent directories as needed.
+   */
+  async writeFile(path: string, content: string): Promise<void> {
+    await this.writeFileBytes(path, Buffer.from(content, 'utf-8'));
+  }
+
+  /**
+   * Read a file from the sandbox.
+   */
+  async readFile(path: string): Promise<string> {
+    return (await this.readFileBytes(path)).toString('utf-8');
+  }
+
+  /**
+   * Write raw bytes to a file, piped through stdin so binary content survives intact.
+   */
+  async writeFileBytes(path: string, data: Uint8Array): Promise<void> {
+    const target = this.resolvePath(path);
+    const result = await runDocker(
+      ['exec', '-i', this.id, 'sh', '-c', 'mkdir -p "$(dirname "$1")" && cat > "$1"', 'sh', target],
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to write ${path}: ${result.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Read a file's raw bytes.
+   */
+  async readFileBytes(path: string): Promise<Buffer> {
+    const result = await runDocker(['exec', this.id, 'cat', this.resolvePath(path)]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to read ${path}: ${result.stderr.trim()}`);
+    }
+    return result.stdout;
+  }
+
+  /**
+   * List the direct children of a directory.
+   */
+  async listDir(path: string): Promise<FileEntry[]> {
+    const dir = this.resolvePath(path);
+    // GNU find: type, size, mtime (epoch seconds) and name, tab separated
+    const result = await runDocker([
+      'exec',
+      this.id,
+      'find',
+      dir,
+      '-mindepth',
+      '1',
+      '-maxdepth',
+      '1',
+      '-printf',
+      '%y\t%s\t%T@\t%f\n',
+    ]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to list ${path}: ${result.stderr.trim()}`);
+    }
+    return parseFindOutput(result.stdout.toString('utf-8'), dir);
+  }
+
+  /**
+   * Check whether a file or directory exists.
+   */
+  async exists(path: string): Promise<boolean> {
+    const result = await runDocker(['exec', this.id, 'test', '-e', this.resolvePath(path)]);
+    return result.exitCode === 0;
+  }
+
+  /**
+   * Remove a file or directory.
+   */
+  async remove(path: string): Promise<void> {
+    await this.runChecked(['rm', '-rf', this.resolvePath(path)], `remove ${path}`);
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    await this.runChecked(['mv', this.resolvePath(from), this.resolvePath(to)], `rename ${from}`);
+  }
+
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(path: string): Promise<void> {
+    await this.runChecked(['mkdir', '-p', this.resolvePath(path)], `create ${path}`);
+  }
+
+  /**
+   * Download a directory as a tar archive buffer.
+   * Excludes node_modules and other large directories to keep archive size manageable.
+   */
+  async downloadDir(path: string): Promise<Buffer> {
+    // Stream the tar straight out of the container instead of staging it in /tmp
+    const excludes = DOWNLOAD_EXCLUDES.map((dir) => `--exclude=${dir}`);
+    const result = await runDocker([
+      'exec',
+      this.id,
+      'tar',
+      '-cf',
+      '-',
+      '-C',
+      this.resolvePath(path),
+      ...excludes,
+      '.',
+    ]);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to create tar archive: ${result.stderr}`);
+    }
+
+    return result.stdout;
+  }
+
+  /**
+   * Stop and remove the container.
+   */
+  async destroy(): Promise<void> {
+    this.status = 'stopped';
+    this.clearTimeout();
+    await runDocker(['rm', '-f', this.id, ...(this.gateway ? [this.gateway] : [])]);
+    if (this.snapshotImage) {
+      // The image only existed to restore this container
+      await runDocker(['rmi', this.snapshotImage]);
+    }
+    this.outputListeners.clear();
+    this.onDestroyed(this.id);
+  }
+
+  /**
+   * Subscribe to agent output.
+   */
+  onOutput(callback: (data: AgentOutput) => void): () => void {
+    this.outputListeners.add(callback);
+    return () => {
+      this.outputListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Get the host address for a port exposed in the sandbox.
+   * Only ports published when the container was created are reachable.
+   *
+   * @param port - The container port to get the host for
+   * @returns The host address (e.g., "localhost:49153")
+   */
+  getHost(port: number): string {
+    const hostPort = this.ports.get(port);
+    if (hostPort === undefined) {
+      throw new Error(
+        `Port ${port} is not published for sandbox ${this.id}. ` +
+          `Published ports: ${[...this.ports.keys()].join(', ') || 'none'}`
+      );
+    }
+    return `${this.publicHost}:${hostPort}`;
+  }
+
+  /**
+   * Check if the container is still running.
+   */
+  async isRunning(): Promise<boolean> {
+    const result = await runDocker(['inspect', '-f', '{{.State.Running}}', this.id]);
+    return result.exitCode === 0 && result.stdout.toString('utf-8').trim() === 'true';
+  }
+
+  /**
+   * Measure current CPU, memory and disk usage.
+   */
+  async getResourceUsage(): Promise<ResourceUsage> {
+    return sampleResourceUsage(this);
+  }
+
+  /**
+   * Extend the sandbox timeout.
+   * Docker has no built-in expiry, so the container is removed by a timer in this process.
+   *
+   * @param timeoutMs - New timeout in milliseconds from now
+   */
+  async setTimeout(timeoutMs: number): Promise<void> {
+    this.clearTimeout();
+    this.timeoutHandle = setTimeout(() => {
+      this.destroy().catch((error) => {
+        console.error(`[docker] Failed to remove expired sandbox ${this.id}:`, error);
+      });
+    }, timeoutMs);
+    // Don't keep the host process alive just for the expiry timer
+    this.timeoutHandle.unref?.();
+  }
+
+  /**
+   * Build `docker exec` arguments up to (not including) the command.
+   */
+  private execArgs(options: ExecOptions = {}): string[] {
+    const env = Object.entries(options.env ?? {}).flatMap(([key, value]) => [
+      '-e',
+      `${key}=${value}`,
+    ]);
+    return ['exec', '-w', this.resolvePath(options.cwd ?? SANDBOX_WORKDIR), ...env, this.id];
+  }
+
+  /**
+   * Run a command directly (no shell) and throw if it fails.
+   */
+  private async runChecked(argv: string[], action: string): Promise<void> {
+    const result = await runDocker(['exec', this.id, ...argv]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to ${action}: ${result.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Resolve a sandbox path relative to the working directory.
+   */
+  private resolvePath(path: string): string {
+    return posix.resolve(SANDBOX_WORKDIR, path);
+  }
+
+  private clearTimeout(): void {
+    if (this.timeoutHandle) {
+      clearTimeout(this.timeoutHandle);
+      this.timeoutHandle = null;
+    }
+  }
+
+  /**
+   * Emit output to all listeners.
+   */
+  private emitOutput(data: AgentOutput): void {
+    for (const listener of this.outputListeners) {
+      listener(data);
+    }
+  }
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Docker sandbox provider implementation.
+ */
+export class DockerProvider implements SandboxProvider {
+  name = 'docker';
+
+  private activeSandboxes: Map<string, DockerSandboxWrapper> = new Map();
+  private defaultImage: string;
+  private exposedPorts: number[];
+  private publicHost: string;
+  private network?: string;
+  private gatewayImage: string;
+
+  constructor(options: DockerProviderOptions = {}) {
+    this.defaultImage = options.defaultImage ?? process.env.DOCKER_SANDBOX_IMAGE ?? DEFAULT_IMAGE;
+    this.exposedPorts = options.exposedPorts ?? DEFAULT_EXPOSED_PORTS;
+    this.publicHost = options.publicHost ?? process.env.DOCKER_SANDBOX_HOST ?? 'localhost';
+    this.network = options.network ?? process.env.DOCKER_SANDBOX_NETWORK;
+    this.gatewayImage = options.gatewayImage ?? DEFAULT_IMAGE;
+  }
+
+  /**
+   * Create a new container sandbox.
+   */
+  async create(config: SandboxConfig): Promise<Sandbox> {
+    // 'base' is the E2B default template name; treat it as "no preference"
+    const image =
+      config.template && config.template !== 'base' ? config.template : this.defaultImage;
+    return this.runContainer(image, config);
+  }
+
+  /**
+   * Get an existing sandbox by ID.
+   * Reconnects to containers created by another process (e.g. after a server restart).
+   */
+  async get(id: string): Promise<Sandbox | null> {
+    const cached = this.activeSandboxes.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await runDocker([
+      'inspect',
+      '-f',
+      `{{.State.Running}} {{index .Config.Labels "${SANDBOX_LABEL}"}} {{index .Config.Labels "${SNAPSHOT_LABEL}"}} {{index .Config.Labels "${GATEWAY_LABEL}"}}`,
+      id,
+    ]);
+    const [running, label, snapshotImage, gateway] = result.stdout
+      .toString('utf-8')
+      .trim()
+      .split(' ');
+    if (result.exitCode !== 0 || running !== 'true' || label !== 'true') {
+      return null;
+    }
+
+    return this.track(id, snapshotImage || undefined, gateway || undefined);
+  }
+
+  /**
+   * List all running sandbox containers, including ones created by other processes.
+   */
+  async list(): Promise<Sandbox[]> {
+    const result = await runDocker([
+      'ps',
+      '--filter',
+      `label=${SANDBOX_LABEL}=true`,
+      '--format',
+      '{{.ID}}',
+    ]);
+    if (result.exitCode !== 0) {
+      return Array.from(this.activeSandboxes.values());
+    }
+
+    const ids = result.stdout.toString('utf-8').split('\n').filter(Boolean);
+    const sandboxes = await Promise.all(ids.map((id) => this.get(id)));
+    return sandboxes.filter((sandbox): sandbox is Sandbox => sandbox !== null);
+  }
+
+  /**
+   * Destroy a sandbox by ID.
+   */
+  async destroy(id: string): Promise<void> {
+    const sandbox = this.activeSandboxes.get(id);
+    if (sandbox) {
+      await sandbox.destroy();
+      return;
+    }
+    // Not tracked by this process - remove the container directly
+    await runDocker(['rm', '-f', id]);
+  }
+
+  /**
+   * Commit a sandbox's filesystem to an image and remove the container.
+   * Installed dependencies and tools survive; running processes don't.
+   */
+  async snapshot(sandboxId: string): Promise<SandboxSnapshot> {
+    const sandbox = await this.get(sandboxId);
+    if (!sandbox) {
+      throw new Error(`Sandbox ${sandboxId} not found`);
+    }
+
+    const image = `${SNAPSHOT_REPOSITORY}:${sandboxId}-${Date.now().toString(36)}`;
+    const result = await runDocker(['commit', sandboxId, image]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to snapshot sandbox ${sandboxId}: ${result.stderr.trim()}`);
+    }
+    await sandbox.destroy();
+
+    return { id: image, provider: this.name, createdAt: new Date() };
+  }
+
+  /**
+   * Start a new container from a snapshot image.
+   * The image is removed when the restored sandbox is destroyed.
+   */
+  async restoreFromSnapshot(snapshotId: string, config: SandboxConfig): Promise<Sandbox> {
+    if (!snapshotId.startsWith(`${SNAPSHOT_REPOSITORY}:`)) {
+      throw new Error(`Invalid Docker snapshot ID: ${snapshotId}`);
+    }
+    return this.runContainer(snapshotId, config, snapshotId);
+  }
+
+  /**
+   * Remove a snapshot image.
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    const result = await runDocker(['rmi', snapshotId]);
+    if (result.exitCode !== 0 && !/no such image/i.test(result.stderr)) {
+      throw new Error(`Failed to delete snapshot ${snapshotId}: ${result.stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Start a sandbox container from an image.
+   *
+   * @param snapshotImage - Snapshot the image came from, recorded so it can be cleaned up
+   */
+  private async runContainer(
+    image: string,
+    config: SandboxConfig,
+    snapshotImage?: string
+  ): Promise<Sandbox> {
+    const args = ['run', '-d', '--label', `${SANDBOX_LABEL}=true`, '-w', SANDBOX_WORKDIR];
+    const policy = resolveNetworkPolicy(config.network);
+    const gateway = policy ? await this.startGateway(policy) : undefined;
+
+    if (snapshotImage) {
+      args.push('--label', `${SNAPSHOT_LABEL}=${snapshotImage}`);
+    }
+    if (gateway) {
+      args.push('--label', `${GATEWAY_LABEL}=${gateway}`, '--network', EGRESS_NETWORK);
+    } else {
+      for (const port of this.exposedPorts) {
+        // Let docker pick a free host port for each container port
+        args.push('-p', `${port}`);
+      }
+      if (this.network) {
+        args.push('--network', this.network);
+      }
+    }
+    const env = {
+      ...config.env,
+      ...(gateway && egressProxyEnv(`http://${gateway}:${GATEWAY_PROXY_PORT}`)),
+    };
+    for (const [key, value] of Object.entries(env)) {
+      args.push('-e', `${key}=${value}`);
+    }
+    if (config.resources?.cpu) {
+      args.push('--cpus', String(config.resources.cpu));
+    }
+    if (config.resources?.memory) {
+      args.push('--memory', toDockerMemory(config.resources.memory));
+    }
+    if (config.resources?.disk) {
+      args.push('--storage-opt', `size=${toDockerMemory(config.resources.disk)}`);
+    }
+
+    // Keep the container alive; all work happens through `docker exec`
+    args.push(image, 'sleep', 'infinity');
+
+    let result = await runDocker(args);
+    if (result.exitCode !== 0 && config.resources?.disk && /storage-opt/i.test(result.stderr)) {
+      // Disk quotas need overlay2 on xfs with pquota; run without one elsewhere
+      console.warn(
+        `[docker] Storage driver can't limit disk size, ignoring: ${result.stderr.trim()}`
+      );
+      const optIndex = args.indexOf('--storage-opt');
+      result = await runDocker([...args.slice(0, optIndex), ...args.slice(optIndex + 2)]);
+    }
+    if (result.exitCode !== 0) {
+      if (gateway) {
+        await runDocker(['rm', '-f', gateway]);
+      }
+      throw new Error(`Failed to create Docker sandbox from ${image}: ${result.stderr.trim()}`);
+    }
+
+    const id = result.stdout.toString('utf-8').trim().slice(0, 12);
+    const wrapper = await this.track(id, snapshotImage, gateway);
+    if (policy) {
+      wrapper.network = { ...policy, enforcement: 'isolated', unenforced: [] };
+    }
+    await wrapper.setTimeout(config.timeout ? config.timeout * 1000 : 300_000);
+
+    return wrapper;
+  }
+
+  /**
+   * Start an egress gateway container for a restricted sandbox.
+   * The gateway sits on both the outside network and the internal one, and runs the
+   * egress proxy that is the sandbox's only way out.
+   *
+   * @returns The gateway container name, which sandboxes use as the proxy host
+   */
+  private async startGateway(policy: ResolvedNetworkPolicy): Promise<string> {
+    await ensureEgressNetwork();
+
+    const name = `autonomous-agents-gateway-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const args = ['run', '-d', '--name', name, '--label', `${GATEWAY_LABEL}=true`];
+    if (this.network) {
+      args.push('--network', this.network);
+    }
+    args.push(
+      '-e',
+      `EGRESS_POLICY=${JSON.stringify(policy)}`,
+      '-e',
+      'EGRESS_HOST=0.0.0.0',
+      '-e',
+      `EGRESS_PORT=${GATEWAY_PROXY_PORT}`,
+      this.gatewayImage,
+      'node',
+      '-e',
+      EGRESS_PROXY_SCRIPT
+    );
+
+    const result = await runDocker(args);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start egress gateway: ${result.stderr.trim()}`);
+    }
+
+    try {
+      const connected = await runDocker(['network', 'connect', EGRESS_NETWORK, name]);
+      if (connected.exitCode !== 0) {
+        throw new Error(`Failed to connect egress gateway: ${connected.stderr.trim()}`);
+      }
+      await waitForGateway(name);
+    } catch (error) {
+      await runDocker(['rm', '-f', name]);
+      throw error;
+    }
+    return name;
+  }
+
+  /**
+   * Wrap a running container and remember it.
+   */
+  private async track(
+    id: string,
+    snapshotImage?: string,
+    gateway?: string
+  ): Promise<DockerSandboxWrapper> {
+    const wrapper = new DockerSandboxWrapper(
+      id,
+      await inspectPorts(id),
+      this.publicHost,
+      (sandboxId) => this.activeSandboxes.delete(sandboxId),
+      snapshotImage,
+      gateway
+    );
+    this.activeSandboxes.set(id, wrapper);
+    return wrapper;
+  }
+}
+
+/**
+ * Default Docker provider instance.
+ */
+export const dockerProvider = new DockerProvider();
@@ -6,14 +6,58 @@
  * E2B provides fast, secure cloud sandboxes for code execution.
  */
 
-import { Sandbox as E2BSandboxSDK } from '@e2b/code-interpreter';
+import { Sandbox as E2BSandboxSDK, CommandExitError, NotFoundError } from '@e2b/code-interpreter';
 import type {
   Sandbox,
   SandboxConfig,
   AgentOutput,
   ExecResult,
+  ExecOptions,
+  BackgroundProcess,
+  FileEntry,
   SandboxProvider,
+  SandboxSnapshot,
+  SandboxNetwork,
+  ResourceUsage,
+  SandboxTerminal,
+  TerminalOptions,
 } from './interface.js';
+import { applyExecLimits, ProcessLog } from './background.js';
+import { sampleResourceUsage } from './resources.js';
+import { DEFAULT_TERMINAL_COLS, DEFAULT_TERMINAL_ROWS } from './terminal.js';
+import { enforceByBlockingAll, resolveNetworkPolicy } from './egress.js';
+
+/**
+ * Call the E2B REST API for operations the SDK doesn't expose (pause/resume).
+ * Throws with the response body on non-2xx status codes, except those in `allowStatus`.
+ */
+async function e2bApiRequest(
+  method: string,
+  path: string,
+  body?: unknown,
+  allowStatus: number[] = []
+): Promise<Response> {
+  const apiKey = process.env.E2B_API_KEY;
+  if (!apiKey) {
+    throw new Error('E2B API key not configured (set E2B_API_KEY)');
+  }
+
+  const domain = process.env.E2B_DOMAIN || 'e2b.app';
+  const response = await fetch(`https://api.${domain}${path}`, {
+    method,
+    headers: {
+      'X-API-KEY': apiKey,
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok && !allowStatus.includes(response.status)) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`E2B API ${method} ${path} failed (${response.status}): ${text}`);
+  }
+  return response;
+}
 
 /**
  * Wrapper class for E2B sandbox that implements our Sandbox interface.
@@ -21,6 +65,7 @@ import type {
 class E2BSandboxWrapper implements Sandbox {
   private outputListeners: Set<(data: AgentOutput) => void> = new Set();
   public status: 'creating' | 'running' | 'stopped' | 'error' = 'running';
+  public network?: SandboxNetwork;
 
   constructor(private sandbox: E2BSandboxSDK) {}
 
@@ -31,9 +76,16 @@ class E2BSandboxWrapper implements Sandbox {
   /**
    * Execute a command in the sandbox.
    */
-  async exec(command: string): Promise<ExecResult> {
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+    if (options.timeoutMs || options.signal) {
+      return (await this.spawnBackground(command, options)).wait();
+    }
+
     try {
-      const result = await this.sandbox.commands.run(command);
+      const result = await this.sandbox.commands.run(command, {
+        cwd: options.cwd,
+        envs: options.env,
+      });
       return {
         stdout: result.stdout,
         stderr: result.stderr,
@@ -48,6 +100,52 @@ class E2BSandboxWrapper implements Sandbox {
     }
   }
 
+  /**
+   * Start a long-running command without waiting for it to exit.
+   */
+  async spawnBackground(command: string, options: ExecOptions = {}): Promise<BackgroundProcess> {
+    const log = new ProcessLog();
+    const handle = await this.sandbox.commands.run(command, {
+      background: true,
+      cwd: options.cwd,
+      envs: options.env,
+      // No connection timeout - the process runs until it exits or is killed
+      timeoutMs: 0,
+      onStdout: (output) => log.push(output, 'stdout'),
+      onStderr: (output) => log.push(output, 'stderr'),
+    });
+
+    const finished = handle
+      .wait()
+      .then(
+        (result) => result.exitCode,
+        (error) => {
+          // Non-zero exits are reported as errors by the SDK
+          if (error instanceof CommandExitError) {
+            return error.exitCode;
+          }
+          log.push(String(error), 'stderr');
+          return 1;
+        }
+      )
+      .then((exitCode) => {
+        log.close();
+        return log.result(exitCode);
+      });
+
+    return applyExecLimits(
+      {
+        pid: handle.pid,
+        logs: () => log.stream(),
+        kill: async () => {
+          await handle.kill();
+        },
+        wait: () => finished,
+      },
+      options
+    );
+  }
+
   /**
    * Execute a command and stream the output.
    */
@@ -83,6 +181,43 @@ class E2BSandboxWrapper implements Sandbox {
     }
   }
 
+  /**
+   * Open an interactive shell on one of E2B's native PTYs.
+   */
+  async openTerminal(options: TerminalOptions = {}): Promise<SandboxTerminal> {
+    const log = new ProcessLog();
+    // PTY data arrives as raw bytes; multi-byte characters can span chunks
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    const handle = await this.sandbox.pty.create({
+      cols: options.cols ?? DEFAULT_TERMINAL_COLS,
+      rows: options.rows ?? DEFAULT_TERMINAL_ROWS,
+      cwd: options.cwd ?? '/home/user',
+      envs: { TERM: 'xterm-256color', ...options.env },
+      // No connection timeout - the shell runs until it exits or is closed
+      timeoutMs: 0,
+      onData: (data) => log.push(decoder.decode(data, { stream: true }), 'stdout'),
+    });
+
+    const exitCode = handle
+      .wait()
+      .then(
+        (result) => result.exitCode,
+        (error) => (error instanceof CommandExitError ? error.exitCode : 1)
+      )
+      .finally(() => log.close());
+
+    return {
+      output: () => log.stream(),
+      write: (data) => this.sandbox.pty.sendInput(handle.pid, encoder.encode(data)),
+      resize: (cols, rows) => this.sandbox.pty.resize(handle.pid, { cols, rows }),
+      close: async () => {
+        await handle.kill();
+      },
+      wait: () => exitCode,
+    };
+  }
+
   /**
    * Write a file to the sandbox.
    */
@@ -102,6 +237,71 @@ class E2BSandboxWrapper implements Sandbox {
     return new TextDecoder().decode(content as ArrayBuffer);
   }
 
+  /**
+   * Write raw bytes to a file in the sandbox.
+   */
+  async writeFileBytes(path: string, data: Uint8Array): Promise<void> {
+    // Copy into a standalone ArrayBuffer - the view may cover only part of a pooled buffer
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+    await this.sandbox.files.write(path, buffer as ArrayBuffer);
+  }
+
+  /**
+   * Read a file's raw bytes from the sandbox.
+   */
+  async readFileBytes(path: string): Promise<Buffer> {
+    const content = await this.sandbox.files.read(path, { format: 'bytes' });
+    return Buffer.from(content);
+  }
+
+  /**
+   * List the direct children of a directory.
+   */
+  async listDir(path: string): Promise<FileEntry[]> {
+    const entries = await this.sandbox.files.list(path);
+    return entries.map((entry) => ({
+      name: entry.name,
+      path: entry.path,
+      type: entry.symlinkTarget ? 'symlink' : entry.type === 'dir' ? 'dir' : 'file',
+      size: entry.size,
+      modifiedAt: entry.modifiedTime,
+    }));
+  }
+
+  /**
+   * Check whether a file or directory exists.
+   */
+  async exists(path: string): Promise<boolean> {
+    return this.sandbox.files.exists(path);
+  }
+
+  /**
+   * Remove a file or directory. Missing paths are ignored.
+   */
+  async remove(path: string): Promise<void> {
+    try {
+      await this.sandbox.files.remove(path);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    await this.sandbox.files.rename(from, to);
+  }
+
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(path: string): Promise<void> {
+    await this.sandbox.files.makeDir(path);
+  }
+
   /**
    * Download a directory as a buffer.
    * Excludes node_modules and other large directories to keep archive size manageable.
@@ -173,6 +373,13 @@ class E2BSandboxWrapper implements Sandbox {
     await this.sandbox.setTimeout(timeoutMs);
   }
 
+  /**
+   * Measure current CPU, memory and disk usage.
+   */
+  async getResourceUsage(): Promise<ResourceUsage> {
+    return sampleResourceUsage(this);
+  }
+
   /**
    * Emit output to all listeners.
    */
@@ -194,16 +401,30 @@ export class E2BProvider implements SandboxProvider {
 
   /**
    * Create a new E2B sandbox.
+   * E2B can only switch internet access off entirely, so a network policy that
+   * allows no hosts is enforced and host lists are recorded as unenforced.
+   * CPU, memory and disk are fixed by the template (cpu_count/memory_mb in
+   * e2b.toml), so config.resources can't be applied here.
    */
   async create(config: SandboxConfig): Promise<Sandbox> {
+    if (config.resources) {
+      console.warn(
+        `[e2b] Resource limits are set by the sandbox template; ignoring ${JSON.stringify(config.resources)}`
+      );
+    }
+    const policy = resolveNetworkPolicy(config.network);
+    const network = policy ? enforceByBlockingAll(policy) : undefined;
+
     // E2B SDK API: create(template: string, opts?: SandboxOpts)
     const template = config.template ?? 'base';
     const sandbox = await E2BSandboxSDK.create(template, {
       envs: config.env,
       timeoutMs: config.timeout ? config.timeout * 1000 : 300_000,
+      ...(network?.enforcement === 'provider' && { allowInternetAccess: false }),
     });
 
     const wrapper = new E2BSandboxWrapper(sandbox);
+    wrapper.network = network;
     this.activeSandboxes.set(wrapper.id, wrapper);
 
     return wrapper;
@@ -248,6 +469,49 @@ export class E2BProvider implements SandboxProvider {
       this.activeSandboxes.delete(id);
     }
   }
+
+  /**
+   * Pause a sandbox. E2B keeps both the filesystem and memory, so running
+   * processes (e.g. a dev server) continue where they left off after a restore.
+   * The snapshot ID is the sandbox ID.
+   */
+  async snapshot(sandboxId: string): Promise<SandboxSnapshot> {
+    await e2bApiRequest('POST', `/sandboxes/${sandboxId}/pause`);
+    this.activeSandboxes.delete(sandboxId);
+    return { id: sandboxId, provider: this.name, createdAt: new Date() };
+  }
+
+  /**
+   * Resume a paused sandbox.
+   * Only the timeout from the config applies - env and template are fixed by the snapshot.
+   */
+  async restoreFromSnapshot(snapshotId: string, config: SandboxConfig): Promise<Sandbox> {
+    const timeoutSeconds = config.timeout ?? 300;
+    // 409 means the sandbox is already running, which is as good as resumed
+    await e2bApiRequest(
+      'POST',
+      `/sandboxes/${snapshotId}/resume`,
+      { timeout: timeoutSeconds },
+      [409]
+    );
+
+    const sandbox = await E2BSandboxSDK.connect(snapshotId);
+    const wrapper = new E2BSandboxWrapper(sandbox);
+    // A resumed sandbox keeps the network settings it was created with
+    const policy = resolveNetworkPolicy(config.network);
+    wrapper.network = policy ? enforceByBlockingAll(policy) : undefined;
+    this.activeSandboxes.set(wrapper.id, wrapper);
+    await wrapper.setTimeout(timeoutSeconds * 1000);
+
+    return wrapper;
+  }
+
+  /**
+   * Kill a paused sandbox that will never be resumed.
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await E2BSandboxSDK.kill(snapshotId);
+  }
 }
 
 /**
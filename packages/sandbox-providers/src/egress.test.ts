@@ -0,0 +1,183 @@
+/**
+ * Egress Policy Tests
+ * ===================
+ *
+ * Policy resolution, plus the egress proxy as the local provider wires it up.
+ */
+
+import { createServer, request, type Server } from 'node:http';
+import { connect } from 'node:net';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { NPM_REGISTRY_HOSTS, resolveNetworkPolicy } from './egress.js';
+import type { Sandbox } from './interface.js';
+import { LocalProcessProvider } from './local.js';
+
+let baseDir: string;
+let provider: LocalProcessProvider;
+let upstream: Server;
+let upstreamPort: number;
+
+beforeAll(async () => {
+  baseDir = await mkdtemp(join(tmpdir(), 'egress-test-'));
+  provider = new LocalProcessProvider({ baseDir });
+
+  upstream = createServer((_req, res) => res.end('upstream ok'));
+  await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+  upstreamPort = (upstream.address() as { port: number }).port;
+});
+
+afterAll(async () => {
+  upstream.close();
+  await rm(baseDir, { recursive: true, force: true });
+});
+
+/**
+ * Fetch a URL through a sandbox's proxy, the way an HTTP_PROXY-aware client would.
+ */
+async function fetchViaProxy(
+  sandbox: Sandbox,
+  url: string
+): Promise<{ status: number; body: string }> {
+  const proxy = new URL((await sandbox.exec('printf %s "$HTTP_PROXY"')).stdout);
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      { host: proxy.hostname, port: proxy.port, path: url, headers: { host: new URL(url).host } },
+      (res) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => (body += chunk.toString('utf-8')));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+      }
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Open an HTTPS-style CONNECT tunnel through a sandbox's proxy and return the status line.
+ */
+async function connectViaProxy(sandbox: Sandbox, target: string): Promise<string> {
+  const proxy = new URL((await sandbox.exec('printf %s "$HTTPS_PROXY"')).stdout);
+
+  return new Promise((resolve, reject) => {
+    const socket = connect(Number(proxy.port), proxy.hostname, () => {
+      socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`);
+    });
+    socket.once('data', (chunk: Buffer) => {
+      resolve(chunk.toString('utf-8').split('\r\n')[0]);
+      socket.destroy();
+    });
+    socket.on('error', reject);
+  });
+}
+
+/**
+ * Check whether anything is listening at a URL's host and port.
+ */
+function canConnect(url: URL): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect(Number(url.port), url.hostname, () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.on('error', () => resolve(false));
+  });
+}
+
+describe('resolveNetworkPolicy', () => {
+  it('returns null for policies that restrict nothing', () => {
+    expect(resolveNetworkPolicy(undefined)).toBeNull();
+    expect(resolveNetworkPolicy({ denyHosts: [] })).toBeNull();
+  });
+
+  it('expands the npm registry preset and normalizes hosts', () => {
+    expect(
+      resolveNetworkPolicy({ npmRegistryOnly: true, allowHosts: ['GitHub.com.', 'github.com'] })
+    ).toEqual({ allowHosts: [...NPM_REGISTRY_HOSTS, 'github.com'], denyHosts: [] });
+  });
+
+  it('keeps an empty allow list, which blocks everything', () => {
+    expect(resolveNetworkPolicy({ allowHosts: [] })).toEqual({ allowHosts: [], denyHosts: [] });
+  });
+
+  it('rejects patterns that are not hostnames', () => {
+    expect(() => resolveNetworkPolicy({ denyHosts: ['https://evil.example.com'] })).toThrow(
+      'Invalid host pattern'
+    );
+  });
+});
+
+describe('egress proxy (local provider)', () => {
+  it('forwards allowed hosts and blocks the rest', async () => {
+    const sandbox = await provider.create({ network: { allowHosts: ['localhost'] } });
+    try {
+      expect(sandbox.network).toEqual({
+        allowHosts: ['localhost'],
+        denyHosts: [],
+        enforcement: 'proxy',
+        unenforced: [],
+      });
+
+      const allowed = await fetchViaProxy(sandbox, `http://localhost:${upstreamPort}/`);
+      expect(allowed).toEqual({ status: 200, body: 'upstream ok' });
+
+      const blocked = await fetchViaProxy(sandbox, 'http://example.com/');
+      expect(blocked.status).toBe(403);
+      expect(blocked.body).toContain('example.com');
+
+      expect(await connectViaProxy(sandbox, `localhost:${upstreamPort}`)).toContain('200');
+      expect(await connectViaProxy(sandbox, 'registry.npmjs.org:443')).toContain('403');
+    } finally {
+      await sandbox.destroy();
+    }
+  });
+
+  it('blocks denied hosts and their subdomains', async () => {
+    const sandbox = await provider.create({ network: { denyHosts: ['*.example.com'] } });
+    try {
+      expect((await fetchViaProxy(sandbox, 'http://example.com/')).status).toBe(403);
+      expect(await connectViaProxy(sandbox, 'api.example.com:443')).toContain('403');
+      expect((await fetchViaProxy(sandbox, `http://localhost:${upstreamPort}/`)).status).toBe(200);
+    } finally {
+      await sandbox.destroy();
+    }
+  });
+
+  it('leaves unrestricted sandboxes alone and stops the proxy on destroy', async () => {
+    const open = await provider.create({});
+    expect(open.network).toBeUndefined();
+    await open.destroy();
+
+    const restricted = await provider.create({ network: { allowHosts: [] } });
+    const proxy = new URL((await restricted.exec('printf %s "$HTTP_PROXY"')).stdout);
+    expect(await canConnect(proxy)).toBe(true);
+
+    await restricted.destroy();
+
+    await expect.poll(() => canConnect(proxy), { timeout: 2000 }).toBe(false);
+  });
+  it('reports the policy as unenforced on a sandbox reattached after a restart', async () => {
+    const sandbox = await provider.create({
+      network: { allowHosts: ['localhost'], denyHosts: ['*.example.com'] },
+    });
+    try {
+      const reattached = await new LocalProcessProvider({ baseDir }).get(sandbox.id);
+      expect(reattached?.network).toEqual({
+        allowHosts: ['localhost'],
+        denyHosts: ['*.example.com'],
+        enforcement: 'none',
+        unenforced: ['allowHosts', 'denyHosts'],
+      });
+
+      const open = await provider.create({});
+      expect((await new LocalProcessProvider({ baseDir }).get(open.id))?.network).toBeUndefined();
+      await open.destroy();
+    } finally {
+      await sandbox.destroy();
+    }
+  });
+});
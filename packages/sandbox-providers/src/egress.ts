@@ -0,0 +1,227 @@
+/**
+ * Sandbox Egress Policy
+ * =====================
+ *
+ * Resolves NetworkPolicy configs and runs the filtering forward proxy that the
+ * Docker and local providers route sandbox traffic through.
+ *
+ * The proxy is a standalone Node.js script so the same code runs as a host child
+ * process (local provider) and inside a gateway container (Docker provider). It
+ * handles plain HTTP requests and HTTPS CONNECT tunnels, and answers 403 for any
+ * host the policy doesn't allow. Hosts are matched by the name the client asked
+ * for; requests for a raw IP address only pass when that IP is allowed.
+ */
+
+import { spawn } from 'node:child_process';
+import type { NetworkPolicy, SandboxNetwork } from './interface.js';
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+/** Hosts the npmRegistryOnly mode allows */
+export const NPM_REGISTRY_HOSTS = ['registry.npmjs.org', 'registry.yarnpkg.com'];
+
+/** The host lists of a policy once presets are expanded */
+export type ResolvedNetworkPolicy = Pick<SandboxNetwork, 'allowHosts' | 'denyHosts'>;
+
+/**
+ * Normalize a host pattern, rejecting anything that isn't a hostname or '*.' wildcard.
+ */
+function normalizeHostPattern(pattern: string): string {
+  const host = pattern.trim().toLowerCase().replace(/\.$/, '');
+  if (!/^(\*\.)?[a-z0-9_-]+(\.[a-z0-9_-]+)*$/.test(host)) {
+    throw new Error(`Invalid host pattern in network policy: '${pattern}'`);
+  }
+  return host;
+}
+
+/**
+ * Expand a network policy into explicit host lists.
+ *
+ * @returns The resolved policy, or null when the policy doesn't restrict anything
+ */
+export function resolveNetworkPolicy(policy?: NetworkPolicy): ResolvedNetworkPolicy | null {
+  if (!policy) {
+    return null;
+  }
+
+  let allowHosts: string[] | null = policy.allowHosts?.map(normalizeHostPattern) ?? null;
+  if (policy.npmRegistryOnly) {
+    allowHosts = [...NPM_REGISTRY_HOSTS, ...(allowHosts ?? [])];
+  }
+  const denyHosts = (policy.denyHosts ?? []).map(normalizeHostPattern);
+
+  if (allowHosts === null && denyHosts.length === 0) {
+    return null;
+  }
+  return { allowHosts: allowHosts && [...new Set(allowHosts)], denyHosts: [...new Set(denyHosts)] };
+}
+
+/**
+ * Describe a policy on a provider whose only network control is switching internet
+ * access off: blocking everything is enforced, host lists are not.
+ */
+export function enforceByBlockingAll(policy: ResolvedNetworkPolicy): SandboxNetwork {
+  if (policy.allowHosts?.length === 0) {
+    return { ...policy, enforcement: 'provider', unenforced: [] };
+  }
+  return {
+    ...policy,
+    enforcement: 'none',
+    unenforced: [
+      ...(policy.allowHosts ? ['allowHosts'] : []),
+      ...(policy.denyHosts.length > 0 ? ['denyHosts'] : []),
+    ],
+  };
+}
+
+// ============================================================================
+// Egress Proxy
+// ============================================================================
+
+/**
+ * Filtering forward proxy, run with `node -e`.
+ * Reads the resolved policy from EGRESS_POLICY and listens on EGRESS_HOST:EGRESS_PORT
+ * (port 0 picks a free port), then prints "listening <port>".
+ */
+export const EGRESS_PROXY_SCRIPT = `
+const http = require('node:http');
+const net = require('node:net');
+
+const { allowHosts, denyHosts } = JSON.parse(process.env.EGRESS_POLICY);
+const matches = (host, pattern) =>
+  pattern.startsWith('*.') ? host === pattern.slice(2) || host.endsWith(pattern.slice(1)) : host === pattern;
+const isAllowed = (host) => {
+  host = host.toLowerCase().replace(/^\\[|\\]$/g, '').replace(/\\.$/, '');
+  if (denyHosts.some((pattern) => matches(host, pattern))) return false;
+  return allowHosts === null || allowHosts.some((pattern) => matches(host, pattern));
+};
+const blocked = (host) => 'Blocked by sandbox network policy: ' + host + '\\n';
+
+const server = http.createServer((req, res) => {
+  let url;
+  try {
+    url = new URL(req.url);
+  } catch {
+    res.writeHead(400).end('Proxy requests must use absolute URLs\\n');
+    return;
+  }
+  if (url.protocol !== 'http:' || !isAllowed(url.hostname)) {
+    res.writeHead(403, { 'content-type': 'text/plain' }).end(blocked(url.hostname));
+    return;
+  }
+  const headers = { ...req.headers };
+  delete headers['proxy-connection'];
+  delete headers['proxy-authorization'];
+  const upstream = http.request(url, { method: req.method, headers }, (response) => {
+    res.writeHead(response.statusCode, response.headers);
+    response.pipe(res);
+  });
+  upstream.on('error', () => res.headersSent ? res.destroy() : res.writeHead(502).end());
+  req.pipe(upstream);
+});
+
+server.on('connect', (req, socket, head) => {
+  const match = /^(\\[[^\\]]+\\]|[^:]+):(\\d+)$/.exec(req.url);
+  if (!match || !isAllowed(match[1])) {
+    socket.end('HTTP/1.1 403 Forbidden\\r\\ncontent-type: text/plain\\r\\n\\r\\n' + blocked(match ? match[1] : req.url));
+    return;
+  }
+  const upstream = net.connect(Number(match[2]), match[1].replace(/^\\[|\\]$/g, ''), () => {
+    socket.write('HTTP/1.1 200 Connection Established\\r\\n\\r\\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', () => socket.end('HTTP/1.1 502 Bad Gateway\\r\\n\\r\\n'));
+  socket.on('error', () => upstream.destroy());
+});
+
+// Exit with the process that started the proxy, if asked to
+if (process.env.EGRESS_EXIT_ON_STDIN_CLOSE) {
+  process.stdin.on('end', () => process.exit(0)).resume();
+}
+
+server.listen(Number(process.env.EGRESS_PORT), process.env.EGRESS_HOST, () => {
+  console.log('listening ' + server.address().port);
+});
+`;
+
+/** How long to wait for the proxy to start listening */
+const PROXY_START_TIMEOUT_MS = 10_000;
+
+/**
+ * A running egress proxy.
+ */
+export interface EgressProxy {
+  /** Proxy URL for HTTP_PROXY/HTTPS_PROXY (e.g. "http://127.0.0.1:41234") */
+  url: string;
+  /** Stop the proxy */
+  close(): void;
+}
+
+/**
+ * Environment variables that route a sandbox's HTTP(S) traffic through a proxy.
+ * Loopback stays direct so dev servers inside the sandbox keep working.
+ */
+export function egressProxyEnv(proxyUrl: string): Record<string, string> {
+  const noProxy = 'localhost,127.0.0.1,::1';
+  return {
+    HTTP_PROXY: proxyUrl,
+    HTTPS_PROXY: proxyUrl,
+    http_proxy: proxyUrl,
+    https_proxy: proxyUrl,
+    NO_PROXY: noProxy,
+    no_proxy: noProxy,
+  };
+}
+
+/**
+ * Start the egress proxy as a child process on a free loopback port.
+ * The proxy exits on its own if this process dies.
+ */
+export function startEgressProxy(policy: ResolvedNetworkPolicy): Promise<EgressProxy> {
+  const child = spawn(process.execPath, ['-e', EGRESS_PROXY_SCRIPT], {
+    env: {
+      EGRESS_POLICY: JSON.stringify(policy),
+      EGRESS_HOST: '127.0.0.1',
+      EGRESS_PORT: '0',
+      EGRESS_EXIT_ON_STDIN_CLOSE: '1',
+    },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+
+  return new Promise((resolve, reject) => {
+    let output = '';
+    let stderr = '';
+
+    const fail = (message: string) => {
+      clearTimeout(timer);
+      child.kill();
+      reject(new Error(`Failed to start egress proxy: ${message}`));
+    };
+    const timer = setTimeout(() => fail('timed out'), PROXY_START_TIMEOUT_MS);
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString('utf-8');
+    });
+    child.stdout?.on('data', (chunk: Buffer) => {
+      output += chunk.toString('utf-8');
+      const match = output.match(/^listening (\d+)\n/);
+      if (!match) {
+        return;
+      }
+      clearTimeout(timer);
+      child.stdout?.removeAllListeners('data');
+      resolve({
+        url: `http://127.0.0.1:${match[1]}`,
+        close: () => {
+          child.kill();
+        },
+      });
+    });
+    child.on('error', (error) => fail(error.message));
+    child.on('exit', (code) => fail(stderr.trim() || `exited with code ${code}`));
+  });
+}
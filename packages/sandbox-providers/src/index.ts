@@ -13,8 +13,17 @@ export type {
   ProviderRegistry,
   Sandbox,
   SandboxConfig,
+  SandboxSnapshot,
+  NetworkPolicy,
+  ResourceUsage,
+  SandboxTerminal,
+  TerminalOptions,
+  SandboxNetwork,
   AgentOutput,
   ExecResult,
+  ExecOptions,
+  BackgroundProcess,
+  FileEntry,
 } from './interface.js';
 
 export {
@@ -25,15 +34,37 @@ export {
   getSandbox,
 } from './interface.js';
 
+// Network egress policies
+export { NPM_REGISTRY_HOSTS, resolveNetworkPolicy } from './egress.js';
+export type { ResolvedNetworkPolicy } from './egress.js';
+
 // Providers
 export { E2BProvider, e2bProvider } from './e2b.js';
 export { DaytonaProvider, daytonaProvider } from './daytona.js';
+export type { DaytonaProviderOptions } from './daytona.js';
+export { DockerProvider, dockerProvider } from './docker.js';
+export type { DockerProviderOptions } from './docker.js';
+export { LocalProcessProvider, localProcessProvider } from './local.js';
+export type { LocalProcessProviderOptions } from './local.js';
+
+// Warm pools
+export { SandboxPool } from './pool.js';
+export type {
+  SandboxPoolOptions,
+  SandboxLeaseOptions,
+  SandboxLease,
+  SandboxPoolStats,
+} from './pool.js';
 
 // Auto-register default providers
 import { registerProvider } from './interface.js';
 import { e2bProvider } from './e2b.js';
 import { daytonaProvider } from './daytona.js';
+import { dockerProvider } from './docker.js';
+import { localProcessProvider } from './local.js';
 
 // Register providers on module load
 registerProvider(e2bProvider);
 registerProvider(daytonaProvider);
+registerProvider(dockerProvider);
+registerProvider(localProcessProvider);
@@ -16,6 +16,58 @@ export interface ExecResult {
   exitCode: number;
 }
 
+export interface ExecOptions {
+  /** Working directory for the command (default: the sandbox workspace) */
+  cwd?: string;
+  /** Extra environment variables for this command only */
+  env?: Record<string, string>;
+  /** Kill the command after this many milliseconds (exit code 124) */
+  timeoutMs?: number;
+  /** Kill the command when the signal aborts (exit code 130) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Handle to a long-running process started with Sandbox.spawnBackground().
+ */
+export interface BackgroundProcess {
+  /** Process ID inside the sandbox */
+  pid: number;
+  /** Stream stdout and stderr from the start of the process until it exits */
+  logs(): AsyncIterable<string>;
+  /** Stop the process and anything it started */
+  kill(): Promise<void>;
+  /** Wait for the process to exit; never rejects */
+  wait(): Promise<ExecResult>;
+}
+
+export interface TerminalOptions {
+  /** Terminal width in columns (default: 80) */
+  cols?: number;
+  /** Terminal height in rows (default: 24) */
+  rows?: number;
+  /** Working directory for the shell (default: the sandbox workspace) */
+  cwd?: string;
+  /** Extra environment variables for the shell */
+  env?: Record<string, string>;
+}
+
+/**
+ * Interactive shell session started with Sandbox.openTerminal().
+ */
+export interface SandboxTerminal {
+  /** Stream raw terminal output from the start of the session until the shell exits */
+  output(): AsyncIterable<string>;
+  /** Send input (keystrokes or pasted text) to the shell */
+  write(data: string): Promise<void>;
+  /** Change the terminal size */
+  resize(cols: number, rows: number): Promise<void>;
+  /** End the session, killing the shell and anything it started */
+  close(): Promise<void>;
+  /** Wait for the shell to exit and get its exit code; never rejects */
+  wait(): Promise<number>;
+}
+
 export interface AgentOutput {
   type: 'text' | 'tool_use' | 'tool_result' | 'error';
   content: string;
@@ -23,22 +75,79 @@ export interface AgentOutput {
   metadata?: Record<string, unknown>;
 }
 
+export interface FileEntry {
+  /** Base name of the entry */
+  name: string;
+  /** Absolute path of the entry */
+  path: string;
+  type: 'file' | 'dir' | 'symlink';
+  /** Size in bytes (0 for directories on some providers) */
+  size: number;
+  /** Last modification time, when the provider reports it */
+  modifiedAt?: Date;
+}
+
+/**
+ * Point-in-time resource consumption of a sandbox.
+ */
+export interface ResourceUsage {
+  /** CPU use over the sample window, in percent of one core (can exceed 100) */
+  cpuPercent: number;
+  memoryUsedBytes: number;
+  /** Memory the sandbox may use, when it has a known limit */
+  memoryLimitBytes?: number;
+  /** Space used on the workspace filesystem */
+  diskUsedBytes: number;
+  /** Size of the workspace filesystem */
+  diskTotalBytes?: number;
+}
+
 export interface Sandbox {
   id: string;
   status: 'creating' | 'running' | 'stopped' | 'error';
 
   /** Execute a command in the sandbox */
-  exec(command: string): Promise<ExecResult>;
+  exec(command: string, options?: ExecOptions): Promise<ExecResult>;
+
+  /**
+   * Start a long-running command (e.g. a dev server) without waiting for it to exit.
+   * Resolves once the process has started.
+   */
+  spawnBackground(command: string, options?: ExecOptions): Promise<BackgroundProcess>;
 
   /** Stream command output */
   execStream(command: string): AsyncIterable<string>;
 
+  /** Open an interactive shell on a pseudo-terminal */
+  openTerminal(options?: TerminalOptions): Promise<SandboxTerminal>;
+
   /** Write a file to the sandbox */
   writeFile(path: string, content: string): Promise<void>;
 
   /** Read a file from the sandbox */
   readFile(path: string): Promise<string>;
 
+  /** Write raw bytes to a file, creating parent directories as needed */
+  writeFileBytes(path: string, data: Uint8Array): Promise<void>;
+
+  /** Read a file's raw bytes */
+  readFileBytes(path: string): Promise<Buffer>;
+
+  /** List the direct children of a directory */
+  listDir(path: string): Promise<FileEntry[]>;
+
+  /** Check whether a file or directory exists */
+  exists(path: string): Promise<boolean>;
+
+  /** Remove a file or directory (recursively); missing paths are ignored */
+  remove(path: string): Promise<void>;
+
+  /** Move or rename a file or directory */
+  rename(from: string, to: string): Promise<void>;
+
+  /** Create a directory and any missing parents */
+  mkdir(path: string): Promise<void>;
+
   /** Download directory as buffer */
   downloadDir(path: string): Promise<Buffer>;
 
@@ -70,6 +179,62 @@ export interface Sandbox {
    * @param timeoutMs - New timeout in milliseconds from now
    */
   setTimeout(timeoutMs: number): Promise<void>;
+
+  /**
+   * Measure current CPU, memory and disk usage.
+   * Takes about a second, since CPU use is sampled over a short window.
+   */
+  getResourceUsage(): Promise<ResourceUsage>;
+
+  /**
+   * Network policy in effect for the sandbox, as enforced by the provider.
+   * Undefined when the sandbox was created without a policy (unrestricted egress).
+   */
+  network?: SandboxNetwork;
+}
+
+/**
+ * Reference to a saved sandbox state, returned by SandboxProvider.snapshot().
+ */
+export interface SandboxSnapshot {
+  /** Provider-specific snapshot ID, passed back to restoreFromSnapshot() */
+  id: string;
+  /** Name of the provider that took the snapshot */
+  provider: string;
+  createdAt: Date;
+}
+
+/**
+ * Outbound network access allowed from a sandbox.
+ * Host patterns are hostnames; '*.example.com' also matches every subdomain.
+ */
+export interface NetworkPolicy {
+  /** Only these hosts are reachable. An empty list blocks all egress */
+  allowHosts?: string[];
+  /** These hosts are never reachable, even when allowed */
+  denyHosts?: string[];
+  /** Only the npm registry is reachable (plus any allowHosts) */
+  npmRegistryOnly?: boolean;
+}
+
+/**
+ * A network policy as a provider actually applied it.
+ */
+export interface SandboxNetwork {
+  /** Reachable hosts, or null when every host that isn't denied is reachable */
+  allowHosts: string[] | null;
+  /** Hosts that are never reachable */
+  denyHosts: string[];
+  /**
+   * How the policy is enforced:
+   * - 'isolated': the sandbox has no route out except a filtering egress proxy
+   * - 'proxy': proxy environment variables only; programs that ignore them bypass it
+   * - 'provider': the provider's own network controls
+   * - 'none': not enforced at all
+   */
+  enforcement: 'isolated' | 'proxy' | 'provider' | 'none';
+  /** Parts of the policy the provider could not enforce */
+  unenforced: string[];
 }
 
 export interface SandboxConfig {
@@ -77,7 +242,7 @@ export interface SandboxConfig {
   template?: string;
   /** Environment variables */
   env?: Record<string, string>;
-  /** Resource limits */
+  /** Resource limits, applied where the provider supports them */
   resources?: {
     cpu?: number;
     memory?: string;
@@ -85,6 +250,8 @@ export interface SandboxConfig {
   };
   /** Timeout in seconds */
   timeout?: number;
+  /** Outbound network restrictions (default: unrestricted) */
+  network?: NetworkPolicy;
 }
 
 // ============================================================================
@@ -129,6 +296,35 @@ export interface SandboxProvider {
    * @param id - Sandbox ID
    */
   destroy(id: string): Promise<void>;
+
+  /**
+   * Save the full state of a sandbox (files, installed dependencies and tools, and on
+   * some providers running processes) and release it. Afterwards the sandbox can only
+   * be brought back with restoreFromSnapshot() - don't destroy() it.
+   * Optional: callers fall back to artifact storage when a provider lacks it.
+   *
+   * @param sandboxId - Sandbox to snapshot
+   * @returns The snapshot reference
+   */
+  snapshot?(sandboxId: string): Promise<SandboxSnapshot>;
+
+  /**
+   * Bring a snapshotted sandbox back. The snapshot is consumed; take a new one
+   * to pause again.
+   *
+   * @param snapshotId - ID from a previous snapshot()
+   * @param config - Configuration for the restored sandbox (providers may ignore
+   *   settings that are fixed by the snapshot)
+   * @returns The restored sandbox
+   */
+  restoreFromSnapshot?(snapshotId: string, config: SandboxConfig): Promise<Sandbox>;
+
+  /**
+   * Discard a snapshot that will never be restored.
+   *
+   * @param snapshotId - ID from a previous snapshot()
+   */
+  deleteSnapshot?(snapshotId: string): Promise<void>;
 }
 
 /**
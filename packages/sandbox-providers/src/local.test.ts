@@ -0,0 +1,235 @@
+/**
+ * Local Process Provider Tests
+ * ============================
+ *
+ * Runs real shell commands in temp directories, so no cloud credentials are needed.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { Sandbox } from './interface.js';
+import { LocalProcessProvider } from './local.js';
+
+let baseDir: string;
+let provider: LocalProcessProvider;
+let sandbox: Sandbox;
+
+beforeAll(async () => {
+  baseDir = await mkdtemp(join(tmpdir(), 'local-provider-test-'));
+  provider = new LocalProcessProvider({ baseDir });
+});
+
+afterAll(async () => {
+  await rm(baseDir, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  await sandbox?.destroy();
+});
+
+describe('LocalProcessProvider', () => {
+  it('runs commands inside the sandbox directory', async () => {
+    sandbox = await provider.create({ env: { GREETING: 'hello' } });
+
+    const result = await sandbox.exec('echo "$GREETING" && pwd');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('hello');
+    expect(result.stdout).toContain(sandbox.id);
+  });
+
+  it('reports non-zero exit codes', async () => {
+    sandbox = await provider.create({});
+
+    const result = await sandbox.exec('echo oops >&2; exit 3');
+
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr).toContain('oops');
+  });
+
+  it('maps /home/user onto the sandbox directory for files and commands', async () => {
+    sandbox = await provider.create({});
+
+    await sandbox.writeFile('/home/user/app/index.js', 'console.log(1);');
+
+    expect(await sandbox.readFile('app/index.js')).toBe('console.log(1);');
+    const result = await sandbox.exec('cat /home/user/app/index.js');
+    expect(result.stdout).toBe('console.log(1);');
+  });
+
+  it('applies cwd and env exec options', async () => {
+    sandbox = await provider.create({});
+    await sandbox.mkdir('/home/user/app');
+
+    const result = await sandbox.exec('echo "$MODE" && pwd', {
+      cwd: '/home/user/app',
+      env: { MODE: 'test' },
+    });
+
+    expect(result.stdout).toContain('test');
+    expect(result.stdout.trim().endsWith(join(sandbox.id, 'app'))).toBe(true);
+  });
+
+  it('kills commands that exceed their timeout', async () => {
+    sandbox = await provider.create({});
+
+    const started = Date.now();
+    const result = await sandbox.exec('echo before; sleep 30', { timeoutMs: 200 });
+
+    expect(result.exitCode).toBe(124);
+    expect(result.stdout).toContain('before');
+    expect(result.stderr).toContain('timed out');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('kills commands when the abort signal fires', async () => {
+    sandbox = await provider.create({});
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await sandbox.exec('sleep 30', { signal: controller.signal });
+
+    expect(result.exitCode).toBe(130);
+    expect(result.stderr).toContain('aborted');
+  });
+
+  it('runs background processes with streamed logs', async () => {
+    sandbox = await provider.create({});
+
+    const server = await sandbox.spawnBackground('echo ready; sleep 30');
+    expect(server.pid).toBeGreaterThan(0);
+
+    for await (const chunk of server.logs()) {
+      if (chunk.includes('ready')) {
+        break;
+      }
+    }
+    await server.kill();
+
+    const result = await server.wait();
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout).toContain('ready');
+  });
+
+  it('round-trips binary file contents', async () => {
+    sandbox = await provider.create({});
+    const data = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff, 0xfe, 0x80]);
+
+    await sandbox.writeFileBytes('/home/user/assets/archive.zip', data);
+
+    const read = await sandbox.readFileBytes('/home/user/assets/archive.zip');
+    expect(Buffer.compare(read, Buffer.from(data))).toBe(0);
+  });
+
+  it('lists, checks, renames and removes files', async () => {
+    sandbox = await provider.create({});
+    await sandbox.mkdir('/home/user/project/src');
+    await sandbox.writeFile('/home/user/project/package.json', '{}');
+
+    const entries = await sandbox.listDir('/home/user/project');
+    expect(entries.map((entry) => [entry.name, entry.type]).sort()).toEqual([
+      ['package.json', 'file'],
+      ['src', 'dir'],
+    ]);
+    expect(entries.find((entry) => entry.name === 'package.json')).toMatchObject({
+      path: '/home/user/project/package.json',
+      size: 2,
+    });
+
+    await sandbox.rename('/home/user/project/package.json', '/home/user/project/src/package.json');
+    expect(await sandbox.exists('/home/user/project/package.json')).toBe(false);
+    expect(await sandbox.exists('/home/user/project/src/package.json')).toBe(true);
+
+    await sandbox.remove('/home/user/project');
+    await sandbox.remove('/home/user/missing');
+    expect(await sandbox.exists('/home/user/project')).toBe(false);
+  });
+
+  it('streams command output', async () => {
+    sandbox = await provider.create({});
+    const received: string[] = [];
+    sandbox.onOutput((output) => received.push(output.content));
+
+    const chunks: string[] = [];
+    for await (const chunk of sandbox.execStream('echo one; echo two >&2')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toContain('one');
+    expect(chunks.join('')).toContain('two');
+    expect(received.join('')).toContain('one');
+  });
+
+  it('does not wait for background jobs to finish', async () => {
+    sandbox = await provider.create({});
+
+    const started = Date.now();
+    const result = await sandbox.exec('sleep 30 & echo started');
+
+    expect(result.stdout).toContain('started');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('downloads a directory as a tar archive without node_modules', async () => {
+    sandbox = await provider.create({});
+    await sandbox.writeFile('/home/user/src/main.ts', 'export {};');
+    await sandbox.writeFile('/home/user/node_modules/dep/index.js', '');
+
+    const archive = await sandbox.downloadDir('/home/user');
+    const listing = archive.toString('latin1');
+
+    expect(listing).toContain('src/main.ts');
+    expect(listing).not.toContain('node_modules');
+  });
+
+  it('reattaches to and destroys sandboxes by id', async () => {
+    sandbox = await provider.create({});
+    const rootDir = join(baseDir, sandbox.id);
+
+    expect(await provider.get(sandbox.id)).toBe(sandbox);
+    expect(await provider.get('../etc')).toBeNull();
+
+    await provider.destroy(sandbox.id);
+
+    expect(existsSync(rootDir)).toBe(false);
+    expect(await sandbox.isRunning()).toBe(false);
+    expect(await provider.get(sandbox.id)).toBeNull();
+  });
+
+  it('snapshots and restores sandbox files', async () => {
+    sandbox = await provider.create({});
+    await sandbox.writeFile('/home/user/node_modules/dep/index.js', 'module.exports = 1;');
+
+    const snapshot = await provider.snapshot(sandbox.id);
+
+    expect(snapshot.provider).toBe('local');
+    expect(await sandbox.isRunning()).toBe(false);
+    expect(await provider.get(sandbox.id)).toBeNull();
+
+    sandbox = await provider.restoreFromSnapshot(snapshot.id, {});
+
+    expect(await sandbox.readFile('/home/user/node_modules/dep/index.js')).toBe(
+      'module.exports = 1;'
+    );
+    await expect(provider.restoreFromSnapshot(snapshot.id, {})).rejects.toThrow();
+    await expect(provider.deleteSnapshot('../escape')).rejects.toThrow('Invalid');
+  });
+
+  it('destroys the sandbox when its timeout expires', async () => {
+    sandbox = await provider.create({});
+    await sandbox.setTimeout(50);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(await sandbox.isRunning()).toBe(false);
+  });
+
+  it('returns host addresses for ports', async () => {
+    sandbox = await provider.create({});
+
+    expect(sandbox.getHost(5173)).toBe('localhost:5173');
+  });
+});
@@ -0,0 +1,657 @@
+/**
+ * Local Process Sandbox Provider
+ * ==============================
+ *
+ * Implementation of the sandbox provider interface backed by a temp directory on
+ * the host and `child_process`. There is NO isolation: commands run as the
+ * current user with full access to the machine, so this provider is only meant
+ * for dev machines and automated tests.
+ *
+ * Agent prompts and tools assume the E2B layout where the workspace lives at
+ * /home/user. Paths and commands referring to that directory are rewritten to
+ * the sandbox's temp directory so the real agent loop runs unchanged.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import {
+  access,
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, posix, resolve } from 'node:path';
+import type {
+  Sandbox,
+  SandboxConfig,
+  AgentOutput,
+  ExecResult,
+  ExecOptions,
+  BackgroundProcess,
+  FileEntry,
+  SandboxProvider,
+  SandboxSnapshot,
+  SandboxNetwork,
+  ResourceUsage,
+  SandboxTerminal,
+  TerminalOptions,
+  NetworkPolicy,
+} from './interface.js';
+import { applyExecLimits, ProcessLog } from './background.js';
+import { sampleResourceUsage } from './resources.js';
+import { openShellTerminal } from './terminal.js';
+import {
+  egressProxyEnv,
+  resolveNetworkPolicy,
+  startEgressProxy,
+  type EgressProxy,
+} from './egress.js';
+import { collectOutput, streamOutput, trackProcess } from './process-utils.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Prefix of sandbox temp directories (and therefore sandbox IDs) */
+const SANDBOX_PREFIX = 'local-sandbox-';
+
+/** Prefix of snapshot directories (and therefore snapshot IDs) */
+const SNAPSHOT_PREFIX = 'local-snapshot-';
+
+/** Workspace path the agent expects; mapped onto the sandbox directory */
+const VIRTUAL_HOME = '/home/user';
+
+/** Directories skipped when downloading a directory archive */
+const DOWNLOAD_EXCLUDES = ['node_modules', '.git', '.next', 'dist', 'build', '.cache', 'coverage'];
+
+export interface LocalProcessProviderOptions {
+  /** Parent directory for sandbox directories (default: the OS temp dir) */
+  baseDir?: string;
+  /** Hostname returned by getHost() (default: localhost) */
+  publicHost?: string;
+}
+
+/**
+ * File next to a sandbox's directory recording its network policy, so a
+ * sandbox reattached after a restart reports the policy it no longer has a
+ * proxy for. Hidden, so it's never taken for a sandbox directory.
+ */
+function networkPolicyFile(rootDir: string): string {
+  return join(dirname(rootDir), `.${basename(rootDir)}.network.json`);
+}
+
+/** Egress proxy a sandbox's network policy is routed through */
+interface LocalEgress {
+  proxy: EgressProxy;
+  network: SandboxNetwork;
+}
+
+// ============================================================================
+// Sandbox Wrapper
+// ============================================================================
+
+/**
+ * Host directory plus child processes that implements our Sandbox interface.
+ */
+class LocalSandboxWrapper implements Sandbox {
+  private outputListeners: Set<(data: AgentOutput) => void> = new Set();
+  private processes: Set<ChildProcess> = new Set();
+  private timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+  public status: 'creating' | 'running' | 'stopped' | 'error' = 'running';
+  public readonly network?: SandboxNetwork;
+
+  constructor(
+    public readonly id: string,
+    public readonly rootDir: string,
+    private env: Record<string, string>,
+    private publicHost: string,
+    private onDestroyed: (id: string) => void,
+    private egress?: LocalEgress,
+    network?: SandboxNetwork
+  ) {
+    this.network = network ?? egress?.network;
+  }
+
+  /**
+   * Execute a command in the sandbox.
+   */
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+    if (options.timeoutMs || options.signal) {
+      return (await this.spawnBackground(command, options)).wait();
+    }
+
+    const result = await collectOutput(this.spawnShell(command, 'pipe', options));
+    return {
+      stdout: result.stdout.toString('utf-8'),
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+    };
+  }
+
+  /**
+   * Start a long-running command without waiting for it to exit.
+   * The handle's pid is the host process ID of the command's shell.
+   */
+  async spawnBackground(command: string, options: ExecOptions = {}): Promise<BackgroundProcess> {
+    const child = this.spawnShell(command, 'ignore', options);
+    const log = new ProcessLog();
+    const finished = trackProcess(child, (content, stream) => log.push(content, stream)).then(
+      (exitCode) => {
+        log.close();
+        return log.result(exitCode);
+      }
+    );
+
+    return applyExecLimits(
+      {
+        pid: child.pid ?? -1,
+        logs: () => log.stream(),
+        kill: async () => this.killProcessGroup(child),
+        wait: () => finished,
+      },
+      options
+    );
+  }
+
+  /**
+   * Execute a command and stream the output as it is produced.
+   */
+  async *execStream(command: string): AsyncIterable<string> {
+    const child = this.spawnShell(command, 'ignore');
+
+    yield* streamOutput(child, (content, stream) => {
+      this.emitOutput({
+        type: 'text',
+        content,
+        timestamp: new Date(),
+        ...(stream === 'stderr' && { metadata: { stream: 'stderr' } }),
+      });
+    });
+  }
+
+  /**
+   * Open an interactive shell on a pseudo-terminal.
+   */
+  async openTerminal(options: TerminalOptions = {}): Promise<SandboxTerminal> {
+    return openShellTerminal(this, options);
+  }
+
+  /**
+   * Write a file to the sandbox, creating parent directories as needed.
+   */
+  async writeFile(path: string, content: string): Promise<void> {
+    const target = this.resolvePath(path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content, 'utf-8');
+  }
+
+  /**
+   * Read a file from the sandbox.
+   */
+  async readFile(path: string): Promise<string> {
+    return readFile(this.resolvePath(path), 'utf-8');
+  }
+
+  /**
+   * Write raw bytes to a file, creating parent directories as needed.
+   */
+  async writeFileBytes(path: string, data: Uint8Array): Promise<void> {
+    const target = this.resolvePath(path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, data);
+  }
+
+  /**
+   * Read a file's raw bytes.
+   */
+  async readFileBytes(path: string): Promise<Buffer> {
+    return readFile(this.resolvePath(path));
+  }
+
+  /**
+   * List the direct children of a directory.
+   * Entry paths are reported in the sandbox's own (/home/user) layout.
+   */
+  async listDir(path: string): Promise<FileEntry[]> {
+    const dir = this.resolvePath(path);
+    const names = await readdir(dir);
+
+    return Promise.all(
+      names.map(async (name) => {
+        const stats = await lstat(join(dir, name));
+        return {
+          name,
+          path: posix.join(path, name),
+          type: stats.isSymbolicLink() ? 'symlink' : stats.isDirectory() ? 'dir' : 'file',
+          size: stats.size,
+          modifiedAt: stats.mtime,
+        } satisfies FileEntry;
+      })
+    );
+  }
+
+  /**
+   * Check whether a file or directory exists.
+   */
+  async exists(path: string): Promise<boolean> {
+    try {
+      await access(this.resolvePath(path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove a file or directory.
+   */
+  async remove(path: string): Promise<void> {
+    await rm(this.resolvePath(path), { recursive: true, force: true });
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    await rename(this.resolvePath(from), this.resolvePath(to));
+  }
+
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(path: string): Promise<void> {
+    await mkdir(this.resolvePath(path), { recursive: true });
+  }
+
+  /**
+   * Download a directory as a tar archive buffer.
+   * Excludes node_modules and other large directories to keep archive size manageable.
+   */
+  async downloadDir(path: string): Promise<Buffer> {
+    const excludes = DOWNLOAD_EXCLUDES.map((dir) => `--exclude=${dir}`);
+    const child = spawn('tar', ['-cf', '-', '-C', this.resolvePath(path), ...excludes, '.'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const result = await collectOutput(child);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to create tar archive: ${result.stderr}`);
+    }
+
+    return result.stdout;
+  }
+
+  /**
+   * Kill any processes started in the sandbox and delete its directory.
+   */
+  async destroy(): Promise<void> {
+    this.release();
+    await rm(this.rootDir, { recursive: true, force: true });
+    await rm(networkPolicyFile(this.rootDir), { force: true });
+  }
+
+  /**
+   * Kill any processes started in the sandbox and stop tracking it, leaving its
+   * directory in place.
+   */
+  release(): void {
+    this.status = 'stopped';
+    this.clearTimeout();
+
+    // Each shell runs in its own process group, which also covers
+    // background jobs it started (e.g. `nohup npm run dev &`)
+    for (const child of this.processes) {
+      this.killProcessGroup(child);
+    }
+    this.processes.clear();
+    this.egress?.proxy.close();
+
+    this.outputListeners.clear();
+    this.onDestroyed(this.id);
+  }
+
+  /**
+   * Subscribe to agent output.
+   */
+  onOutput(callback: (data: AgentOutput) => void): () => void {
+    this.outputListeners.add(callback);
+    return () => {
+      this.outputListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Get the host address for a port. Servers bind directly on the host,
+   * so the port is reachable as-is.
+   *
+   * @param port - The port number to get the host for
+   * @returns The host address (e.g., "localhost:3000")
+   */
+  getHost(port: number): string {
+    return `${this.publicHost}:${port}`;
+  }
+
+  /**
+   * Check if the sandbox has not been destroyed.
+   */
+  async isRunning(): Promise<boolean> {
+    return this.status === 'running' && existsSync(this.rootDir);
+  }
+
+  /**
+   * Measure current CPU, memory and disk usage.
+   */
+  async getResourceUsage(): Promise<ResourceUsage> {
+    return sampleResourceUsage(this);
+  }
+
+  /**
+   * Extend the sandbox timeout. The sandbox is destroyed when the timer fires.
+   *
+   * @param timeoutMs - New timeout in milliseconds from now
+   */
+  async setTimeout(timeoutMs: number): Promise<void> {
+    this.clearTimeout();
+    this.timeoutHandle = setTimeout(() => {
+      this.destroy().catch((error) => {
+        console.error(`[local] Failed to remove expired sandbox ${this.id}:`, error);
+      });
+    }, timeoutMs);
+    // Don't keep the host process alive just for the expiry timer
+    this.timeoutHandle.unref?.();
+  }
+
+  /**
+   * Spawn a bash shell for a command inside the sandbox directory.
+   * The shell leads its own process group so destroy() can kill everything it started.
+   */
+  private spawnShell(
+    command: string,
+    stdin: 'pipe' | 'ignore',
+    options: ExecOptions = {}
+  ): ChildProcess {
+    const child = spawn('bash', ['-c', this.rewriteCommand(command)], {
+      cwd: options.cwd ? this.resolvePath(options.cwd) : this.rootDir,
+      env: { ...this.env, ...options.env },
+      stdio: [stdin, 'pipe', 'pipe'],
+      detached: true,
+    });
+    this.processes.add(child);
+    child.on('close', () => this.processes.delete(child));
+    return child;
+  }
+
+  /**
+   * Terminate a shell and everything it started.
+   */
+  private killProcessGroup(child: ChildProcess): void {
+    if (!child.pid) {
+      return;
+    }
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      // Process group already gone
+    }
+  }
+
+  /**
+   * Point references to the virtual home directory at the sandbox directory.
+   */
+  private rewriteCommand(command: string): string {
+    return command.split(VIRTUAL_HOME).join(this.rootDir);
+  }
+
+  /**
+   * Map a sandbox path onto the host filesystem.
+   * Relative paths and paths under /home/user resolve inside the sandbox directory.
+   */
+  private resolvePath(path: string): string {
+    if (path === VIRTUAL_HOME || path.startsWith(`${VIRTUAL_HOME}/`)) {
+      return join(this.rootDir, path.slice(VIRTUAL_HOME.length));
+    }
+    return resolve(this.rootDir, path);
+  }
+
+  private clearTimeout(): void {
+    if (this.timeoutHandle) {
+      clearTimeout(this.timeoutHandle);
+      this.timeoutHandle = null;
+    }
+  }
+
+  /**
+   * Emit output to all listeners.
+   */
+  private emitOutput(data: AgentOutput): void {
+    for (const listener of this.outputListeners) {
+      listener(data);
+    }
+  }
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Local process sandbox provider implementation.
+ */
+export class LocalProcessProvider implements SandboxProvider {
+  name = 'local';
+
+  private activeSandboxes: Map<string, LocalSandboxWrapper> = new Map();
+  private baseDir: string;
+  private publicHost: string;
+
+  constructor(options: LocalProcessProviderOptions = {}) {
+    this.baseDir = options.baseDir ?? tmpdir();
+    this.publicHost = options.publicHost ?? 'localhost';
+  }
+
+  /**
+   * Create a new sandbox directory.
+   * Resource limits and templates are ignored - commands run on the host as-is.
+   * A network policy is applied through proxy environment variables, which programs
+   * are free to ignore; there is no isolation to enforce it with.
+   */
+  async create(config: SandboxConfig): Promise<Sandbox> {
+    const egress = await this.startEgress(config.network);
+    let wrapper: LocalSandboxWrapper | undefined;
+    try {
+      const rootDir = await mkdtemp(join(this.baseDir, SANDBOX_PREFIX));
+      await this.recordNetwork(rootDir, egress);
+      wrapper = this.wrap(basename(rootDir), rootDir, config.env, egress);
+      await wrapper.setTimeout(config.timeout ? config.timeout * 1000 : 300_000);
+      return wrapper;
+    } catch (error) {
+      // Releasing the sandbox stops its proxy; before that, stop the proxy itself
+      if (wrapper) {
+        wrapper.release();
+      } else {
+        egress?.proxy.close();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an existing sandbox by ID.
+   * Sandboxes whose directory still exists can be reattached after a restart.
+   * Their egress proxy didn't survive the restart, so a reattached sandbox's
+   * network policy is reported with enforcement 'none'.
+   */
+  async get(id: string): Promise<Sandbox | null> {
+    const cached = this.activeSandboxes.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const rootDir = join(this.baseDir, id);
+    if (!id.startsWith(SANDBOX_PREFIX) || basename(rootDir) !== id || !existsSync(rootDir)) {
+      return null;
+    }
+    return this.wrap(id, rootDir, {}, undefined, await this.readRecordedNetwork(rootDir));
+  }
+
+  /**
+   * List sandboxes created by this process.
+   */
+  async list(): Promise<Sandbox[]> {
+    return Array.from(this.activeSandboxes.values());
+  }
+
+  /**
+   * Destroy a sandbox by ID.
+   */
+  async destroy(id: string): Promise<void> {
+    const sandbox = await this.get(id);
+    if (sandbox) {
+      await sandbox.destroy();
+    }
+  }
+
+  /**
+   * Snapshot a sandbox by moving its directory aside.
+   * Files (including node_modules) survive; running processes are stopped.
+   */
+  async snapshot(sandboxId: string): Promise<SandboxSnapshot> {
+    const sandbox = (await this.get(sandboxId)) as LocalSandboxWrapper | null;
+    if (!sandbox) {
+      throw new Error(`Sandbox ${sandboxId} not found`);
+    }
+
+    const id = SNAPSHOT_PREFIX + sandboxId.slice(SANDBOX_PREFIX.length);
+    sandbox.release();
+    await rename(sandbox.rootDir, join(this.baseDir, id));
+    // A restored sandbox gets the network policy of its restore config
+    await rm(networkPolicyFile(sandbox.rootDir), { force: true });
+
+    return { id, provider: this.name, createdAt: new Date() };
+  }
+
+  /**
+   * Turn a snapshot directory back into a sandbox.
+   */
+  async restoreFromSnapshot(snapshotId: string, config: SandboxConfig): Promise<Sandbox> {
+    const snapshotDir = this.resolveSnapshot(snapshotId);
+    const id = SANDBOX_PREFIX + snapshotId.slice(SNAPSHOT_PREFIX.length);
+    const rootDir = join(this.baseDir, id);
+
+    const egress = await this.startEgress(config.network);
+    let wrapper: LocalSandboxWrapper | undefined;
+    try {
+      await rename(snapshotDir, rootDir);
+      await this.recordNetwork(rootDir, egress);
+      wrapper = this.wrap(id, rootDir, config.env, egress);
+      await wrapper.setTimeout(config.timeout ? config.timeout * 1000 : 300_000);
+      return wrapper;
+    } catch (error) {
+      if (wrapper) {
+        wrapper.release();
+      } else {
+        egress?.proxy.close();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a snapshot directory.
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await rm(this.resolveSnapshot(snapshotId), { recursive: true, force: true });
+  }
+
+  /**
+   * Map a snapshot ID to its directory, refusing IDs that would escape the base directory.
+   */
+  private resolveSnapshot(snapshotId: string): string {
+    const snapshotDir = join(this.baseDir, snapshotId);
+    if (!snapshotId.startsWith(SNAPSHOT_PREFIX) || basename(snapshotDir) !== snapshotId) {
+      throw new Error(`Invalid local snapshot ID: ${snapshotId}`);
+    }
+    return snapshotDir;
+  }
+
+  /**
+   * Start an egress proxy for a network policy, if it restricts anything.
+   */
+  private async startEgress(policy?: NetworkPolicy): Promise<LocalEgress | undefined> {
+    const resolved = resolveNetworkPolicy(policy);
+    if (!resolved) {
+      return undefined;
+    }
+    return {
+      proxy: await startEgressProxy(resolved),
+      network: { ...resolved, enforcement: 'proxy', unenforced: [] },
+    };
+  }
+
+  /**
+   * Record a sandbox's network policy next to its directory, if it has one.
+   */
+  private async recordNetwork(rootDir: string, egress?: LocalEgress): Promise<void> {
+    if (egress) {
+      await writeFile(networkPolicyFile(rootDir), JSON.stringify(egress.network));
+    }
+  }
+
+  /**
+   * The network policy recorded for a sandbox, as applied without its proxy:
+   * not enforced at all.
+   */
+  private async readRecordedNetwork(rootDir: string): Promise<SandboxNetwork | undefined> {
+    let recorded: SandboxNetwork;
+    try {
+      recorded = JSON.parse(await readFile(networkPolicyFile(rootDir), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    return {
+      allowHosts: recorded.allowHosts,
+      denyHosts: recorded.denyHosts,
+      enforcement: 'none',
+      unenforced: [
+        ...(recorded.allowHosts ? ['allowHosts'] : []),
+        ...(recorded.denyHosts.length > 0 ? ['denyHosts'] : []),
+      ],
+    };
+  }
+
+  private wrap(
+    id: string,
+    rootDir: string,
+    env: Record<string, string> = {},
+    egress?: LocalEgress,
+    network?: SandboxNetwork
+  ): LocalSandboxWrapper {
+    const wrapper = new LocalSandboxWrapper(
+      id,
+      rootDir,
+      {
+        ...(process.env as Record<string, string>),
+        ...env,
+        ...(egress && egressProxyEnv(egress.proxy.url)),
+        HOME: rootDir,
+      },
+      this.publicHost,
+      (sandboxId) => this.activeSandboxes.delete(sandboxId),
+      egress,
+      network
+    );
+    this.activeSandboxes.set(id, wrapper);
+    return wrapper;
+  }
+}
+
+/**
+ * Default local process provider instance.
+ */
+export const localProcessProvider = new LocalProcessProvider();
@@ -0,0 +1,92 @@
+/**
+ * Sandbox Pool Tests
+ * ==================
+ *
+ * Uses the local process provider so pooled sandboxes are real temp directories.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { LocalProcessProvider } from './local.js';
+import { SandboxPool } from './pool.js';
+
+let baseDir: string;
+let provider: LocalProcessProvider;
+let pool: SandboxPool | undefined;
+
+beforeAll(async () => {
+  baseDir = await mkdtemp(join(tmpdir(), 'sandbox-pool-test-'));
+  provider = new LocalProcessProvider({ baseDir });
+});
+
+afterAll(async () => {
+  await rm(baseDir, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  await pool?.close();
+  pool = undefined;
+});
+
+describe('SandboxPool', () => {
+  it('warms initialized sandboxes and refills after a lease', async () => {
+    pool = new SandboxPool({
+      provider,
+      minSize: 2,
+      initialize: (sandbox) => sandbox.writeFile('/home/user/.toolchain', 'ready'),
+    });
+    await pool.start();
+    expect(pool.stats()).toMatchObject({ idle: 2, warming: 0 });
+
+    const lease = await pool.lease();
+
+    expect(lease.warm).toBe(true);
+    expect(await lease.sandbox.readFile('/home/user/.toolchain')).toBe('ready');
+    expect(pool.has(lease.sandbox.id)).toBe(false);
+    expect(pool.stats()).toMatchObject({ idle: 1, warming: 1, leases: 1, warmLeases: 1 });
+
+    await lease.sandbox.destroy();
+  });
+
+  it('replaces idle sandboxes that are no longer running', async () => {
+    pool = new SandboxPool({ provider, minSize: 1 });
+    await pool.start();
+    const [deadId] = (await provider.list()).map((sandbox) => sandbox.id);
+    await provider.destroy(deadId);
+
+    const lease = await pool.lease();
+
+    expect(lease.sandbox.id).not.toBe(deadId);
+    expect(await lease.sandbox.isRunning()).toBe(true);
+    await lease.sandbox.destroy();
+  });
+
+  it('creates a sandbox on demand when none is warm', async () => {
+    pool = new SandboxPool({ provider, minSize: 0 });
+
+    const lease = await pool.lease({ timeout: 60 });
+
+    expect(lease.warm).toBe(false);
+    expect(pool.stats()).toMatchObject({ leases: 1, warmLeases: 0 });
+    expect(pool.stats().maxWaitMs).toBeGreaterThanOrEqual(lease.waitMs);
+    await lease.sandbox.destroy();
+  });
+
+  it('keeps released sandboxes up to maxSize and destroys the rest', async () => {
+    pool = new SandboxPool({ provider, minSize: 0, maxSize: 1 });
+    const first = (await pool.lease()).sandbox;
+    const second = (await pool.lease()).sandbox;
+
+    await pool.release(first);
+    await pool.release(second);
+
+    expect(pool.has(first.id)).toBe(true);
+    expect(await second.isRunning()).toBe(false);
+
+    await pool.close();
+    expect(await first.isRunning()).toBe(false);
+    await expect(pool.lease()).rejects.toThrow('closed');
+  });
+});
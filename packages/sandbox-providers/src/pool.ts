@@ -0,0 +1,323 @@
+/**
+ * Sandbox Pool
+ * ============
+ *
+ * Keeps pre-initialized sandboxes warm for one provider and template so callers
+ * don't wait on sandbox creation and toolchain setup. Leased sandboxes belong to
+ * the caller from then on (destroy them as usual); only sandboxes nothing has run
+ * in should be handed back with release().
+ *
+ * Pooled sandboxes are shared across callers, so the pool config should not carry
+ * per-caller secrets in `env`.
+ */
+
+import type { Sandbox, SandboxConfig, SandboxProvider } from './interface.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** How often idle sandboxes are health-checked and their timeouts refreshed */
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 60_000;
+
+export interface SandboxPoolOptions {
+  /** Provider that creates the pooled sandboxes */
+  provider: SandboxProvider;
+  /** Config every pooled sandbox is created with */
+  config?: SandboxConfig;
+  /** Idle sandboxes kept ready (default: 1) */
+  minSize?: number;
+  /** Most idle sandboxes kept; released sandboxes beyond this are destroyed (default: minSize) */
+  maxSize?: number;
+  /** Prepares a new sandbox before it joins the pool, e.g. installs the toolchain */
+  initialize?: (sandbox: Sandbox) => Promise<void>;
+  /** Interval between health checks of idle sandboxes (default: 60s) */
+  healthCheckIntervalMs?: number;
+  /** Called when warming a sandbox fails in the background */
+  onError?: (error: unknown) => void;
+}
+
+export interface SandboxLeaseOptions {
+  /** Sandbox timeout in seconds, applied when the sandbox is handed out */
+  timeout?: number;
+}
+
+export interface SandboxLease {
+  sandbox: Sandbox;
+  /** How long the caller waited for the sandbox */
+  waitMs: number;
+  /** Whether the sandbox was already warm (false if it had to be created for this lease) */
+  warm: boolean;
+}
+
+export interface SandboxPoolStats {
+  /** Sandboxes ready to be leased */
+  idle: number;
+  /** Sandboxes being created or initialized */
+  warming: number;
+  /** Total leases handed out */
+  leases: number;
+  /** Leases served by an already warm sandbox */
+  warmLeases: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+// ============================================================================
+// Sandbox Pool
+// ============================================================================
+
+export class SandboxPool {
+  private idle: Sandbox[] = [];
+  private warming = 0;
+  /** Leases waiting for a sandbox that is already warming; null means it failed */
+  private waiters: Array<(sandbox: Sandbox | null) => void> = [];
+  private pending: Set<Promise<void>> = new Set();
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  private leases = 0;
+  private warmLeases = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  private readonly minSize: number;
+  private readonly maxSize: number;
+
+  constructor(private readonly options: SandboxPoolOptions) {
+    this.minSize = options.minSize ?? 1;
+    this.maxSize = Math.max(options.maxSize ?? this.minSize, this.minSize);
+  }
+
+  /** Name of the provider the pool creates sandboxes with */
+  get providerName(): string {
+    return this.options.provider.name;
+  }
+
+  /**
+   * Start warming sandboxes and health-checking them.
+   * Resolves once the initial sandboxes are ready (failures go to onError).
+   */
+  async start(): Promise<void> {
+    if (!this.healthCheckTimer && !this.closed) {
+      this.healthCheckTimer = setInterval(
+        () => void this.checkHealth(),
+        this.options.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS
+      );
+      this.healthCheckTimer.unref?.();
+    }
+    this.fill();
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Take a sandbox from the pool, creating one if none is warm.
+   * The pool refills in the background afterwards.
+   */
+  async lease(options: SandboxLeaseOptions = {}): Promise<SandboxLease> {
+    const started = Date.now();
+    let sandbox: Sandbox | null = null;
+    let warm = false;
+
+    while (!sandbox) {
+      if (this.closed) {
+        throw new Error('Sandbox pool is closed');
+      }
+
+      const idle = this.idle.shift();
+      if (idle) {
+        if (await this.isHealthy(idle)) {
+          sandbox = idle;
+          warm = true;
+        } else {
+          this.discard(idle);
+        }
+        continue;
+      }
+
+      // A sandbox is already on its way - wait for it rather than starting another
+      if (this.warming > this.waiters.length) {
+        sandbox = await new Promise<Sandbox | null>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      sandbox = await this.createSandbox();
+    }
+
+    this.fill();
+
+    if (options.timeout) {
+      await sandbox.setTimeout(options.timeout * 1000);
+    }
+
+    const waitMs = Date.now() - started;
+    this.leases++;
+    this.warmLeases += warm ? 1 : 0;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+
+    return { sandbox, waitMs, warm };
+  }
+
+  /**
+   * Return an unused sandbox to the pool.
+   * It is destroyed instead if the pool is full, closed, or the sandbox is unhealthy.
+   */
+  async release(sandbox: Sandbox): Promise<void> {
+    if (this.closed || this.idle.length >= this.maxSize || !(await this.isHealthy(sandbox))) {
+      await sandbox.destroy().catch(() => {
+        // Already gone
+      });
+      return;
+    }
+    this.handOut(sandbox);
+  }
+
+  /**
+   * Check whether a sandbox is currently idle in this pool.
+   */
+  has(sandboxId: string): boolean {
+    return this.idle.some((sandbox) => sandbox.id === sandboxId);
+  }
+
+  /**
+   * Current pool size and lease wait metrics.
+   */
+  stats(): SandboxPoolStats {
+    return {
+      idle: this.idle.length,
+      warming: this.warming,
+      leases: this.leases,
+      warmLeases: this.warmLeases,
+      averageWaitMs: this.leases ? Math.round(this.totalWaitMs / this.leases) : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Stop warming and destroy all idle sandboxes. Leased sandboxes are unaffected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+    for (const waiter of this.waiters.splice(0)) {
+      waiter(null);
+    }
+
+    await Promise.all(this.pending);
+    await Promise.all(
+      this.idle.splice(0).map((sandbox) =>
+        sandbox.destroy().catch(() => {
+          // Already gone
+        })
+      )
+    );
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  /**
+   * Warm sandboxes in the background until minSize are idle or on their way.
+   */
+  private fill(): void {
+    while (!this.closed && this.idle.length + this.warming < this.minSize) {
+      const task = this.warmOne();
+      this.pending.add(task);
+      void task.finally(() => this.pending.delete(task));
+    }
+  }
+
+  private async warmOne(): Promise<void> {
+    this.warming++;
+    let sandbox: Sandbox | null = null;
+    try {
+      sandbox = await this.createSandbox();
+    } catch (error) {
+      this.options.onError?.(error);
+    } finally {
+      this.warming--;
+    }
+
+    if (sandbox && this.closed) {
+      await sandbox.destroy().catch(() => {
+        // Already gone
+      });
+      return;
+    }
+    if (sandbox) {
+      this.handOut(sandbox);
+    } else {
+      // Wake a waiting lease so it creates its own sandbox
+      this.waiters.shift()?.(null);
+    }
+  }
+
+  /**
+   * Give a ready sandbox to the first waiting lease, or park it as idle.
+   */
+  private handOut(sandbox: Sandbox): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(sandbox);
+    } else {
+      this.idle.push(sandbox);
+    }
+  }
+
+  private async createSandbox(): Promise<Sandbox> {
+    const sandbox = await this.options.provider.create(this.options.config ?? {});
+    try {
+      await this.options.initialize?.(sandbox);
+    } catch (error) {
+      await sandbox.destroy().catch(() => {
+        // Already gone
+      });
+      throw error;
+    }
+    return sandbox;
+  }
+
+  private async isHealthy(sandbox: Sandbox): Promise<boolean> {
+    return sandbox.isRunning().catch(() => false);
+  }
+
+  /**
+   * Drop a dead sandbox without waiting for its teardown.
+   */
+  private discard(sandbox: Sandbox): void {
+    sandbox.destroy().catch(() => {
+      // Already gone
+    });
+  }
+
+  /**
+   * Replace dead idle sandboxes and keep the live ones from timing out.
+   */
+  private async checkHealth(): Promise<void> {
+    const timeoutMs = this.options.config?.timeout ? this.options.config.timeout * 1000 : null;
+
+    await Promise.all(
+      [...this.idle].map(async (sandbox) => {
+        const healthy =
+          (await this.isHealthy(sandbox)) &&
+          (!timeoutMs ||
+            (await sandbox.setTimeout(timeoutMs).then(
+              () => true,
+              () => false
+            )));
+        const index = this.idle.indexOf(sandbox);
+        if (!healthy && index !== -1) {
+          this.idle.splice(index, 1);
+          this.discard(sandbox);
+        }
+      })
+    );
+
+    this.fill();
+  }
+}
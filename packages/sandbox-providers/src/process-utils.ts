@@ -0,0 +1,157 @@
+/**
+ * Child Process Utilities
+ * =======================
+ *
+ * Helpers shared by providers that drive sandboxes through local child processes
+ * (the Docker CLI, or a plain shell for the local provider).
+ */
+
+import type { ChildProcess } from 'node:child_process';
+
+/** How long to wait for stdio to close after a process exits */
+const PIPE_DRAIN_GRACE_MS = 250;
+
+export interface CollectedOutput {
+  stdout: Buffer;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Wait for a child process to exit and collect its output.
+ * Never rejects; spawn errors are reported as exit code 1 with the error in stderr.
+ * Resolving twice is harmless, so whichever of 'close' or the post-exit grace period
+ * comes first wins.
+ *
+ * @param child - Process spawned with piped stdio
+ * @param input - Optional data written to stdin before it is closed
+ */
+export function collectOutput(
+  child: ChildProcess,
+  input?: string | Buffer
+): Promise<CollectedOutput> {
+  return new Promise((resolve) => {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    child.on('error', (error) => {
+      resolve({ stdout: Buffer.alloc(0), stderr: String(error), exitCode: 1 });
+    });
+
+    const finish = (code: number | null) => {
+      resolve({
+        stdout: Buffer.concat(stdout),
+        stderr: Buffer.concat(stderr).toString('utf-8'),
+        exitCode: code ?? 1,
+      });
+    };
+
+    child.on('close', finish);
+
+    // A background job (`cmd &`) that inherited stdout keeps the pipes open after the
+    // shell exits. Give the pipes a moment to drain, then stop waiting for them.
+    child.on('exit', (code) => {
+      setTimeout(() => {
+        child.stdout?.destroy();
+        child.stderr?.destroy();
+        finish(code);
+      }, PIPE_DRAIN_GRACE_MS).unref();
+    });
+
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    } else {
+      child.stdin?.end();
+    }
+  });
+}
+
+/**
+ * Forward a child process's output as it is produced and resolve with its exit code.
+ * Follows the same rules as collectOutput: never rejects, and stops waiting for
+ * pipes held open by background jobs shortly after the process exits.
+ *
+ * @param child - Process spawned with piped stdout/stderr
+ * @param onChunk - Called for every chunk of output
+ */
+export function trackProcess(
+  child: ChildProcess,
+  onChunk: (content: string, stream: 'stdout' | 'stderr') => void
+): Promise<number> {
+  return new Promise((resolve) => {
+    child.stdout?.on('data', (chunk: Buffer) => onChunk(chunk.toString('utf-8'), 'stdout'));
+    child.stderr?.on('data', (chunk: Buffer) => onChunk(chunk.toString('utf-8'), 'stderr'));
+
+    child.on('error', (error) => {
+      onChunk(String(error), 'stderr');
+      resolve(1);
+    });
+
+    child.on('close', (code) => resolve(code ?? 1));
+    child.on('exit', (code) => {
+      setTimeout(() => {
+        child.stdout?.destroy();
+        child.stderr?.destroy();
+        resolve(code ?? 1);
+      }, PIPE_DRAIN_GRACE_MS).unref();
+    });
+  });
+}
+
+/**
+ * Yield a child process's stdout and stderr chunks as they are produced.
+ * If the consumer stops iterating early, the process is killed.
+ *
+ * @param child - Process spawned with piped stdout/stderr
+ * @param onChunk - Called for every chunk before it is yielded
+ */
+export async function* streamOutput(
+  child: ChildProcess,
+  onChunk?: (content: string, stream: 'stdout' | 'stderr') => void
+): AsyncIterable<string> {
+  const queue: string[] = [];
+  let done = false;
+  let notify: (() => void) | null = null;
+  const wake = () => {
+    notify?.();
+    notify = null;
+  };
+
+  const push = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+    const content = chunk.toString('utf-8');
+    onChunk?.(content, stream);
+    queue.push(content);
+    wake();
+  };
+
+  child.stdout?.on('data', push('stdout'));
+  child.stderr?.on('data', push('stderr'));
+  child.on('error', (error) => {
+    queue.push(`Error: ${String(error)}`);
+    done = true;
+    wake();
+  });
+  child.on('close', () => {
+    done = true;
+    wake();
+  });
+
+  try {
+    while (!done || queue.length > 0) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      await new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+    }
+  } finally {
+    if (!done) {
+      child.kill();
+    }
+  }
+}
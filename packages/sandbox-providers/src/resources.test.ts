@@ -0,0 +1,77 @@
+/**
+ * Resource Usage Tests
+ * ====================
+ *
+ * Probe output parsing, plus a real sample from a local sandbox.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LocalProcessProvider } from './local.js';
+import { parseResourceProbe } from './resources.js';
+
+let baseDir: string;
+
+beforeAll(async () => {
+  baseDir = await mkdtemp(join(tmpdir(), 'resources-test-'));
+});
+
+afterAll(async () => {
+  await rm(baseDir, { recursive: true, force: true });
+});
+
+describe('parseResourceProbe', () => {
+  it('computes CPU use over the sample window', () => {
+    const usage = parseResourceProbe(
+      [
+        'cpu_start=1000000 5000000000',
+        'cpu_end=1500000 6000000000',
+        'memory=268435456 1073741824',
+        'disk=2147483648 10737418240',
+      ].join('\n')
+    );
+
+    expect(usage).toEqual({
+      cpuPercent: 50,
+      memoryUsedBytes: 268435456,
+      memoryLimitBytes: 1073741824,
+      diskUsedBytes: 2147483648,
+      diskTotalBytes: 10737418240,
+    });
+  });
+
+  it('treats unlimited cgroup memory as no limit', () => {
+    const probe = ['cpu_start=0 0', 'cpu_end=0 1000000000', 'disk=1 2'];
+
+    expect(
+      parseResourceProbe([...probe, 'memory=100 max'].join('\n')).memoryLimitBytes
+    ).toBeUndefined();
+    expect(
+      parseResourceProbe([...probe, 'memory=100 9223372036854771712'].join('\n')).memoryLimitBytes
+    ).toBeUndefined();
+  });
+
+  it('rejects output it cannot parse', () => {
+    expect(() => parseResourceProbe('bash: df: command not found')).toThrow(
+      'Unexpected resource probe output'
+    );
+  });
+});
+
+describe('getResourceUsage', () => {
+  it('samples a local sandbox', async () => {
+    const sandbox = await new LocalProcessProvider({ baseDir }).create({});
+    try {
+      const usage = await sandbox.getResourceUsage();
+
+      expect(usage.cpuPercent).toBeGreaterThanOrEqual(0);
+      expect(usage.memoryUsedBytes).toBeGreaterThan(0);
+      expect(usage.diskUsedBytes).toBeGreaterThan(0);
+      expect(usage.diskTotalBytes).toBeGreaterThan(usage.diskUsedBytes);
+    } finally {
+      await sandbox.destroy();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Resource Usage Sampling
+ * =======================
+ *
+ * Measures a sandbox's CPU, memory and disk consumption with a shell probe run
+ * inside it, so every provider reports usage the same way. The probe reads the
+ * sandbox's cgroup (v2, then v1) and falls back to /proc for VM-based sandboxes.
+ */
+
+import type { ExecResult, ResourceUsage } from './interface.js';
+
+/** How long the probe measures CPU time over */
+const CPU_SAMPLE_SECONDS = 1;
+
+/**
+ * Prints key=value lines: cumulative CPU microseconds before and after the sample
+ * window (with wall-clock nanoseconds), memory used/limit and workspace disk used/total.
+ * A limit of "max" or a huge v1 value means unlimited.
+ */
+const RESOURCE_PROBE = `
+cg=/sys/fs/cgroup
+cpu_usec() {
+  if [ -f $cg/cpu.stat ]; then awk '/^usage_usec/ {print $2}' $cg/cpu.stat
+  elif [ -f $cg/cpuacct/cpuacct.usage ]; then echo $(( $(cat $cg/cpuacct/cpuacct.usage) / 1000 ))
+  else awk '/^cpu / {printf "%.0f\\n", ($2 + $3 + $4 + $7 + $8) * 10000}' /proc/stat
+  fi
+}
+echo "cpu_start=$(cpu_usec) $(date +%s%N)"
+sleep ${CPU_SAMPLE_SECONDS}
+echo "cpu_end=$(cpu_usec) $(date +%s%N)"
+if [ -f $cg/memory.current ]; then
+  echo "memory=$(cat $cg/memory.current) $(cat $cg/memory.max 2>/dev/null)"
+elif [ -f $cg/memory/memory.usage_in_bytes ]; then
+  echo "memory=$(cat $cg/memory/memory.usage_in_bytes) $(cat $cg/memory/memory.limit_in_bytes)"
+else
+  awk '/^MemTotal/ {t = $2} /^MemAvailable/ {a = $2} END {printf "memory=%.0f %.0f\\n", (t - a) * 1024, t * 1024}' /proc/meminfo
+fi
+echo "disk=$(df -P -B1 /home/user | awk 'NR == 2 {print $3, $2}')"
+`;
+
+/** cgroup v1 reports "no limit" as a value near 2^63 */
+const UNLIMITED_THRESHOLD = 2 ** 60;
+
+/**
+ * Parse a limit value, treating "max" and cgroup v1's sentinel as unlimited.
+ */
+function parseLimit(value: string | undefined): number | undefined {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 && limit < UNLIMITED_THRESHOLD ? limit : undefined;
+}
+
+/**
+ * Parse the probe's output into a usage sample.
+ * Exported for tests.
+ */
+export function parseResourceProbe(output: string): ResourceUsage {
+  const fields = new Map<string, string[]>();
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      fields.set(
+        line.slice(0, separator),
+        line
+          .slice(separator + 1)
+          .trim()
+          .split(/\s+/)
+      );
+    }
+  }
+
+  const [cpuStart, startNs] = (fields.get('cpu_start') ?? []).map(Number);
+  const [cpuEnd, endNs] = (fields.get('cpu_end') ?? []).map(Number);
+  const elapsedUsec = (endNs - startNs) / 1000;
+  const cpuPercent = elapsedUsec > 0 ? ((cpuEnd - cpuStart) / elapsedUsec) * 100 : NaN;
+
+  const [memoryUsed, memoryLimit] = fields.get('memory') ?? [];
+  const [diskUsed, diskTotal] = fields.get('disk') ?? [];
+  if (!Number.isFinite(cpuPercent) || memoryUsed === undefined || diskUsed === undefined) {
+    throw new Error(`Unexpected resource probe output: ${output.trim().slice(0, 200)}`);
+  }
+
+  return {
+    cpuPercent: Math.max(0, Math.round(cpuPercent * 10) / 10),
+    memoryUsedBytes: Number(memoryUsed),
+    memoryLimitBytes: parseLimit(memoryLimit),
+    diskUsedBytes: Number(diskUsed),
+    diskTotalBytes: parseLimit(diskTotal),
+  };
+}
+
+/**
+ * Sample a sandbox's resource usage. Takes about a second (the CPU sample window).
+ *
+ * @param sandbox - Anything that can run the probe, normally the sandbox itself
+ */
+export async function sampleResourceUsage(sandbox: {
+  exec(command: string): Promise<ExecResult>;
+}): Promise<ResourceUsage> {
+  const result = await sandbox.exec(RESOURCE_PROBE);
+  if (result.exitCode !== 0) {
+    throw new Error(`Resource probe failed: ${result.stderr.trim()}`);
+  }
+  return parseResourceProbe(result.stdout);
+}
@@ -0,0 +1,128 @@
+/**
+ * Interactive Terminals
+ * =====================
+ *
+ * Provider-independent PTY sessions for sandboxes whose API has no terminal
+ * support. The shell runs under util-linux `script`, which gives it a real
+ * pseudo-terminal; input reaches it through a FIFO written with exec(), and
+ * its output is the log of a background process.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  BackgroundProcess,
+  ExecOptions,
+  ExecResult,
+  SandboxTerminal,
+  TerminalOptions,
+} from './interface.js';
+
+export const DEFAULT_TERMINAL_COLS = 80;
+export const DEFAULT_TERMINAL_ROWS = 24;
+
+/** Largest input chunk passed through one exec() (base64 inflates it by a third) */
+const MAX_INPUT_CHUNK_BYTES = 32 * 1024;
+
+/** Writes give up after this long, e.g. when the shell exited and nothing reads the FIFO */
+const WRITE_TIMEOUT_SECONDS = 10;
+
+/**
+ * Validate a terminal dimension.
+ */
+function terminalSize(value: number | undefined, fallback: number): number {
+  const size = value ?? fallback;
+  if (!Number.isInteger(size) || size < 1 || size > 1000) {
+    throw new Error(`Invalid terminal size: ${value}`);
+  }
+  return size;
+}
+
+/**
+ * Open a shell on a pseudo-terminal using only exec() and spawnBackground().
+ *
+ * @param sandbox - Sandbox to run the shell in
+ * @param options - Terminal size, working directory and environment
+ */
+export async function openShellTerminal(
+  sandbox: {
+    exec(command: string, options?: ExecOptions): Promise<ExecResult>;
+    spawnBackground(command: string, options?: ExecOptions): Promise<BackgroundProcess>;
+  },
+  options: TerminalOptions = {}
+): Promise<SandboxTerminal> {
+  const cols = terminalSize(options.cols, DEFAULT_TERMINAL_COLS);
+  const rows = terminalSize(options.rows, DEFAULT_TERMINAL_ROWS);
+  const dir = `/tmp/terminal-${randomUUID()}`;
+  const input = `${dir}/input`;
+
+  const setup = await sandbox.exec(
+    `command -v script > /dev/null || { echo "util-linux script is not installed" >&2; exit 1; }; ` +
+      `mkdir -p ${dir} && mkfifo ${input}`
+  );
+  if (setup.exitCode !== 0) {
+    throw new Error(`Failed to open terminal: ${setup.stderr.trim() || setup.stdout.trim()}`);
+  }
+
+  // The pid file lets resize() find the shell's pty. Opening the FIFO read-write
+  // keeps a writer attached, so the shell doesn't see EOF between writes.
+  const shell = `echo $$ > ${dir}/pid; stty cols ${cols} rows ${rows}; exec bash -il`;
+  const process = await sandbox.spawnBackground(
+    `exec 3<> ${input}; exec script -qfec '${shell}' /dev/null <&3 3<&-`,
+    { cwd: options.cwd, env: { TERM: 'xterm-256color', ...options.env } }
+  );
+
+  let exited = false;
+  const exitCode = process.wait().then((result) => {
+    exited = true;
+    return result.exitCode;
+  });
+
+  // Keep input in order even when callers don't await each write
+  let pending: Promise<void> = Promise.resolve();
+  const send = async (data: string) => {
+    const bytes = Buffer.from(data, 'utf-8');
+    for (let offset = 0; offset < bytes.length; offset += MAX_INPUT_CHUNK_BYTES) {
+      if (exited) {
+        throw new Error('Terminal has exited');
+      }
+      const chunk = bytes.subarray(offset, offset + MAX_INPUT_CHUNK_BYTES).toString('base64');
+      const result = await sandbox.exec(
+        `printf %s ${chunk} | base64 -d | timeout ${WRITE_TIMEOUT_SECONDS} tee ${input} > /dev/null`
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Failed to write to terminal: ${result.stderr.trim()}`);
+      }
+    }
+  };
+
+  return {
+    output: () => process.logs(),
+
+    write(data: string): Promise<void> {
+      const write = pending.then(() => send(data));
+      pending = write.catch(() => {
+        // Reported to this write's caller; later writes still go through
+      });
+      return write;
+    },
+
+    async resize(newCols: number, newRows: number): Promise<void> {
+      const width = terminalSize(newCols, DEFAULT_TERMINAL_COLS);
+      const height = terminalSize(newRows, DEFAULT_TERMINAL_ROWS);
+      // Resizing the pty sends SIGWINCH to whatever runs in the foreground
+      const result = await sandbox.exec(
+        `stty -F "$(readlink /proc/$(cat ${dir}/pid)/fd/0)" cols ${width} rows ${height}`
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Failed to resize terminal: ${result.stderr.trim()}`);
+      }
+    },
+
+    async close(): Promise<void> {
+      await process.kill();
+      await sandbox.exec(`rm -rf ${dir}`);
+    },
+
+    wait: () => exitCode,
+  };
+}
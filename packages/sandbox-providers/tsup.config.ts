@@ -1,7 +1,18 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/interface.ts', 'src/e2b.ts', 'src/daytona.ts'],
+  entry: [
+    'src/index.ts',
+    'src/interface.ts',
+    'src/e2b.ts',
+    'src/daytona.ts',
+    'src/docker.ts',
+    'src/local.ts',
+    'src/pool.ts',
+    'src/conformance.ts',
+  ],
+  // The conformance suite is only loaded by test runners, which provide vitest
+  external: ['vitest'],
   format: ['esm'],
   dts: true,
   clean: true,